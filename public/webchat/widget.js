@@ -0,0 +1,289 @@
+// Studio Libra web chat widget.
+//
+// Embed with:
+//   <script src="https://<bot server>/webchat/widget.js" async></script>
+//
+// Connects over WebSocket and falls back to Server-Sent Events when the
+// socket can't be opened. The visitor token is kept in localStorage so
+// the conversation survives page loads.
+(function () {
+  'use strict';
+
+  var script = document.currentScript;
+  var server = (script && new URL(script.src).origin) || location.origin;
+  var TOKEN_KEY = 'studio-libra-webchat-token';
+  var RECONNECT_DELAY = 3000;
+
+  var token = localStorage.getItem(TOKEN_KEY);
+  var socket = null;
+  var events = null;
+  var useSse = false;
+  var typingTimer = null;
+
+  // --- Layout -------------------------------------------------------------
+
+  var style = document.createElement('style');
+  style.textContent = [
+    '.slc-chat-button{position:fixed;bottom:20px;right:20px;width:56px;height:56px;border-radius:50%;border:0;background:#6c3ce0;color:#fff;font-size:26px;cursor:pointer;box-shadow:0 4px 12px rgba(0,0,0,.25);z-index:2147483000}',
+    '.slc-chat{position:fixed;bottom:88px;right:20px;width:340px;max-width:calc(100vw - 40px);height:480px;max-height:calc(100vh - 120px);display:none;flex-direction:column;background:#fff;border-radius:12px;box-shadow:0 8px 24px rgba(0,0,0,.2);font:14px/1.4 system-ui,sans-serif;overflow:hidden;z-index:2147483000}',
+    '.slc-chat.open{display:flex}',
+    '.slc-chat header{background:#6c3ce0;color:#fff;padding:12px 16px;font-weight:600}',
+    '.slc-log{flex:1;overflow-y:auto;padding:12px;background:#f6f5fb}',
+    '.slc-msg{max-width:85%;margin:4px 0;padding:8px 12px;border-radius:12px;white-space:pre-wrap;word-wrap:break-word}',
+    '.slc-bot{background:#fff;margin-right:auto}',
+    '.slc-user{background:#6c3ce0;color:#fff;margin-left:auto}',
+    '.slc-msg img{max-width:100%;border-radius:8px;display:block}',
+    '.slc-options{display:flex;flex-direction:column;gap:6px;margin-top:8px}',
+    '.slc-options button{text-align:left;padding:8px;border:1px solid #d9d3f5;border-radius:8px;background:#fff;cursor:pointer}',
+    '.slc-options small{display:block;color:#777}',
+    '.slc-typing{color:#777;font-style:italic;padding:0 12px 8px;min-height:18px;background:#f6f5fb}',
+    '.slc-chat form{display:flex;border-top:1px solid #eee}',
+    '.slc-chat input{flex:1;border:0;padding:12px;font:inherit;outline:none}',
+    '.slc-chat form button{border:0;background:none;color:#6c3ce0;font-weight:600;padding:0 16px;cursor:pointer}',
+  ].join('');
+  document.head.appendChild(style);
+
+  var button = document.createElement('button');
+  button.className = 'slc-chat-button';
+  button.setAttribute('aria-label', 'Chat with Studio Libra');
+  button.textContent = '💬';
+
+  var panel = document.createElement('div');
+  panel.className = 'slc-chat';
+  panel.innerHTML =
+    '<header>Studio Libra</header>' +
+    '<div class="slc-log" aria-live="polite"></div>' +
+    '<div class="slc-typing"></div>' +
+    '<form><input placeholder="Type a message..." aria-label="Message" autocomplete="off"><button type="submit">Send</button></form>';
+
+  document.body.appendChild(panel);
+  document.body.appendChild(button);
+
+  var log = panel.querySelector('.slc-log');
+  var typing = panel.querySelector('.slc-typing');
+  var form = panel.querySelector('form');
+  var input = panel.querySelector('input');
+
+  button.addEventListener('click', function () {
+    panel.classList.toggle('open');
+    if (panel.classList.contains('open')) {
+      input.focus();
+      if (!socket && !events) {
+        connect();
+      }
+    }
+  });
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var text = input.value.trim();
+    if (!text) {
+      return;
+    }
+    input.value = '';
+    addBubble('user').textContent = text;
+    send({ text: text });
+  });
+
+  // --- Rendering ----------------------------------------------------------
+
+  function addBubble(from) {
+    var bubble = document.createElement('div');
+    bubble.className = 'slc-msg slc-' + from;
+    log.appendChild(bubble);
+    log.scrollTop = log.scrollHeight;
+    return bubble;
+  }
+
+  function escapeHtml(text) {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // Just enough Markdown for the assistant's replies
+  function renderMarkdown(markdown) {
+    return escapeHtml(markdown)
+      .replace(/^#{1,6}\s+(.+)$/gm, '<strong>$1</strong>')
+      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+      .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1<em>$2</em>')
+      .replace(/`([^`]+)`/g, '<code>$1</code>')
+      .replace(
+        /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+        '<a href="$2" target="_blank" rel="noopener">$1</a>',
+      )
+      .replace(/^\s*[-*]\s+/gm, '• ');
+  }
+
+  function serverUrl(url) {
+    return new URL(url, server).toString();
+  }
+
+  function render(event) {
+    switch (event.type) {
+      case 'session':
+        token = event.token;
+        localStorage.setItem(TOKEN_KEY, token);
+        break;
+      case 'typing':
+        typing.textContent = 'Studio Libra is typing...';
+        clearTimeout(typingTimer);
+        typingTimer = setTimeout(function () {
+          typing.textContent = '';
+        }, 15000);
+        break;
+      case 'text':
+        stopTyping();
+        addBubble('bot').innerHTML = renderMarkdown(event.text);
+        break;
+      case 'menu':
+        stopTyping();
+        renderMenu(event);
+        break;
+      case 'image': {
+        stopTyping();
+        var bubble = addBubble('bot');
+        var image = document.createElement('img');
+        image.src = serverUrl(event.url);
+        image.alt = event.caption || 'Generated image';
+        image.onload = function () {
+          log.scrollTop = log.scrollHeight;
+        };
+        bubble.appendChild(image);
+        if (event.caption) {
+          bubble.appendChild(document.createTextNode(event.caption));
+        }
+        break;
+      }
+      case 'audio': {
+        stopTyping();
+        var audio = document.createElement('audio');
+        audio.controls = true;
+        audio.src = serverUrl(event.url);
+        addBubble('bot').appendChild(audio);
+        break;
+      }
+      case 'document': {
+        stopTyping();
+        var documentBubble = addBubble('bot');
+        var link = document.createElement('a');
+        link.href = serverUrl(event.url);
+        link.download = event.fileName;
+        link.target = '_blank';
+        link.rel = 'noopener';
+        link.textContent = '📄 ' + event.fileName;
+        documentBubble.appendChild(link);
+        if (event.caption) {
+          documentBubble.appendChild(
+            document.createTextNode('\n' + event.caption),
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  function renderMenu(event) {
+    var bubble = addBubble('bot');
+    bubble.innerHTML = renderMarkdown(event.text);
+
+    var options = document.createElement('div');
+    options.className = 'slc-options';
+    event.options.forEach(function (option) {
+      var choice = document.createElement('button');
+      choice.type = 'button';
+      choice.textContent = option.title;
+      if (option.description) {
+        var description = document.createElement('small');
+        description.textContent = option.description;
+        choice.appendChild(description);
+      }
+      choice.addEventListener('click', function () {
+        addBubble('user').textContent = option.title;
+        send({ selection: option.id });
+      });
+      options.appendChild(choice);
+    });
+    bubble.appendChild(options);
+    log.scrollTop = log.scrollHeight;
+  }
+
+  function stopTyping() {
+    clearTimeout(typingTimer);
+    typing.textContent = '';
+  }
+
+  // --- Transport ----------------------------------------------------------
+
+  function connect() {
+    if (useSse) {
+      connectSse();
+      return;
+    }
+
+    var opened = false;
+    var url = new URL('/webchat/ws', server);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    if (token) {
+      url.searchParams.set('token', token);
+    }
+
+    socket = new WebSocket(url.toString());
+    socket.onopen = function () {
+      opened = true;
+    };
+    socket.onmessage = function (message) {
+      render(JSON.parse(message.data));
+    };
+    socket.onclose = function () {
+      socket = null;
+      // A socket that never opened is blocked somewhere on the way
+      useSse = !opened;
+      setTimeout(connect, opened ? RECONNECT_DELAY : 0);
+    };
+  }
+
+  function connectSse() {
+    startSession().then(function () {
+      events = new EventSource(
+        serverUrl('/webchat/events?token=' + encodeURIComponent(token)),
+      );
+      events.onmessage = function (message) {
+        render(JSON.parse(message.data));
+      };
+      // EventSource reconnects by itself
+    });
+  }
+
+  function startSession() {
+    return fetch(serverUrl('/webchat/session'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: token }),
+    })
+      .then(function (response) {
+        return response.json();
+      })
+      .then(function (session) {
+        render({ type: 'session', token: session.token });
+      });
+  }
+
+  function send(payload) {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ event: 'message', data: payload }));
+      return;
+    }
+
+    fetch(serverUrl('/webchat/messages'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webchat-Token': token || '',
+      },
+      body: JSON.stringify(payload),
+    });
+  }
+})();
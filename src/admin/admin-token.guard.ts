@@ -0,0 +1,40 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+
+// Protects internal endpoints with the bearer token in ADMIN_API_TOKEN.
+// When no token is configured every request is rejected.
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+  private readonly logger = new Logger(AdminTokenGuard.name);
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const expected = process.env.ADMIN_API_TOKEN;
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+
+    if (!expected || scheme !== 'Bearer' || !token) {
+      this.logger.warn(`Rejected admin request to ${request.path}`);
+      throw new UnauthorizedException();
+    }
+
+    const expectedDigest = crypto
+      .createHash('sha256')
+      .update(expected)
+      .digest();
+    const tokenDigest = crypto.createHash('sha256').update(token).digest();
+
+    if (!crypto.timingSafeEqual(expectedDigest, tokenDigest)) {
+      this.logger.warn(`Rejected admin request to ${request.path}`);
+      throw new UnauthorizedException();
+    }
+
+    return true;
+  }
+}
@@ -8,6 +8,21 @@ import { OpenaiModule } from './openai/openai.module';
 import { UserContextModule } from './user-context/user-context.module';
 import { StabilityaiModule } from './stabilityai/stabilityai.module';
 import { AudioModule } from './audio/audio.module';
+import { DedupeModule } from './dedupe/dedupe.module';
+import { QueueModule } from './queue/queue.module';
+import { DocumentsModule } from './documents/documents.module';
+import { UserProfileModule } from './user-profile/user-profile.module';
+import { ConversationModule } from './conversation/conversation.module';
+import { WebchatModule } from './webchat/webchat.module';
+import { MessengerModule } from './messenger/messenger.module';
+import { SimulatorModule } from './simulator/simulator.module';
+import { CatalogModule } from './catalog/catalog.module';
+import { I18nModule } from './i18n/i18n.module';
+import { PromptsModule } from './prompts/prompts.module';
+import { LeadsModule } from './leads/leads.module';
+import { HandoffModule } from './handoff/handoff.module';
+import { InboxModule } from './inbox/inbox.module';
+import { BookingsModule } from './bookings/bookings.module';
 
 @Module({
   imports: [
@@ -18,6 +33,23 @@ import { AudioModule } from './audio/audio.module';
     UserContextModule,
     StabilityaiModule,
     AudioModule,
+    DedupeModule,
+    QueueModule,
+    DocumentsModule,
+    UserProfileModule,
+    ConversationModule,
+    WebchatModule,
+    MessengerModule,
+    CatalogModule,
+    I18nModule,
+    PromptsModule,
+    LeadsModule,
+    HandoffModule,
+    InboxModule,
+    BookingsModule,
+    // A development channel that makes no platform calls, off by default
+    // so it is never exposed by accident
+    ...(process.env.SIMULATOR_ENABLED === 'true' ? [SimulatorModule] : []),
   ],
   controllers: [AppController],
   providers: [AppService],
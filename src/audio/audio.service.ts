@@ -29,6 +29,15 @@ export class AudioService {
     }
   }
 
+  // Speech is saved to AUDIO_FILES_FOLDER, which is served statically
+  getAudioFilePath(fileName: string) {
+    return path.join(
+      process.cwd(),
+      process.env.AUDIO_FILES_FOLDER,
+      path.basename(fileName),
+    );
+  }
+
   async convertTextToSpeech(text: string) {
     const url = 'http://localhost:8080';
     const config: AxiosRequestConfig = {
@@ -0,0 +1,146 @@
+import { loadBusinessHours } from '../business-hours/business-hours';
+import {
+  DEFAULT_AVAILABILITY,
+  formatSlot,
+  listSlots,
+  loadAvailabilityFile,
+  pickSlots,
+  validateAvailability,
+  zonedTime,
+} from './availability';
+
+describe('availability', () => {
+  const businessHours = loadBusinessHours(
+    'Mon-Fri 08:00-17:00, Sat 09:00-13:00',
+    'Africa/Nairobi',
+  );
+  const hourly = { ...DEFAULT_AVAILABILITY, slotMinutes: 60 };
+  // Nairobi is three hours ahead of UTC
+  const nairobi = (day: number, hour: number) =>
+    Date.UTC(2026, 9, day, hour - 3);
+  const hours = (slots: { start: number }[]) =>
+    slots.map(({ start }) => new Date(start).toISOString());
+
+  it('ships a valid availability file', () => {
+    expect(() => loadAvailabilityFile()).not.toThrow();
+  });
+
+  it('finds when the clocks of a time zone show a time', () => {
+    expect(zonedTime('2026-10-19', '09:00', 'Africa/Nairobi')).toBe(
+      Date.UTC(2026, 9, 19, 6),
+    );
+    // The clocks go forward that morning in Paris
+    expect(zonedTime('2026-03-29', '12:00', 'Europe/Paris')).toBe(
+      Date.UTC(2026, 2, 29, 10),
+    );
+    expect(zonedTime('2026-03-28', '12:00', 'Europe/Paris')).toBe(
+      Date.UTC(2026, 2, 28, 11),
+    );
+  });
+
+  it('lists slots within business hours', () => {
+    // Friday 15:00 to Monday 10:00
+    const slots = listSlots(
+      businessHours,
+      hourly,
+      nairobi(23, 15),
+      nairobi(26, 10),
+    );
+
+    expect(slots).toHaveLength(8);
+    expect(hours(slots)).toEqual(
+      hours(
+        [
+          [23, 15],
+          [23, 16],
+          [24, 9],
+          [24, 10],
+          [24, 11],
+          [24, 12],
+          [26, 8],
+          [26, 9],
+        ].map(([day, hour]) => ({ start: nairobi(day, hour) })),
+      ),
+    );
+    expect(slots[0].end - slots[0].start).toBe(60 * 60 * 1000);
+  });
+
+  it('leaves out blocked days and times', () => {
+    const slots = listSlots(
+      businessHours,
+      {
+        ...hourly,
+        blocked: [
+          { from: '2026-10-24', to: '2026-10-24', reason: 'Studio party' },
+          { from: '2026-10-23 16:00', to: '2026-10-23 16:30' },
+        ],
+      },
+      nairobi(23, 15),
+      nairobi(26, 10),
+    );
+
+    expect(hours(slots)).toEqual(
+      hours(
+        [
+          [23, 15],
+          [26, 8],
+          [26, 9],
+        ].map(([day, hour]) => ({
+          start: nairobi(day, hour),
+        })),
+      ),
+    );
+  });
+
+  it('spreads the offered slots over whole days', () => {
+    const slots = listSlots(
+      businessHours,
+      hourly,
+      nairobi(19, 8),
+      nairobi(22, 0),
+    );
+
+    const picked = pickSlots(slots, 7, 3, 'Africa/Nairobi');
+
+    // Monday to Wednesday have nine slots each, only two days fit
+    expect(hours(picked)).toEqual(
+      hours(
+        [
+          [19, 8],
+          [19, 12],
+          [19, 16],
+          [20, 8],
+          [20, 12],
+          [20, 16],
+        ].map(([day, hour]) => ({ start: nairobi(day, hour) })),
+      ),
+    );
+  });
+
+  it('writes slots the way the user reads dates', () => {
+    const start = nairobi(19, 9);
+
+    expect(formatSlot(start, 'Africa/Nairobi', 'en')).toBe('Mon 19 Oct, 09:00');
+    expect(formatSlot(start, 'Africa/Nairobi', 'sw')).toBe(
+      'Jumatatu, 19 Okt, 09:00',
+    );
+    expect(formatSlot(start, 'Africa/Nairobi', 'fr')).toBe(
+      'lun. 19 oct., 09:00',
+    );
+  });
+
+  it('reports what is wrong with the availability', () => {
+    expect(
+      validateAvailability({
+        ...DEFAULT_AVAILABILITY,
+        slotMinutes: 0,
+        slotsOffered: 12,
+        blocked: [{ from: 'Christmas', to: '2026-12-26' }],
+      }),
+    ).toEqual([
+      'slotMinutes must be a whole number above 0',
+      'slotsOffered must be at most 9',
+      'blocked must be a list of from and to dates',
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BusinessHours } from '../business-hours/business-hours';
+import { Language, LANGUAGES } from '../i18n/i18n';
+
+// When consultations can be booked, on top of the business hours. Kept in
+// config/availability.json so the team can block out holidays and busy
+// days without a deploy.
+export interface Availability {
+  slotMinutes: number;
+  // How far ahead calls can be booked
+  daysAhead: number;
+  // Nothing is offered sooner than this
+  minNoticeHours: number;
+  // Slots offered per message, and per day within it so the choice
+  // isn't only tomorrow morning
+  slotsOffered: number;
+  slotsPerDay: number;
+  blocked: BlockedTime[];
+}
+
+// "2026-12-24" or "2026-12-24 13:00", in the business time zone. A date
+// alone covers the whole day, so from 2026-12-24 to 2026-12-26 blocks
+// three days.
+export interface BlockedTime {
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+// Start and end as epoch milliseconds
+export interface Slot {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_AVAILABILITY: Availability = {
+  slotMinutes: 30,
+  daysAhead: 14,
+  minNoticeHours: 4,
+  slotsOffered: 9,
+  slotsPerDay: 3,
+  blocked: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BLOCKED_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?$/;
+
+export function loadAvailabilityFile(
+  filePath = process.env.AVAILABILITY_PATH ||
+    join(process.cwd(), 'config', 'availability.json'),
+): Availability {
+  const availability: Availability = {
+    ...DEFAULT_AVAILABILITY,
+    ...JSON.parse(readFileSync(filePath, 'utf8')),
+  };
+  const errors = validateAvailability(availability);
+  if (errors.length) {
+    throw new Error(`Invalid availability: ${errors.join('; ')}`);
+  }
+  return availability;
+}
+
+// Returns what is wrong with the availability, nothing when it is valid
+export function validateAvailability(availability: Availability): string[] {
+  const errors: string[] = [];
+  const positive = (field: keyof Availability) => {
+    const value = availability[field];
+    if (!Number.isInteger(value) || (value as number) <= 0) {
+      errors.push(`${field} must be a whole number above 0`);
+    }
+  };
+
+  positive('slotMinutes');
+  positive('daysAhead');
+  positive('slotsOffered');
+  positive('slotsPerDay');
+  if (
+    !Number.isFinite(availability.minNoticeHours) ||
+    availability.minNoticeHours < 0
+  ) {
+    errors.push('minNoticeHours must be a number of hours');
+  }
+  // WhatsApp lists take 10 rows, one is kept for later dates
+  if (availability.slotsOffered > 9) {
+    errors.push('slotsOffered must be at most 9');
+  }
+  if (
+    !Array.isArray(availability.blocked) ||
+    availability.blocked.some(
+      (time) =>
+        !BLOCKED_TIME_PATTERN.test(time?.from) ||
+        !BLOCKED_TIME_PATTERN.test(time?.to),
+    )
+  ) {
+    errors.push('blocked must be a list of from and to dates');
+  }
+
+  return errors;
+}
+
+// Every slot between from and until that falls within business hours and
+// isn't blocked, earliest first. Bookings aren't taken into account.
+export function listSlots(
+  { hours, timeZone }: BusinessHours,
+  { slotMinutes, blocked }: Availability,
+  from: number,
+  until: number,
+): Slot[] {
+  const length = slotMinutes * 60 * 1000;
+  const blockedRanges = blocked.map(({ from, to }) => ({
+    start: parseBlockedTime(from, timeZone),
+    end: parseBlockedTime(to, timeZone, true),
+  }));
+
+  const slots: Slot[] = [];
+  for (
+    let date = zonedDate(from, timeZone);
+    zonedTime(date, '00:00', timeZone) < until;
+    date = nextDate(date)
+  ) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    for (const { days, open, close } of hours) {
+      if (!days.includes(weekday)) {
+        continue;
+      }
+
+      const closesAt = zonedTime(date, close, timeZone);
+      for (
+        let start = zonedTime(date, open, timeZone);
+        start + length <= closesAt;
+        start += length
+      ) {
+        const slot = { start, end: start + length };
+        if (
+          start >= from &&
+          start < until &&
+          !blockedRanges.some(overlaps(slot))
+        ) {
+          slots.push(slot);
+        }
+      }
+    }
+  }
+  return slots.sort((a, b) => a.start - b.start);
+}
+
+// The slots to offer: up to perDay per day, spread over the day, and
+// whole days only so the rest of a day isn't skipped by "later dates"
+export function pickSlots(
+  slots: Slot[],
+  count: number,
+  perDay: number,
+  timeZone: string,
+): Slot[] {
+  const days = new Map<string, Slot[]>();
+  for (const slot of slots) {
+    const date = zonedDate(slot.start, timeZone);
+    days.set(date, [...(days.get(date) ?? []), slot]);
+  }
+
+  const picked: Slot[] = [];
+  for (const daySlots of days.values()) {
+    const spread =
+      daySlots.length <= perDay
+        ? daySlots
+        : Array.from(
+            { length: perDay },
+            (_, index) =>
+              daySlots[
+                Math.round((index * (daySlots.length - 1)) / (perDay - 1 || 1))
+              ],
+          );
+    if (picked.length + spread.length > count) {
+      break;
+    }
+    picked.push(...spread);
+  }
+  // A single day can still hold more than the count
+  return picked.length ? picked : [...days.values()][0]?.slice(0, count) ?? [];
+}
+
+export function overlaps(slot: Slot) {
+  return (other: Slot) => slot.start < other.end && other.start < slot.end;
+}
+
+// "Mon 19 Oct, 09:00" in the user's language and the business time zone
+export function formatSlot(
+  start: number,
+  timeZone: string,
+  language: Language,
+) {
+  return new Intl.DateTimeFormat(LANGUAGES[language].locale, {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(start);
+}
+
+// The calendar date in the time zone, as YYYY-MM-DD
+export function zonedDate(instant: number, timeZone: string) {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+// The instant the clocks in the time zone show the given date and time
+export function zonedTime(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Checked twice in case the offset changes in between, e.g. for DST
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return wallClock - zoneOffset(guess, timeZone);
+}
+
+// How far the time zone's clocks are ahead of UTC at the instant
+function zoneOffset(instant: number, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(instant)
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClock - (instant - (instant % 1000));
+}
+
+function nextDate(date: string) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function parseBlockedTime(value: string, timeZone: string, isEnd = false) {
+  const [, date, time] = value.match(BLOCKED_TIME_PATTERN);
+  if (time) {
+    return zonedTime(date, time, timeZone);
+  }
+  return zonedTime(isEnd ? nextDate(date) : date, '00:00', timeZone);
+}
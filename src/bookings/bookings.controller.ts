@@ -0,0 +1,19 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { BookingsService } from './bookings.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('bookings')
+@UseGuards(AdminTokenGuard)
+export class BookingsController {
+  constructor(private readonly bookingsService: BookingsService) {}
+
+  @Get()
+  getBookings() {
+    return this.bookingsService.getUpcoming();
+  }
+
+  @Get('slots')
+  getFreeSlots() {
+    return this.bookingsService.getFreeSlots();
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { BookingsController } from './bookings.controller';
+import { BookingsService } from './bookings.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+@Module({
+  controllers: [BookingsController],
+  providers: [BookingsService, UserContextService],
+})
+export class BookingsModule {}
@@ -0,0 +1,325 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync, rmSync } from 'fs';
+import * as path from 'path';
+import { BookingsService } from './bookings.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { OutboundMessage } from '../conversation/conversation.types';
+import { WebchatEvent, WebchatService } from '../webchat/webchat.service';
+import { WebchatController } from '../webchat/webchat.controller';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('BookingsService', () => {
+  let service: BookingsService;
+  let userContextService: Record<string, jest.Mock>;
+
+  // Nairobi is three hours ahead of UTC, 19 October 2026 is a Monday
+  const nairobi = (day: number, hour: number, minute = 0) =>
+    Date.UTC(2026, 9, day, hour - 3, minute);
+  const amina = {
+    userID: '254700000001',
+    channel: 'whatsapp' as const,
+    userName: 'Amina',
+    language: 'en' as const,
+  };
+  const baraka = { ...amina, userID: '254700000002', userName: 'Baraka' };
+  const invitesFolder = 'sentFiles-bookings-test';
+
+  const choicesOf = (messages: OutboundMessage[]) =>
+    messages.flatMap((message) =>
+      message.type === 'choices' ? message.choices : [],
+    );
+  const textOf = (messages: OutboundMessage[]) =>
+    messages.flatMap((message) =>
+      message.type === 'text' ? message.text : [],
+    );
+
+  beforeAll(() => {
+    process.env.BUSINESS_HOURS = 'Mon-Fri 08:00-17:00';
+    process.env.BUSINESS_TIME_ZONE = 'Africa/Nairobi';
+  });
+
+  afterAll(() => {
+    delete process.env.BUSINESS_HOURS;
+    delete process.env.BUSINESS_TIME_ZONE;
+    rmSync(path.join(process.cwd(), invitesFolder), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  beforeEach(async () => {
+    // Monday 06:00, the first slot at least four hours away is 10:00
+    jest.spyOn(Date, 'now').mockReturnValue(nairobi(19, 6));
+    userContextService = {
+      hashPhoneNumber: jest.fn((userID) => `hash-${userID}`),
+      saveToContext: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingsService,
+        { provide: UserContextService, useValue: userContextService },
+      ],
+    }).compile();
+
+    service = module.get<BookingsService>(BookingsService);
+    service.configuration.invitesFolder = invitesFolder;
+    await service['redis'].flushall();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('offers free times spread over the next days', async () => {
+    const [message] = await service.offerSlots(amina);
+
+    expect(message).toEqual(
+      expect.objectContaining({
+        type: 'choices',
+        text: expect.stringContaining('30 minute call'),
+        button: 'See times',
+      }),
+    );
+    const choices = choicesOf([message]);
+    expect(choices).toHaveLength(10);
+    expect(choices[0]).toEqual({
+      id: `booking:pick:${nairobi(19, 10)}`,
+      title: 'Mon 19 Oct, 10:00',
+    });
+    // Three days of three slots, then the fourth day is one tap away
+    expect(choices[9]).toEqual({
+      id: `booking:slots:${nairobi(22, 8)}`,
+      title: 'Later dates ➡️',
+    });
+
+    const later = await service.select(amina, choices[9].id);
+    expect(choicesOf(later)[0].title).toBe('Thu 22 Oct, 08:00');
+  });
+
+  it('asks before booking a picked time', async () => {
+    const messages = await service.select(
+      amina,
+      `booking:pick:${nairobi(19, 10)}`,
+    );
+
+    expect(messages).toEqual([
+      {
+        type: 'choices',
+        text: 'Shall I book a 30 minute call on **Mon 19 Oct, 10:00** (Africa/Nairobi time)?',
+        choices: [
+          { id: `booking:confirm:${nairobi(19, 10)}`, title: '✅ Book it' },
+          { id: 'booking:slots', title: '🔁 Other times' },
+        ],
+      },
+    ]);
+  });
+
+  it('books the time and sends a calendar invite', async () => {
+    const messages = await service.select(
+      amina,
+      `booking:confirm:${nairobi(19, 10)}`,
+    );
+
+    expect(textOf(messages)[0]).toContain(
+      "You're booked for **Mon 19 Oct, 10:00** (Africa/Nairobi time)",
+    );
+    const invite = messages[1];
+    expect(invite).toEqual(
+      expect.objectContaining({
+        type: 'document',
+        fileName: 'studio-libra-consultation.ics',
+      }),
+    );
+    const filePath = invite.type === 'document' ? invite.filePath : '';
+    expect(path.basename(path.dirname(filePath))).toBe(invitesFolder);
+    expect(readFileSync(filePath, 'utf8')).toContain(
+      'DTSTART:20261019T070000Z',
+    );
+
+    expect(await service.getBooking(amina.userID)).toEqual(
+      expect.objectContaining({
+        user: 'hash-254700000001',
+        start: nairobi(19, 10),
+        end: nairobi(19, 10, 30),
+        sequence: 0,
+      }),
+    );
+    expect(userContextService.saveToContext).toHaveBeenCalledWith(
+      '[User booked a consultation call on Mon 19 Oct, 10:00 (Africa/Nairobi time)]',
+      'user',
+      amina.userID,
+    );
+  });
+
+  it('sends web chat visitors the invite as a download', async () => {
+    process.env.SENT_FILES_FOLDER = invitesFolder;
+    const webchatService = new WebchatService(null, null);
+    const received: WebchatEvent[] = [];
+    await webchatService.connect('web_1', (event) => received.push(event));
+
+    const messages = await service.select(
+      { ...amina, userID: 'web_1', channel: 'webchat' },
+      `booking:confirm:${nairobi(19, 10)}`,
+    );
+    for (const message of messages) {
+      await webchatService.send('web_1', message);
+    }
+
+    const invite = received.find(({ type }) => type === 'document');
+    expect(invite).toEqual({
+      type: 'document',
+      url: expect.stringMatching(/^\/webchat\/files\/.+\.ics$/),
+      fileName: 'studio-libra-consultation.ics',
+      caption: '📅 Consultation with Studio Libra',
+    });
+
+    const response = { sendFile: jest.fn() };
+    new WebchatController(webchatService).getFile(
+      path.basename(invite.type === 'document' ? invite.url : ''),
+      response as any,
+    );
+    expect(readFileSync(response.sendFile.mock.calls[0][0], 'utf8')).toContain(
+      'DTSTART:20261019T070000Z',
+    );
+    delete process.env.SENT_FILES_FOLDER;
+  });
+
+  it('never books the same time twice', async () => {
+    const confirm = `booking:confirm:${nairobi(19, 10)}`;
+    const [first, second] = await Promise.all([
+      service.select(amina, confirm),
+      service.select(baraka, confirm),
+    ]);
+
+    const invites = [...first, ...second].filter(
+      ({ type }) => type === 'document',
+    );
+    expect(invites).toHaveLength(1);
+    expect(await service.getUpcoming()).toHaveLength(1);
+
+    const later = await service.select(baraka, confirm);
+    expect(textOf(later)).toEqual([
+      expect.stringContaining('that time is no longer free'),
+    ]);
+    expect(choicesOf(later).map(({ id }) => id)).not.toContain(
+      `booking:pick:${nairobi(19, 10)}`,
+    );
+  });
+
+  it('never books overlapping times', async () => {
+    // Slots of different lengths, as when the availability changes while
+    // people are choosing, both looking free when they are confirmed
+    jest
+      .spyOn(service as any, 'findFreeSlot')
+      .mockImplementation(async (start: number) => ({
+        start,
+        end: start + 45 * 60 * 1000,
+      }));
+
+    const [first, second] = await Promise.all([
+      service.select(amina, `booking:confirm:${nairobi(19, 10)}`),
+      service.select(baraka, `booking:confirm:${nairobi(19, 10, 30)}`),
+    ]);
+
+    expect(textOf(second)[0]).toContain('no longer free');
+    expect(textOf(first)[0]).toContain("You're booked");
+    expect(await service.getUpcoming()).toEqual([
+      expect.objectContaining({ user: 'hash-254700000001' }),
+    ]);
+
+    // Right after it is fine
+    const after = await service.select(
+      baraka,
+      `booking:confirm:${nairobi(19, 10, 45)}`,
+    );
+    expect(textOf(after)[0]).toContain("You're booked");
+  });
+
+  it('only books times that are on offer', async () => {
+    // Too soon, and before opening
+    for (const start of [nairobi(19, 9), nairobi(20, 7)]) {
+      const messages = await service.select(amina, `booking:confirm:${start}`);
+      expect(textOf(messages)[0]).toContain('no longer free');
+    }
+    expect(await service.getBooking(amina.userID)).toBeNull();
+  });
+
+  it('moves a booking and frees its old time', async () => {
+    await service.select(amina, `booking:confirm:${nairobi(19, 10)}`);
+
+    const offer = await service.reschedule(amina);
+    expect(offer[0]).toEqual(
+      expect.objectContaining({
+        text: expect.stringContaining(
+          'Your call is booked for **Mon 19 Oct, 10:00**',
+        ),
+      }),
+    );
+
+    const messages = await service.select(
+      amina,
+      `booking:confirm:${nairobi(20, 14)}`,
+    );
+    expect(textOf(messages)[0]).toContain(
+      'your call is now on **Tue 20 Oct, 14:00**',
+    );
+
+    const booking = await service.getBooking(amina.userID);
+    expect(booking).toEqual(
+      expect.objectContaining({ start: nairobi(20, 14), sequence: 1 }),
+    );
+    expect(await service.getUpcoming()).toEqual([booking]);
+    expect((await service.getFreeSlots()).map(({ start }) => start)).toContain(
+      nairobi(19, 10),
+    );
+  });
+
+  it('keeps the booking when the same time is picked again', async () => {
+    const time = nairobi(19, 10);
+    await service.select(amina, `booking:confirm:${time}`);
+    const booking = await service.getBooking(amina.userID);
+    userContextService.saveToContext.mockClear();
+
+    const prompt = await service.select(amina, `booking:pick:${time}`);
+    expect(choicesOf(prompt)[0].id).toBe(`booking:confirm:${time}`);
+
+    const messages = await service.select(amina, `booking:confirm:${time}`);
+    expect(textOf(messages)[0]).toContain(
+      'your call is now on **Mon 19 Oct, 10:00**',
+    );
+    expect(await service.getBooking(amina.userID)).toEqual(booking);
+    expect(userContextService.saveToContext).not.toHaveBeenCalled();
+
+    // Still held, nobody else can take it
+    const taken = await service.select(baraka, `booking:confirm:${time}`);
+    expect(textOf(taken)[0]).toContain('no longer free');
+  });
+
+  it('cancels a booking', async () => {
+    await service.select(amina, `booking:confirm:${nairobi(19, 10)}`);
+
+    expect(textOf(await service.cancel(amina))).toEqual([
+      expect.stringContaining(
+        'Your call on **Mon 19 Oct, 10:00** is cancelled',
+      ),
+    ]);
+    expect(await service.getBooking(amina.userID)).toBeNull();
+    expect(await service.getUpcoming()).toEqual([]);
+    expect(
+      await service.select(baraka, `booking:confirm:${nairobi(19, 10)}`),
+    ).toHaveLength(2);
+  });
+
+  it('says so when there is nothing to move or cancel', async () => {
+    expect(textOf(await service.cancel(amina))).toEqual([
+      "You don't have a call booked. Send /book to pick a time.",
+    ]);
+    expect(textOf(await service.reschedule(amina))).toEqual([
+      "You don't have a call booked. Send /book to pick a time.",
+    ]);
+  });
+
+  it('leaves other selections alone', async () => {
+    expect(await service.select(amina, 'branding_service')).toBeNull();
+  });
+});
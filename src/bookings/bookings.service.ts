@@ -0,0 +1,479 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { existsSync, mkdirSync, statSync, writeFileSync } from 'fs';
+import { UserContextService } from '../user-context/user-context.service';
+import {
+  BusinessHours,
+  DEFAULT_BUSINESS_HOURS,
+  loadBusinessHours,
+} from '../business-hours/business-hours';
+import {
+  ChannelName,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+import { Language, translate } from '../i18n/i18n';
+import {
+  Availability,
+  DEFAULT_AVAILABILITY,
+  formatSlot,
+  listSlots,
+  loadAvailabilityFile,
+  overlaps,
+  pickSlots,
+  Slot,
+  zonedDate,
+} from './availability';
+import { buildInvite } from './calendar-invite';
+
+// Every booking by ID, past ones included
+const BOOKINGS_KEY = 'bookings';
+// Booking IDs by start and by end time, to find overlaps in Redis
+const STARTS_KEY = 'bookings:starts';
+const ENDS_KEY = 'bookings:ends';
+// IDs of the choices the flow sends, they come back as selections
+const BOOKING_CHOICE = /^booking:(slots|pick|confirm)(?::(\d+))?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Saves the booking unless another one overlaps it. Runs atomically so two
+// people confirming overlapping times at once can't both get them.
+const BOOK_SCRIPT = `
+local ending = redis.call('ZRANGEBYSCORE', KEYS[3], '(' .. ARGV[2], '+inf')
+for _, id in ipairs(ending) do
+  if id ~= ARGV[1] and tonumber(redis.call('ZSCORE', KEYS[2], id)) < tonumber(ARGV[3]) then
+    return 0
+  end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[4])
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+return 1`;
+
+export interface Booking {
+  id: string;
+  // Hashed user ID, the same as the inbox conversation ID
+  user: string;
+  channel: ChannelName;
+  userName?: string;
+  language: Language;
+  start: number;
+  end: number;
+  // Bumped on every reschedule so calendars replace the old invite
+  sequence: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BookingTurn {
+  userID: string;
+  channel: ChannelName;
+  userName?: string;
+  language: Language;
+}
+
+// Books consultation calls in the free slots of the business hours. Each
+// reply is a list of messages for the conversation to send in order.
+@Injectable()
+export class BookingsService {
+  constructor(private readonly userContextService: UserContextService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(BookingsService.name);
+
+  readonly configuration = {
+    filePath:
+      process.env.AVAILABILITY_PATH ||
+      path.join(process.cwd(), 'config', 'availability.json'),
+    // Invites are kept with the other files sent to users
+    invitesFolder: process.env.SENT_FILES_FOLDER || 'sentFiles',
+    // Added to invites when set
+    organizerEmail: process.env.BOOKING_ORGANIZER_EMAIL,
+    location: process.env.BOOKING_LOCATION,
+  };
+
+  // Re-read when the file changes on disk
+  private file: { modifiedAt: number; availability: Availability } | null =
+    null;
+
+  // The user's upcoming call, null when there is none
+  async getBooking(userID: string): Promise<Booking | null> {
+    try {
+      const id = await this.redis.get(this.bookingKey(userID));
+      const booking = id ? await this.redis.hget(BOOKINGS_KEY, id) : null;
+      return booking ? this.upcoming(JSON.parse(booking)) : null;
+    } catch (error) {
+      this.logger.error('Error Loading Booking', error);
+      return null;
+    }
+  }
+
+  async getUpcoming(): Promise<Booking[]> {
+    try {
+      const bookings = await this.redis.hgetall(BOOKINGS_KEY);
+      return Object.values(bookings)
+        .map((booking) => this.upcoming(JSON.parse(booking)))
+        .filter(Boolean)
+        .sort((a, b) => a.start - b.start);
+    } catch (error) {
+      this.logger.error('Error Loading Bookings', error);
+      return [];
+    }
+  }
+
+  // Slots nobody has booked, from the given time to the end of the
+  // booking window. The given booking doesn't count, so its own slot is
+  // still free to it.
+  async getFreeSlots(after = 0, exceptBookingID?: string): Promise<Slot[]> {
+    const availability = this.getAvailability();
+    const now = Date.now();
+    const from = Math.max(
+      after,
+      now + availability.minNoticeHours * 60 * 60 * 1000,
+    );
+    const until = now + availability.daysAhead * DAY_MS;
+
+    const booked = (await this.getUpcoming()).filter(
+      (booking) => booking.id !== exceptBookingID,
+    );
+    return listSlots(this.getBusinessHours(), availability, from, until).filter(
+      (slot) => !booked.some(overlaps(slot)),
+    );
+  }
+
+  // The free slots to pick from, starting with the current booking when
+  // there is one
+  async offerSlots(
+    { userID, language }: BookingTurn,
+    after?: number,
+  ): Promise<OutboundMessage[]> {
+    const { slotsOffered, slotsPerDay, slotMinutes, daysAhead } =
+      this.getAvailability();
+    const { timeZone } = this.getBusinessHours();
+
+    const free = await this.getFreeSlots(after);
+    if (!free.length) {
+      return [
+        {
+          type: 'text',
+          text: translate(language, 'bookingNoSlots', { days: daysAhead }),
+        },
+      ];
+    }
+
+    const slots = pickSlots(free, slotsOffered, slotsPerDay, timeZone);
+    const lastDay = zonedDate(slots[slots.length - 1].start, timeZone);
+    const later = free.find(
+      (slot) => zonedDate(slot.start, timeZone) > lastDay,
+    );
+    const booking = await this.getBooking(userID);
+
+    return [
+      {
+        type: 'choices',
+        text: booking
+          ? translate(language, 'bookingReschedule', {
+              time: formatSlot(booking.start, timeZone, language),
+            })
+          : translate(language, 'bookingSlots', {
+              minutes: slotMinutes,
+              timeZone,
+            }),
+        choices: [
+          ...slots.map((slot) => ({
+            id: `booking:pick:${slot.start}`,
+            title: formatSlot(slot.start, timeZone, language),
+          })),
+          ...(later
+            ? [
+                {
+                  id: `booking:slots:${later.start}`,
+                  title: translate(language, 'bookingLaterDates'),
+                },
+              ]
+            : []),
+        ],
+        button: translate(language, 'bookingSlotsButton'),
+      },
+    ];
+  }
+
+  // Handles a pick from one of the flow's choices. Returns null for any
+  // other selection.
+  async select(
+    turn: BookingTurn,
+    id: string,
+  ): Promise<OutboundMessage[] | null> {
+    const match = id.match(BOOKING_CHOICE);
+    if (!match) {
+      return null;
+    }
+
+    const [, action, time] = match;
+    switch (action) {
+      case 'slots':
+        return this.offerSlots(turn, time ? Number(time) : undefined);
+      case 'pick':
+        return this.confirmSlot(turn, Number(time));
+      case 'confirm':
+        return this.book(turn, Number(time));
+    }
+  }
+
+  async reschedule(turn: BookingTurn): Promise<OutboundMessage[]> {
+    return (await this.getBooking(turn.userID))
+      ? this.offerSlots(turn)
+      : [{ type: 'text', text: translate(turn.language, 'bookingNone') }];
+  }
+
+  async cancel({ userID, language }: BookingTurn): Promise<OutboundMessage[]> {
+    const booking = await this.getBooking(userID);
+    if (!booking) {
+      return [{ type: 'text', text: translate(language, 'bookingNone') }];
+    }
+
+    await this.redis.del(this.bookingKey(userID));
+    await this.redis.hdel(BOOKINGS_KEY, booking.id);
+    await this.redis.zrem(STARTS_KEY, booking.id);
+    await this.redis.zrem(ENDS_KEY, booking.id);
+    this.logger.log(`Cancelled booking ${booking.id}`);
+
+    await this.userContextService.saveToContext(
+      `[User cancelled their consultation call on ${this.describeTime(
+        booking,
+      )}]`,
+      'user',
+      userID,
+    );
+    return [
+      {
+        type: 'text',
+        text: translate(language, 'bookingCancelled', {
+          time: formatSlot(
+            booking.start,
+            this.getBusinessHours().timeZone,
+            language,
+          ),
+        }),
+      },
+    ];
+  }
+
+  private async confirmSlot(
+    turn: BookingTurn,
+    start: number,
+  ): Promise<OutboundMessage[]> {
+    const existing = await this.getBooking(turn.userID);
+    const slot = await this.findFreeSlot(start, existing?.id);
+    if (!slot) {
+      return this.slotTaken(turn);
+    }
+
+    const { language } = turn;
+    const { timeZone } = this.getBusinessHours();
+    return [
+      {
+        type: 'choices',
+        text: translate(language, 'bookingConfirmPrompt', {
+          minutes: this.getAvailability().slotMinutes,
+          time: formatSlot(slot.start, timeZone, language),
+          timeZone,
+        }),
+        choices: [
+          {
+            id: `booking:confirm:${slot.start}`,
+            title: translate(language, 'bookingConfirm'),
+          },
+          {
+            id: 'booking:slots',
+            title: translate(language, 'bookingOtherTimes'),
+          },
+        ],
+      },
+    ];
+  }
+
+  // Books the slot, or moves the user's call to it
+  private async book(
+    turn: BookingTurn,
+    start: number,
+  ): Promise<OutboundMessage[]> {
+    const { userID, channel, userName, language } = turn;
+    const existing = await this.getBooking(userID);
+    const slot = await this.findFreeSlot(start, existing?.id);
+    // Picking the time they already have changes nothing
+    if (existing && slot?.start === existing.start) {
+      return this.bookedMessages(existing, language, true);
+    }
+
+    const now = Date.now();
+    const booking: Booking = {
+      id: existing?.id ?? randomUUID(),
+      user: this.userContextService.hashPhoneNumber(userID),
+      channel,
+      userName,
+      language,
+      start: slot?.start,
+      end: slot?.end,
+      sequence: existing ? existing.sequence + 1 : 0,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    const saved = slot
+      ? await this.redis.eval(
+          BOOK_SCRIPT,
+          3,
+          BOOKINGS_KEY,
+          STARTS_KEY,
+          ENDS_KEY,
+          booking.id,
+          booking.start,
+          booking.end,
+          JSON.stringify(booking),
+        )
+      : 0;
+    if (saved !== 1) {
+      return this.slotTaken(turn);
+    }
+
+    await this.redis.set(
+      this.bookingKey(userID),
+      booking.id,
+      'PX',
+      booking.end - now,
+    );
+    this.logger.log(
+      `${existing ? 'Moved' : 'Saved'} booking ${booking.id} on ${new Date(
+        booking.start,
+      ).toISOString()}`,
+    );
+
+    // So the assistant knows about it when the chat carries on
+    await this.userContextService.saveToContext(
+      `[User ${
+        existing
+          ? 'moved their consultation call to'
+          : 'booked a consultation call on'
+      } ${this.describeTime(booking)}]`,
+      'user',
+      userID,
+    );
+
+    return this.bookedMessages(booking, language, !!existing);
+  }
+
+  // The confirmation with the calendar invite
+  private bookedMessages(
+    booking: Booking,
+    language: Language,
+    moved: boolean,
+  ): OutboundMessage[] {
+    const { timeZone } = this.getBusinessHours();
+    const messages: OutboundMessage[] = [
+      {
+        type: 'text',
+        text: translate(
+          language,
+          moved ? 'bookingRescheduled' : 'bookingConfirmed',
+          { time: formatSlot(booking.start, timeZone, language), timeZone },
+        ),
+      },
+    ];
+    const invite = this.writeInvite(booking);
+    if (invite) {
+      messages.push({
+        type: 'document',
+        filePath: invite,
+        fileName: 'studio-libra-consultation.ics',
+        caption: `📅 ${translate(language, 'bookingInviteTitle')}`,
+      });
+    }
+    return messages;
+  }
+
+  private async slotTaken(turn: BookingTurn): Promise<OutboundMessage[]> {
+    return [
+      { type: 'text', text: translate(turn.language, 'bookingTaken') },
+      ...(await this.offerSlots(turn)),
+    ];
+  }
+
+  // Only slots that could be offered right now can be booked
+  private async findFreeSlot(start: number, exceptBookingID?: string) {
+    const slots = await this.getFreeSlots(0, exceptBookingID);
+    return slots.find((slot) => slot.start === start) ?? null;
+  }
+
+  // Writes the .ics file sent after a booking, null when it can't be made
+  private writeInvite(booking: Booking): string | null {
+    const { invitesFolder, organizerEmail, location } = this.configuration;
+    try {
+      const folderPath = path.join(process.cwd(), invitesFolder);
+      if (!existsSync(folderPath)) {
+        mkdirSync(folderPath);
+      }
+
+      const filePath = path.join(folderPath, `${booking.id}.ics`);
+      writeFileSync(
+        filePath,
+        buildInvite({
+          uid: `${booking.id}@studiolibra`,
+          sequence: booking.sequence,
+          start: booking.start,
+          end: booking.end,
+          summary: translate(booking.language, 'bookingInviteTitle'),
+          description: translate(booking.language, 'bookingInviteDescription'),
+          location,
+          organizer: organizerEmail
+            ? { name: 'Studio Libra', email: organizerEmail }
+            : undefined,
+        }),
+      );
+      return filePath;
+    } catch (error) {
+      this.logger.error('Error Writing Invite', error);
+      return null;
+    }
+  }
+
+  // Context entries are in English, like the rest of the context
+  private describeTime({ start }: Booking) {
+    const { timeZone } = this.getBusinessHours();
+    return `${formatSlot(start, timeZone, 'en')} (${timeZone} time)`;
+  }
+
+  private upcoming(booking: Booking) {
+    return booking.end > Date.now() ? booking : null;
+  }
+
+  private getAvailability(): Availability {
+    try {
+      const { filePath } = this.configuration;
+      const modifiedAt = statSync(filePath).mtimeMs;
+      if (this.file?.modifiedAt !== modifiedAt) {
+        this.file = {
+          modifiedAt,
+          availability: loadAvailabilityFile(filePath),
+        };
+      }
+    } catch (error) {
+      // Keep using the last availability that could be read
+      this.logger.error('Error Reading Availability File', error);
+    }
+    return this.file?.availability ?? DEFAULT_AVAILABILITY;
+  }
+
+  private getBusinessHours(): BusinessHours {
+    try {
+      return loadBusinessHours();
+    } catch (error) {
+      this.logger.error('Invalid BUSINESS_HOURS', error);
+      return loadBusinessHours(DEFAULT_BUSINESS_HOURS);
+    }
+  }
+
+  private bookingKey(userID: string) {
+    return `${this.userContextService.hashPhoneNumber(userID)}:booking`;
+  }
+}
@@ -0,0 +1,47 @@
+import { buildInvite } from './calendar-invite';
+
+describe('calendar invite', () => {
+  const event = {
+    uid: 'b1@studiolibra',
+    sequence: 1,
+    start: Date.UTC(2026, 9, 19, 6),
+    end: Date.UTC(2026, 9, 19, 6, 30),
+    summary: 'Consultation with Studio Libra',
+    description: 'About your project, logo; colours\nand more',
+    organizer: { name: 'Studio Libra', email: 'hello@studiolibra.co.ke' },
+  };
+
+  it('writes the event in UTC with CRLF line endings', () => {
+    const invite = buildInvite(event, Date.UTC(2026, 9, 18, 12));
+
+    expect(invite.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'UID:b1@studiolibra',
+        'SEQUENCE:1',
+        'DTSTAMP:20261018T120000Z',
+        'DTSTART:20261019T060000Z',
+        'DTEND:20261019T063000Z',
+        'SUMMARY:Consultation with Studio Libra',
+        'DESCRIPTION:About your project\\, logo\\; colours\\nand more',
+        'ORGANIZER;CN=Studio Libra:mailto:hello@studiolibra.co.ke',
+        'END:VCALENDAR',
+      ]),
+    );
+    expect(invite.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds long lines', () => {
+    const invite = buildInvite({
+      ...event,
+      description:
+        'Mazungumzo na timu ya Studio Libra kuhusu mradi wako. '.repeat(3),
+    });
+
+    const lines = invite.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(invite.replace(/\r\n /g, '')).toContain(
+      `DESCRIPTION:${'Mazungumzo na timu ya Studio Libra kuhusu mradi wako. '.repeat(3)}`,
+    );
+  });
+});
@@ -0,0 +1,73 @@
+// The event in a calendar invite (RFC 5545), times as epoch milliseconds
+export interface CalendarEvent {
+  // Stays the same when the event moves, so calendars update it
+  uid: string;
+  // Bumped on every change, the highest one wins
+  sequence: number;
+  start: number;
+  end: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: { name: string; email: string };
+}
+
+// Lines longer than this many bytes are folded onto the next one
+const MAX_LINE_BYTES = 75;
+
+export function buildInvite(event: CalendarEvent, now = Date.now()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Studio Libra//Consultations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatTime(now)}`,
+    `DTSTART:${formatTime(event.start)}`,
+    `DTEND:${formatTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    event.description && `DESCRIPTION:${escapeText(event.description)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    event.organizer &&
+      `ORGANIZER;CN=${escapeText(event.organizer.name)}:mailto:${
+        event.organizer.email
+      }`,
+    'STATUS:CONFIRMED',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-PT15M',
+    `DESCRIPTION:${escapeText(event.summary)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.filter(Boolean).map(foldLine).join('\r\n')}\r\n`;
+}
+
+// 20261019T060000Z
+function formatTime(instant: number) {
+  return new Date(instant).toISOString().replace(/[-:]|\.\d{3}/g, '');
+}
+
+function escapeText(text: string) {
+  return text.replace(/[\\;,]/g, '\\$&').replace(/\r?\n/g, '\\n');
+}
+
+// Continuation lines start with a space, which counts towards their length
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let part = '';
+  for (const character of Array.from(line)) {
+    const limit = parts.length ? MAX_LINE_BYTES - 1 : MAX_LINE_BYTES;
+    if (Buffer.byteLength(part + character) > limit) {
+      parts.push(part);
+      part = '';
+    }
+    part += character;
+  }
+  return [...parts, part].join('\r\n ');
+}
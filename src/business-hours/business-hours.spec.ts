@@ -0,0 +1,42 @@
+import {
+  describeBusinessHours,
+  loadBusinessHours,
+  parseBusinessHours,
+} from './business-hours';
+
+describe('business hours', () => {
+  it('parses day ranges and single days', () => {
+    expect(parseBusinessHours('Mon-Fri 08:00-17:00, Sat 09:00-13:00')).toEqual([
+      { days: [1, 2, 3, 4, 5], open: '08:00', close: '17:00' },
+      { days: [6], open: '09:00', close: '13:00' },
+    ]);
+    expect(parseBusinessHours('friday-monday 10:00-14:00')).toEqual([
+      { days: [5, 6, 0, 1], open: '10:00', close: '14:00' },
+    ]);
+  });
+
+  it('turns down hours it cannot read', () => {
+    expect(() => parseBusinessHours('Mon-Fri 8am-5pm')).toThrow(
+      'Invalid times in "Mon-Fri 8am-5pm", use HH:MM',
+    );
+    expect(() => parseBusinessHours('Funday 08:00-17:00')).toThrow(
+      'Unknown day "Funday"',
+    );
+    expect(() => parseBusinessHours('Mon 17:00-08:00')).toThrow(
+      'closes before it opens',
+    );
+  });
+
+  it('describes the hours for people', () => {
+    expect(
+      describeBusinessHours(
+        loadBusinessHours(
+          'Mon-Fri 08:00-17:00; Sat 09:00-13:00',
+          'Africa/Nairobi',
+        ),
+      ),
+    ).toBe(
+      'Monday to Friday 08:00-17:00, Saturday 09:00-13:00 (Africa/Nairobi time)',
+    );
+  });
+});
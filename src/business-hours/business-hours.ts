@@ -0,0 +1,85 @@
+// Opening hours written the way people write them on a shop door, e.g.
+// BUSINESS_HOURS="Mon-Fri 08:00-17:00, Sat 09:00-13:00"
+export const DEFAULT_BUSINESS_HOURS = 'Mon-Fri 08:00-17:00, Sat 09:00-13:00';
+export const DEFAULT_TIME_ZONE = 'Africa/Nairobi';
+
+// Days are numbered like Date.getDay(): 0 is Sunday
+export interface OpeningHours {
+  days: number[];
+  // 24 hour HH:MM, in the business time zone
+  open: string;
+  close: string;
+}
+
+export interface BusinessHours {
+  hours: OpeningHours[];
+  timeZone: string;
+}
+
+const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function parseDay(name: string) {
+  const day = DAY_NAMES.findIndex((dayName) =>
+    dayName.toLowerCase().startsWith(name.toLowerCase().slice(0, 3)),
+  );
+  if (name.length < 3 || day === -1) {
+    throw new Error(`Unknown day "${name}"`);
+  }
+  return day;
+}
+
+export function parseBusinessHours(spec: string): OpeningHours[] {
+  return spec
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(\w+)(?:\s*-\s*(\w+))?\s+(\S+)\s*-\s*(\S+)$/);
+      if (!match) {
+        throw new Error(`Invalid business hours "${part}"`);
+      }
+
+      const [, from, to, open, close] = match;
+      if (!TIME_PATTERN.test(open) || !TIME_PATTERN.test(close)) {
+        throw new Error(`Invalid times in "${part}", use HH:MM`);
+      }
+      if (open >= close) {
+        throw new Error(`"${part}" closes before it opens`);
+      }
+
+      const first = parseDay(from);
+      const last = to ? parseDay(to) : first;
+      const days: number[] = [];
+      for (let day = first; ; day = (day + 1) % 7) {
+        days.push(day);
+        if (day === last) break;
+      }
+      return { days, open, close };
+    });
+}
+
+export function loadBusinessHours(
+  spec = process.env.BUSINESS_HOURS || DEFAULT_BUSINESS_HOURS,
+  timeZone = process.env.BUSINESS_TIME_ZONE || DEFAULT_TIME_ZONE,
+): BusinessHours {
+  return { hours: parseBusinessHours(spec), timeZone };
+}
+
+// "Monday to Friday 08:00-17:00, Saturday 09:00-13:00 (Africa/Nairobi time)"
+export function describeBusinessHours({ hours, timeZone }: BusinessHours) {
+  const periods = hours.map(({ days, open, close }) => {
+    const first = DAY_NAMES[days[0]];
+    const last = DAY_NAMES[days[days.length - 1]];
+    return `${days.length > 1 ? `${first} to ${last}` : first} ${open}-${close}`;
+  });
+  return `${periods.join(', ')} (${timeZone} time)`;
+}
@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { CatalogService } from './catalog.service';
+import { StudioService } from './studio-services';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('catalog')
+@UseGuards(AdminTokenGuard)
+export class CatalogController {
+  constructor(private readonly catalogService: CatalogService) {}
+
+  @Get('services')
+  getServices() {
+    return this.catalogService.getServices();
+  }
+
+  @Get('services/:id')
+  async getService(@Param('id') id: string) {
+    const service = await this.catalogService.getService(id);
+    return service
+      ? { status: 'success', data: service }
+      : { status: 'error', message: 'Service not found' };
+  }
+
+  @Post('services')
+  createService(@Body() service: StudioService) {
+    return this.catalogService.createService(service);
+  }
+
+  @Patch('services/:id')
+  updateService(
+    @Param('id') id: string,
+    @Body() changes: Partial<StudioService>,
+  ) {
+    return this.catalogService.updateService(id, changes);
+  }
+
+  @Delete('services/:id')
+  deleteService(@Param('id') id: string) {
+    return this.catalogService.deleteService(id);
+  }
+
+  @Post('reset')
+  @HttpCode(200)
+  resetToFile() {
+    return this.catalogService.resetToFile();
+  }
+}
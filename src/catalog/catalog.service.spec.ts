@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CatalogService } from './catalog.service';
+import { loadCatalogFile, StudioService } from './studio-services';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('CatalogService', () => {
+  let service: CatalogService;
+
+  const newService = (changes: Partial<StudioService> = {}): StudioService => ({
+    id: 'photography',
+    order: 6,
+    title: 'Photography',
+    description: 'Product and event photography',
+    emoji: '📷',
+    section: 'Design',
+    headline: 'Studio Libra Photography',
+    subServices: [{ title: 'Product shoots' }],
+    contacts: [],
+    ...changes,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CatalogService],
+    }).compile();
+
+    service = module.get<CatalogService>(CatalogService);
+    await service['redis'].flushall();
+  });
+
+  it('serves the catalog file until it is edited', async () => {
+    expect(await service.getServices()).toEqual(loadCatalogFile());
+  });
+
+  it('adds services in menu order', async () => {
+    const result = await service.createService(newService({ order: 1.5 }));
+
+    expect(result.status).toBe('success');
+    expect((await service.getServices()).map(({ id }) => id)).toEqual([
+      'branding_service',
+      'photography',
+      'illustrations_comics',
+      'software_dev_service',
+      'models_service',
+      'talk_to_human',
+      'book_consultation',
+    ]);
+  });
+
+  it('turns down invalid and duplicate services', async () => {
+    expect(
+      await service.createService(newService({ title: 'x'.repeat(25) })),
+    ).toEqual({
+      status: 'error',
+      message: 'photography: title must be at most 24 characters',
+    });
+    expect(
+      await service.createService(newService({ id: 'branding_service' })),
+    ).toEqual({ status: 'error', message: 'Service branding_service exists' });
+    expect(await service.getServices()).toEqual(loadCatalogFile());
+  });
+
+  it('merges updates and keeps the ID', async () => {
+    const result = await service.updateService('branding_service', {
+      id: 'renamed',
+      intro: 'Brands that stand out.',
+    } as Partial<StudioService>);
+
+    expect(result).toEqual({
+      status: 'success',
+      data: expect.objectContaining({
+        id: 'branding_service',
+        title: 'Branding',
+        intro: 'Brands that stand out.',
+      }),
+    });
+    expect((await service.getService('branding_service')).intro).toBe(
+      'Brands that stand out.',
+    );
+  });
+
+  it('deletes services and resets to the file', async () => {
+    await service.deleteService('talk_to_human');
+    expect(await service.getService('talk_to_human')).toBeNull();
+    expect(await service.deleteService('talk_to_human')).toEqual({
+      status: 'error',
+      message: 'Service not found',
+    });
+
+    await service.resetToFile();
+    expect(await service.getService('talk_to_human')).not.toBeNull();
+  });
+
+  it('picks up changes to the catalog file without a restart', async () => {
+    const folder = mkdtempSync(join(tmpdir(), 'catalog-'));
+    const filePath = join(folder, 'catalog.json');
+    const write = (services: StudioService[], modifiedAt: number) => {
+      writeFileSync(filePath, JSON.stringify({ services }));
+      utimesSync(filePath, modifiedAt, modifiedAt);
+    };
+    service.configuration.filePath = filePath;
+
+    write([newService()], 1000);
+    expect((await service.getServices()).map(({ id }) => id)).toEqual([
+      'photography',
+    ]);
+
+    write([newService(), newService({ id: 'murals', order: 7 })], 2000);
+    expect((await service.getServices()).map(({ id }) => id)).toEqual([
+      'photography',
+      'murals',
+    ]);
+
+    rmSync(folder, { recursive: true });
+  });
+});
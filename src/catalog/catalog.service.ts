@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { statSync } from 'fs';
+import { join } from 'path';
+import {
+  findService,
+  loadCatalogFile,
+  sortServices,
+  StudioService,
+  validateCatalog,
+} from './studio-services';
+
+const CATALOG_KEY = 'catalog:services';
+
+export type CatalogResult<T = StudioService> =
+  | { status: 'success'; data: T }
+  | { status: 'error'; message: string };
+
+// The service catalog starts out as config/catalog.json. Once edited
+// through the admin API it is kept in Redis, where every instance reads
+// it from, so changes show up in the next menu without a restart.
+@Injectable()
+export class CatalogService {
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(CatalogService.name);
+
+  readonly configuration = {
+    filePath:
+      process.env.CATALOG_PATH || join(process.cwd(), 'config', 'catalog.json'),
+  };
+
+  // Re-read when the file changes on disk
+  private file: { modifiedAt: number; services: StudioService[] } | null = null;
+
+  async getServices(): Promise<StudioService[]> {
+    try {
+      const stored = await this.redis.get(CATALOG_KEY);
+      if (stored) {
+        return sortServices(JSON.parse(stored));
+      }
+    } catch (error) {
+      this.logger.error('Error Loading Catalog', error);
+    }
+
+    return this.getFileServices();
+  }
+
+  async getService(id: string) {
+    return findService(id, await this.getServices());
+  }
+
+  async createService(
+    service: StudioService,
+  ): Promise<CatalogResult<StudioService>> {
+    const services = await this.getServices();
+    if (findService(service?.id, services)) {
+      return { status: 'error', message: `Service ${service.id} exists` };
+    }
+
+    return this.saveService(services, service);
+  }
+
+  // Changes are merged into the stored service, the ID can't be changed
+  async updateService(
+    id: string,
+    changes: Partial<StudioService>,
+  ): Promise<CatalogResult<StudioService>> {
+    const services = await this.getServices();
+    const service = findService(id, services);
+    if (!service) {
+      return { status: 'error', message: 'Service not found' };
+    }
+
+    return this.saveService(
+      services.filter((item) => item.id !== id),
+      { ...service, ...changes, id },
+    );
+  }
+
+  async deleteService(id: string): Promise<CatalogResult<StudioService[]>> {
+    const services = await this.getServices();
+    if (!findService(id, services)) {
+      return { status: 'error', message: 'Service not found' };
+    }
+
+    const remaining = services.filter((service) => service.id !== id);
+    await this.redis.set(CATALOG_KEY, JSON.stringify(remaining));
+    this.logger.log(`Deleted service ${id}`);
+    return { status: 'success', data: remaining };
+  }
+
+  // Drops the edits so the catalog file applies again
+  async resetToFile(): Promise<CatalogResult<StudioService[]>> {
+    await this.redis.del(CATALOG_KEY);
+    this.logger.log('Catalog reset to the catalog file');
+    return { status: 'success', data: this.getFileServices() };
+  }
+
+  private async saveService(
+    others: StudioService[],
+    service: StudioService,
+  ): Promise<CatalogResult<StudioService>> {
+    const services = sortServices([...others, service]);
+    const errors = validateCatalog(services);
+    if (errors.length) {
+      return { status: 'error', message: errors.join('; ') };
+    }
+
+    await this.redis.set(CATALOG_KEY, JSON.stringify(services));
+    this.logger.log(`Saved service ${service.id}`);
+    return { status: 'success', data: service };
+  }
+
+  private getFileServices(): StudioService[] {
+    try {
+      const { filePath } = this.configuration;
+      const modifiedAt = statSync(filePath).mtimeMs;
+      if (this.file?.modifiedAt !== modifiedAt) {
+        this.file = { modifiedAt, services: loadCatalogFile(filePath) };
+      }
+    } catch (error) {
+      // Keep serving the last catalog that could be read
+      this.logger.error('Error Reading Catalog File', error);
+    }
+    return this.file?.services ?? [];
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  groupServicesBySection,
+  loadCatalogFile,
+  localizeService,
+  renderServiceDetails,
+  validateCatalog,
+  validateService,
+} from './studio-services';
+
+describe('studio services', () => {
+  const services = loadCatalogFile();
+
+  it('ships a catalog that fits within the platform limits', () => {
+    expect(validateCatalog(services)).toEqual([]);
+  });
+
+  it('loads the services in menu order', () => {
+    expect(services.map(({ order }) => order)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('groups services by section in menu order', () => {
+    expect(
+      groupServicesBySection(services).map(({ title, items }) => [
+        title,
+        items.map((item) => item.id),
+      ]),
+    ).toEqual([
+      ['Design', ['branding_service', 'illustrations_comics']],
+      ['Technology', ['software_dev_service', 'models_service']],
+      ['Support', ['talk_to_human', 'book_consultation']],
+    ]);
+  });
+
+  it('renders service details as Markdown', () => {
+    expect(
+      renderServiceDetails({
+        id: 'murals',
+        order: 1,
+        title: 'Murals',
+        description: 'Hand-painted walls',
+        emoji: '🖌️',
+        section: 'Design',
+        headline: 'Studio Libra Murals',
+        intro: 'We paint:',
+        subServices: [
+          { title: 'Office walls', description: 'Your brand, life-size.' },
+          { title: 'Shop fronts' },
+        ],
+        outro: 'Got a wall?',
+        contacts: [
+          { type: 'phone', label: 'Call us on', value: '+254700000000' },
+        ],
+      }),
+    ).toBe(
+      [
+        '🖌️ **Studio Libra Murals**',
+        'We paint:',
+        '• **Office walls** – Your brand, life-size.\n• Shop fronts',
+        'Got a wall?',
+        '📞 **Call us on** +254700000000',
+      ].join('\n\n'),
+    );
+  });
+
+  it('reports what is wrong with a service', () => {
+    expect(
+      validateService({
+        ...services[0],
+        id: 'more_options',
+        description: '',
+        contacts: [{ type: 'fax' as any, label: 'Fax', value: '123' }],
+        intake: ['name', 'phone' as any],
+        booking: 'yes' as any,
+      }),
+    ).toEqual([
+      'id more_options is reserved',
+      'description is required',
+      'contacts must be a list of email, phone or url items with a label and value',
+      'intake must be a list of distinct name, company, projectDescription, budget, timeline, email',
+      'booking must be true or false',
+    ]);
+  });
+
+  it('translates services, keeping English where there is no translation', () => {
+    expect(localizeService(services[0], 'sw')).toMatchObject({
+      id: 'branding_service',
+      title: 'Utambulisho wa Chapa',
+      emoji: '🎨',
+    });
+    expect(localizeService(services[0], 'fr').title).toBe('Branding');
+  });
+
+  it('checks translations against the same limits', () => {
+    expect(
+      validateCatalog([
+        {
+          ...services[0],
+          translations: { sw: { title: 'x'.repeat(25) }, xx: {} } as any,
+        },
+      ]),
+    ).toEqual([
+      'branding_service (sw): title must be at most 24 characters',
+      'branding_service: unknown language xx',
+    ]);
+  });
+
+  it('rejects duplicate IDs', () => {
+    expect(validateCatalog([services[0], services[0]])).toEqual([
+      'service IDs must be unique',
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { isLanguage, Language } from '../i18n/i18n';
+import { LEAD_FIELDS, LeadField } from '../leads/lead-intake';
+
+// The services offered in every channel's menu. IDs double as WhatsApp
+// list row IDs and Telegram callback data, so keep them stable.
+export interface StudioService {
+  id: string;
+  // Position in the menu, lowest first
+  order: number;
+  // WhatsApp limits list row titles to 24 and descriptions to 72 characters
+  title: string;
+  description: string;
+  emoji: string;
+  section: string;
+  // The rest is sent when the service is picked from the menu
+  headline?: string;
+  intro?: string;
+  subServices: SubService[];
+  outro?: string;
+  contacts: ContactCTA[];
+  // Questions asked after the details are sent, to turn interest into a
+  // lead. Services without them leave the conversation to the assistant.
+  intake?: LeadField[];
+  // Picking it hands the conversation to the team
+  handoff?: boolean;
+  // Picking it offers times for a consultation call
+  booking?: boolean;
+  // Replaces the English texts for users talking in another language,
+  // anything left out stays in English
+  translations?: Partial<Record<Language, ServiceTranslation>>;
+}
+
+export type ServiceTranslation = Partial<
+  Pick<
+    StudioService,
+    | 'title'
+    | 'description'
+    | 'section'
+    | 'headline'
+    | 'intro'
+    | 'subServices'
+    | 'outro'
+    | 'contacts'
+  >
+>;
+
+export interface SubService {
+  title: string;
+  description?: string;
+}
+
+export interface ContactCTA {
+  type: 'email' | 'phone' | 'url';
+  // Shown in bold before the value, e.g. "Contact us today at"
+  label: string;
+  value: string;
+}
+
+export interface CatalogFile {
+  services: StudioService[];
+}
+
+const CONTACT_EMOJI: Record<ContactCTA['type'], string> = {
+  email: '📩',
+  phone: '📞',
+  url: '🔗',
+};
+
+// Platform limits every service has to fit in: WhatsApp list messages take
+// 10 rows, Telegram callback data 64 bytes
+const MAX_SERVICES = 10;
+const SERVICE_ID_PATTERN = /^[a-z0-9_]{1,64}$/;
+const RESERVED_IDS = ['more_options'];
+
+export function loadCatalogFile(
+  filePath = process.env.CATALOG_PATH ||
+    join(process.cwd(), 'config', 'catalog.json'),
+): StudioService[] {
+  const catalog: CatalogFile = JSON.parse(readFileSync(filePath, 'utf8'));
+  return sortServices(catalog.services);
+}
+
+export function sortServices(services: StudioService[]) {
+  return [...services].sort((a, b) => a.order - b.order);
+}
+
+export function findService(id: string, services: StudioService[]) {
+  return services.find((service) => service.id === id) ?? null;
+}
+
+export function localizeService(
+  service: StudioService,
+  language: Language,
+): StudioService {
+  return { ...service, ...service.translations?.[language] };
+}
+
+// Groups the services by section, keeping the order they are defined in
+export function groupServicesBySection(services: StudioService[]) {
+  const sections = new Map<string, StudioService[]>();
+  for (const service of services) {
+    sections.set(service.section, [
+      ...(sections.get(service.section) ?? []),
+      service,
+    ]);
+  }
+  return [...sections.entries()].map(([title, items]) => ({ title, items }));
+}
+
+// The Markdown sent when a service is picked. Channels convert it to their
+// own formatting like any other reply.
+export function renderServiceDetails(service: StudioService) {
+  const bullets = service.subServices.map(({ title, description }) =>
+    description ? `• **${title}** – ${description}` : `• ${title}`,
+  );
+  const contacts = service.contacts.map(
+    ({ type, label, value }) => `${CONTACT_EMOJI[type]} **${label}** ${value}`,
+  );
+
+  return [
+    `${service.emoji} **${service.headline || service.title}**`,
+    service.intro,
+    bullets.join('\n'),
+    service.outro,
+    contacts.join('\n'),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Returns what is wrong with a service, nothing when it is valid
+export function validateService(service: Partial<StudioService>): string[] {
+  const errors: string[] = [];
+  const text = (field: keyof StudioService, maxLength: number) => {
+    const value = service[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${field} is required`);
+    } else if (value.length > maxLength) {
+      errors.push(`${field} must be at most ${maxLength} characters`);
+    }
+  };
+
+  if (!SERVICE_ID_PATTERN.test(service.id ?? '')) {
+    errors.push('id must be 1-64 lowercase letters, digits or underscores');
+  } else if (RESERVED_IDS.includes(service.id)) {
+    errors.push(`id ${service.id} is reserved`);
+  }
+  if (!Number.isFinite(service.order)) {
+    errors.push('order must be a number');
+  }
+  text('title', 24);
+  text('description', 72);
+  text('section', 24);
+  text('emoji', 16);
+
+  if (
+    !Array.isArray(service.subServices) ||
+    service.subServices.some((item) => !item?.title?.trim())
+  ) {
+    errors.push('subServices must be a list of items with a title');
+  }
+  if (
+    !Array.isArray(service.contacts) ||
+    service.contacts.some(
+      (contact) =>
+        !CONTACT_EMOJI[contact?.type] ||
+        !contact.label?.trim() ||
+        !contact.value?.trim(),
+    )
+  ) {
+    errors.push(
+      'contacts must be a list of email, phone or url items with a label and value',
+    );
+  }
+  if (
+    service.intake !== undefined &&
+    (!Array.isArray(service.intake) ||
+      service.intake.some((field) => !LEAD_FIELDS.includes(field)) ||
+      new Set(service.intake).size !== service.intake.length)
+  ) {
+    errors.push(`intake must be a list of distinct ${LEAD_FIELDS.join(', ')}`);
+  }
+  if (service.handoff !== undefined && typeof service.handoff !== 'boolean') {
+    errors.push('handoff must be true or false');
+  }
+  if (service.booking !== undefined && typeof service.booking !== 'boolean') {
+    errors.push('booking must be true or false');
+  }
+
+  return errors;
+}
+
+export function validateCatalog(services: StudioService[]): string[] {
+  const errors = services.flatMap((service) => [
+    ...validateService(service).map((error) => `${service.id}: ${error}`),
+    // Translations have to fit in the menu as well
+    ...Object.keys(service.translations ?? {}).flatMap((language) =>
+      isLanguage(language)
+        ? validateService(localizeService(service, language)).map(
+            (error) => `${service.id} (${language}): ${error}`,
+          )
+        : [`${service.id}: unknown language ${language}`],
+    ),
+  ]);
+
+  const ids = services.map((service) => service.id);
+  if (new Set(ids).size !== ids.length) {
+    errors.push('service IDs must be unique');
+  }
+  if (services.length > MAX_SERVICES) {
+    errors.push(`the menu takes at most ${MAX_SERVICES} services`);
+  }
+
+  return errors;
+}
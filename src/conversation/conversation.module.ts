@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+import { OpenaiService } from '../openai/openai.service';
+import { StabilityaiService } from '../stabilityai/stabilityai.service';
+import { AudioService } from '../audio/audio.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { DocumentsService } from '../documents/documents.service';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { LanguageService } from '../i18n/language.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { LeadsService } from '../leads/leads.service';
+import { HandoffService } from '../handoff/handoff.service';
+import { InboxService } from '../inbox/inbox.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+
+@Module({
+  providers: [
+    ConversationService,
+    OpenaiService,
+    StabilityaiService,
+    AudioService,
+    UserContextService,
+    DocumentsService,
+    UserProfileService,
+    CatalogService,
+    LanguageService,
+    PromptsService,
+    LeadsService,
+    HandoffService,
+    InboxService,
+    BookingsService,
+    DedupeService,
+  ],
+  exports: [ConversationService],
+})
+export class ConversationModule {}
@@ -0,0 +1,1018 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConversationService } from './conversation.service';
+import { OpenaiService } from '../openai/openai.service';
+import { StabilityaiService } from '../stabilityai/stabilityai.service';
+import { AudioService } from '../audio/audio.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { DocumentsService } from '../documents/documents.service';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { LanguageService } from '../i18n/language.service';
+import { LeadsService } from '../leads/leads.service';
+import { HandoffService } from '../handoff/handoff.service';
+import { InboxService } from '../inbox/inbox.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { findService, loadCatalogFile } from '../catalog/studio-services';
+import {
+  InboundContent,
+  InboundMessage,
+  OutboundMessage,
+} from './conversation.types';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+  let sent: OutboundMessage[];
+  let channel: { channel: 'whatsapp'; send: jest.Mock };
+  let openaiService: Record<string, jest.Mock>;
+  let stabilityaiService: Record<string, jest.Mock>;
+  let audioService: Record<string, jest.Mock>;
+  let userContextService: Record<string, jest.Mock>;
+  let documentsService: Record<string, jest.Mock>;
+  let userProfileService: Record<string, jest.Mock>;
+  let catalogService: Record<string, jest.Mock>;
+  let languageService: Record<string, jest.Mock>;
+  let leadsService: Record<string, jest.Mock>;
+  let handoffService: Record<string, jest.Mock>;
+  let inboxService: Record<string, jest.Mock>;
+  let bookingsService: Record<string, jest.Mock>;
+
+  const inbound = (
+    content: InboundContent,
+    messageID = 'msg-1',
+  ): InboundMessage => ({
+    channel: 'whatsapp',
+    userID: '254700000001',
+    messageID,
+    userName: 'Amina',
+    content,
+  });
+  const media = (data: string, details = {}) => ({
+    download: jest.fn().mockResolvedValue({ status: 'success', data }),
+    ...details,
+  });
+  const sentOfType = (type: OutboundMessage['type']) =>
+    sent.filter((message) => message.type === type);
+
+  beforeEach(async () => {
+    sent = [];
+    channel = {
+      channel: 'whatsapp',
+      send: jest.fn(async (userID, message) => {
+        sent.push(message);
+        return { status: 'success' };
+      }),
+    };
+    openaiService = {
+      generateAIResponse: jest.fn().mockResolvedValue('Yes we do! 🎨'),
+      generateAssistantReply: jest
+        .fn()
+        .mockResolvedValue({ text: 'Yes we do! 🎨' }),
+      generateImageResponse: jest.fn().mockResolvedValue('Nice logo!'),
+    };
+    stabilityaiService = {
+      textToImage: jest.fn().mockResolvedValue(['v1_txt2img_1_0.png']),
+      imageToImage: jest.fn().mockResolvedValue(['v1_img2img_1_0.png']),
+      upscaleImage: jest.fn().mockResolvedValue(['v1_upscale_1_0.png']),
+      getGeneratedImagePath: jest.fn((fileName) => `/generated/${fileName}`),
+    };
+    audioService = {
+      convertAudioToText: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', data: 'Do you do logos?' }),
+      convertTextToSpeech: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', data: 'reply.mp3' }),
+      getAudioFilePath: jest.fn((fileName) => `/audio/${fileName}`),
+    };
+    userContextService = {
+      getConversationHistory: jest
+        .fn()
+        .mockResolvedValue([{ role: 'user', content: 'Hello' }]),
+      saveToContext: jest.fn(),
+      saveLastGeneratedImage: jest.fn(),
+      getLastGeneratedImage: jest.fn().mockResolvedValue(null),
+    };
+    documentsService = {
+      checkDocument: jest.fn().mockReturnValue(null),
+      handleDocument: jest.fn().mockResolvedValue('• Bakery rebrand'),
+    };
+    userProfileService = {
+      saveLocation: jest.fn(),
+      saveReferrals: jest.fn(),
+      saveFeedback: jest.fn(),
+    };
+    const services = loadCatalogFile();
+    catalogService = {
+      getServices: jest.fn().mockResolvedValue(services),
+      getService: jest.fn(async (id) => findService(id, services)),
+    };
+    languageService = {
+      getLanguage: jest.fn().mockResolvedValue('en'),
+      detectFromMessage: jest.fn().mockResolvedValue('en'),
+      setLanguage: jest.fn(),
+    };
+    leadsService = {
+      startIntake: jest.fn().mockResolvedValue(null),
+      answer: jest.fn().mockResolvedValue(null),
+      cancelIntake: jest.fn(),
+    };
+    handoffService = {
+      getHandoff: jest.fn().mockResolvedValue(null),
+      findHandoff: jest.fn().mockResolvedValue(null),
+      start: jest.fn(),
+      recordMessage: jest.fn(),
+      recordReply: jest.fn(),
+      release: jest.fn(),
+    };
+    inboxService = {
+      recordInbound: jest.fn(),
+      recordOutbound: jest.fn(),
+      getRecipient: jest.fn().mockResolvedValue({
+        userID: '254700000001',
+        channel: 'whatsapp',
+      }),
+      prepareReply: jest.fn((reply) =>
+        reply.type === 'text'
+          ? { status: 'success', data: reply }
+          : {
+              status: 'success',
+              data: {
+                type: reply.type,
+                filePath: `/sentFiles/${reply.fileName}`,
+              },
+            },
+      ),
+      markRead: jest.fn(),
+    };
+    const slots: OutboundMessage = {
+      type: 'choices',
+      text: 'Pick a time',
+      choices: [
+        { id: 'booking:pick:1792389600000', title: 'Mon 19 Oct, 09:00' },
+      ],
+    };
+    bookingsService = {
+      offerSlots: jest.fn().mockResolvedValue([slots]),
+      select: jest.fn(async (turn, id) =>
+        id.startsWith('booking:')
+          ? [
+              { type: 'text', text: 'Booked!' },
+              { type: 'document', filePath: '/sentFiles/b1.ics' },
+            ]
+          : null,
+      ),
+      reschedule: jest.fn().mockResolvedValue([slots]),
+      cancel: jest
+        .fn()
+        .mockResolvedValue([{ type: 'text', text: 'Cancelled' }]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        { provide: OpenaiService, useValue: openaiService },
+        { provide: StabilityaiService, useValue: stabilityaiService },
+        { provide: AudioService, useValue: audioService },
+        { provide: UserContextService, useValue: userContextService },
+        { provide: DocumentsService, useValue: documentsService },
+        { provide: UserProfileService, useValue: userProfileService },
+        { provide: CatalogService, useValue: catalogService },
+        { provide: LanguageService, useValue: languageService },
+        { provide: LeadsService, useValue: leadsService },
+        { provide: HandoffService, useValue: handoffService },
+        { provide: InboxService, useValue: inboxService },
+        { provide: BookingsService, useValue: bookingsService },
+        DedupeService,
+      ],
+    }).compile();
+
+    service = module.get<ConversationService>(ConversationService);
+    service.registerChannel(channel);
+    await module.get(DedupeService)['redis'].flushall();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('text', () => {
+    it('welcomes new users with the service menu', async () => {
+      userContextService.getConversationHistory.mockResolvedValue([]);
+
+      await service.handleMessage(inbound({ type: 'text', text: 'Hello' }));
+
+      expect(sent).toEqual([
+        expect.objectContaining({
+          type: 'menu',
+          text: expect.stringContaining('Hi Amina!'),
+          replyTo: 'msg-1',
+        }),
+      ]);
+      expect(openaiService.generateAssistantReply).not.toHaveBeenCalled();
+      expect(userContextService.saveToContext).toHaveBeenCalledWith(
+        'User started conversation with Studio Libra on whatsapp',
+        'assistant',
+        '254700000001',
+      );
+    });
+
+    it('welcomes users again when they type /start', async () => {
+      await service.handleMessage(inbound({ type: 'text', text: '/start' }));
+
+      expect(sentOfType('menu')).toHaveLength(1);
+      expect(leadsService.cancelIntake).toHaveBeenCalledWith('254700000001');
+      expect(leadsService.answer).not.toHaveBeenCalled();
+    });
+
+    it('takes replies as answers while an intake is going on', async () => {
+      leadsService.answer.mockResolvedValue({ reply: '(2/6) Which company?' });
+
+      await service.handleMessage(inbound({ type: 'text', text: 'Amina' }));
+
+      expect(leadsService.answer).toHaveBeenCalledWith(
+        expect.objectContaining({ userID: '254700000001', language: 'en' }),
+        'Amina',
+      );
+      expect(sent).toEqual([
+        { type: 'text', text: '(2/6) Which company?', replyTo: 'msg-1' },
+      ]);
+      expect(openaiService.generateAssistantReply).not.toHaveBeenCalled();
+    });
+
+    it('replies to returning users with the AI response', async () => {
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Do you do logos?' }),
+      );
+
+      expect(openaiService.generateAssistantReply).toHaveBeenCalledWith(
+        '254700000001',
+        'Do you do logos?',
+        {
+          channel: 'whatsapp',
+          userName: 'Amina',
+          language: 'en',
+        },
+        'msg-1',
+      );
+      expect(sent).toEqual([
+        { type: 'typing' },
+        { type: 'text', text: 'Yes we do! 🎨', replyTo: 'msg-1' },
+      ]);
+    });
+  });
+
+  describe('language', () => {
+    it('detects the language from what the user writes', async () => {
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Habari, nataka logo' }),
+      );
+
+      expect(languageService.detectFromMessage).toHaveBeenCalledWith(
+        '254700000001',
+        'Habari, nataka logo',
+      );
+    });
+
+    it('welcomes users with the menu in their language', async () => {
+      languageService.detectFromMessage.mockResolvedValue('sw');
+      userContextService.getConversationHistory.mockResolvedValue([]);
+
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Habari yako' }),
+      );
+
+      const [menu] = sentOfType('menu');
+      expect(menu).toMatchObject({
+        text: expect.stringContaining('Karibu Studio Libra'),
+        button: 'Tazama huduma',
+      });
+      expect(menu.type === 'menu' && menu.services[0].title).toBe(
+        'Utambulisho wa Chapa',
+      );
+    });
+
+    it('switches language with /lang', async () => {
+      await service.handleMessage(inbound({ type: 'text', text: '/lang sw' }));
+
+      expect(languageService.detectFromMessage).not.toHaveBeenCalled();
+      expect(languageService.setLanguage).toHaveBeenCalledWith(
+        '254700000001',
+        'sw',
+      );
+      expect(sent).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining('Kiswahili'),
+          replyTo: 'msg-1',
+        },
+      ]);
+    });
+
+    it('lists the languages for an unknown /lang', async () => {
+      await service.handleMessage(
+        inbound({ type: 'text', text: '/lang klingon' }),
+      );
+
+      expect(languageService.setLanguage).not.toHaveBeenCalled();
+      expect(sent[0]).toMatchObject({
+        text: expect.stringContaining('`sw` – Kiswahili'),
+      });
+    });
+
+    it('answers in the stored language', async () => {
+      languageService.getLanguage.mockResolvedValue('sw');
+
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'models_service' }),
+      );
+
+      expect(sent).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining('Unatafuta muundo wa aina gani?'),
+        },
+      ]);
+    });
+  });
+
+  describe('selection', () => {
+    it('answers service selections with the service info', async () => {
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'branding_service' }),
+      );
+
+      expect(userContextService.saveToContext).toHaveBeenCalledWith(
+        'User selected: Branding',
+        'user',
+        '254700000001',
+        { messageID: 'msg-1' },
+      );
+      expect(sent).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining('Branding Services'),
+        },
+      ]);
+    });
+
+    it('asks the intake questions after the service info', async () => {
+      leadsService.startIntake.mockResolvedValue('(1/6) What is your name?');
+
+      const result = await service.handleMessage(
+        inbound({ type: 'selection', id: 'branding_service' }),
+      );
+
+      expect(leadsService.startIntake).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'whatsapp', language: 'en' }),
+        expect.objectContaining({ id: 'branding_service' }),
+      );
+      expect(sent).toEqual([
+        { type: 'text', text: expect.stringContaining('Branding Services') },
+        { type: 'text', text: '(1/6) What is your name?' },
+      ]);
+      expect(result).toEqual({ status: 'success', message: 'Intake started' });
+    });
+
+    it('answers with the catalog as edited', async () => {
+      catalogService.getService.mockResolvedValue({
+        ...findService('branding_service', loadCatalogFile()),
+        headline: 'Branding, now with murals',
+      });
+
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'branding_service' }),
+      );
+
+      expect(sent[0]).toEqual({
+        type: 'text',
+        text: expect.stringContaining('Branding, now with murals'),
+      });
+    });
+
+    it('answers unknown services with the default reply', async () => {
+      catalogService.getService.mockResolvedValue(null);
+
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'retired_service' }),
+      );
+
+      expect(sent).toEqual([
+        { type: 'text', text: expect.stringContaining('Thank you') },
+      ]);
+    });
+
+    it('answers legacy "More Options" taps with the menu', async () => {
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'more_options', title: 'More' }),
+      );
+
+      expect(sentOfType('menu')).toHaveLength(1);
+    });
+  });
+
+  describe('handoff', () => {
+    const handoff = {
+      userID: '254700000001',
+      channel: 'whatsapp',
+      userName: 'Amina',
+      requestedAt: 1,
+      lastActivityAt: 1,
+    };
+
+    it('hands the conversation to the team from "Talk to a human"', async () => {
+      const result = await service.handleMessage(
+        inbound({ type: 'selection', id: 'talk_to_human' }),
+      );
+
+      expect(handoffService.start).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userID: '254700000001',
+          channel: 'whatsapp',
+        }),
+      );
+      expect(sent).toEqual([
+        { type: 'text', text: expect.stringContaining('Talk to a Human') },
+        {
+          type: 'text',
+          text: expect.stringContaining("I've let our team know"),
+        },
+      ]);
+      expect(result.message).toBe('Conversation handed off');
+    });
+
+    it('passes messages to the team instead of the assistant', async () => {
+      handoffService.getHandoff.mockResolvedValue(handoff);
+
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Are you there?' }),
+      );
+      await service.handleMessage(
+        inbound(
+          {
+            type: 'image',
+            media: media('/tmp/logo.png', { caption: 'Our old logo' }),
+          },
+          'msg-2',
+        ),
+      );
+
+      expect(handoffService.recordMessage).toHaveBeenCalledWith(
+        handoff,
+        'Are you there?',
+      );
+      expect(handoffService.recordMessage).toHaveBeenCalledWith(
+        handoff,
+        '[User sent an image: Our old logo]',
+      );
+      expect(openaiService.generateAssistantReply).not.toHaveBeenCalled();
+      expect(openaiService.generateImageResponse).not.toHaveBeenCalled();
+      expect(sent).toEqual([]);
+    });
+
+    it("sends the team's replies through the user's channel", async () => {
+      handoffService.getHandoff.mockResolvedValue(handoff);
+      handoffService.findHandoff.mockResolvedValue(handoff);
+
+      const result = await service.sendAgentReply(
+        'hash-254700000001',
+        'Hi Amina, Wanjiku here 👋',
+        'Wanjiku',
+      );
+
+      expect(result).toEqual({ status: 'success', message: 'Reply sent' });
+      expect(channel.send).toHaveBeenCalledWith('254700000001', {
+        type: 'text',
+        text: 'Hi Amina, Wanjiku here 👋',
+      });
+      expect(handoffService.findHandoff).toHaveBeenCalledWith(
+        'hash-254700000001',
+      );
+      expect(handoffService.recordReply).toHaveBeenCalledWith(
+        handoff,
+        'Hi Amina, Wanjiku here 👋',
+        'Wanjiku',
+      );
+    });
+
+    it('only sends replies to handed off conversations', async () => {
+      const result = await service.sendAgentReply('hash-254700000001', 'Hello');
+
+      expect(result).toEqual({
+        status: 'error',
+        message: 'Conversation is not handed off',
+      });
+      expect(sent).toEqual([]);
+    });
+
+    it('tells the user when the assistant is back', async () => {
+      handoffService.release.mockResolvedValue({
+        status: 'success',
+        data: handoff,
+      });
+      languageService.getLanguage.mockResolvedValue('sw');
+
+      await service.releaseHandoff('hash-254700000001');
+
+      expect(handoffService.release).toHaveBeenCalledWith('hash-254700000001');
+
+      expect(sent).toEqual([
+        { type: 'text', text: expect.stringContaining('Timu yetu imemaliza') },
+      ]);
+    });
+  });
+
+  describe('bookings', () => {
+    const turn = expect.objectContaining({
+      userID: '254700000001',
+      language: 'en',
+    });
+
+    it('offers times for /book', async () => {
+      await service.handleMessage(inbound({ type: 'text', text: '/book' }));
+
+      expect(bookingsService.offerSlots).toHaveBeenCalledWith(turn);
+      expect(sentOfType('choices')).toHaveLength(1);
+      expect(leadsService.answer).not.toHaveBeenCalled();
+      expect(openaiService.generateAssistantReply).not.toHaveBeenCalled();
+    });
+
+    it('reschedules and cancels with commands', async () => {
+      await service.handleMessage(
+        inbound({ type: 'text', text: '/reschedule' }),
+      );
+      await service.handleMessage(
+        inbound({ type: 'text', text: '/cancel_booking' }, 'msg-2'),
+      );
+
+      expect(bookingsService.reschedule).toHaveBeenCalledWith(turn);
+      expect(bookingsService.cancel).toHaveBeenCalledWith(turn);
+      expect(sent.map(({ type }) => type)).toEqual(['choices', 'text']);
+    });
+
+    it('offers times after the consultation service is picked', async () => {
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'book_consultation' }),
+      );
+
+      expect(sent).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining('Book a Consultation'),
+        },
+        expect.objectContaining({ type: 'choices' }),
+      ]);
+    });
+
+    it('passes picked times to the booking flow', async () => {
+      await service.handleMessage(
+        inbound({ type: 'selection', id: 'booking:confirm:1792389600000' }),
+      );
+
+      expect(bookingsService.select).toHaveBeenCalledWith(
+        turn,
+        'booking:confirm:1792389600000',
+      );
+      expect(sent.map(({ type }) => type)).toEqual(['text', 'document']);
+      expect(catalogService.getService).not.toHaveBeenCalled();
+    });
+
+    it('offers times when the assistant asks for them', async () => {
+      openaiService.generateAssistantReply.mockResolvedValue({
+        text: '',
+        action: 'book_consultation',
+      });
+
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Can we meet next week?' }),
+      );
+
+      expect(sent).toEqual([
+        { type: 'typing' },
+        expect.objectContaining({ type: 'choices' }),
+      ]);
+    });
+  });
+
+  describe('inbox', () => {
+    it('records what users send and what they are sent', async () => {
+      const message = inbound({ type: 'text', text: 'Do you do logos?' });
+
+      await service.handleMessage(message);
+
+      expect(inboxService.recordInbound).toHaveBeenCalledWith(message);
+      expect(inboxService.recordOutbound).toHaveBeenCalledWith(
+        'whatsapp',
+        '254700000001',
+        { type: 'text', text: 'Yes we do! 🎨', replyTo: 'msg-1' },
+        undefined,
+      );
+    });
+
+    it('sends replies from the team and keeps them in the context', async () => {
+      const result = await service.sendInboxReply(
+        'conversation-1',
+        { type: 'document', fileName: 'Quote.pdf', data: 'JVBERi0=' },
+        'Wanjiku',
+      );
+
+      expect(result).toEqual({ status: 'success', message: 'Reply sent' });
+      expect(sent).toEqual([
+        { type: 'document', filePath: '/sentFiles/Quote.pdf' },
+      ]);
+      expect(inboxService.recordOutbound).toHaveBeenCalledWith(
+        'whatsapp',
+        '254700000001',
+        expect.objectContaining({ type: 'document' }),
+        'Wanjiku',
+      );
+      expect(userContextService.saveToContext).toHaveBeenCalledWith(
+        '[Document Quote.pdf]',
+        'assistant',
+        '254700000001',
+        { agent: 'Wanjiku' },
+      );
+      expect(inboxService.markRead).toHaveBeenCalledWith('conversation-1');
+    });
+
+    it('reports replies that cannot be sent', async () => {
+      inboxService.getRecipient.mockResolvedValue(null);
+
+      expect(
+        await service.sendInboxReply('unknown', { type: 'text', text: 'Hi' }),
+      ).toEqual({ status: 'error', message: 'Conversation not found' });
+      expect(sent).toEqual([]);
+    });
+  });
+
+  describe('retries', () => {
+    it('does not repeat what went through before a retried message failed', async () => {
+      openaiService.generateAssistantReply.mockResolvedValue({
+        text: 'Let us find a time',
+        action: 'book_consultation',
+      });
+      bookingsService.offerSlots.mockRejectedValueOnce(new Error('Timeout'));
+      const message = inbound({ type: 'text', text: 'Can we talk?' });
+
+      await expect(service.handleMessage(message)).rejects.toThrow('Timeout');
+      await service.handleMessage(message);
+
+      expect(sent.map(({ type }) => type)).toEqual([
+        'typing',
+        'text',
+        'choices',
+      ]);
+      expect(inboxService.recordInbound).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends replies again that failed to go out', async () => {
+      channel.send.mockResolvedValueOnce({ status: 'error', error: 'Timeout' });
+      const message = inbound({
+        type: 'location',
+        latitude: -1.2921,
+        longitude: 36.8219,
+      });
+
+      await service.handleMessage(message);
+      await service.handleMessage(message);
+
+      expect(channel.send).toHaveBeenCalledTimes(2);
+      expect(sent).toEqual([
+        expect.objectContaining({ type: 'text', replyTo: 'msg-1' }),
+      ]);
+    });
+
+    it('tells messages apart by their ID', async () => {
+      await service.handleMessage(inbound({ type: 'text', text: 'Hi' }));
+      await service.handleMessage(
+        inbound({ type: 'text', text: 'Hi again' }, 'msg-2'),
+      );
+
+      expect(sentOfType('text')).toHaveLength(2);
+      expect(inboxService.recordInbound).toHaveBeenCalledTimes(2);
+    });
+
+    it('tells button taps apart by their event ID', async () => {
+      const tap = (eventID: string): InboundMessage => ({
+        ...inbound({ type: 'selection', id: 'branding_service' }),
+        messageID: undefined,
+        eventID,
+      });
+
+      await service.handleMessage(tap('tap-1'));
+      await service.handleMessage(tap('tap-1'));
+      expect(sentOfType('text')).toHaveLength(1);
+      expect(inboxService.recordInbound).toHaveBeenCalledTimes(1);
+
+      await service.handleMessage(tap('tap-2'));
+      expect(sentOfType('text')).toHaveLength(2);
+    });
+  });
+
+  describe('images', () => {
+    it('describes inbound images with their caption', async () => {
+      const image = media('/tmp/receivedImages/media-2.jpeg', {
+        caption: ' Our current logo ',
+      });
+
+      await service.handleMessage(inbound({ type: 'image', media: image }));
+
+      expect(image.download).toHaveBeenCalledWith('receivedImages');
+      expect(openaiService.generateImageResponse).toHaveBeenCalledWith(
+        '254700000001',
+        '/tmp/receivedImages/media-2.jpeg',
+        'Our current logo',
+        {
+          channel: 'whatsapp',
+          userName: 'Amina',
+          language: 'en',
+        },
+        'msg-1',
+      );
+      expect(sentOfType('text')).toEqual([
+        { type: 'text', text: 'Nice logo!', replyTo: 'msg-1' },
+      ]);
+    });
+
+    it('edits captioned images with /imagine', async () => {
+      await service.handleMessage(
+        inbound({
+          type: 'image',
+          media: media('/tmp/receivedImages/media-3.jpeg', {
+            caption: '/imagine make this a watercolor',
+          }),
+        }),
+      );
+
+      expect(stabilityaiService.imageToImage).toHaveBeenCalledWith(
+        'make this a watercolor',
+        '/tmp/receivedImages/media-3.jpeg',
+      );
+      expect(sentOfType('image')).toEqual([
+        {
+          type: 'image',
+          filePath: '/generated/v1_img2img_1_0.png',
+          caption: '🎨 "make this a watercolor"',
+          replyTo: 'msg-1',
+        },
+      ]);
+      expect(userContextService.saveLastGeneratedImage).toHaveBeenCalledWith(
+        '254700000001',
+        { fileName: 'v1_img2img_1_0.png', prompt: 'make this a watercolor' },
+      );
+      expect(openaiService.generateImageResponse).not.toHaveBeenCalled();
+    });
+
+    it('upscales the last generated image', async () => {
+      userContextService.getLastGeneratedImage.mockResolvedValue({
+        fileName: 'v1_txt2img_1_0.png',
+        prompt: 'a red fox',
+      });
+
+      await service.handleMessage(inbound({ type: 'text', text: '/upscale' }));
+
+      expect(stabilityaiService.upscaleImage).toHaveBeenCalledWith(
+        '/generated/v1_txt2img_1_0.png',
+      );
+      expect(sentOfType('image')).toEqual([
+        expect.objectContaining({ filePath: '/generated/v1_upscale_1_0.png' }),
+      ]);
+    });
+
+    it('asks for a description when /imagine has none', async () => {
+      await service.handleMessage(inbound({ type: 'text', text: '/imagine' }));
+
+      expect(stabilityaiService.textToImage).not.toHaveBeenCalled();
+      expect(sent).toEqual([
+        expect.objectContaining({
+          type: 'text',
+          text: expect.stringContaining('describe the image'),
+        }),
+      ]);
+    });
+
+    it('tells the user when a generated image cannot be sent', async () => {
+      channel.send.mockImplementation(async (userID, message) => {
+        sent.push(message);
+        return message.type === 'image'
+          ? { status: 'error', error: 'Media upload error' }
+          : { status: 'success' };
+      });
+
+      const result = await service.handleMessage(
+        inbound({ type: 'text', text: '/imagine a red fox' }),
+      );
+
+      expect(result.message).toBe('Image could not be sent');
+      expect(sentOfType('text')[0]).toEqual(
+        expect.objectContaining({
+          text: expect.stringContaining('could not send it'),
+        }),
+      );
+      expect(userContextService.saveLastGeneratedImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('documents', () => {
+    it('summarizes documents the user sends', async () => {
+      const document = media('/tmp/receivedDocuments/media-4.pdf', {
+        fileName: 'brief.pdf',
+        mimeType: 'application/pdf',
+      });
+
+      await service.handleMessage(
+        inbound({ type: 'document', media: document }),
+      );
+
+      expect(document.download).toHaveBeenCalledWith('receivedDocuments');
+      expect(documentsService.handleDocument).toHaveBeenCalledWith(
+        '254700000001',
+        {
+          filePath: '/tmp/receivedDocuments/media-4.pdf',
+          fileName: 'brief.pdf',
+          mimeType: 'application/pdf',
+          caption: undefined,
+          messageID: 'msg-1',
+        },
+        { channel: 'whatsapp', userName: 'Amina', language: 'en' },
+      );
+      expect(sentOfType('text')).toEqual([
+        { type: 'text', text: '• Bakery rebrand', replyTo: 'msg-1' },
+      ]);
+    });
+
+    it('turns down unsupported documents without downloading them', async () => {
+      documentsService.checkDocument.mockReturnValue('PDF or Word only');
+      const document = media('', { fileName: 'deck.key', size: 1024 });
+
+      await service.handleMessage(
+        inbound({ type: 'document', media: document }),
+      );
+
+      expect(documentsService.checkDocument).toHaveBeenCalledWith(
+        'deck.key',
+        undefined,
+        1024,
+        'en',
+      );
+      expect(document.download).not.toHaveBeenCalled();
+      expect(sent).toEqual([
+        { type: 'text', text: 'PDF or Word only', replyTo: 'msg-1' },
+      ]);
+    });
+  });
+
+  describe('voice notes', () => {
+    it('answers voice notes with a voice note', async () => {
+      await service.handleMessage(
+        inbound({ type: 'audio', media: media('/tmp/audio.ogg') }),
+      );
+
+      expect(audioService.convertAudioToText).toHaveBeenCalledWith(
+        '/tmp/audio.ogg',
+      );
+      expect(sentOfType('audio')).toEqual([
+        { type: 'audio', filePath: '/audio/reply.mp3', replyTo: 'msg-1' },
+      ]);
+      expect(sentOfType('text')).toEqual([]);
+    });
+
+    it('replies with text when the audio reply cannot be sent', async () => {
+      channel.send.mockImplementation(async (userID, message) => {
+        sent.push(message);
+        return message.type === 'audio'
+          ? { status: 'error', error: 'Media upload error' }
+          : { status: 'success' };
+      });
+
+      await service.handleMessage(
+        inbound({ type: 'audio', media: media('/tmp/audio.ogg') }),
+      );
+
+      expect(sentOfType('text')).toEqual([
+        { type: 'text', text: 'Yes we do! 🎨', replyTo: 'msg-1' },
+      ]);
+    });
+
+    it('takes voice notes as intake answers', async () => {
+      leadsService.answer.mockResolvedValue({ reply: '(3/6) Tell us more' });
+
+      await service.handleMessage(
+        inbound({ type: 'audio', media: media('/tmp/audio.ogg') }),
+      );
+
+      expect(leadsService.answer).toHaveBeenCalledWith(
+        expect.anything(),
+        'Do you do logos?',
+      );
+      expect(sent).toEqual([
+        { type: 'typing' },
+        { type: 'text', text: '(3/6) Tell us more', replyTo: 'msg-1' },
+      ]);
+      expect(openaiService.generateAIResponse).not.toHaveBeenCalled();
+    });
+
+    it('reports audio that cannot be downloaded', async () => {
+      const result = await service.handleMessage(
+        inbound({
+          type: 'audio',
+          media: {
+            download: jest
+              .fn()
+              .mockResolvedValue({ status: 'error', data: '' }),
+          },
+        }),
+      );
+
+      expect(result).toEqual({
+        status: 'error',
+        message: 'Failed to download audio',
+      });
+      expect(sent).toEqual([]);
+    });
+  });
+
+  it('stores shared locations and checks the delivery area', async () => {
+    await service.handleMessage(
+      inbound({
+        type: 'location',
+        latitude: -1.2676,
+        longitude: 36.8108,
+        name: 'Sarit Centre',
+      }),
+    );
+
+    expect(userProfileService.saveLocation).toHaveBeenCalledWith(
+      '254700000001',
+      {
+        latitude: -1.2676,
+        longitude: 36.8108,
+        name: 'Sarit Centre',
+        address: undefined,
+      },
+    );
+    expect(sent).toEqual([
+      expect.objectContaining({
+        text: expect.stringContaining('we can deliver printed goods to you'),
+      }),
+    ]);
+  });
+
+  it('captures shared contact cards as referrals', async () => {
+    const contacts = [
+      {
+        name: 'Wanjiru Kamau',
+        phones: ['254711111111'],
+        emails: ['wanjiru@example.com'],
+      },
+    ];
+
+    await service.handleMessage(inbound({ type: 'contacts', contacts }));
+
+    expect(userProfileService.saveReferrals).toHaveBeenCalledWith(
+      '254700000001',
+      contacts,
+    );
+    expect(sent).toEqual([
+      expect.objectContaining({
+        text: expect.stringContaining('Wanjiru Kamau'),
+      }),
+    ]);
+  });
+
+  it('records reactions as feedback without replying', async () => {
+    await service.handleMessage(
+      inbound({ type: 'reaction', messageID: 'wamid.outbound-1', emoji: '👍' }),
+    );
+
+    expect(userProfileService.saveFeedback).toHaveBeenCalledWith(
+      '254700000001',
+      'wamid.outbound-1',
+      '👍',
+    );
+    expect(sent).toEqual([]);
+  });
+
+  it('answers unsupported messages with a fallback reply', async () => {
+    await service.handleMessage(
+      inbound({ type: 'unsupported', kind: 'sticker' }),
+    );
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        text: expect.stringContaining("I can't read that kind of message"),
+      }),
+    ]);
+  });
+
+  it('reports sends to channels without an adapter', async () => {
+    expect(
+      await service.sendMessage('telegram', '1234', {
+        type: 'text',
+        text: 'Hi',
+      }),
+    ).toEqual({ status: 'error', error: 'Unknown channel telegram' });
+  });
+});
@@ -0,0 +1,812 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OpenaiService } from '../openai/openai.service';
+import { StabilityaiService } from '../stabilityai/stabilityai.service';
+import { AudioService } from '../audio/audio.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { DocumentsService } from '../documents/documents.service';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { checkDeliveryArea } from '../user-profile/delivery-area';
+import { CatalogService } from '../catalog/catalog.service';
+import {
+  localizeService,
+  renderServiceDetails,
+} from '../catalog/studio-services';
+import { LanguageService } from '../i18n/language.service';
+import { LeadsService } from '../leads/leads.service';
+import { HandoffService } from '../handoff/handoff.service';
+import { InboxService } from '../inbox/inbox.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import {
+  describeInbound,
+  describeOutbound,
+  InboxReply,
+} from '../inbox/transcript';
+import { PromptContext } from '../prompts/prompt-templates';
+import { findLanguage, Language, LANGUAGES, translate } from '../i18n/i18n';
+import {
+  parseImageCommand,
+  ParsedImageCommand,
+} from '../stabilityai/image-commands';
+import {
+  ChannelName,
+  ChannelSendResult,
+  ConversationChannel,
+  ConversationResult,
+  InboundContent,
+  InboundMessage,
+  OutboundMessage,
+} from './conversation.types';
+
+const RECEIVED_IMAGES_FOLDER = 'receivedImages';
+const RECEIVED_DOCUMENTS_FOLDER = 'receivedDocuments';
+const LANGUAGE_COMMAND = /^\/lang(?:@\w+)?(?:\s+(.*))?$/i;
+const BOOKING_COMMAND = /^\/(book|reschedule|cancel_booking)(?:@\w+)?$/i;
+
+type ContentOf<T extends InboundContent['type']> = Extract<
+  InboundContent,
+  { type: T }
+>;
+
+// An inbound message with the language the user is answered in, and
+// how many replies were made to it so far. The event ID is always set
+// when the message can be told apart from others.
+type Turn = InboundMessage & { language: Language; replies: { count: number } };
+
+// The business logic of the bot, shared by every channel. Channels
+// translate platform payloads to InboundMessage, call handleMessage and
+// deliver the OutboundMessages sent back through their adapter.
+@Injectable()
+export class ConversationService {
+  constructor(
+    private readonly openaiService: OpenaiService,
+    private readonly stabilityaiService: StabilityaiService,
+    private readonly audioService: AudioService,
+    private readonly userContextService: UserContextService,
+    private readonly documentsService: DocumentsService,
+    private readonly userProfileService: UserProfileService,
+    private readonly catalogService: CatalogService,
+    private readonly languageService: LanguageService,
+    private readonly leadsService: LeadsService,
+    private readonly handoffService: HandoffService,
+    private readonly inboxService: InboxService,
+    private readonly bookingsService: BookingsService,
+    private readonly dedupeService: DedupeService,
+  ) {}
+
+  private readonly logger = new Logger(ConversationService.name);
+  private readonly channels = new Map<ChannelName, ConversationChannel>();
+
+  registerChannel(channel: ConversationChannel) {
+    this.channels.set(channel.channel, channel);
+  }
+
+  // Messages from the team name the agent who wrote them
+  async sendMessage(
+    channelName: ChannelName,
+    userID: string,
+    message: OutboundMessage,
+    agent?: string,
+  ): Promise<ChannelSendResult> {
+    const channel = this.channels.get(channelName);
+    if (!channel) {
+      this.logger.error(`No adapter registered for ${channelName}`);
+      return { status: 'error', error: `Unknown channel ${channelName}` };
+    }
+
+    const result = await channel.send(userID, message);
+    if (result.status === 'success') {
+      await this.inboxService.recordOutbound(
+        channelName,
+        userID,
+        message,
+        agent,
+      );
+    }
+    return result;
+  }
+
+  // Sends a reply written by the team through the user's channel
+  async sendAgentReply(
+    handoffID: string,
+    text: string,
+    agent?: string,
+  ): Promise<ConversationResult> {
+    const handoff = await this.handoffService.findHandoff(handoffID);
+    if (!handoff) {
+      return { status: 'error', message: 'Conversation is not handed off' };
+    }
+    return this.sendAgentMessage(
+      handoff.channel,
+      handoff.userID,
+      { type: 'text', text },
+      agent,
+    );
+  }
+
+  // Sends a text, image or document from the inbox, handed off or not
+  async sendInboxReply(
+    conversationID: string,
+    reply: InboxReply,
+    agent?: string,
+  ): Promise<ConversationResult> {
+    const recipient = await this.inboxService.getRecipient(conversationID);
+    if (!recipient) {
+      return { status: 'error', message: 'Conversation not found' };
+    }
+    const message = this.inboxService.prepareReply(reply);
+    if (message.status === 'error') {
+      return message;
+    }
+
+    const result = await this.sendAgentMessage(
+      recipient.channel,
+      recipient.userID,
+      message.data,
+      agent,
+    );
+    if (result.status === 'success') {
+      await this.inboxService.markRead(conversationID);
+    }
+    return result;
+  }
+
+  // Gives the conversation back to the assistant and lets the user know
+  async releaseHandoff(handoffID: string): Promise<ConversationResult> {
+    const released = await this.handoffService.release(handoffID);
+    if (released.status === 'error') {
+      return released;
+    }
+
+    const { userID, channel } = released.data;
+    const language = await this.languageService.getLanguage(userID);
+    await this.sendMessage(channel, userID, {
+      type: 'text',
+      text: translate(language, 'handoffReleased'),
+    });
+    return { status: 'success', message: 'Conversation released' };
+  }
+
+  async handleMessage(message: InboundMessage): Promise<ConversationResult> {
+    const { content } = message;
+    this.logger.log(
+      `${content.type} message from ${message.userName || 'User'} (${message.userID}) on ${message.channel}`,
+    );
+
+    // The language is picked up from what users write, commands aside
+    const language =
+      content.type === 'text' && !content.text.trim().startsWith('/')
+        ? await this.languageService.detectFromMessage(
+            message.userID,
+            content.text,
+          )
+        : await this.languageService.getLanguage(message.userID);
+    const inbound: Turn = {
+      ...message,
+      eventID: message.eventID ?? message.messageID,
+      language,
+      replies: { count: 0 },
+    };
+
+    if (await this.claimStep(inbound, 'inbox')) {
+      await this.inboxService.recordInbound(message);
+    }
+
+    // The assistant stays quiet while the team has the conversation
+    const handoff =
+      content.type === 'reaction'
+        ? null
+        : await this.handoffService.getHandoff(message.userID);
+    if (handoff) {
+      if (await this.claimStep(inbound, 'handoff')) {
+        await this.handoffService.recordMessage(
+          handoff,
+          describeInbound(content),
+        );
+      }
+      return { status: 'success', message: 'Message passed to the team' };
+    }
+
+    switch (content.type) {
+      case 'text':
+        return this.handleText(inbound, content);
+      case 'selection':
+        return this.handleSelection(inbound, content);
+      case 'audio':
+        return this.handleAudio(inbound, content);
+      case 'image':
+        return this.handleImage(inbound, content);
+      case 'document':
+        return this.handleDocument(inbound, content);
+      case 'location':
+        return this.handleLocation(inbound, content);
+      case 'contacts':
+        return this.handleContacts(inbound, content);
+      case 'reaction':
+        // Reactions are feedback on one of our messages, no reply needed
+        await this.userProfileService.saveFeedback(
+          inbound.userID,
+          content.messageID,
+          content.emoji,
+        );
+        return { status: 'success', message: 'Reaction saved' };
+      default:
+        this.logger.log(
+          `Unhandled ${content.kind} message ${inbound.messageID}`,
+        );
+        await this.reply(
+          inbound,
+          translate(inbound.language, 'unsupportedMessage'),
+        );
+        return { status: 'success', message: 'Unsupported message' };
+    }
+  }
+
+  private async handleText(
+    inbound: Turn,
+    { text }: ContentOf<'text'>,
+  ): Promise<ConversationResult> {
+    const { userID } = inbound;
+
+    const languageCommand = text.trim().match(LANGUAGE_COMMAND);
+    if (languageCommand) {
+      return this.handleLanguageCommand(inbound, languageCommand[1]);
+    }
+
+    const imageCommand = parseImageCommand(text);
+    if (imageCommand) {
+      return this.handleImageCommand(inbound, imageCommand);
+    }
+
+    const bookingCommand = text.trim().match(BOOKING_COMMAND);
+    if (bookingCommand) {
+      return this.handleBookingCommand(inbound, bookingCommand[1]);
+    }
+
+    // /start also leaves an enquiry half way through
+    const isStart = text.trim().startsWith('/start');
+    if (isStart) {
+      await this.leadsService.cancelIntake(userID);
+    } else if (await this.answerIntake(inbound, text)) {
+      return { status: 'success', message: 'Intake answer processed' };
+    }
+
+    // New users, and anyone who types /start, get the welcome menu
+    // before the assistant takes over
+    const history =
+      await this.userContextService.getConversationHistory(userID);
+    if (history.length === 0 || isStart) {
+      return this.sendWelcome(inbound);
+    }
+
+    await this.sendTo(inbound, { type: 'typing' });
+    const aiResponse = await this.openaiService.generateAssistantReply(
+      userID,
+      text,
+      this.promptContext(inbound),
+      inbound.eventID,
+    );
+    if (aiResponse.text) {
+      await this.reply(inbound, aiResponse.text);
+    }
+
+    // The assistant offers times when the user wants to meet the team
+    if (aiResponse.action === 'book_consultation') {
+      await this.sendAll(
+        inbound,
+        await this.bookingsService.offerSlots(inbound),
+      );
+      return { status: 'success', message: 'Booking offered' };
+    }
+    return { status: 'success', message: 'Message processed' };
+  }
+
+  // /book offers times, /reschedule moves the call and /cancel_booking
+  // cancels it
+  private async handleBookingCommand(
+    inbound: Turn,
+    command: string,
+  ): Promise<ConversationResult> {
+    switch (command.toLowerCase()) {
+      case 'reschedule':
+        await this.sendAll(
+          inbound,
+          await this.bookingsService.reschedule(inbound),
+        );
+        break;
+      case 'cancel_booking':
+        await this.sendAll(inbound, await this.bookingsService.cancel(inbound));
+        break;
+      default:
+        await this.sendAll(
+          inbound,
+          await this.bookingsService.offerSlots(inbound),
+        );
+    }
+    return { status: 'success', message: 'Booking command processed' };
+  }
+
+  // "/lang sw" switches the language for good, "/lang" lists the options
+  private async handleLanguageCommand(
+    inbound: Turn,
+    argument?: string,
+  ): Promise<ConversationResult> {
+    const language = findLanguage(argument);
+    if (!language) {
+      const options = (Object.keys(LANGUAGES) as Language[])
+        .map((code) => `• \`${code}\` – ${LANGUAGES[code].nativeName}`)
+        .join('\n');
+      await this.reply(
+        inbound,
+        translate(inbound.language, 'languageOptions', { options }),
+      );
+      return { status: 'success', message: 'Language options sent' };
+    }
+
+    await this.languageService.setLanguage(inbound.userID, language);
+    await this.reply(inbound, translate(language, 'languageChanged'));
+    return { status: 'success', message: 'Language changed' };
+  }
+
+  private async sendWelcome(inbound: Turn) {
+    const { language } = inbound;
+    const result = await this.sendTo(inbound, {
+      type: 'menu',
+      text: translate(language, 'welcome', {
+        name: inbound.userName || translate(language, 'welcomeNameFallback'),
+      }),
+      services: await this.getMenuServices(language),
+      button: translate(language, 'menuButton'),
+      replyTo: inbound.messageID,
+    });
+
+    if (result.status === 'success') {
+      await this.userContextService.saveToContext(
+        `User started conversation with Studio Libra on ${inbound.channel}`,
+        'assistant',
+        inbound.userID,
+      );
+    }
+
+    return { status: 'success' as const, message: 'Welcome sent' };
+  }
+
+  private async handleSelection(
+    inbound: Turn,
+    { id, title }: ContentOf<'selection'>,
+  ): Promise<ConversationResult> {
+    const { userID } = inbound;
+
+    // Times and confirmations from the booking flow
+    const bookingReply = await this.bookingsService.select(inbound, id);
+    if (bookingReply) {
+      await this.sendAll(inbound, bookingReply);
+      return { status: 'success', message: 'Booking choice processed' };
+    }
+
+    const service = await this.catalogService.getService(id);
+
+    await this.userContextService.saveToContext(
+      `User selected: ${title || service?.title || id}`,
+      'user',
+      userID,
+      { messageID: inbound.eventID },
+    );
+
+    // 'more_options' buttons may still sit in older chats
+    if (id === 'more_options') {
+      await this.sendTo(inbound, {
+        type: 'menu',
+        text: translate(inbound.language, 'menuPrompt'),
+        services: await this.getMenuServices(inbound.language),
+        button: translate(inbound.language, 'menuButton'),
+      });
+      return { status: 'success', message: 'Menu sent' };
+    }
+
+    const serviceInfo = service
+      ? renderServiceDetails(localizeService(service, inbound.language))
+      : translate(inbound.language, 'serviceFallback');
+    await this.userContextService.saveToContext(
+      serviceInfo,
+      'assistant',
+      userID,
+    );
+    await this.sendTo(inbound, { type: 'text', text: serviceInfo });
+
+    // Services with intake questions go on to ask them
+    const question = service
+      ? await this.leadsService.startIntake(inbound, service)
+      : null;
+    if (question) {
+      await this.sendTo(inbound, { type: 'text', text: question });
+      return { status: 'success', message: 'Intake started' };
+    }
+
+    if (service?.handoff) {
+      await this.handoffService.start(inbound);
+      await this.sendTo(inbound, {
+        type: 'text',
+        text: translate(inbound.language, 'handoffStarted'),
+      });
+      return { status: 'success', message: 'Conversation handed off' };
+    }
+
+    if (service?.booking) {
+      await this.sendAll(
+        inbound,
+        await this.bookingsService.offerSlots(inbound),
+      );
+      return { status: 'success', message: 'Booking offered' };
+    }
+    return { status: 'success', message: 'Service info sent' };
+  }
+
+  // Replies when the user is answering intake questions. Returns whether
+  // the message was taken as an answer.
+  private async answerIntake(inbound: Turn, text: string) {
+    const intakeReply = await this.leadsService.answer(inbound, text);
+    if (!intakeReply) {
+      return false;
+    }
+    await this.reply(inbound, intakeReply.reply);
+    return true;
+  }
+
+  // Voice notes are answered with a voice note, or with text when the
+  // audio reply can't be made or delivered
+  private async handleAudio(
+    inbound: Turn,
+    { media }: ContentOf<'audio'>,
+  ): Promise<ConversationResult> {
+    const { userID } = inbound;
+
+    const audio = await media.download(
+      process.env.AUDIO_FILES_FOLDER || 'audioFiles',
+    );
+    if (audio.status === 'error') {
+      return { status: 'error', message: 'Failed to download audio' };
+    }
+
+    await this.sendTo(inbound, { type: 'typing' });
+    const transcribedSpeech = await this.audioService.convertAudioToText(
+      audio.data,
+    );
+    if (transcribedSpeech.status === 'error') {
+      return { status: 'error', message: 'Failed to transcribe audio' };
+    }
+
+    // Voice notes count towards detecting the language like text does
+    const language = await this.languageService.detectFromMessage(
+      userID,
+      transcribedSpeech.data,
+    );
+    if (
+      await this.answerIntake({ ...inbound, language }, transcribedSpeech.data)
+    ) {
+      return { status: 'success', message: 'Intake answer processed' };
+    }
+    const aiResponse = await this.openaiService.generateAIResponse(
+      userID,
+      transcribedSpeech.data,
+      { ...this.promptContext(inbound), language },
+      inbound.eventID,
+    );
+
+    const textToSpeech =
+      await this.audioService.convertTextToSpeech(aiResponse);
+    const audioResult =
+      textToSpeech.status === 'success'
+        ? await this.sendTo(inbound, {
+            type: 'audio',
+            filePath: this.audioService.getAudioFilePath(textToSpeech.data),
+            replyTo: inbound.messageID,
+          })
+        : { status: 'error', error: textToSpeech.data };
+
+    if (audioResult.status === 'error') {
+      this.logger.warn(
+        `Audio reply failed (${audioResult.error}), replying with text`,
+      );
+      await this.reply(inbound, aiResponse);
+    }
+    return { status: 'success', message: 'Voice note processed' };
+  }
+
+  private async handleImage(
+    inbound: Turn,
+    { media }: ContentOf<'image'>,
+  ): Promise<ConversationResult> {
+    const caption = media.caption?.trim();
+
+    const image = await media.download(RECEIVED_IMAGES_FOLDER);
+    if (image.status === 'error') {
+      return { status: 'error', message: 'Failed to download image' };
+    }
+
+    // "/imagine make this a watercolor" as a caption edits the image
+    const captionCommand = parseImageCommand(caption);
+    if (captionCommand) {
+      return this.handleImageCommand(inbound, captionCommand, image.data);
+    }
+
+    await this.sendTo(inbound, { type: 'typing' });
+    const imageResponse = await this.openaiService.generateImageResponse(
+      inbound.userID,
+      image.data,
+      caption,
+      this.promptContext(inbound),
+      inbound.eventID,
+    );
+    await this.reply(inbound, imageResponse);
+    return { status: 'success', message: 'Image processed' };
+  }
+
+  private async handleDocument(
+    inbound: Turn,
+    { media }: ContentOf<'document'>,
+  ): Promise<ConversationResult> {
+    const { fileName, mimeType, size, caption } = media;
+
+    // Unsupported formats are turned down without downloading them
+    const rejection = this.documentsService.checkDocument(
+      fileName,
+      mimeType,
+      size,
+      inbound.language,
+    );
+    if (rejection) {
+      await this.reply(inbound, rejection);
+      return { status: 'success', message: 'Document turned down' };
+    }
+
+    const document = await media.download(RECEIVED_DOCUMENTS_FOLDER);
+    if (document.status === 'error') {
+      return { status: 'error', message: 'Failed to download document' };
+    }
+
+    await this.sendTo(inbound, { type: 'typing' });
+    const documentResponse = await this.documentsService.handleDocument(
+      inbound.userID,
+      {
+        filePath: document.data,
+        fileName,
+        mimeType,
+        caption: caption?.trim(),
+        messageID: inbound.eventID,
+      },
+      this.promptContext(inbound),
+    );
+    await this.reply(inbound, documentResponse);
+    return { status: 'success', message: 'Document processed' };
+  }
+
+  private async handleLocation(
+    inbound: Turn,
+    { latitude, longitude, name, address }: ContentOf<'location'>,
+  ): Promise<ConversationResult> {
+    const { userID } = inbound;
+
+    await this.userProfileService.saveLocation(userID, {
+      latitude,
+      longitude,
+      name,
+      address,
+    });
+
+    const { inArea, distanceKm, radiusKm } = checkDeliveryArea({
+      latitude,
+      longitude,
+    });
+    const distance = Math.round(distanceKm);
+    const place = [name, address].filter(Boolean).join(', ');
+
+    await this.userContextService.saveToContext(
+      `[User shared their location${place ? `: ${place}` : ''}, ${distance} km from the studio, ${
+        inArea ? 'inside' : 'outside'
+      } the delivery area for printed goods]`,
+      'user',
+      userID,
+      { messageID: inbound.eventID },
+    );
+
+    await this.reply(
+      inbound,
+      translate(
+        inbound.language,
+        inArea ? 'locationInArea' : 'locationOutsideArea',
+        { distance, radius: radiusKm },
+      ),
+    );
+    return { status: 'success', message: 'Location saved' };
+  }
+
+  // Contact cards shared with us are people the user is referring
+  private async handleContacts(
+    inbound: Turn,
+    { contacts }: ContentOf<'contacts'>,
+  ): Promise<ConversationResult> {
+    if (contacts.length === 0) {
+      return { status: 'success', message: 'No contacts to save' };
+    }
+
+    await this.userProfileService.saveReferrals(inbound.userID, contacts);
+
+    const names = contacts.map(({ name }) => name).join(', ');
+    await this.userContextService.saveToContext(
+      `[User referred: ${names}]`,
+      'user',
+      inbound.userID,
+      { messageID: inbound.eventID },
+    );
+    await this.reply(
+      inbound,
+      translate(inbound.language, 'referralThanks', { names }),
+    );
+    return { status: 'success', message: 'Referrals saved' };
+  }
+
+  // Runs an image command on the image the user sent, or on the last
+  // image generated for them when there is none
+  private async handleImageCommand(
+    inbound: Turn,
+    { command, prompt }: ParsedImageCommand,
+    imagePath?: string,
+  ): Promise<ConversationResult> {
+    const { userID } = inbound;
+
+    if (command === 'imagine' && !prompt) {
+      await this.reply(inbound, translate(inbound.language, 'imaginePrompt'));
+      return { status: 'success', message: 'No prompt given' };
+    }
+
+    let response: string[] | string;
+    let sourcePrompt = prompt;
+
+    if (command === 'imagine') {
+      await this.sendTo(inbound, { type: 'typing' });
+      response = imagePath
+        ? await this.stabilityaiService.imageToImage(prompt, imagePath)
+        : await this.stabilityaiService.textToImage(prompt);
+    } else {
+      const lastImage = imagePath
+        ? null
+        : await this.userContextService.getLastGeneratedImage(userID);
+      const sourcePath =
+        imagePath ??
+        (lastImage &&
+          this.stabilityaiService.getGeneratedImagePath(lastImage.fileName));
+
+      if (!sourcePath) {
+        await this.reply(inbound, translate(inbound.language, 'noImageToEdit'));
+        return { status: 'success', message: 'No image to work on' };
+      }
+
+      await this.sendTo(inbound, { type: 'typing' });
+      sourcePrompt = prompt || lastImage?.prompt || '';
+      response =
+        command === 'upscale'
+          ? await this.stabilityaiService.upscaleImage(sourcePath)
+          : await this.stabilityaiService.createVariations(
+              sourcePath,
+              sourcePrompt,
+            );
+    }
+
+    if (!Array.isArray(response) || response.length === 0) {
+      await this.reply(
+        inbound,
+        translate(
+          inbound.language,
+          command === 'upscale' ? 'upscaleFailed' : 'imageFailed',
+        ),
+      );
+      return { status: 'success', message: 'Image generation failed' };
+    }
+
+    for (const fileName of response) {
+      const imageResult = await this.sendTo(inbound, {
+        type: 'image',
+        filePath: this.stabilityaiService.getGeneratedImagePath(fileName),
+        caption: sourcePrompt ? `🎨 "${sourcePrompt}"` : undefined,
+        replyTo: inbound.messageID,
+      });
+
+      if (imageResult.status === 'error') {
+        this.logger.warn(`Image reply failed (${imageResult.error})`);
+        await this.reply(inbound, translate(inbound.language, 'imageNotSent'));
+        return { status: 'success', message: 'Image could not be sent' };
+      }
+    }
+
+    await this.userContextService.saveLastGeneratedImage(userID, {
+      fileName: response[0],
+      prompt: sourcePrompt,
+    });
+
+    return { status: 'success', message: 'Image generation processed' };
+  }
+
+  // Replies from the team are kept in the assistant's context as well, so
+  // it can pick up where they left off
+  private async sendAgentMessage(
+    channel: ChannelName,
+    userID: string,
+    message: OutboundMessage,
+    agent = 'staff',
+  ): Promise<ConversationResult> {
+    const result = await this.sendMessage(channel, userID, message, agent);
+    if (result.status === 'error') {
+      return { status: 'error', message: result.error };
+    }
+
+    const text = describeOutbound(message);
+    const handoff = await this.handoffService.getHandoff(userID);
+    if (handoff) {
+      await this.handoffService.recordReply(handoff, text, agent);
+    } else {
+      await this.userContextService.saveToContext(text, 'assistant', userID, {
+        agent,
+      });
+    }
+    return { status: 'success', message: 'Reply sent' };
+  }
+
+  private async getMenuServices(language: Language) {
+    const services = await this.catalogService.getServices();
+    return services.map((service) => localizeService(service, language));
+  }
+
+  private promptContext({ channel, userName, language }: Turn): PromptContext {
+    return { channel, userName, language };
+  }
+
+  // Replies with text, quoting the message being answered
+  private reply(inbound: Turn, text: string) {
+    return this.sendTo(inbound, {
+      type: 'text',
+      text,
+      replyTo: inbound.messageID,
+    });
+  }
+
+  // Replies are numbered in the order they are made, so when the queue
+  // retries a message the ones that already went out aren't sent again
+  private async sendTo(
+    inbound: Turn,
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    const step = `reply:${inbound.replies.count++}`;
+    if (!(await this.claimStep(inbound, step))) {
+      return { status: 'success' };
+    }
+
+    const result = await this.sendMessage(
+      inbound.channel,
+      inbound.userID,
+      message,
+    );
+    if (result.status === 'error' && inbound.eventID) {
+      await this.dedupeService.releaseEvent(
+        inbound.channel,
+        `${inbound.eventID}:${step}`,
+      );
+    }
+    return result;
+  }
+
+  // One after the other so they arrive in order
+  private async sendAll(inbound: Turn, messages: OutboundMessage[]) {
+    for (const message of messages) {
+      await this.sendTo(inbound, message);
+    }
+  }
+
+  // Whether a step of handling a message is still to be done. Messages
+  // without an ID can't be told apart, so their steps always are.
+  private async claimStep({ channel, eventID }: Turn, step: string) {
+    return (
+      !eventID || this.dedupeService.claimEvent(channel, `${eventID}:${step}`)
+    );
+  }
+}
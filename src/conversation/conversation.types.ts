@@ -0,0 +1,117 @@
+import { StudioService } from '../catalog/studio-services';
+import { Referral } from '../user-profile/user-profile.service';
+
+export type ChannelName =
+  | 'whatsapp'
+  | 'telegram'
+  | 'webchat'
+  | 'messenger'
+  | 'instagram'
+  | 'simulator';
+
+export interface MediaDownloadResult {
+  status: 'success' | 'error';
+  // Path of the saved file, or what went wrong
+  data: string;
+}
+
+// Media is only downloaded once the conversation needs it, so documents
+// that can't be read are turned down without fetching them
+export interface InboundMedia {
+  download: (folderName: string) => Promise<MediaDownloadResult>;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  caption?: string;
+}
+
+export type InboundContent =
+  | { type: 'text'; text: string }
+  // A tap on a menu row, reply button or inline keyboard button
+  | { type: 'selection'; id: string; title?: string }
+  | { type: 'audio'; media: InboundMedia }
+  | { type: 'image'; media: InboundMedia }
+  | { type: 'document'; media: InboundMedia }
+  | {
+      type: 'location';
+      latitude: number;
+      longitude: number;
+      name?: string;
+      address?: string;
+    }
+  | { type: 'contacts'; contacts: Omit<Referral, 'referredBy' | 'createdAt'>[] }
+  | { type: 'reaction'; messageID: string; emoji?: string }
+  // Stickers, videos and anything else we can't read, by platform type
+  | { type: 'unsupported'; kind: string };
+
+// A message from a user, translated from the platform's own format
+export interface InboundMessage {
+  channel: ChannelName;
+  // The ID replies are sent to: phone number, chat ID...
+  userID: string;
+  // Platform ID of the message, replies quote it where supported
+  messageID?: string;
+  // Stays the same when the queue retries the message, so what was
+  // already done isn't done again. Only needed when it differs from the
+  // message ID, e.g. for button taps, which have no message to quote.
+  eventID?: string;
+  userName?: string;
+  content: InboundContent;
+}
+
+export interface Choice {
+  id: string;
+  // Fits WhatsApp's 20 character reply buttons when there are three or fewer
+  title: string;
+  description?: string;
+}
+
+// What the conversation wants sent. Text is Markdown, channels convert
+// it to their own formatting.
+export type OutboundMessage =
+  | { type: 'text'; text: string; replyTo?: string }
+  | {
+      type: 'menu';
+      text: string;
+      services: StudioService[];
+      // Label of the button that opens the menu, where there is one
+      button?: string;
+      replyTo?: string;
+    }
+  // Up to 10 options, the one picked comes back as a selection with its ID
+  | {
+      type: 'choices';
+      text: string;
+      choices: Choice[];
+      // Label of the button that opens a long list, where there is one
+      button?: string;
+      replyTo?: string;
+    }
+  | { type: 'image'; filePath: string; caption?: string; replyTo?: string }
+  | { type: 'audio'; filePath: string; replyTo?: string }
+  | {
+      type: 'document';
+      filePath: string;
+      // Shown to the user, defaults to the name of the file
+      fileName?: string;
+      caption?: string;
+      replyTo?: string;
+    }
+  // A typing indicator, on channels that have one
+  | { type: 'typing' };
+
+export interface ChannelSendResult {
+  status: 'success' | 'error';
+  error?: string;
+}
+
+// Implemented by every platform adapter to deliver outbound messages
+export interface ConversationChannel {
+  readonly channel: ChannelName;
+  send(userID: string, message: OutboundMessage): Promise<ChannelSendResult>;
+}
+
+export interface ConversationResult {
+  status: 'success' | 'error';
+  message: string;
+}
@@ -0,0 +1,7 @@
+import { Module } from '@nestjs/common';
+import { DedupeService } from './dedupe.service';
+
+@Module({
+  providers: [DedupeService],
+})
+export class DedupeModule {}
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DedupeService } from './dedupe.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('DedupeService', () => {
+  let service: DedupeService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DedupeService],
+    }).compile();
+
+    service = module.get<DedupeService>(DedupeService);
+    await service['redis'].flushall();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('claims an event only once', async () => {
+    expect(await service.claimEvent('whatsapp', 'wamid.1')).toBe(true);
+    expect(await service.claimEvent('whatsapp', 'wamid.1')).toBe(false);
+  });
+
+  it('keeps event IDs from different sources apart', async () => {
+    expect(await service.claimEvent('telegram', 42)).toBe(true);
+    expect(await service.claimEvent('whatsapp', 42)).toBe(true);
+  });
+
+  it('lets a released event be claimed again', async () => {
+    await service.claimEvent('messenger', 'm_1');
+    await service.releaseEvent('messenger', 'm_1');
+
+    expect(await service.claimEvent('messenger', 'm_1')).toBe(true);
+  });
+
+  it('expires claims after the TTL', async () => {
+    await service.claimEvent('telegram', 7);
+
+    expect(await service['redis'].ttl('dedupe:telegram:7')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { ChannelName } from '../conversation/conversation.types';
+
+export type EventSource = ChannelName;
+
+@Injectable()
+export class DedupeService {
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger: Logger = new Logger(DedupeService.name);
+  private readonly dedupeExpirationTime =
+    Number(process.env.DEDUPE_TTL_SECONDS) || 86400; // Expiration Time In Seconds
+
+  // Meta and Telegram redeliver events they think we missed, so every
+  // inbound event is claimed once. Returns false for a redelivery.
+  async claimEvent(source: EventSource, eventID: string | number) {
+    try {
+      const result = await this.redis.set(
+        `dedupe:${source}:${eventID}`,
+        Date.now().toString(),
+        'EX',
+        this.dedupeExpirationTime,
+        'NX',
+      );
+      return result === 'OK';
+    } catch (error) {
+      // Rather answer twice than drop a message when Redis is unavailable
+      this.logger.error('Error Claiming Event', error);
+      return true;
+    }
+  }
+
+  // Gives up a claim so the redelivery of an event we failed to take in
+  // isn't skipped as a duplicate
+  async releaseEvent(source: EventSource, eventID: string | number) {
+    try {
+      await this.redis.del(`dedupe:${source}:${eventID}`);
+    } catch (error) {
+      this.logger.error('Error Releasing Event', error);
+    }
+  }
+}
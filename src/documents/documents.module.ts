@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { CatalogService } from '../catalog/catalog.service';
+
+@Module({
+  providers: [
+    DocumentsService,
+    OpenaiService,
+    UserContextService,
+    PromptsService,
+    CatalogService,
+  ],
+})
+export class DocumentsModule {}
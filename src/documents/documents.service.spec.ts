@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
+import { DocumentsService } from './documents.service';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+const fixture = (fileName: string) => join(__dirname, 'fixtures', fileName);
+
+describe('DocumentsService', () => {
+  let service: DocumentsService;
+  let openaiService: Record<string, jest.Mock>;
+  let userContextService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    openaiService = {
+      summarizeDocument: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', data: '• Bakery rebrand' }),
+    };
+    userContextService = {
+      saveDocument: jest.fn(),
+      saveToContext: jest.fn(),
+      getConversationHistory: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentsService,
+        { provide: OpenaiService, useValue: openaiService },
+        { provide: UserContextService, useValue: userContextService },
+      ],
+    }).compile();
+
+    service = module.get<DocumentsService>(DocumentsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('extracts text from PDF and Word documents', async () => {
+    const pdf = await service.extractText(fixture('brief.pdf'), 'pdf');
+    const docx = await service.extractText(fixture('brief.docx'), 'docx');
+
+    expect(pdf).toEqual({
+      status: 'success',
+      data: 'Project brief: Mama Mboga Bakery rebrand\n\nBudget: KES 150,000. Deadline: March',
+    });
+    expect(docx).toEqual({
+      status: 'success',
+      data: 'Mobile app brief for Duka Fresh\n\nWe need an ordering app for Android and iOS.',
+    });
+  });
+
+  it('summarizes the document and keeps its text for later', async () => {
+    const reply = await service.handleDocument(
+      '254700000001',
+      {
+        filePath: fixture('brief.pdf'),
+        fileName: 'brief.pdf',
+        mimeType: 'application/pdf',
+      },
+      { channel: 'telegram', language: 'en' },
+    );
+
+    expect(reply).toBe('• Bakery rebrand');
+    expect(openaiService.summarizeDocument).toHaveBeenCalledWith(
+      'brief.pdf',
+      expect.stringContaining('Budget: KES 150,000'),
+      undefined,
+      { channel: 'telegram', language: 'en' },
+    );
+    expect(userContextService.saveDocument).toHaveBeenCalledWith(
+      '254700000001',
+      {
+        fileName: 'brief.pdf',
+        text: expect.stringContaining('Budget: KES 150,000'),
+      },
+      undefined,
+    );
+    expect(userContextService.saveToContext).toHaveBeenLastCalledWith(
+      '• Bakery rebrand',
+      'assistant',
+      '254700000001',
+      { messageID: undefined },
+    );
+  });
+
+  it('gives a retried message the summary it already had', async () => {
+    userContextService.getConversationHistory.mockResolvedValue([
+      { role: 'user', content: '[User shared...]', messageID: 'wamid.1' },
+      { role: 'assistant', content: '• Bakery rebrand', messageID: 'wamid.1' },
+    ]);
+
+    const reply = await service.handleDocument('254700000001', {
+      filePath: fixture('brief.pdf'),
+      fileName: 'brief.pdf',
+      messageID: 'wamid.1',
+    });
+
+    expect(reply).toBe('• Bakery rebrand');
+    expect(userContextService.saveDocument).toHaveBeenCalledWith(
+      '254700000001',
+      expect.objectContaining({ fileName: 'brief.pdf' }),
+      'wamid.1',
+    );
+    expect(openaiService.summarizeDocument).not.toHaveBeenCalled();
+    expect(userContextService.saveToContext).toHaveBeenCalledTimes(1);
+  });
+
+  it('detects the format from the MIME type or the file name', () => {
+    expect(
+      service.getDocumentFormat(
+        'brief',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      ),
+    ).toBe('docx');
+    expect(service.getDocumentFormat('brief.PDF')).toBe('pdf');
+    expect(service.getDocumentFormat('brief.doc', 'application/msword')).toBe(
+      null,
+    );
+  });
+
+  it('turns down unsupported formats and large files', () => {
+    expect(service.checkDocument('brief.pages')).toMatch(/only read PDF, Word/);
+    expect(
+      service.checkDocument('brief.pdf', undefined, 50 * 1024 * 1024),
+    ).toMatch(/too large/);
+    expect(service.checkDocument('brief.pdf', undefined, 1024)).toBeNull();
+  });
+
+  it('turns documents down in the user language', () => {
+    expect(
+      service.checkDocument('brief.pdf', undefined, 50 * 1024 * 1024, 'sw'),
+    ).toMatch(/kubwa mno/);
+  });
+
+  it('turns down documents over the page limit', async () => {
+    service.configuration.maxPages = 3;
+
+    const reply = await service.handleDocument('254700000001', {
+      filePath: fixture('long-brief.pdf'),
+    });
+
+    expect(reply).toMatch(/has 4 pages/);
+    expect(openaiService.summarizeDocument).not.toHaveBeenCalled();
+  });
+});
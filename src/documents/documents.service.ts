@@ -0,0 +1,205 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFileSync, statSync } from 'fs';
+import * as path from 'path';
+import pdfParse from 'pdf-parse/lib/pdf-parse';
+import * as mammoth from 'mammoth';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/i18n';
+import { PromptContext } from '../prompts/prompt-templates';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface ReceivedDocument {
+  filePath: string;
+  fileName?: string;
+  mimeType?: string;
+  caption?: string;
+  // The message it came in, so a retried message is saved only once
+  messageID?: string;
+}
+
+const DOCUMENT_FORMATS: Record<
+  DocumentFormat,
+  { mimeTypes: string[]; extensions: string[] }
+> = {
+  pdf: { mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  docx: {
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+    extensions: ['.docx'],
+  },
+  text: { mimeTypes: ['text/plain'], extensions: ['.txt'] },
+};
+
+@Injectable()
+export class DocumentsService {
+  constructor(
+    private readonly openaiService: OpenaiService,
+    private readonly userContextService: UserContextService,
+  ) {}
+
+  private readonly logger = new Logger(DocumentsService.name);
+
+  readonly configuration = {
+    maxSizeMB: Number(process.env.MAX_DOCUMENT_SIZE_MB) || 10,
+    maxPages: Number(process.env.MAX_DOCUMENT_PAGES) || 30,
+    // Longer documents are cut off before they reach the model
+    maxCharacters: Number(process.env.MAX_DOCUMENT_CHARACTERS) || 20000,
+  };
+
+  getDocumentFormat(fileName?: string, mimeType?: string) {
+    const extension = path.extname(fileName ?? '').toLowerCase();
+    const baseMimeType = mimeType?.split(';')[0].trim().toLowerCase();
+
+    const format = (Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).find(
+      (key) =>
+        DOCUMENT_FORMATS[key].mimeTypes.includes(baseMimeType) ||
+        DOCUMENT_FORMATS[key].extensions.includes(extension),
+    );
+    return format ?? null;
+  }
+
+  // Returns the reply to send when a document can't be read, so channels
+  // can turn it down before downloading it
+  checkDocument(
+    fileName?: string,
+    mimeType?: string,
+    size?: number,
+    language: Language = DEFAULT_LANGUAGE,
+  ) {
+    if (!this.getDocumentFormat(fileName, mimeType)) {
+      return translate(language, 'documentUnsupported');
+    }
+
+    if (size > this.configuration.maxSizeMB * 1024 * 1024) {
+      return translate(language, 'documentTooLarge', {
+        maxSizeMB: this.configuration.maxSizeMB,
+      });
+    }
+
+    return null;
+  }
+
+  // Reads a brief the user sent, keeps its text for follow-up questions
+  // and replies with a summary
+  async handleDocument(
+    userID: string,
+    document: ReceivedDocument,
+    promptContext: PromptContext = {},
+  ) {
+    const { language = DEFAULT_LANGUAGE } = promptContext;
+    const fileName = document.fileName || path.basename(document.filePath);
+    const rejection = this.checkDocument(
+      fileName,
+      document.mimeType,
+      statSync(document.filePath).size,
+      language,
+    );
+    if (rejection) {
+      return rejection;
+    }
+
+    const extracted = await this.extractText(
+      document.filePath,
+      this.getDocumentFormat(fileName, document.mimeType),
+      language,
+    );
+    if (extracted.status === 'error') {
+      return extracted.data;
+    }
+
+    const text = extracted.data.slice(0, this.configuration.maxCharacters);
+    await this.userContextService.saveDocument(
+      userID,
+      { fileName, text },
+      document.messageID,
+    );
+    await this.userContextService.saveToContext(
+      `[User shared the document "${fileName}"${
+        document.caption ? ` with the message "${document.caption}"` : ''
+      }]`,
+      'user',
+      userID,
+      { messageID: document.messageID },
+    );
+
+    // A retried message gets the summary it already had
+    const savedSummary = document.messageID
+      ? (await this.userContextService.getConversationHistory(userID)).find(
+          (turn) =>
+            turn.role === 'assistant' && turn.messageID === document.messageID,
+        )
+      : null;
+    if (savedSummary) {
+      return savedSummary.content;
+    }
+
+    const summary = await this.openaiService.summarizeDocument(
+      fileName,
+      text,
+      document.caption,
+      promptContext,
+    );
+    if (summary.status === 'error') {
+      return translate(language, 'documentSummaryFailed');
+    }
+
+    await this.userContextService.saveToContext(
+      summary.data,
+      'assistant',
+      userID,
+      { messageID: document.messageID },
+    );
+    return summary.data;
+  }
+
+  async extractText(
+    filePath: string,
+    format: DocumentFormat,
+    language: Language = DEFAULT_LANGUAGE,
+  ): Promise<{ status: 'error' | 'success'; data: string }> {
+    try {
+      const file = readFileSync(filePath);
+      let text: string;
+
+      if (format === 'pdf') {
+        // pdf.js misreads Buffers that are views into Node's shared pool
+        const pdf = await pdfParse(new Uint8Array(file) as Buffer, {
+          max: this.configuration.maxPages,
+        });
+        if (pdf.numpages > this.configuration.maxPages) {
+          return {
+            status: 'error',
+            data: translate(language, 'documentTooManyPages', {
+              pages: pdf.numpages,
+              maxPages: this.configuration.maxPages,
+            }),
+          };
+        }
+        text = pdf.text;
+      } else if (format === 'docx') {
+        text = (await mammoth.extractRawText({ buffer: file })).value;
+      } else {
+        text = file.toString('utf8');
+      }
+
+      text = text.replace(/\n{3,}/g, '\n\n').trim();
+      if (!text) {
+        return {
+          status: 'error',
+          data: translate(language, 'documentNoText'),
+        };
+      }
+
+      return { status: 'success', data: text };
+    } catch (error) {
+      this.logger.error(`Error reading ${format} document`, error);
+      return {
+        status: 'error',
+        data: translate(language, 'documentUnreadable'),
+      };
+    }
+  }
+}
@@ -0,0 +1,6 @@
+// pdf-parse's index.js runs a self test when it has no parent module
+// (as under jest), so the library entry point is imported instead
+declare module 'pdf-parse/lib/pdf-parse' {
+  import pdfParse = require('pdf-parse');
+  export = pdfParse;
+}
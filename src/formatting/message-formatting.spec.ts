@@ -0,0 +1,176 @@
+import {
+  formatForChannel,
+  splitForChannel,
+  splitMessage,
+  toPlainText,
+  toTelegramHtml,
+  toWhatsappFormatting,
+} from './message-formatting';
+
+const reply = [
+  '## Our Branding Packages',
+  '',
+  'Here is what **Studio Libra** offers *for startups*:',
+  '',
+  '- **Logo Design** – from KES 15,000',
+  '- ~~Business cards~~ Stationery packs',
+  '',
+  'See [our portfolio](https://studiolibra.example/work) or run `npm start`.',
+].join('\n');
+
+describe('message formatting', () => {
+  describe('toWhatsappFormatting', () => {
+    it('converts Markdown to WhatsApp formatting', () => {
+      expect(toWhatsappFormatting(reply)).toBe(
+        [
+          '*Our Branding Packages*',
+          '',
+          'Here is what *Studio Libra* offers _for startups_:',
+          '',
+          '• *Logo Design* – from KES 15,000',
+          '• ~Business cards~ Stationery packs',
+          '',
+          'See our portfolio (https://studiolibra.example/work) or run `npm start`.',
+        ].join('\n'),
+      );
+    });
+
+    it('leaves code untouched', () => {
+      expect(toWhatsappFormatting('```ts\nconst a = **b**;\n```')).toBe(
+        '```const a = **b**;```',
+      );
+    });
+
+    it('keeps multiplication and snake_case as they are', () => {
+      expect(toWhatsappFormatting('2 * 3 * 4 = 24 in user_name')).toBe(
+        '2 * 3 * 4 = 24 in user_name',
+      );
+    });
+  });
+
+  describe('toTelegramHtml', () => {
+    it('converts Markdown to Telegram HTML', () => {
+      expect(toTelegramHtml(reply)).toBe(
+        [
+          '<b>Our Branding Packages</b>',
+          '',
+          'Here is what <b>Studio Libra</b> offers <i>for startups</i>:',
+          '',
+          '• <b>Logo Design</b> – from KES 15,000',
+          '• <s>Business cards</s> Stationery packs',
+          '',
+          'See <a href="https://studiolibra.example/work">our portfolio</a> or run <code>npm start</code>.',
+        ].join('\n'),
+      );
+    });
+
+    it('escapes characters Telegram would try to parse', () => {
+      expect(
+        toTelegramHtml('Budget < 50k & timeline > 2 weeks, see `a<b>`'),
+      ).toBe(
+        'Budget &lt; 50k &amp; timeline &gt; 2 weeks, see <code>a&lt;b&gt;</code>',
+      );
+      expect(toTelegramHtml('Email info_team@studio.example [x]')).toBe(
+        'Email info_team@studio.example [x]',
+      );
+    });
+  });
+
+  it('leaves underscores in URLs alone', () => {
+    const links =
+      'See https://x.com/a_b_c and [the brief](https://x.com/_a_b_/c__d__e), _thanks_';
+
+    expect(toWhatsappFormatting(links)).toBe(
+      'See https://x.com/a_b_c and the brief (https://x.com/_a_b_/c__d__e), _thanks_',
+    );
+    expect(toTelegramHtml(links)).toBe(
+      'See https://x.com/a_b_c and <a href="https://x.com/_a_b_/c__d__e">the brief</a>, <i>thanks</i>',
+    );
+    expect(toPlainText('Portfolio: **https://x.com/a_b_c**')).toBe(
+      'Portfolio: https://x.com/a_b_c',
+    );
+  });
+
+  describe('toPlainText', () => {
+    it('takes the Markdown out', () => {
+      expect(toPlainText(reply)).toBe(
+        [
+          'Our Branding Packages',
+          '',
+          'Here is what Studio Libra offers for startups:',
+          '',
+          '• Logo Design – from KES 15,000',
+          '• Business cards Stationery packs',
+          '',
+          'See our portfolio (https://studiolibra.example/work) or run npm start.',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('splitMessage', () => {
+    it('keeps short messages whole', () => {
+      expect(splitMessage('  Hello there!  ', 100)).toEqual(['Hello there!']);
+    });
+
+    it('splits between paragraphs first', () => {
+      const first = 'a'.repeat(60);
+      const second = 'b'.repeat(60);
+
+      expect(splitMessage(`${first}\n\n${second}`, 100)).toEqual([
+        first,
+        second,
+      ]);
+    });
+
+    it('falls back to sentences and words', () => {
+      const sentences = 'This is one sentence. '.repeat(10);
+      const chunks = splitMessage(sentences, 50);
+
+      expect(chunks.every((chunk) => chunk.length <= 50)).toBe(true);
+      expect(chunks.every((chunk) => chunk.endsWith('.'))).toBe(true);
+      expect(chunks.join(' ')).toBe(sentences.trim());
+
+      expect(splitMessage('word '.repeat(30), 52)[0]).toMatch(/word$/);
+    });
+
+    it('cuts text without any boundary at the limit', () => {
+      expect(splitMessage('x'.repeat(250), 100).map((c) => c.length)).toEqual([
+        100, 100, 50,
+      ]);
+    });
+  });
+
+  it('formats and splits for each channel in order', () => {
+    const paragraphs = Array.from(
+      { length: 6 },
+      (_, i) => `**Part ${i + 1}** ${'lorem ipsum '.repeat(80)}`,
+    ).join('\n\n');
+
+    const messages = formatForChannel(paragraphs, 'whatsapp');
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(messages.every((message) => message.length <= 4096)).toBe(true);
+    expect(messages[0]).toMatch(/^\*Part 1\*/);
+    expect(formatForChannel(paragraphs, 'telegram')[0]).toMatch(
+      /^<b>Part 1<\/b>/,
+    );
+    expect(
+      formatForChannel(paragraphs, 'instagram').every(
+        (message) => message.length <= 1000,
+      ),
+    ).toBe(true);
+  });
+
+  it('splits again when formatting makes a message too long', () => {
+    // Every & becomes &amp; in Telegram HTML
+    const markdown = 'R&D '.repeat(1500);
+
+    const chunks = splitForChannel(markdown, 'telegram');
+    const messages = formatForChannel(markdown, 'telegram');
+
+    expect(chunks.join(' ')).toBe(markdown.trim());
+    expect(messages.length).toBeGreaterThan(2);
+    expect(messages.every((message) => message.length <= 4096)).toBe(true);
+  });
+});
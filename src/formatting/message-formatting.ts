@@ -0,0 +1,241 @@
+export type FormattingChannel =
+  | 'whatsapp'
+  | 'telegram'
+  | 'messenger'
+  | 'instagram';
+
+// Longest text message each platform accepts, in characters
+export const MESSAGE_LENGTH_LIMITS: Record<FormattingChannel, number> = {
+  whatsapp: 4096,
+  telegram: 4096,
+  messenger: 2000,
+  instagram: 1000,
+};
+
+// Tried in order: paragraphs, lines, sentences, words
+const SPLIT_BOUNDARIES = [/\n\s*\n/g, /\n/g, /[.!?…][)"'”’]*\s+/g, /\s+/g];
+
+// Markers that can't appear in model output, used to keep code and bold
+// text out of the way while the rest is converted
+const CODE_PLACEHOLDER = '\u0000';
+const BOLD_MARKER = '\u0001';
+const LINK_PLACEHOLDER = '\u0002';
+
+// Splits text into chunks of at most `limit` characters, preferring to
+// break between paragraphs, then lines, then sentences, then words
+export function splitMessage(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+
+  while (rest.length > limit) {
+    const position = findSplitPosition(rest, limit);
+    chunks.push(rest.slice(0, position).trim());
+    rest = rest.slice(position).trim();
+  }
+
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+function findSplitPosition(text: string, limit: number) {
+  const window = text.slice(0, limit);
+
+  for (const boundary of SPLIT_BOUNDARIES) {
+    let position = -1;
+    for (const match of window.matchAll(boundary)) {
+      position = match.index + match[0].length;
+    }
+    // A boundary too close to the start would leave a tiny message
+    if (position > limit / 2) {
+      return position;
+    }
+  }
+
+  // Don't cut an emoji (a surrogate pair) in half
+  const code = text.charCodeAt(limit - 1);
+  return code >= 0xd800 && code <= 0xdbff ? limit - 1 : limit;
+}
+
+// Pulls code out of the text so nothing inside it gets converted
+function extractCode(markdown: string) {
+  const code: { block: boolean; content: string }[] = [];
+  const text = markdown
+    .replace(/```[^\n`]*\n?([\s\S]*?)```/g, (_, content) => {
+      code.push({ block: true, content: content.replace(/\n$/, '') });
+      return `${CODE_PLACEHOLDER}${code.length - 1}${CODE_PLACEHOLDER}`;
+    })
+    .replace(/`([^`\n]+)`/g, (_, content) => {
+      code.push({ block: false, content });
+      return `${CODE_PLACEHOLDER}${code.length - 1}${CODE_PLACEHOLDER}`;
+    });
+
+  const restore = (
+    converted: string,
+    render: (content: string, block: boolean) => string,
+  ) =>
+    converted.replace(
+      new RegExp(`${CODE_PLACEHOLDER}(\\d+)${CODE_PLACEHOLDER}`, 'g'),
+      (_, index) => render(code[index].content, code[index].block),
+    );
+
+  return { text, restore };
+}
+
+interface Link {
+  url: string;
+  label?: string;
+  image?: boolean;
+}
+
+// Pulls links and bare URLs out of the text so the underscores and
+// asterisks in them aren't taken for formatting
+function extractLinks(markdown: string) {
+  const links: Link[] = [];
+  const placeholder = (link: Link) => {
+    links.push(link);
+    return `${LINK_PLACEHOLDER}${links.length - 1}${LINK_PLACEHOLDER}`;
+  };
+  const text = markdown
+    .replace(/(!?)\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, image, label, url) =>
+      placeholder({ url, label, image: !!image }),
+    )
+    .replace(/https?:\/\/[^\s<>*]+/g, (url) => placeholder({ url }));
+
+  const restore = (converted: string, render: (link: Link) => string) =>
+    converted.replace(
+      new RegExp(`${LINK_PLACEHOLDER}(\\d+)${LINK_PLACEHOLDER}`, 'g'),
+      (_, index) => render(links[index]),
+    );
+
+  return { text, restore };
+}
+
+// Where there is no markup for links, the URL follows the label
+const linkText = ({ url, label, image }: Link) =>
+  image || !label || label === url ? url : `${label} (${url})`;
+
+// Converts the Markdown GPT writes into WhatsApp formatting:
+// *bold*, _italic_, ~strikethrough~ and ```monospace```
+export function toWhatsappFormatting(markdown: string) {
+  const code = extractCode(markdown);
+  const links = extractLinks(code.text);
+
+  const converted = links.text
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    .replace(
+      /^#{1,6}[ \t]+(.+?)[ \t]*#*$/gm,
+      (_, heading) =>
+        `${BOLD_MARKER}${heading.replace(/\*\*|__/g, '')}${BOLD_MARKER}`,
+    )
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, '$1• ')
+    .replace(
+      /\*\*(.+?)\*\*|__(.+?)__/g,
+      (_, a, b) => `${BOLD_MARKER}${a ?? b}${BOLD_MARKER}`,
+    )
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])/gm, '$1_$2_')
+    .replace(/~~(.+?)~~/g, '~$1~')
+    .replace(new RegExp(BOLD_MARKER, 'g'), '*')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return code.restore(links.restore(converted, linkText), (content, block) =>
+    block ? `\`\`\`${content}\`\`\`` : `\`${content}\``,
+  );
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Converts the Markdown GPT writes into Telegram HTML. HTML only needs
+// &, < and > escaped, unlike MarkdownV2 where most punctuation does.
+export function toTelegramHtml(markdown: string) {
+  const code = extractCode(markdown);
+  const links = extractLinks(code.text);
+
+  const converted = escapeHtml(links.text)
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    .replace(
+      /^#{1,6}[ \t]+(.+?)[ \t]*#*$/gm,
+      (_, heading) => `<b>${heading.replace(/\*\*|__/g, '')}</b>`,
+    )
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, '$1• ')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<b>${a ?? b}</b>`)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])/gm, '$1<i>$2</i>')
+    .replace(/(^|[^\w])_(?!\s)(.+?)(?<!\s)_(?!\w)/gm, '$1<i>$2</i>')
+    .replace(/~~(.+?)~~/g, '<s>$1</s>')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const withLinks = links.restore(converted, ({ url, label }) =>
+    label
+      ? `<a href="${escapeHtml(url).replace(/"/g, '&quot;')}">${escapeHtml(
+          label,
+        )}</a>`
+      : escapeHtml(url),
+  );
+  return code.restore(withLinks, (content, block) =>
+    block
+      ? `<pre>${escapeHtml(content)}</pre>`
+      : `<code>${escapeHtml(content)}</code>`,
+  );
+}
+
+// Instagram DMs show text as it is, so the Markdown is taken out
+export function toPlainText(markdown: string) {
+  const code = extractCode(markdown);
+  const links = extractLinks(code.text);
+
+  const converted = links.text
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    .replace(/^#{1,6}[ \t]+(.+?)[ \t]*#*$/gm, '$1')
+    .replace(/^([ \t]*)[-*+][ \t]+/gm, '$1• ')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => a ?? b)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)(?<!\s)\*(?![\w*])/gm, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return code.restore(links.restore(converted, linkText), (content) => content);
+}
+
+// Messenger understands the same markers as WhatsApp
+const FORMATTERS: Record<FormattingChannel, (markdown: string) => string> = {
+  whatsapp: toWhatsappFormatting,
+  telegram: toTelegramHtml,
+  messenger: toWhatsappFormatting,
+  instagram: toPlainText,
+};
+
+// Splits model output into Markdown chunks whose converted text fits the
+// channel's length limit. Escaping and markup can make a chunk longer than
+// its Markdown, so a chunk that outgrows the limit is split again.
+// Splitting happens first so that formatting never spans two messages.
+export function splitForChannel(
+  markdown: string,
+  channel: FormattingChannel,
+): string[] {
+  const limit = MESSAGE_LENGTH_LIMITS[channel];
+  const fit = (chunk: string): string[] => {
+    const length = FORMATTERS[channel](chunk).length;
+    if (length <= limit) {
+      return [chunk];
+    }
+    const shorter = Math.max(1, Math.floor((chunk.length * limit) / length));
+    return splitMessage(chunk, shorter).flatMap(fit);
+  };
+
+  return splitMessage(markdown, limit).flatMap(fit);
+}
+
+// Splits model output under the channel's length limit and converts each
+// message to the channel's formatting
+export function formatForChannel(
+  markdown: string,
+  channel: FormattingChannel,
+): string[] {
+  return splitForChannel(markdown, channel)
+    .map(FORMATTERS[channel])
+    .filter(Boolean);
+}
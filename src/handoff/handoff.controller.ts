@@ -0,0 +1,47 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { HandoffService } from './handoff.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+// Lets the team answer conversations handed to them from the same
+// WhatsApp, Telegram... send paths the assistant uses
+@Controller('handoff')
+@UseGuards(AdminTokenGuard)
+export class HandoffController {
+  constructor(
+    private readonly handoffService: HandoffService,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  @Get()
+  getHandoffs() {
+    return this.handoffService.getHandoffs();
+  }
+
+  // Handoffs are addressed by the hashed user ID, like inbox conversations
+  @Post(':id/reply')
+  @HttpCode(200)
+  reply(
+    @Param('id') id: string,
+    @Body() { text, agent }: { text?: string; agent?: string },
+  ) {
+    if (!text?.trim()) {
+      return { status: 'error', message: 'text is required' };
+    }
+    return this.conversationService.sendAgentReply(id, text, agent);
+  }
+
+  @Post(':id/release')
+  @HttpCode(200)
+  release(@Param('id') id: string) {
+    return this.conversationService.releaseHandoff(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { HandoffController } from './handoff.controller';
+import { HandoffService } from './handoff.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  // Replies go out through the adapters registered with ConversationModule
+  imports: [ConversationModule],
+  controllers: [HandoffController],
+  providers: [HandoffService, UserContextService],
+})
+export class HandoffModule {}
@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { readdirSync, readFileSync, rmSync } from 'fs';
+import * as path from 'path';
+import { HandoffService } from './handoff.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+jest.mock('axios');
+
+describe('HandoffService', () => {
+  let service: HandoffService;
+  let userContextService: Record<string, jest.Mock>;
+
+  const user = {
+    userID: '254700000001',
+    channel: 'whatsapp' as const,
+    userName: 'Amina',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    userContextService = {
+      hashPhoneNumber: jest.fn((userID) => `hash-${userID}`),
+      encryptPhoneNumber: jest.fn((userID) => `encrypted-${userID}`),
+      decryptPhoneNumber: jest.fn((encrypted) =>
+        encrypted.replace('encrypted-', ''),
+      ),
+      getConversationHistory: jest.fn().mockResolvedValue([
+        { role: 'user', content: 'I need a logo' },
+        { role: 'assistant', content: 'Sure!', promptVersion: 'artistaa@2' },
+      ]),
+      saveToContext: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HandoffService,
+        { provide: UserContextService, useValue: userContextService },
+      ],
+    }).compile();
+
+    service = module.get<HandoffService>(HandoffService);
+    service.configuration.webhookURL = 'https://hooks.example.com/handoff';
+    await service['redis'].flushall();
+  });
+
+  it('keeps the phone number encrypted in Redis', async () => {
+    await service.start(user);
+
+    const stored = await service['redis'].hgetall('handoffs');
+    expect(JSON.stringify(stored)).not.toContain('"254700000001"');
+    expect(JSON.parse(stored['hash-254700000001'])).toEqual(
+      expect.objectContaining({ encryptedUserID: 'encrypted-254700000001' }),
+    );
+  });
+
+  it('lists handoffs by hashed ID, without the phone number', async () => {
+    await service.start(user);
+
+    const handoffs = await service.getHandoffs();
+    expect(handoffs).toEqual([
+      expect.objectContaining({
+        id: 'hash-254700000001',
+        channel: 'whatsapp',
+        userName: 'Amina',
+      }),
+    ]);
+    expect(handoffs[0]).not.toHaveProperty('userID');
+    expect(await service.findHandoff('hash-254700000001')).toEqual(
+      expect.objectContaining(user),
+    );
+  });
+
+  it('hands a conversation off and notifies the team', async () => {
+    await service.start(user);
+
+    expect(await service.getHandoff(user.userID)).toEqual(
+      expect.objectContaining(user),
+    );
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://hooks.example.com/handoff',
+      expect.objectContaining({
+        event: 'handoff.requested',
+        id: 'hash-254700000001',
+        transcript: [
+          { role: 'user', content: 'I need a logo' },
+          { role: 'assistant', content: 'Sure!' },
+        ],
+      }),
+      { timeout: 10000 },
+    );
+    expect(JSON.stringify((axios.post as jest.Mock).mock.calls)).not.toContain(
+      '"254700000001"',
+    );
+  });
+
+  it('emails the team without the phone number when there is no webhook', async () => {
+    const outboxFolder = 'handoffOutbox-test';
+    Object.assign(service.configuration, {
+      webhookURL: undefined,
+      notifyEmail: 'team@studiolibra.example',
+      outboxFolder,
+    });
+
+    await service.start(user);
+
+    const folderPath = path.join(process.cwd(), outboxFolder);
+    const [fileName] = readdirSync(folderPath);
+    const email = readFileSync(path.join(folderPath, fileName), 'utf8');
+    rmSync(folderPath, { recursive: true, force: true });
+    expect(email).toContain('POST /handoff/hash-254700000001/reply');
+    expect(email.replace(/hash-254700000001/g, '')).not.toContain(
+      '254700000001',
+    );
+  });
+
+  it('notifies the team once per handoff', async () => {
+    await service.start(user);
+    await service.start(user);
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(await service.getHandoffs()).toHaveLength(1);
+  });
+
+  it('keeps the conversation going when the webhook fails', async () => {
+    (axios.post as jest.Mock).mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(service.start(user)).resolves.toEqual(
+      expect.objectContaining(user),
+    );
+  });
+
+  it('records messages and replies in the conversation', async () => {
+    const handoff = await service.start(user);
+
+    await service.recordMessage(handoff, 'Are you there?');
+    await service.recordReply(handoff, 'Yes, Wanjiku here', 'Wanjiku');
+
+    expect(userContextService.saveToContext).toHaveBeenCalledWith(
+      'Are you there?',
+      'user',
+      user.userID,
+    );
+    expect(userContextService.saveToContext).toHaveBeenCalledWith(
+      'Yes, Wanjiku here',
+      'assistant',
+      user.userID,
+      { agent: 'Wanjiku' },
+    );
+    expect(axios.post).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        event: 'handoff.message',
+        text: 'Are you there?',
+      }),
+      expect.anything(),
+    );
+    expect((await service.getHandoff(user.userID)).agent).toBe('Wanjiku');
+  });
+
+  it('gives the conversation back when released', async () => {
+    await service.start(user);
+
+    expect(await service.release('hash-254700000001')).toEqual({
+      status: 'success',
+      data: expect.objectContaining(user),
+    });
+    expect(await service.getHandoff(user.userID)).toBeNull();
+    expect(await service.release('hash-254700000001')).toEqual({
+      status: 'error',
+      message: 'Conversation is not handed off',
+    });
+  });
+
+  it('gives the conversation back after the idle timeout', async () => {
+    const handoff = await service.start(user);
+    await service['save']({
+      ...handoff,
+      lastActivityAt: Date.now() - 3601 * 1000,
+    });
+
+    expect(await service.getHandoff(user.userID)).toBeNull();
+    expect(await service.getHandoffs()).toEqual([]);
+    expect(axios.post).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({ event: 'handoff.released', reason: 'idle' }),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import axios from 'axios';
+import * as path from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { UserContextService } from '../user-context/user-context.service';
+import { ChannelName } from '../conversation/conversation.types';
+
+// Conversations the team has taken over, by hashed user ID
+const HANDOFFS_KEY = 'handoffs';
+
+// A conversation owned by the team. The assistant stays quiet until it is
+// released or nobody writes for the idle timeout.
+export interface Handoff {
+  // Needed to send the team's replies. Stored encrypted and removed with
+  // the handoff.
+  userID: string;
+  channel: ChannelName;
+  userName?: string;
+  // Whoever replied last from the team
+  agent?: string;
+  requestedAt: number;
+  lastActivityAt: number;
+}
+
+// How a handoff is kept in Redis
+type StoredHandoff = Omit<Handoff, 'userID'> & { encryptedUserID: string };
+
+// What the API and notifications show, without the phone number. The ID
+// is the hashed user ID, the same as the inbox conversation ID.
+export type HandoffSummary = Omit<Handoff, 'userID'> & { id: string };
+
+export type HandoffEvent =
+  | 'handoff.requested'
+  | 'handoff.message'
+  | 'handoff.released';
+
+export type HandoffResult<T> =
+  | { status: 'success'; data: T }
+  | { status: 'error'; message: string };
+
+@Injectable()
+export class HandoffService {
+  constructor(private readonly userContextService: UserContextService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(HandoffService.name);
+
+  readonly configuration = {
+    // The assistant takes over again after an hour without messages
+    idleTimeout: Number(process.env.HANDOFF_IDLE_TIMEOUT_SECONDS) || 3600,
+    // Receives every handoff event as JSON
+    webhookURL: process.env.HANDOFF_WEBHOOK_URL,
+    // Without a webhook, requests are written as emails to the outbox
+    // folder for a mail relay to pick up
+    notifyEmail: process.env.HANDOFF_NOTIFY_EMAIL,
+    outboxFolder: process.env.HANDOFF_OUTBOX_FOLDER || 'handoffOutbox',
+    // Recent turns sent along with a request
+    transcriptTurns: 10,
+  };
+
+  // The active handoff for a user, null when the assistant is answering
+  async getHandoff(userID: string): Promise<Handoff | null> {
+    return this.findHandoff(this.userContextService.hashPhoneNumber(userID));
+  }
+
+  // The same by the ID the API uses
+  async findHandoff(id: string): Promise<Handoff | null> {
+    try {
+      const handoff = await this.redis.hget(HANDOFFS_KEY, id);
+      return handoff ? this.checkIdle(id, this.parse(handoff)) : null;
+    } catch (error) {
+      this.logger.error('Error Loading Handoff', error);
+      return null;
+    }
+  }
+
+  async getHandoffs(): Promise<HandoffSummary[]> {
+    try {
+      const handoffs = await this.redis.hgetall(HANDOFFS_KEY);
+      const active = await Promise.all(
+        Object.entries(handoffs).map(([field, handoff]) =>
+          this.checkIdle(field, this.parse(handoff)),
+        ),
+      );
+      return active
+        .filter(Boolean)
+        .sort((a, b) => b.lastActivityAt - a.lastActivityAt)
+        .map((handoff) => this.summarize(handoff));
+    } catch (error) {
+      this.logger.error('Error Loading Handoffs', error);
+      return [];
+    }
+  }
+
+  // Hands the conversation to the team, once
+  async start({
+    userID,
+    channel,
+    userName,
+  }: Pick<Handoff, 'userID' | 'channel' | 'userName'>): Promise<Handoff> {
+    const existing = await this.getHandoff(userID);
+    if (existing) {
+      return this.touch(existing);
+    }
+
+    const handoff: Handoff = {
+      userID,
+      channel,
+      userName,
+      requestedAt: Date.now(),
+      lastActivityAt: Date.now(),
+    };
+    await this.save(handoff);
+    this.logger.log(
+      `Conversation ${this.summarize(handoff).id} handed off on ${channel}`,
+    );
+
+    const history =
+      await this.userContextService.getConversationHistory(userID);
+    await this.notify('handoff.requested', handoff, {
+      transcript: history
+        .slice(-this.configuration.transcriptTurns)
+        .map(({ role, content }) => ({ role, content })),
+    });
+    return handoff;
+  }
+
+  // A message from the user while the team has the conversation
+  async recordMessage(handoff: Handoff, text: string) {
+    await this.userContextService.saveToContext(text, 'user', handoff.userID);
+    await this.notify('handoff.message', await this.touch(handoff), { text });
+  }
+
+  // A reply the team sent to the user
+  async recordReply(handoff: Handoff, text: string, agent?: string) {
+    await this.userContextService.saveToContext(
+      text,
+      'assistant',
+      handoff.userID,
+      { agent: agent || 'staff' },
+    );
+    return this.touch({ ...handoff, agent: agent || handoff.agent });
+  }
+
+  async release(id: string): Promise<HandoffResult<Handoff>> {
+    const handoff = await this.findHandoff(id);
+    if (!handoff) {
+      return { status: 'error', message: 'Conversation is not handed off' };
+    }
+
+    await this.redis.hdel(HANDOFFS_KEY, id);
+    this.logger.log(`Conversation ${id} released`);
+    await this.notify('handoff.released', handoff);
+    return { status: 'success', data: handoff };
+  }
+
+  // Idle handoffs are dropped when they are next looked at
+  private async checkIdle(field: string, handoff: Handoff) {
+    const idleFor = Date.now() - handoff.lastActivityAt;
+    if (idleFor < this.configuration.idleTimeout * 1000) {
+      return handoff;
+    }
+
+    await this.redis.hdel(HANDOFFS_KEY, field);
+    this.logger.log(`Handoff of ${field} timed out`);
+    await this.notify('handoff.released', handoff, { reason: 'idle' });
+    return null;
+  }
+
+  private async touch(handoff: Handoff) {
+    const touched = { ...handoff, lastActivityAt: Date.now() };
+    await this.save(touched);
+    return touched;
+  }
+
+  private async save({ userID, ...details }: Handoff) {
+    const stored: StoredHandoff = {
+      ...details,
+      encryptedUserID: this.userContextService.encryptPhoneNumber(userID),
+    };
+    await this.redis.hset(
+      HANDOFFS_KEY,
+      this.userContextService.hashPhoneNumber(userID),
+      JSON.stringify(stored),
+    );
+  }
+
+  private parse(stored: string): Handoff {
+    const { encryptedUserID, ...details }: StoredHandoff = JSON.parse(stored);
+    return {
+      ...details,
+      userID: this.userContextService.decryptPhoneNumber(encryptedUserID),
+    };
+  }
+
+  private summarize({ userID, ...details }: Handoff): HandoffSummary {
+    return { id: this.userContextService.hashPhoneNumber(userID), ...details };
+  }
+
+  // Notifying the team must never stop the conversation from carrying on
+  private async notify(
+    event: HandoffEvent,
+    handoff: Handoff,
+    details: Record<string, unknown> = {},
+  ) {
+    const { webhookURL, notifyEmail } = this.configuration;
+    const summary = this.summarize(handoff);
+    try {
+      if (webhookURL) {
+        await axios.post(
+          webhookURL,
+          { event, ...summary, ...details, sentAt: Date.now() },
+          { timeout: 10000 },
+        );
+      } else if (notifyEmail && event === 'handoff.requested') {
+        this.writeEmail(notifyEmail, summary, details.transcript as []);
+      } else {
+        this.logger.log(`${event} for ${summary.id}, no one to notify`);
+      }
+    } catch (error) {
+      this.logger.error(`Error Sending ${event} Notification`, error);
+    }
+  }
+
+  private writeEmail(
+    to: string,
+    { id, userName, channel }: HandoffSummary,
+    transcript: { role: string; content: string }[] = [],
+  ) {
+    const folderPath = path.join(
+      process.cwd(),
+      this.configuration.outboxFolder,
+    );
+    if (!existsSync(folderPath)) {
+      mkdirSync(folderPath);
+    }
+
+    const email = [
+      `To: ${to}`,
+      `Subject: ${userName || 'A user'} wants to talk to the team on ${channel}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      `${userName || 'A user'} asked to talk to a person on ${channel}. The assistant stays quiet until you release the conversation.`,
+      '',
+      `Reply with POST /handoff/${id}/reply and release it with POST /handoff/${id}/release.`,
+      '',
+      ...transcript.map(({ role, content }) => `${role}: ${content}`),
+    ].join('\n');
+
+    const filePath = path.join(folderPath, `${Date.now()}-handoff.eml`);
+    writeFileSync(filePath, email);
+    this.logger.log(`Handoff email for ${to} written to ${filePath}`);
+  }
+}
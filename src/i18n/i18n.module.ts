@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LanguageService } from './language.service';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+@Module({
+  providers: [LanguageService, UserProfileService, UserContextService],
+  exports: [LanguageService],
+})
+export class I18nModule {}
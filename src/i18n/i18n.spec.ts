@@ -0,0 +1,34 @@
+import { en } from './locales/en';
+import { findLanguage, LANGUAGES, translate } from './i18n';
+
+describe('i18n', () => {
+  it('fills in placeholders', () => {
+    expect(translate('sw', 'documentTooLarge', { maxSizeMB: 10 })).toBe(
+      'Samahani, nyaraka hiyo ni kubwa mno. Ninaweza kusoma nyaraka za hadi MB 10.',
+    );
+  });
+
+  it('uses the same placeholders in every bundle', () => {
+    const placeholders = (text: string) =>
+      (text.match(/\{\w+\}/g) ?? []).sort();
+
+    for (const language of Object.keys(
+      LANGUAGES,
+    ) as (keyof typeof LANGUAGES)[]) {
+      for (const key of Object.keys(en) as (keyof typeof en)[]) {
+        expect([language, key, placeholders(translate(language, key))]).toEqual(
+          [language, key, placeholders(en[key])],
+        );
+      }
+    }
+  });
+
+  it('finds languages by code and name', () => {
+    expect(findLanguage('SW')).toBe('sw');
+    expect(findLanguage('Kiswahili')).toBe('sw');
+    expect(findLanguage('sheng')).toBe('sw');
+    expect(findLanguage('français')).toBe('fr');
+    expect(findLanguage('klingon')).toBeNull();
+    expect(findLanguage('')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { en, MessageKey } from './locales/en';
+import { sw } from './locales/sw';
+import { fr } from './locales/fr';
+
+export type Language = 'en' | 'sw' | 'fr';
+export type { MessageKey };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export interface LanguageInfo {
+  // The name the model is told to answer in
+  name: string;
+  nativeName: string;
+  // Other ways users may ask for it with /lang
+  aliases: string[];
+  // Dates and times are written the way this locale writes them
+  locale: string;
+  // Added to the system prompt on top of "answer in <name>"
+  promptHint?: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: {
+    name: 'English',
+    nativeName: 'English',
+    aliases: ['english', 'eng'],
+    locale: 'en-GB',
+  },
+  sw: {
+    name: 'Swahili',
+    nativeName: 'Kiswahili',
+    aliases: ['swahili', 'kiswahili', 'sheng'],
+    locale: 'sw-KE',
+    promptHint:
+      'If the user writes in Sheng or mixes Swahili and English, answer in the same casual mix.',
+  },
+  fr: {
+    name: 'French',
+    nativeName: 'Français',
+    aliases: ['french', 'francais', 'français'],
+    locale: 'fr-FR',
+  },
+};
+
+const BUNDLES: Record<Language, Record<MessageKey, string>> = { en, sw, fr };
+
+export function isLanguage(code: string): code is Language {
+  return Object.prototype.hasOwnProperty.call(LANGUAGES, code);
+}
+
+// Matches what users type after /lang: a code, an English or native name
+export function findLanguage(input?: string): Language | null {
+  const query = input?.trim().toLowerCase();
+  if (!query) {
+    return null;
+  }
+  if (isLanguage(query)) {
+    return query;
+  }
+
+  const match = (Object.keys(LANGUAGES) as Language[]).find((code) =>
+    [
+      LANGUAGES[code].name.toLowerCase(),
+      LANGUAGES[code].nativeName.toLowerCase(),
+      ...LANGUAGES[code].aliases,
+    ].includes(query),
+  );
+  return match ?? null;
+}
+
+// Looks up a message in the user's language, falling back to English, and
+// fills in its {placeholders}
+export function translate(
+  language: Language,
+  key: MessageKey,
+  values: Record<string, string | number> = {},
+) {
+  const message = BUNDLES[language]?.[key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+// The instruction added to system prompts so the model answers in the
+// user's language
+export function languageInstruction(language: Language) {
+  const { name, promptHint } = LANGUAGES[language] ?? LANGUAGES.en;
+  return [
+    `The user's language is ${name}. Answer in ${name} unless they write to you in another language.`,
+    promptHint,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
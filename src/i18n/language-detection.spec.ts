@@ -0,0 +1,18 @@
+import { detectLanguage } from './language-detection';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['Hi, I need a logo for my bakery', 'en'],
+    ['Habari, nataka logo ya biashara yangu', 'sw'],
+    ['Niaje msee, bei ya website ni ngapi?', 'sw'],
+    ["Bonjour, j'ai besoin d'un logo pour mon entreprise", 'fr'],
+  ])('detects %s', (text, language) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('waits for more text when a message is too short or mixed', () => {
+    expect(detectLanguage('Hi')).toBeNull();
+    expect(detectLanguage('👍')).toBeNull();
+    expect(detectLanguage('Sawa poa, I want')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { Language } from './i18n';
+
+// Common words that give a language away. Short chat messages rarely have
+// enough text for statistical detection, but they are full of these.
+const COMMON_WORDS: Record<Language, Set<string>> = {
+  en: new Set(
+    `the and is are was you your i i'm my me we our to of for with what how
+    when where can could do does want need please thanks thank hello this
+    that have has about would like price much it on be will not just`.split(
+      /\s+/,
+    ),
+  ),
+  sw: new Set(
+    `na ya wa za kwa ni nini habari mambo sasa poa asante sana nataka
+    ninataka tafadhali je hii hiyo ile gani bei ngapi naomba karibu mimi wewe
+    yako yangu yetu kuna kama lakini pia hapana ndio ndiyo sawa leo kesho
+    nisaidie unaweza tunaweza nina una sijui vipi uko niko nko niaje msee
+    manze fiti bana buda vile hapo tu bado kitu nani lini wapi`.split(/\s+/),
+  ),
+  fr: new Set(
+    `le la les des un une est et je vous nous pour avec bonjour merci oui non
+    pas que qui quoi comment combien mon ma mes votre vos besoin voudrais veux
+    suis sont c'est j'ai du au aux s'il plaît`.split(/\s+/),
+  ),
+};
+
+// Common words a message needs before its language is trusted
+const MIN_SCORE = 2;
+
+// Guesses the language of a message, or null when it is too short or
+// mixed to tell
+export function detectLanguage(text: string): Language | null {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+
+  const scores = (Object.keys(COMMON_WORDS) as Language[])
+    .map((language) => ({
+      language,
+      score: words.filter((word) => COMMON_WORDS[language].has(word)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  return best.score >= MIN_SCORE && best.score > runnerUp.score
+    ? best.language
+    : null;
+}
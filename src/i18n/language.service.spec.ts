@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LanguageService } from './language.service';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('LanguageService', () => {
+  let service: LanguageService;
+  let userProfileService: UserProfileService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LanguageService,
+        UserProfileService,
+        {
+          provide: UserContextService,
+          useValue: {
+            hashPhoneNumber: (phoneNumber) => `hashed-${phoneNumber}`,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LanguageService>(LanguageService);
+    userProfileService = module.get<UserProfileService>(UserProfileService);
+    await userProfileService['redis'].flushall();
+  });
+
+  it('defaults to English', async () => {
+    expect(await service.getLanguage('254700000001')).toBe('en');
+    expect(await service.detectFromMessage('254700000001', 'Hi')).toBe('en');
+  });
+
+  it('stores the language detected from the first messages', async () => {
+    expect(
+      await service.detectFromMessage('254700000001', 'Habari, nataka logo'),
+    ).toBe('sw');
+
+    expect(await service.getLanguage('254700000001')).toBe('sw');
+    expect(
+      (await userProfileService.getProfile('254700000001')).language,
+    ).toMatchObject({ code: 'sw', source: 'detected', detections: 1 });
+  });
+
+  it('stops detecting once the language is settled', async () => {
+    service.configuration.detectionMessages = 2;
+    await service.detectFromMessage('254700000001', 'Habari, nataka logo');
+    await service.detectFromMessage('254700000001', 'Bei ni ngapi?');
+
+    expect(
+      await service.detectFromMessage('254700000001', 'What is the price?'),
+    ).toBe('sw');
+  });
+
+  it('keeps the language chosen with /lang', async () => {
+    await service.setLanguage('254700000001', 'fr');
+
+    expect(
+      await service.detectFromMessage('254700000001', 'Habari, nataka logo'),
+    ).toBe('fr');
+  });
+});
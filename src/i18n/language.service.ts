@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserProfileService } from '../user-profile/user-profile.service';
+import { DEFAULT_LANGUAGE, isLanguage, Language } from './i18n';
+import { detectLanguage } from './language-detection';
+
+// Keeps track of the language each user talks to the bot in. It is
+// detected from their first messages unless they pick one with /lang.
+@Injectable()
+export class LanguageService {
+  constructor(private readonly userProfileService: UserProfileService) {}
+
+  private readonly logger = new Logger(LanguageService.name);
+
+  readonly configuration = {
+    // Messages the language is detected from before it is settled
+    detectionMessages: Number(process.env.LANGUAGE_DETECTION_MESSAGES) || 3,
+  };
+
+  async getLanguage(userID: string): Promise<Language> {
+    const { language } = await this.userProfileService.getProfile(userID);
+    return language && isLanguage(language.code)
+      ? language.code
+      : DEFAULT_LANGUAGE;
+  }
+
+  // Returns the user's language, updated from what they just wrote while
+  // it is still being detected
+  async detectFromMessage(userID: string, text: string): Promise<Language> {
+    const { language } = await this.userProfileService.getProfile(userID);
+    const current =
+      language && isLanguage(language.code) ? language.code : DEFAULT_LANGUAGE;
+    if (
+      language?.source === 'chosen' ||
+      language?.detections >= this.configuration.detectionMessages
+    ) {
+      return current;
+    }
+
+    const detected = detectLanguage(text);
+    if (!detected) {
+      return current;
+    }
+
+    if (detected !== current) {
+      this.logger.log(`Detected ${detected} for ${userID}`);
+    }
+    await this.userProfileService.saveLanguage(userID, {
+      code: detected,
+      source: 'detected',
+      detections: (language?.detections ?? 0) + 1,
+    });
+    return detected;
+  }
+
+  async setLanguage(userID: string, code: Language) {
+    await this.userProfileService.saveLanguage(userID, {
+      code,
+      source: 'chosen',
+      detections: 0,
+    });
+  }
+}
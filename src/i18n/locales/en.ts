@@ -0,0 +1,102 @@
+// Every message the bot writes itself. Other bundles must translate all of
+// these keys; {placeholders} are filled in by translate().
+export const en = {
+  welcome:
+    "👋 **Welcome to Studio Libra!**\n\nHi {name}! I'm Artistaa, your creative assistant.\nWhat would you like to explore today?",
+  welcomeNameFallback: 'there',
+  menuPrompt: 'Here is what we can help you with:',
+  menuButton: 'View services',
+  serviceFallback:
+    'Thank you for your interest! Please tell us more about what you are looking for.',
+  unsupportedMessage:
+    "Sorry, I can't read that kind of message yet 🙈 You can send me text, voice notes, images or documents.",
+  aiUnavailable: 'Sorry, I am unable to process your request at the moment.',
+  imageUnavailable: 'Sorry, I am unable to look at that image at the moment.',
+  processingFailed:
+    'Sorry, I could not process your message. Please try again.',
+  locationInArea:
+    '📍 Thanks for sharing your location! You are about {distance} km from our studio, so we can deliver printed goods to you.',
+  locationOutsideArea:
+    '📍 Thanks for sharing your location! You are about {distance} km from our studio, outside our {radius} km delivery area for printed goods. We can still send your order by courier, just ask us for a quote.',
+  referralThanks:
+    '🙌 Thank you for referring {names}! Our team will reach out to them soon.',
+  imaginePrompt:
+    '🎨 Please describe the image you want.\n\nExample: `/imagine a beautiful sunset over mountains`',
+  noImageToEdit:
+    'Create an image with /imagine first, or send an image with the command as its caption.',
+  imageFailed: '❌ Image generation failed, please try again later.',
+  upscaleFailed: '❌ Image upscaling failed, please try again later.',
+  imageNotSent:
+    'Your image is ready but I could not send it, please try again in a moment.',
+  documentUnsupported:
+    'Sorry, I can only read PDF, Word (.docx) and plain text documents. Could you send your brief in one of those formats?',
+  documentTooLarge:
+    'Sorry, that document is too large. I can read documents up to {maxSizeMB} MB.',
+  documentTooManyPages:
+    'Sorry, that document has {pages} pages. I can read documents of up to {maxPages} pages, could you send a shorter version?',
+  documentNoText:
+    'I could not find any text in that document, it may be a scanned image. Could you send a version with selectable text, or share the key points here?',
+  documentUnreadable:
+    'Sorry, I could not open that document. Please check that it is not password protected or damaged and try again.',
+  documentSummaryFailed:
+    'Thanks, I have your document, but I am unable to summarize it at the moment. Feel free to ask me about it.',
+  languageChanged: "✅ Got it, I'll reply in English from now on.",
+  languageOptions:
+    '🌍 Which language would you like me to use? Send `/lang` followed by one of:\n\n{options}',
+  intakeIntro:
+    "📝 Let's get your {service} project started! I'll ask a few quick questions.\n\nReply **skip** to skip a question, **back** to go back or **cancel** to stop.",
+  intakeName: 'What is your name?',
+  intakeCompany: 'Which company or brand is this for?',
+  intakeProjectDescription:
+    'Tell us about the project: what do you need and what is it for?',
+  intakeBudget:
+    'What budget range do you have in mind? (e.g. KES 50,000 - 100,000)',
+  intakeTimeline: 'When do you need it done?',
+  intakeEmail: 'Which email address should we send the proposal to?',
+  intakeInvalidName: 'Please send just your name, e.g. Amina Wanjiru.',
+  intakeInvalidEmail:
+    "That doesn't look like an email address, could you check it?",
+  intakeInvalidBudget:
+    'Please send an amount or a range, e.g. KES 50,000 - 100,000.',
+  intakeTooShort: 'Could you tell me a little more?',
+  intakeRequired: 'I need this one to get started 🙏',
+  intakeCancelled:
+    'No problem, I stopped the enquiry. Ask me anything or type /start to see our services again.',
+  intakeDone:
+    '🎉 Thank you! Here is what we have:\n\n{summary}\n\nOur team will get back to you shortly.',
+  leadName: 'Name',
+  leadCompany: 'Company',
+  leadProjectDescription: 'Project',
+  leadBudget: 'Budget',
+  leadTimeline: 'Timeline',
+  leadEmail: 'Email',
+  handoffStarted:
+    "🙋 I've let our team know. Messages you send now go straight to them, I'll stay quiet until they are done.",
+  handoffReleased:
+    "👋 Our team has finished here, I'm back to help with anything else!",
+  bookingSlots:
+    '📅 Here are the next free times for a {minutes} minute call with our team, in {timeZone} time. Pick the one that suits you:',
+  bookingReschedule:
+    '📅 Your call is booked for **{time}**. Pick a new time below, or send /cancel_booking to cancel it:',
+  bookingSlotsButton: 'See times',
+  bookingLaterDates: 'Later dates ➡️',
+  bookingNoSlots:
+    'Sorry, we have no free times in the next {days} days. Tell me what suits you and our team will get back to you.',
+  bookingConfirmPrompt:
+    'Shall I book a {minutes} minute call on **{time}** ({timeZone} time)?',
+  bookingConfirm: '✅ Book it',
+  bookingOtherTimes: '🔁 Other times',
+  bookingTaken: 'Sorry, that time is no longer free.',
+  bookingConfirmed:
+    "🎉 You're booked for **{time}** ({timeZone} time). Add the invite below to your calendar.\n\nSend /reschedule to pick another time or /cancel_booking to cancel.",
+  bookingRescheduled:
+    '🔁 Done, your call is now on **{time}** ({timeZone} time). Here is the updated invite.\n\nSend /reschedule to pick another time or /cancel_booking to cancel.',
+  bookingCancelled:
+    "Your call on **{time}** is cancelled. Send /book whenever you'd like to pick a new time.",
+  bookingNone: "You don't have a call booked. Send /book to pick a time.",
+  bookingInviteTitle: 'Consultation with Studio Libra',
+  bookingInviteDescription:
+    'A call with the Studio Libra team about your project. Send /reschedule or /cancel_booking in the chat to change it.',
+};
+
+export type MessageKey = keyof typeof en;
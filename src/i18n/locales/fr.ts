@@ -0,0 +1,104 @@
+import { MessageKey } from './en';
+
+export const fr: Record<MessageKey, string> = {
+  welcome:
+    "👋 **Bienvenue chez Studio Libra !**\n\nBonjour {name} ! Je suis Artistaa, votre assistante créative.\nQu'aimeriez-vous découvrir aujourd'hui ?",
+  welcomeNameFallback: 'à vous',
+  menuPrompt: 'Voici comment nous pouvons vous aider :',
+  menuButton: 'Voir les services',
+  serviceFallback:
+    'Merci de votre intérêt ! Dites-nous en plus sur ce que vous recherchez.',
+  unsupportedMessage:
+    "Désolée, je ne sais pas encore lire ce type de message 🙈 Vous pouvez m'envoyer du texte, des notes vocales, des images ou des documents.",
+  aiUnavailable:
+    'Désolée, je ne peux pas traiter votre demande pour le moment.',
+  imageUnavailable:
+    'Désolée, je ne peux pas regarder cette image pour le moment.',
+  processingFailed:
+    "Désolée, je n'ai pas pu traiter votre message. Veuillez réessayer.",
+  locationInArea:
+    '📍 Merci pour votre position ! Vous êtes à environ {distance} km de notre studio, nous pouvons donc vous livrer les impressions.',
+  locationOutsideArea:
+    '📍 Merci pour votre position ! Vous êtes à environ {distance} km de notre studio, hors de notre zone de livraison de {radius} km pour les impressions. Nous pouvons tout de même envoyer votre commande par coursier, demandez-nous un devis.',
+  referralThanks:
+    '🙌 Merci de nous avoir recommandé {names} ! Notre équipe les contactera bientôt.',
+  imaginePrompt:
+    "🎨 Décrivez l'image que vous souhaitez.\n\nExemple : `/imagine un beau coucher de soleil sur les montagnes`",
+  noImageToEdit:
+    "Créez d'abord une image avec /imagine, ou envoyez une image avec la commande en légende.",
+  imageFailed:
+    "❌ La génération de l'image a échoué, veuillez réessayer plus tard.",
+  upscaleFailed:
+    "❌ L'agrandissement de l'image a échoué, veuillez réessayer plus tard.",
+  imageNotSent:
+    "Votre image est prête mais je n'ai pas pu l'envoyer, veuillez réessayer dans un instant.",
+  documentUnsupported:
+    'Désolée, je ne sais lire que les documents PDF, Word (.docx) et texte. Pourriez-vous envoyer votre brief dans l’un de ces formats ?',
+  documentTooLarge:
+    "Désolée, ce document est trop volumineux. Je peux lire des documents jusqu'à {maxSizeMB} Mo.",
+  documentTooManyPages:
+    "Désolée, ce document fait {pages} pages. Je peux lire des documents jusqu'à {maxPages} pages, pourriez-vous envoyer une version plus courte ?",
+  documentNoText:
+    "Je n'ai trouvé aucun texte dans ce document, il s'agit peut-être d'une image numérisée. Pourriez-vous envoyer une version avec du texte sélectionnable, ou résumer les points clés ici ?",
+  documentUnreadable:
+    "Désolée, je n'ai pas pu ouvrir ce document. Vérifiez qu'il n'est ni protégé par mot de passe ni endommagé et réessayez.",
+  documentSummaryFailed:
+    "Merci, j'ai bien reçu votre document, mais je ne peux pas le résumer pour le moment. N'hésitez pas à me poser des questions à son sujet.",
+  languageChanged: "✅ C'est noté, je vous répondrai en français désormais.",
+  languageOptions:
+    '🌍 Quelle langue souhaitez-vous que j’utilise ? Envoyez `/lang` suivi de :\n\n{options}',
+  intakeIntro:
+    '📝 Lançons votre projet {service} ! Je vais vous poser quelques questions rapides.\n\nRépondez **passer** pour passer une question, **retour** pour revenir en arrière ou **annuler** pour arrêter.',
+  intakeName: 'Quel est votre nom ?',
+  intakeCompany: 'Pour quelle entreprise ou marque est-ce ?',
+  intakeProjectDescription:
+    'Parlez-nous du projet : de quoi avez-vous besoin et à quoi servira-t-il ?',
+  intakeBudget: 'Quel budget avez-vous en tête ? (ex. KES 50 000 - 100 000)',
+  intakeTimeline: 'Pour quand en avez-vous besoin ?',
+  intakeEmail: 'À quelle adresse e-mail devons-nous envoyer la proposition ?',
+  intakeInvalidName: 'Envoyez simplement votre nom, par exemple Amina Wanjiru.',
+  intakeInvalidEmail:
+    'Cela ne ressemble pas à une adresse e-mail, pourriez-vous vérifier ?',
+  intakeInvalidBudget:
+    'Envoyez un montant ou une fourchette, par exemple KES 50 000 - 100 000.',
+  intakeTooShort: "Pourriez-vous m'en dire un peu plus ?",
+  intakeRequired: "J'ai besoin de cette information pour commencer 🙏",
+  intakeCancelled:
+    "Pas de souci, j'ai arrêté la demande. Posez-moi une question ou tapez /start pour revoir nos services.",
+  intakeDone:
+    '🎉 Merci ! Voici ce que nous avons :\n\n{summary}\n\nNotre équipe vous recontactera rapidement.',
+  leadName: 'Nom',
+  leadCompany: 'Entreprise',
+  leadProjectDescription: 'Projet',
+  leadBudget: 'Budget',
+  leadTimeline: 'Délai',
+  leadEmail: 'E-mail',
+  handoffStarted:
+    "🙋 J'ai prévenu notre équipe. Vos messages leur parviennent maintenant directement, je reste discret jusqu'à ce qu'ils aient terminé.",
+  handoffReleased:
+    '👋 Notre équipe a terminé, je suis de retour pour vous aider avec autre chose !',
+  bookingSlots:
+    "📅 Voici les prochains créneaux libres pour un appel de {minutes} minutes avec notre équipe, à l'heure de {timeZone}. Choisissez celui qui vous convient :",
+  bookingReschedule:
+    "📅 Votre appel est prévu **{time}**. Choisissez un nouveau créneau ci-dessous, ou envoyez /cancel_booking pour l'annuler :",
+  bookingSlotsButton: 'Voir les créneaux',
+  bookingLaterDates: 'Dates suivantes ➡️',
+  bookingNoSlots:
+    "Désolée, nous n'avons aucun créneau libre dans les {days} prochains jours. Dites-moi ce qui vous convient et notre équipe reviendra vers vous.",
+  bookingConfirmPrompt:
+    'Je réserve un appel de {minutes} minutes **{time}** (heure de {timeZone}) ?',
+  bookingConfirm: '✅ Réserver',
+  bookingOtherTimes: '🔁 Autres créneaux',
+  bookingTaken: "Désolée, ce créneau n'est plus libre.",
+  bookingConfirmed:
+    "🎉 C'est réservé pour **{time}** (heure de {timeZone}). Ajoutez l'invitation ci-dessous à votre agenda.\n\nEnvoyez /reschedule pour choisir un autre créneau ou /cancel_booking pour annuler.",
+  bookingRescheduled:
+    "🔁 C'est fait, votre appel est maintenant **{time}** (heure de {timeZone}). Voici l'invitation mise à jour.\n\nEnvoyez /reschedule pour choisir un autre créneau ou /cancel_booking pour annuler.",
+  bookingCancelled:
+    'Votre appel du **{time}** est annulé. Envoyez /book quand vous voulez pour choisir un nouveau créneau.',
+  bookingNone:
+    "Vous n'avez pas d'appel prévu. Envoyez /book pour choisir un créneau.",
+  bookingInviteTitle: 'Consultation avec Studio Libra',
+  bookingInviteDescription:
+    "Un appel avec l'équipe Studio Libra au sujet de votre projet. Envoyez /reschedule ou /cancel_booking dans la conversation pour le modifier.",
+};
@@ -0,0 +1,102 @@
+import { MessageKey } from './en';
+
+export const sw: Record<MessageKey, string> = {
+  welcome:
+    '👋 **Karibu Studio Libra!**\n\nHabari {name}! Mimi ni Artistaa, msaidizi wako wa ubunifu.\nUngependa kuangalia nini leo?',
+  welcomeNameFallback: 'rafiki',
+  menuPrompt: 'Hivi ndivyo tunavyoweza kukusaidia:',
+  menuButton: 'Tazama huduma',
+  serviceFallback:
+    'Asante kwa kutuchagua! Tafadhali tueleze zaidi kuhusu unachotafuta.',
+  unsupportedMessage:
+    'Samahani, siwezi kusoma ujumbe wa aina hiyo bado 🙈 Unaweza kunitumia maandishi, ujumbe wa sauti, picha au nyaraka.',
+  aiUnavailable: 'Samahani, siwezi kushughulikia ombi lako kwa sasa.',
+  imageUnavailable: 'Samahani, siwezi kuangalia picha hiyo kwa sasa.',
+  processingFailed:
+    'Samahani, sikuweza kushughulikia ujumbe wako. Tafadhali jaribu tena.',
+  locationInArea:
+    '📍 Asante kwa kutuma mahali ulipo! Uko takriban km {distance} kutoka studio yetu, kwa hivyo tunaweza kukuletea bidhaa zilizochapishwa.',
+  locationOutsideArea:
+    '📍 Asante kwa kutuma mahali ulipo! Uko takriban km {distance} kutoka studio yetu, nje ya eneo letu la km {radius} la kuleta bidhaa zilizochapishwa. Bado tunaweza kutuma oda yako kwa courier, uliza tu bei.',
+  referralThanks:
+    '🙌 Asante kwa kutuelekeza kwa {names}! Timu yetu itawasiliana nao hivi karibuni.',
+  imaginePrompt:
+    '🎨 Tafadhali eleza picha unayotaka.\n\nMfano: `/imagine machweo mazuri juu ya milima`',
+  noImageToEdit:
+    'Tengeneza picha kwa /imagine kwanza, au tuma picha yenye amri hiyo kama maelezo yake.',
+  imageFailed:
+    '❌ Kutengeneza picha kumeshindikana, tafadhali jaribu tena baadaye.',
+  upscaleFailed:
+    '❌ Kuboresha picha kumeshindikana, tafadhali jaribu tena baadaye.',
+  imageNotSent:
+    'Picha yako iko tayari lakini sikuweza kuituma, tafadhali jaribu tena baada ya muda mfupi.',
+  documentUnsupported:
+    'Samahani, ninaweza kusoma nyaraka za PDF, Word (.docx) na maandishi ya kawaida tu. Unaweza kutuma maelezo yako kwa mojawapo ya hizo?',
+  documentTooLarge:
+    'Samahani, nyaraka hiyo ni kubwa mno. Ninaweza kusoma nyaraka za hadi MB {maxSizeMB}.',
+  documentTooManyPages:
+    'Samahani, nyaraka hiyo ina kurasa {pages}. Ninaweza kusoma nyaraka za hadi kurasa {maxPages}, unaweza kutuma toleo fupi zaidi?',
+  documentNoText:
+    'Sikupata maandishi yoyote kwenye nyaraka hiyo, huenda ni picha iliyochanganuliwa. Unaweza kutuma toleo lenye maandishi, au kueleza mambo muhimu hapa?',
+  documentUnreadable:
+    'Samahani, sikuweza kufungua nyaraka hiyo. Tafadhali hakikisha haina nenosiri wala haijaharibika kisha ujaribu tena.',
+  documentSummaryFailed:
+    'Asante, nimepokea nyaraka yako, lakini siwezi kuifupisha kwa sasa. Jisikie huru kuniuliza kuihusu.',
+  languageChanged: '✅ Sawa, nitakujibu kwa Kiswahili kuanzia sasa.',
+  languageOptions:
+    '🌍 Ungependa nitumie lugha gani? Tuma `/lang` ikifuatiwa na mojawapo ya:\n\n{options}',
+  intakeIntro:
+    '📝 Tuanze mradi wako wa {service}! Nitakuuliza maswali machache mafupi.\n\nJibu **ruka** kuruka swali, **rudi** kurudi nyuma au **ghairi** kusimamisha.',
+  intakeName: 'Jina lako ni nani?',
+  intakeCompany: 'Ni kwa ajili ya kampuni au chapa gani?',
+  intakeProjectDescription:
+    'Tueleze kuhusu mradi: unahitaji nini na ni kwa ajili ya nini?',
+  intakeBudget:
+    'Una bajeti ya kiasi gani akilini? (mfano KES 50,000 - 100,000)',
+  intakeTimeline: 'Unauhitaji ukamilike lini?',
+  intakeEmail: 'Tutume pendekezo kwa barua pepe gani?',
+  intakeInvalidName: 'Tafadhali tuma jina lako tu, mfano Amina Wanjiru.',
+  intakeInvalidEmail:
+    'Hiyo haionekani kuwa barua pepe, unaweza kuiangalia tena?',
+  intakeInvalidBudget:
+    'Tafadhali tuma kiasi au kiwango, mfano KES 50,000 - 100,000.',
+  intakeTooShort: 'Unaweza kunieleza zaidi kidogo?',
+  intakeRequired: 'Nahitaji hili ili tuanze 🙏',
+  intakeCancelled:
+    'Sawa, nimesimamisha ombi. Niulize chochote au andika /start kuona huduma zetu tena.',
+  intakeDone:
+    '🎉 Asante! Haya ndiyo tuliyopokea:\n\n{summary}\n\nTimu yetu itawasiliana nawe hivi karibuni.',
+  leadName: 'Jina',
+  leadCompany: 'Kampuni',
+  leadProjectDescription: 'Mradi',
+  leadBudget: 'Bajeti',
+  leadTimeline: 'Muda',
+  leadEmail: 'Barua pepe',
+  handoffStarted:
+    '🙋 Nimeiarifu timu yetu. Ujumbe utakaotuma sasa utawafikia moja kwa moja, nitanyamaza hadi watakapomaliza.',
+  handoffReleased:
+    '👋 Timu yetu imemaliza, nimerudi kukusaidia na chochote kingine!',
+  bookingSlots:
+    '📅 Hizi ndizo nafasi zijazo za mazungumzo ya dakika {minutes} na timu yetu, kwa saa za {timeZone}. Chagua inayokufaa:',
+  bookingReschedule:
+    '📅 Mazungumzo yako yamepangwa **{time}**. Chagua muda mpya hapa chini, au tuma /cancel_booking kuyaghairi:',
+  bookingSlotsButton: 'Angalia nafasi',
+  bookingLaterDates: 'Tarehe za baadaye ➡️',
+  bookingNoSlots:
+    'Samahani, hatuna nafasi katika siku {days} zijazo. Niambie muda unaokufaa na timu yetu itawasiliana nawe.',
+  bookingConfirmPrompt:
+    'Nikupangie mazungumzo ya dakika {minutes} **{time}** (saa za {timeZone})?',
+  bookingConfirm: '✅ Panga',
+  bookingOtherTimes: '🔁 Nafasi nyingine',
+  bookingTaken: 'Samahani, muda huo haupo tena.',
+  bookingConfirmed:
+    '🎉 Umepangiwa **{time}** (saa za {timeZone}). Ongeza mwaliko ulio hapa chini kwenye kalenda yako.\n\nTuma /reschedule kuchagua muda mwingine au /cancel_booking kughairi.',
+  bookingRescheduled:
+    '🔁 Tayari, mazungumzo yako sasa ni **{time}** (saa za {timeZone}). Huu hapa mwaliko mpya.\n\nTuma /reschedule kuchagua muda mwingine au /cancel_booking kughairi.',
+  bookingCancelled:
+    'Mazungumzo yako ya **{time}** yameghairiwa. Tuma /book wakati wowote kuchagua muda mpya.',
+  bookingNone: 'Huna mazungumzo yaliyopangwa. Tuma /book kuchagua muda.',
+  bookingInviteTitle: 'Mazungumzo na Studio Libra',
+  bookingInviteDescription:
+    'Mazungumzo na timu ya Studio Libra kuhusu mradi wako. Tuma /reschedule au /cancel_booking kwenye gumzo kuyabadilisha.',
+};
@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { InboxService } from './inbox.service';
+import { InboxReply } from './transcript';
+import { ConversationService } from '../conversation/conversation.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('inbox')
+@UseGuards(AdminTokenGuard)
+export class InboxController {
+  constructor(
+    private readonly inboxService: InboxService,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  @Get('conversations')
+  getConversations(@Query('limit') limit?: string) {
+    return this.inboxService.getConversations(Number(limit) || undefined);
+  }
+
+  @Get('conversations/:id')
+  async getConversation(@Param('id') id: string) {
+    const conversation = await this.inboxService.getConversation(id);
+    return conversation
+      ? {
+          status: 'success',
+          data: {
+            ...conversation,
+            transcript: await this.inboxService.getTranscript(id),
+          },
+        }
+      : { status: 'error', message: 'Conversation not found' };
+  }
+
+  @Post('conversations/:id/read')
+  @HttpCode(200)
+  async markRead(@Param('id') id: string) {
+    await this.inboxService.markRead(id);
+    return { status: 'success', message: 'Conversation marked as read' };
+  }
+
+  @Post('conversations/:id/messages')
+  @HttpCode(200)
+  reply(
+    @Param('id') id: string,
+    @Body() { agent, ...reply }: InboxReply & { agent?: string },
+  ) {
+    return this.conversationService.sendInboxReply(id, reply, agent);
+  }
+
+  @Post('conversations/:id/notes')
+  addNote(
+    @Param('id') id: string,
+    @Body() { text, agent }: { text?: string; agent?: string },
+  ) {
+    return this.inboxService.addNote(id, text, agent);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InboxController } from './inbox.controller';
+import { InboxService } from './inbox.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { HandoffService } from '../handoff/handoff.service';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  // Replies go out through the adapters registered with ConversationModule
+  imports: [ConversationModule],
+  controllers: [InboxController],
+  providers: [InboxService, UserContextService, HandoffService],
+})
+export class InboxModule {}
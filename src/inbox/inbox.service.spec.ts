@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import * as path from 'path';
+import { InboxService } from './inbox.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { HandoffService } from '../handoff/handoff.service';
+import { InboundMessage } from '../conversation/conversation.types';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('InboxService', () => {
+  let service: InboxService;
+  let handoffService: Record<string, jest.Mock>;
+
+  const hash = (userID: string) =>
+    createHash('sha256').update(userID).digest('hex');
+  const amina = hash('254700000001');
+  const inbound = (text: string): InboundMessage => ({
+    channel: 'whatsapp',
+    userID: '254700000001',
+    userName: 'Amina',
+    content: { type: 'text', text },
+  });
+
+  beforeEach(async () => {
+    handoffService = { getHandoff: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InboxService,
+        {
+          provide: UserContextService,
+          useValue: {
+            hashPhoneNumber: jest.fn(hash),
+            encryptPhoneNumber: jest.fn((userID) => `encrypted-${userID}`),
+            decryptPhoneNumber: jest.fn((encrypted) =>
+              encrypted.replace('encrypted-', ''),
+            ),
+          },
+        },
+        { provide: HandoffService, useValue: handoffService },
+      ],
+    }).compile();
+
+    service = module.get<InboxService>(InboxService);
+    service.configuration.filesFolder = 'sentFiles-test';
+    await service['redis'].flushall();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(path.join(process.cwd(), 'sentFiles-test'), {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it('lists conversations with their last message and unread count', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+
+    await service.recordInbound(inbound('Do you do logos?'));
+    await service.recordOutbound('whatsapp', '254700000001', {
+      type: 'text',
+      text: 'Yes we do! 🎨',
+    });
+    await service.recordInbound(inbound('How much?'));
+    await service.recordInbound({
+      channel: 'telegram',
+      userID: '1234',
+      content: { type: 'selection', id: 'talk_to_human', title: 'Talk' },
+    });
+    handoffService.getHandoff.mockImplementation(async (userID) =>
+      userID === '1234' ? { userID } : null,
+    );
+
+    const conversations = await service.getConversations();
+
+    expect(conversations).toEqual([
+      expect.objectContaining({
+        id: hash('1234'),
+        channel: 'telegram',
+        lastMessage: expect.objectContaining({ text: 'User selected: Talk' }),
+        unread: 1,
+        handoff: true,
+      }),
+      {
+        id: amina,
+        channel: 'whatsapp',
+        userName: 'Amina',
+        lastMessage: expect.objectContaining({
+          direction: 'in',
+          type: 'text',
+          text: 'How much?',
+        }),
+        unread: 2,
+        handoff: false,
+      },
+    ]);
+  });
+
+  it('keeps the full transcript, with who on the team wrote what', async () => {
+    await service.recordInbound(inbound('Hello'));
+    await service.recordOutbound('whatsapp', '254700000001', {
+      type: 'typing',
+    });
+    await service.recordOutbound(
+      'whatsapp',
+      '254700000001',
+      {
+        type: 'document',
+        filePath: '/srv/sentFiles/a.pdf',
+        fileName: 'Quote.pdf',
+      },
+      'Wanjiku',
+    );
+    await service.recordInbound({
+      ...inbound(''),
+      content: { type: 'reaction', messageID: 'wamid.1', emoji: '👍' },
+    });
+
+    expect(await service.getTranscript(amina)).toEqual([
+      expect.objectContaining({ direction: 'in', text: 'Hello' }),
+      expect.objectContaining({
+        direction: 'out',
+        type: 'document',
+        text: '[Document Quote.pdf]',
+        agent: 'Wanjiku',
+      }),
+    ]);
+  });
+
+  it('adds internal notes without making them the last message', async () => {
+    await service.recordInbound(inbound('Hello'));
+
+    const note = await service.addNote(
+      amina,
+      ' Wants a quote by Friday ',
+      'Wanjiku',
+    );
+
+    expect(note).toEqual({
+      status: 'success',
+      data: expect.objectContaining({
+        direction: 'note',
+        text: 'Wants a quote by Friday',
+        agent: 'Wanjiku',
+      }),
+    });
+    expect((await service.getConversation(amina)).lastMessage.text).toBe(
+      'Hello',
+    );
+    expect(await service.addNote(hash('unknown'), 'Hi')).toEqual({
+      status: 'error',
+      message: 'Conversation not found',
+    });
+  });
+
+  it('keeps phone numbers encrypted and out of listings', async () => {
+    await service.recordInbound(inbound('Hello'));
+
+    const stored = await service['redis'].hgetall(`${amina}:inbox`);
+    expect(stored.encryptedUserID).toBe('encrypted-254700000001');
+    expect(JSON.stringify(stored)).not.toContain('"254700000001"');
+    expect(JSON.stringify(await service.getConversations())).not.toContain(
+      '254700000001',
+    );
+    expect(await service.getRecipient(amina)).toEqual({
+      userID: '254700000001',
+      channel: 'whatsapp',
+    });
+    expect(await service.getRecipient(hash('unknown'))).toBeNull();
+  });
+
+  it('marks conversations as read', async () => {
+    await service.recordInbound(inbound('Hello'));
+
+    await service.markRead(amina);
+
+    expect((await service.getConversation(amina)).unread).toBe(0);
+  });
+
+  it('only looks up conversation IDs it hands out', async () => {
+    expect(await service.getConversation('../254700000001')).toBeNull();
+  });
+
+  it('saves files attached to replies', () => {
+    const reply = service.prepareReply({
+      type: 'document',
+      fileName: '../Quote.pdf',
+      data: Buffer.from('%PDF-1.4').toString('base64'),
+      caption: 'Your quote',
+    });
+
+    expect(reply).toEqual({
+      status: 'success',
+      data: {
+        type: 'document',
+        filePath: expect.stringMatching(/sentFiles-test\/[\w-]+\.pdf$/),
+        fileName: 'Quote.pdf',
+        caption: 'Your quote',
+      },
+    });
+    const { filePath } = reply.status === 'success' && (reply.data as any);
+    expect(existsSync(filePath)).toBe(true);
+    expect(readFileSync(filePath, 'utf8')).toBe('%PDF-1.4');
+  });
+
+  it('turns down replies it cannot send', () => {
+    expect(service.prepareReply({ type: 'text', text: ' ' })).toEqual({
+      status: 'error',
+      message: 'text is required',
+    });
+    expect(
+      service.prepareReply({
+        type: 'image',
+        fileName: 'logo.exe',
+        data: 'AA==',
+      }),
+    ).toEqual({
+      status: 'error',
+      message: 'fileName must end in .png, .jpg, .jpeg, .webp',
+    });
+    expect(
+      service.prepareReply({
+        type: 'video' as any,
+        fileName: 'a.mp4',
+        data: '',
+      }),
+    ).toEqual({
+      status: 'error',
+      message: 'type must be text, image or document',
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { UserContextService } from '../user-context/user-context.service';
+import { HandoffService } from '../handoff/handoff.service';
+import {
+  ChannelName,
+  InboundMessage,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+import {
+  describeInbound,
+  describeOutbound,
+  InboxConversation,
+  InboxEntry,
+  InboxReply,
+} from './transcript';
+
+// Conversation IDs by the time of their last message
+const INBOX_KEY = 'inbox';
+const CONVERSATION_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+const REPLY_FILE_TYPES = {
+  image: ['.png', '.jpg', '.jpeg', '.webp'],
+  document: ['.pdf', '.docx', '.txt'],
+};
+
+export type InboxResult<T> =
+  | { status: 'success'; data: T }
+  | { status: 'error'; message: string };
+
+// Keeps a transcript of every conversation for the team. The assistant's
+// own context only lasts a few hours, the inbox keeps conversations for
+// INBOX_RETENTION_DAYS after their last message.
+@Injectable()
+export class InboxService {
+  constructor(
+    private readonly userContextService: UserContextService,
+    private readonly handoffService: HandoffService,
+  ) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(InboxService.name);
+
+  readonly configuration = {
+    retention: (Number(process.env.INBOX_RETENTION_DAYS) || 30) * 86400,
+    maxEntries: 1000,
+    // Files attached to replies are saved here to be sent
+    filesFolder: process.env.SENT_FILES_FOLDER || 'sentFiles',
+    maxFileSizeMB: 16,
+  };
+
+  async recordInbound({ channel, userID, userName, content }: InboundMessage) {
+    // Reactions are feedback, not part of the conversation
+    if (content.type === 'reaction') {
+      return;
+    }
+    await this.record(
+      userID,
+      { channel, userName },
+      { direction: 'in', type: content.type, text: describeInbound(content) },
+    );
+  }
+
+  async recordOutbound(
+    channel: ChannelName,
+    userID: string,
+    message: OutboundMessage,
+    agent?: string,
+  ) {
+    if (message.type === 'typing') {
+      return;
+    }
+    await this.record(
+      userID,
+      { channel },
+      {
+        direction: 'out',
+        type: message.type,
+        text: describeOutbound(message),
+        ...(agent && { agent }),
+      },
+    );
+  }
+
+  // Notes are kept with the conversation but never sent to the user or
+  // shown to the assistant
+  async addNote(
+    id: string,
+    text: string,
+    agent?: string,
+  ): Promise<InboxResult<InboxEntry>> {
+    if (!text?.trim()) {
+      return { status: 'error', message: 'text is required' };
+    }
+    const recipient = await this.getRecipient(id);
+    if (!recipient) {
+      return { status: 'error', message: 'Conversation not found' };
+    }
+
+    const note = await this.record(
+      recipient.userID,
+      { channel: recipient.channel },
+      { direction: 'note', type: 'note', text: text.trim(), agent },
+    );
+    return note
+      ? { status: 'success', data: note }
+      : { status: 'error', message: 'Note could not be saved' };
+  }
+
+  // Most recent first
+  async getConversations(limit = 50): Promise<InboxConversation[]> {
+    try {
+      await this.redis.zremrangebyscore(
+        INBOX_KEY,
+        0,
+        Date.now() - this.configuration.retention * 1000,
+      );
+      const ids = await this.redis.zrevrange(INBOX_KEY, 0, limit - 1);
+      const conversations = await Promise.all(
+        ids.map((id) => this.getConversation(id)),
+      );
+      return conversations.filter(Boolean);
+    } catch (error) {
+      this.logger.error('Error Loading Inbox', error);
+      return [];
+    }
+  }
+
+  async getConversation(id: string): Promise<InboxConversation | null> {
+    if (!CONVERSATION_ID_PATTERN.test(id ?? '')) {
+      return null;
+    }
+
+    try {
+      const details = await this.redis.hgetall(this.conversationKey(id));
+      if (!details.encryptedUserID) {
+        return null;
+      }
+      // Notes don't count as the last message
+      const recent = await this.redis.lrange(this.transcriptKey(id), -20, -1);
+      const lastMessage = recent
+        .map((entry): InboxEntry => JSON.parse(entry))
+        .reverse()
+        .find(({ direction }) => direction !== 'note');
+
+      const userID = this.userContextService.decryptPhoneNumber(
+        details.encryptedUserID,
+      );
+
+      return {
+        id,
+        channel: details.channel as ChannelName,
+        userName: details.userName,
+        lastMessage: lastMessage ?? null,
+        unread: Number(details.unread) || 0,
+        handoff: Boolean(await this.handoffService.getHandoff(userID)),
+      };
+    } catch (error) {
+      this.logger.error('Error Loading Conversation', error);
+      return null;
+    }
+  }
+
+  // Who the team's replies to a conversation go to. The phone number is
+  // stored encrypted and never part of what the inbox API returns.
+  async getRecipient(
+    id: string,
+  ): Promise<{ userID: string; channel: ChannelName } | null> {
+    if (!CONVERSATION_ID_PATTERN.test(id ?? '')) {
+      return null;
+    }
+
+    try {
+      const [encryptedUserID, channel] = await this.redis.hmget(
+        this.conversationKey(id),
+        'encryptedUserID',
+        'channel',
+      );
+      return encryptedUserID
+        ? {
+            userID: this.userContextService.decryptPhoneNumber(encryptedUserID),
+            channel: channel as ChannelName,
+          }
+        : null;
+    } catch (error) {
+      this.logger.error('Error Loading Recipient', error);
+      return null;
+    }
+  }
+
+  async getTranscript(id: string): Promise<InboxEntry[]> {
+    try {
+      const entries = await this.redis.lrange(this.transcriptKey(id), 0, -1);
+      return entries.map((entry) => JSON.parse(entry));
+    } catch (error) {
+      this.logger.error('Error Loading Transcript', error);
+      return [];
+    }
+  }
+
+  async markRead(id: string) {
+    if (await this.redis.exists(this.conversationKey(id))) {
+      await this.redis.hset(this.conversationKey(id), 'unread', 0);
+    }
+  }
+
+  // Turns a reply from the inbox into a message for the channel, saving
+  // attached files so they can be sent
+  prepareReply(reply: InboxReply): InboxResult<OutboundMessage> {
+    if (reply?.type === 'text') {
+      return reply.text?.trim()
+        ? { status: 'success', data: { type: 'text', text: reply.text } }
+        : { status: 'error', message: 'text is required' };
+    }
+    if (reply?.type !== 'image' && reply?.type !== 'document') {
+      return {
+        status: 'error',
+        message: 'type must be text, image or document',
+      };
+    }
+
+    const fileName = path.basename(reply.fileName ?? '');
+    const extension = path.extname(fileName).toLowerCase();
+    if (!REPLY_FILE_TYPES[reply.type].includes(extension)) {
+      return {
+        status: 'error',
+        message: `fileName must end in ${REPLY_FILE_TYPES[reply.type].join(', ')}`,
+      };
+    }
+    const data = Buffer.from(reply.data ?? '', 'base64');
+    if (data.length === 0) {
+      return { status: 'error', message: 'data must be the base64 file' };
+    }
+    if (data.length > this.configuration.maxFileSizeMB * 1024 * 1024) {
+      return {
+        status: 'error',
+        message: `Files can be at most ${this.configuration.maxFileSizeMB} MB`,
+      };
+    }
+
+    try {
+      const folderPath = path.join(
+        process.cwd(),
+        this.configuration.filesFolder,
+      );
+      if (!existsSync(folderPath)) {
+        mkdirSync(folderPath);
+      }
+      const filePath = path.join(folderPath, `${randomUUID()}${extension}`);
+      writeFileSync(filePath, data);
+
+      return {
+        status: 'success',
+        data:
+          reply.type === 'image'
+            ? { type: 'image', filePath, caption: reply.caption }
+            : { type: 'document', filePath, fileName, caption: reply.caption },
+      };
+    } catch (error) {
+      this.logger.error('Error Saving Reply File', error);
+      return { status: 'error', message: 'File could not be saved' };
+    }
+  }
+
+  private async record(
+    userID: string,
+    { channel, userName }: { channel: ChannelName; userName?: string },
+    details: Omit<InboxEntry, 'id' | 'createdAt'>,
+  ): Promise<InboxEntry | null> {
+    const entry: InboxEntry = {
+      id: randomUUID(),
+      ...details,
+      createdAt: Date.now(),
+    };
+
+    try {
+      const id = this.userContextService.hashPhoneNumber(userID);
+      const { retention, maxEntries } = this.configuration;
+      const pipeline = this.redis
+        .pipeline()
+        .hset(this.conversationKey(id), {
+          encryptedUserID: this.userContextService.encryptPhoneNumber(userID),
+          channel,
+          ...(userName && { userName }),
+        })
+        .rpush(this.transcriptKey(id), JSON.stringify(entry))
+        .ltrim(this.transcriptKey(id), -maxEntries, -1)
+        .zadd(INBOX_KEY, entry.createdAt, id);
+      if (entry.direction === 'in') {
+        pipeline.hincrby(this.conversationKey(id), 'unread', 1);
+      }
+      await pipeline
+        .expire(this.conversationKey(id), retention)
+        .expire(this.transcriptKey(id), retention)
+        .exec();
+      return entry;
+    } catch (error) {
+      this.logger.error('Error Recording Inbox Entry', error);
+      return null;
+    }
+  }
+
+  private conversationKey(id: string) {
+    return `${id}:inbox`;
+  }
+
+  private transcriptKey(id: string) {
+    return `${id}:transcript`;
+  }
+}
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import {
+  ChannelName,
+  InboundContent,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+
+// One line of a conversation as the team sees it in the inbox
+export interface InboxEntry {
+  id: string;
+  // 'in' came from the user, 'out' was sent to them and notes are only
+  // seen by the team
+  direction: 'in' | 'out' | 'note';
+  type: InboundContent['type'] | OutboundMessage['type'] | 'note';
+  text: string;
+  // Who on the team wrote it, the assistant's replies have none
+  agent?: string;
+  createdAt: number;
+}
+
+export interface InboxConversation {
+  // Hashed user ID, conversations are addressed by it in the inbox API.
+  // The phone number itself is never shown.
+  id: string;
+  channel: ChannelName;
+  userName?: string;
+  lastMessage: InboxEntry | null;
+  // Messages from the user since the team last read the conversation
+  unread: number;
+  // Whether the team has taken the conversation over from the assistant
+  handoff: boolean;
+}
+
+// What the team can send from the inbox. Files come base64 encoded.
+export type InboxReply =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image' | 'document';
+      fileName: string;
+      data: string;
+      caption?: string;
+    };
+
+// How a message from the user is written in the transcript
+export function describeInbound(content: InboundContent) {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'selection':
+      return `User selected: ${content.title || content.id}`;
+    case 'location':
+      return `[User shared their location: ${content.latitude}, ${content.longitude}]`;
+    case 'contacts':
+      return `[User shared contacts: ${content.contacts
+        .map(({ name }) => name)
+        .join(', ')}]`;
+    case 'unsupported':
+      return `[User sent a ${content.kind}]`;
+    case 'reaction':
+      return `[User reacted ${content.emoji ?? ''}]`;
+    default:
+      return `[User sent ${content.type === 'image' ? 'an image' : `a ${content.type}`}${
+        content.media.caption ? `: ${content.media.caption}` : ''
+      }]`;
+  }
+}
+
+// How a message sent to the user is written in the transcript
+export function describeOutbound(message: OutboundMessage) {
+  const caption = (text?: string) => (text ? `: ${text}` : '');
+  switch (message.type) {
+    case 'text':
+      return message.text;
+    case 'menu':
+      return `${message.text}\n[Menu: ${message.services
+        .map(({ title }) => title)
+        .join(', ')}]`;
+    case 'choices':
+      return `${message.text}\n[Options: ${message.choices
+        .map(({ title }) => title)
+        .join(', ')}]`;
+    case 'image':
+      return `[Image${caption(message.caption)}]`;
+    case 'audio':
+      return '[Voice note]';
+    case 'document':
+      return `[Document ${
+        message.fileName ?? path.basename(message.filePath)
+      }${caption(message.caption)}]`;
+    case 'typing':
+      return '';
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  LeadIntake,
+  nextStep,
+  parseBudget,
+  parseIntakeCommand,
+  validateAnswer,
+} from './lead-intake';
+
+describe('lead intake', () => {
+  it('reads skip, back and cancel in every language', () => {
+    expect(parseIntakeCommand('Skip')).toBe('skip');
+    expect(parseIntakeCommand('ruka!')).toBe('skip');
+    expect(parseIntakeCommand(' retour ')).toBe('back');
+    expect(parseIntakeCommand('ghairi')).toBe('cancel');
+    expect(parseIntakeCommand('skip the logo part')).toBeNull();
+  });
+
+  it('parses budgets written the way people write them', () => {
+    expect(parseBudget('KES 50k - 100k')).toEqual({
+      text: 'KES 50k - 100k',
+      min: 50_000,
+      max: 100_000,
+      currency: 'KES',
+    });
+    expect(parseBudget('about 200,000 bob')).toEqual({
+      text: 'about 200,000 bob',
+      min: 200_000,
+      currency: 'KES',
+    });
+    expect(parseBudget('$1.5m')).toEqual({
+      text: '$1.5m',
+      min: 1_500_000,
+      currency: 'USD',
+    });
+    expect(parseBudget('80 elfu')).toEqual({ text: '80 elfu', min: 80_000 });
+    expect(parseBudget('not sure yet')).toBeNull();
+  });
+
+  it('validates answers', () => {
+    expect(validateAnswer('name', '  Amina   Wanjiru ')).toEqual({
+      valid: true,
+      value: 'Amina Wanjiru',
+    });
+    expect(
+      validateAnswer('name', 'I am looking for a logo for my bakery'),
+    ).toEqual({ valid: false, error: 'intakeInvalidName' });
+    expect(validateAnswer('email', 'Amina@Example.com')).toEqual({
+      valid: true,
+      value: 'amina@example.com',
+    });
+    expect(validateAnswer('email', 'amina at example')).toEqual({
+      valid: false,
+      error: 'intakeInvalidEmail',
+    });
+    expect(validateAnswer('budget', 'no idea')).toEqual({
+      valid: false,
+      error: 'intakeInvalidBudget',
+    });
+    expect(validateAnswer('projectDescription', 'A logo')).toEqual({
+      valid: false,
+      error: 'intakeTooShort',
+    });
+  });
+
+  it('moves past questions that were already answered', () => {
+    const intake: LeadIntake = {
+      serviceID: 'branding_service',
+      serviceTitle: 'Branding',
+      fields: ['name', 'company', 'budget', 'email'],
+      step: 0,
+      answers: { name: 'Amina', company: null, budget: 'KES 50k' },
+      startedAt: 0,
+    };
+
+    expect(nextStep(intake)).toBe(3);
+    expect(nextStep({ ...intake, answers: { name: 'Amina' } })).toBe(1);
+  });
+});
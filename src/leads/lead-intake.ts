@@ -0,0 +1,177 @@
+import { ChannelName } from '../conversation/conversation.types';
+import { Language, MessageKey } from '../i18n/i18n';
+
+// What a project enquiry asks for, in order. Services list the ones they
+// need in the catalog.
+export const LEAD_FIELDS = [
+  'name',
+  'company',
+  'projectDescription',
+  'budget',
+  'timeline',
+  'email',
+] as const;
+
+export type LeadField = (typeof LEAD_FIELDS)[number];
+
+// Everything else can be skipped
+export const REQUIRED_FIELDS: LeadField[] = ['name', 'projectDescription'];
+
+export interface Budget {
+  // As the client wrote it
+  text: string;
+  min?: number;
+  max?: number;
+  currency?: string;
+}
+
+// Where a user is in a service's intake, stored until they finish
+export interface LeadIntake {
+  serviceID: string;
+  serviceTitle: string;
+  fields: LeadField[];
+  // Index in fields of the question being asked
+  step: number;
+  // Skipped questions are null
+  answers: Partial<Record<LeadField, string | null>>;
+  startedAt: number;
+}
+
+export interface Lead {
+  id: string;
+  serviceID: string;
+  serviceTitle: string;
+  channel: ChannelName;
+  // Hashed ID of the user, like referrals
+  user: string;
+  language: Language;
+  name?: string;
+  company?: string;
+  projectDescription?: string;
+  budget?: Budget;
+  timeline?: string;
+  email?: string;
+  createdAt: number;
+}
+
+export type IntakeCommand = 'skip' | 'back' | 'cancel';
+
+// In every language the bot speaks
+const COMMAND_WORDS: Record<IntakeCommand, string[]> = {
+  skip: ['skip', 'ruka', 'passer'],
+  back: ['back', 'rudi', 'retour'],
+  cancel: ['cancel', 'stop', 'ghairi', 'acha', 'annuler'],
+};
+
+export const QUESTION_KEYS: Record<LeadField, MessageKey> = {
+  name: 'intakeName',
+  company: 'intakeCompany',
+  projectDescription: 'intakeProjectDescription',
+  budget: 'intakeBudget',
+  timeline: 'intakeTimeline',
+  email: 'intakeEmail',
+};
+
+export const LABEL_KEYS: Record<LeadField, MessageKey> = {
+  name: 'leadName',
+  company: 'leadCompany',
+  projectDescription: 'leadProjectDescription',
+  budget: 'leadBudget',
+  timeline: 'leadTimeline',
+  email: 'leadEmail',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+const CURRENCIES: [RegExp, string][] = [
+  [/\b(kes|ksh|kshs|shillings?|bob)\b|\bsh\b/i, 'KES'],
+  [/\$|\busd\b|\bdollars?\b/i, 'USD'],
+  [/€|\beur\b|\beuros?\b/i, 'EUR'],
+];
+
+export function parseIntakeCommand(text: string): IntakeCommand | null {
+  const word = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}]/gu, '');
+  const command = (Object.keys(COMMAND_WORDS) as IntakeCommand[]).find((name) =>
+    COMMAND_WORDS[name].includes(word),
+  );
+  return command ?? null;
+}
+
+// "KES 50k - 100k", "about 200,000 bob", "$1.5m"
+export function parseBudget(text: string): Budget | null {
+  const amounts = [
+    ...text.matchAll(/(\d+(?:[.,]\d+)*)\s*(k|m|thousand|million|elfu)?\b/gi),
+  ].map(([, digits, unit]) => {
+    // Commas and dots followed by three digits group thousands
+    const amount = Number(
+      digits.replace(/[.,](?=\d{3}\b)/g, '').replace(',', '.'),
+    );
+    const multiplier = /^(k|thousand|elfu)$/i.test(unit ?? '')
+      ? 1_000
+      : /^(m|million)$/i.test(unit ?? '')
+        ? 1_000_000
+        : 1;
+    return amount * multiplier;
+  });
+  if (amounts.length === 0 || amounts.some((amount) => !amount)) {
+    return null;
+  }
+
+  const currency = CURRENCIES.find(([pattern]) => pattern.test(text))?.[1];
+  return {
+    text: text.trim(),
+    min: Math.min(...amounts.slice(0, 2)),
+    ...(amounts.length > 1 && { max: Math.max(...amounts.slice(0, 2)) }),
+    ...(currency && { currency }),
+  };
+}
+
+// Returns the answer to store, or the message explaining what is wrong
+export function validateAnswer(
+  field: LeadField,
+  text: string,
+): { valid: true; value: string } | { valid: false; error: MessageKey } {
+  const value = text.trim().replace(/\s+/g, ' ');
+  const words = value.split(' ').length;
+
+  switch (field) {
+    case 'name':
+      return value.length >= 2 &&
+        value.length <= 80 &&
+        words <= 5 &&
+        /\p{L}/u.test(value)
+        ? { valid: true, value }
+        : { valid: false, error: 'intakeInvalidName' };
+    case 'email':
+      return EMAIL_PATTERN.test(value)
+        ? { valid: true, value: value.toLowerCase() }
+        : { valid: false, error: 'intakeInvalidEmail' };
+    case 'budget':
+      return parseBudget(value)
+        ? { valid: true, value }
+        : { valid: false, error: 'intakeInvalidBudget' };
+    case 'projectDescription':
+      return value.length >= 10
+        ? { valid: true, value }
+        : { valid: false, error: 'intakeTooShort' };
+    default:
+      return value.length >= 2 && value.length <= 200
+        ? { valid: true, value }
+        : { valid: false, error: 'intakeTooShort' };
+  }
+}
+
+// The next question that has not been answered or skipped yet
+export function nextStep(intake: LeadIntake, from = intake.step + 1) {
+  let step = from;
+  while (
+    step < intake.fields.length &&
+    intake.answers[intake.fields[step]] !== undefined
+  ) {
+    step++;
+  }
+  return step;
+}
@@ -0,0 +1,14 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { LeadsService } from './leads.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('leads')
+@UseGuards(AdminTokenGuard)
+export class LeadsController {
+  constructor(private readonly leadsService: LeadsService) {}
+
+  @Get()
+  getLeads() {
+    return this.leadsService.getLeads();
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { LeadsController } from './leads.controller';
+import { LeadsService } from './leads.service';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { CatalogService } from '../catalog/catalog.service';
+
+@Module({
+  controllers: [LeadsController],
+  providers: [
+    LeadsService,
+    OpenaiService,
+    UserContextService,
+    PromptsService,
+    CatalogService,
+  ],
+})
+export class LeadsModule {}
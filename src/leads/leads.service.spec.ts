@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadsService } from './leads.service';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { findService, loadCatalogFile } from '../catalog/studio-services';
+import { IntakeTurn } from './leads.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('LeadsService', () => {
+  let service: LeadsService;
+  let openaiService: Record<string, jest.Mock>;
+  let userContextService: Record<string, jest.Mock>;
+
+  const turn: IntakeTurn = {
+    userID: '254700000001',
+    channel: 'whatsapp',
+    language: 'en',
+  };
+  const branding = findService('branding_service', loadCatalogFile());
+
+  beforeEach(async () => {
+    openaiService = {
+      extractLeadFields: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', data: {} }),
+    };
+    userContextService = {
+      hashPhoneNumber: jest.fn((userID) => `hash-${userID}`),
+      saveToContext: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadsService,
+        { provide: OpenaiService, useValue: openaiService },
+        { provide: UserContextService, useValue: userContextService },
+      ],
+    }).compile();
+
+    service = module.get<LeadsService>(LeadsService);
+    await service['redis'].flushall();
+  });
+
+  it('asks the first question when a service is picked', async () => {
+    const question = await service.startIntake(turn, branding);
+
+    expect(question).toContain("Let's get your Branding project started!");
+    expect(question).toContain('(1/6) What is your name?');
+    expect(await service.getIntake(turn.userID)).toEqual(
+      expect.objectContaining({ serviceID: 'branding_service', step: 0 }),
+    );
+  });
+
+  it('does nothing for services without questions', async () => {
+    await service.startIntake(turn, branding);
+
+    expect(
+      await service.startIntake(turn, { ...branding, intake: undefined }),
+    ).toBeNull();
+    expect(await service.getIntake(turn.userID)).toBeNull();
+  });
+
+  it('walks through the questions and saves the lead', async () => {
+    await service.startIntake(turn, branding);
+
+    const replies = [];
+    for (const answer of [
+      'Amina',
+      'skip',
+      'A new logo and packaging for our bakery',
+      'KES 50k - 100k',
+      'End of March',
+      'amina@example.com',
+    ]) {
+      replies.push((await service.answer(turn, answer)).reply);
+    }
+
+    expect(replies[1]).toBe(
+      '(3/6) Tell us about the project: what do you need and what is it for?',
+    );
+    expect(replies[5]).toContain('• **Name:** Amina');
+    expect(replies[5]).not.toContain('Company');
+    expect(openaiService.extractLeadFields).toHaveBeenCalledTimes(1);
+
+    const [lead] = await service.getLeads();
+    expect(lead).toEqual(
+      expect.objectContaining({
+        serviceID: 'branding_service',
+        channel: 'whatsapp',
+        user: 'hash-254700000001',
+        name: 'Amina',
+        projectDescription: 'A new logo and packaging for our bakery',
+        budget: {
+          text: 'KES 50k - 100k',
+          min: 50_000,
+          max: 100_000,
+          currency: 'KES',
+        },
+        timeline: 'End of March',
+        email: 'amina@example.com',
+      }),
+    );
+    expect(lead).not.toHaveProperty('company');
+    expect(await service.getIntake(turn.userID)).toBeNull();
+    expect(userContextService.saveToContext).toHaveBeenCalledWith(
+      expect.stringContaining('[User sent an enquiry for Branding:'),
+      'user',
+      turn.userID,
+    );
+  });
+
+  it('fills in everything a long reply gives away', async () => {
+    openaiService.extractLeadFields.mockResolvedValue({
+      status: 'success',
+      data: {
+        name: 'Amina Wanjiru',
+        company: 'Mkate Bakery',
+        budget: 'around 80k',
+        email: 'not an email',
+      },
+    });
+    await service.startIntake(turn, branding);
+
+    const { reply } = await service.answer(
+      turn,
+      "Hi, I'm Amina Wanjiru from Mkate Bakery, we have around 80k",
+    );
+
+    expect(openaiService.extractLeadFields).toHaveBeenCalledWith(
+      "Hi, I'm Amina Wanjiru from Mkate Bakery, we have around 80k",
+      'name',
+    );
+    expect(reply).toBe(
+      '(3/6) Tell us about the project: what do you need and what is it for?',
+    );
+    expect((await service.getIntake(turn.userID)).answers).toEqual({
+      name: 'Amina Wanjiru',
+      company: 'Mkate Bakery',
+      budget: 'around 80k',
+    });
+  });
+
+  it('asks again when an answer cannot be used', async () => {
+    await service.startIntake(turn, { ...branding, intake: ['email'] });
+
+    const { reply } = await service.answer(turn, 'amina at gmail');
+
+    expect(reply).toBe(
+      "That doesn't look like an email address, could you check it?\n\n(1/1) Which email address should we send the proposal to?",
+    );
+  });
+
+  it('does not skip required questions', async () => {
+    await service.startIntake(turn, branding);
+
+    const { reply } = await service.answer(turn, 'skip');
+
+    expect(reply).toContain('I need this one to get started');
+    expect(reply).toContain('(1/6) What is your name?');
+  });
+
+  it('goes back to change an answer', async () => {
+    await service.startIntake(turn, branding);
+    await service.answer(turn, 'Amina');
+
+    expect((await service.answer(turn, 'back')).reply).toBe(
+      '(1/6) What is your name?',
+    );
+    expect((await service.answer(turn, 'Amina Wanjiru')).reply).toBe(
+      '(2/6) Which company or brand is this for?',
+    );
+    expect((await service.getIntake(turn.userID)).answers.name).toBe(
+      'Amina Wanjiru',
+    );
+  });
+
+  it('stops when the user cancels', async () => {
+    await service.startIntake(turn, branding);
+
+    const { reply } = await service.answer(turn, 'cancel');
+
+    expect(reply).toContain('I stopped the enquiry');
+    expect(await service.getIntake(turn.userID)).toBeNull();
+    expect(await service.answer(turn, 'Amina')).toBeNull();
+  });
+});
@@ -0,0 +1,271 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import { OpenaiService } from '../openai/openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { StudioService } from '../catalog/studio-services';
+import { ChannelName } from '../conversation/conversation.types';
+import { Language, MessageKey, translate } from '../i18n/i18n';
+import {
+  LABEL_KEYS,
+  Lead,
+  LeadIntake,
+  nextStep,
+  parseBudget,
+  parseIntakeCommand,
+  QUESTION_KEYS,
+  REQUIRED_FIELDS,
+  validateAnswer,
+} from './lead-intake';
+
+export interface IntakeTurn {
+  userID: string;
+  channel: ChannelName;
+  language: Language;
+}
+
+export interface IntakeReply {
+  reply: string;
+  // Set once the last question is answered
+  lead?: Lead;
+}
+
+// Walks users through a service's enquiry questions after they pick it
+// from the menu, one question per message, and saves the answers as a lead
+@Injectable()
+export class LeadsService {
+  constructor(
+    private readonly openaiService: OpenaiService,
+    private readonly userContextService: UserContextService,
+  ) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(LeadsService.name);
+
+  readonly configuration = {
+    // Unfinished enquiries are dropped after a day
+    intakeExpirationTime: Number(process.env.LEAD_INTAKE_TTL_SECONDS) || 86400,
+    // Longer answers go through the model, they often hold more than asked
+    directAnswerWords: 6,
+  };
+
+  async getIntake(userID: string): Promise<LeadIntake | null> {
+    try {
+      const intake = await this.redis.get(this.intakeKey(userID));
+      return intake ? JSON.parse(intake) : null;
+    } catch (error) {
+      this.logger.error('Error Loading Intake', error);
+      return null;
+    }
+  }
+
+  // Returns the first question, or null when the service has none. Picking
+  // another service drops the enquiry in progress.
+  async startIntake(
+    { userID, language }: IntakeTurn,
+    service: StudioService,
+  ): Promise<string | null> {
+    if (!service.intake?.length) {
+      await this.cancelIntake(userID);
+      return null;
+    }
+
+    const intake: LeadIntake = {
+      serviceID: service.id,
+      serviceTitle: service.title,
+      fields: service.intake,
+      step: 0,
+      answers: {},
+      startedAt: Date.now(),
+    };
+    await this.saveIntake(userID, intake);
+
+    return [
+      translate(language, 'intakeIntro', { service: service.title }),
+      this.question(intake, language),
+    ].join('\n\n');
+  }
+
+  async cancelIntake(userID: string) {
+    await this.redis.del(this.intakeKey(userID));
+  }
+
+  // Handles a reply to the current question. Returns null when the user
+  // has no enquiry going on.
+  async answer(turn: IntakeTurn, text: string): Promise<IntakeReply | null> {
+    const { userID, language } = turn;
+    const intake = await this.getIntake(userID);
+    if (!intake) {
+      return null;
+    }
+    const field = intake.fields[intake.step];
+
+    switch (parseIntakeCommand(text)) {
+      case 'cancel':
+        await this.cancelIntake(userID);
+        return { reply: translate(language, 'intakeCancelled') };
+      case 'back':
+        intake.step = Math.max(0, intake.step - 1);
+        await this.saveIntake(userID, intake);
+        return { reply: this.question(intake, language) };
+      case 'skip':
+        if (REQUIRED_FIELDS.includes(field)) {
+          return this.askAgain(intake, 'intakeRequired', language);
+        }
+        intake.answers[field] = null;
+        return this.advance(turn, intake);
+    }
+
+    const error = await this.fillAnswers(intake, text);
+    if (error) {
+      return this.askAgain(intake, error, language);
+    }
+    return this.advance(turn, intake);
+  }
+
+  async getLeads(): Promise<Lead[]> {
+    try {
+      const leads = await this.redis.lrange('leads', 0, -1);
+      return leads.map((lead) => JSON.parse(lead));
+    } catch (error) {
+      this.logger.error(error);
+      return [];
+    }
+  }
+
+  // Stores the answer to the current question, along with anything else
+  // the reply gives away. Returns what is wrong when it can't be used.
+  private async fillAnswers(
+    intake: LeadIntake,
+    text: string,
+  ): Promise<MessageKey | null> {
+    const field = intake.fields[intake.step];
+    const direct = validateAnswer(field, text);
+    const words = text.trim().split(/\s+/).length;
+    if (direct.valid && words <= this.configuration.directAnswerWords) {
+      intake.answers[field] = direct.value;
+      return null;
+    }
+
+    // Answers given earlier are kept unless they are asked again
+    const previous = intake.answers[field];
+    delete intake.answers[field];
+
+    const extracted = await this.openaiService.extractLeadFields(text, field);
+    if (extracted.status === 'success') {
+      for (const [name, value] of Object.entries(extracted.data)) {
+        const extractedField = name as LeadIntake['fields'][number];
+        const answer = validateAnswer(extractedField, value);
+        if (
+          answer.valid &&
+          intake.fields.includes(extractedField) &&
+          (extractedField === field ||
+            intake.answers[extractedField] === undefined)
+        ) {
+          intake.answers[extractedField] = answer.value;
+        }
+      }
+    }
+
+    if (intake.answers[field] === undefined) {
+      if ('error' in direct) {
+        intake.answers[field] = previous;
+        return direct.error;
+      }
+      intake.answers[field] = direct.value;
+    }
+    return null;
+  }
+
+  private async advance(
+    turn: IntakeTurn,
+    intake: LeadIntake,
+  ): Promise<IntakeReply> {
+    intake.step = nextStep(intake);
+    if (intake.step < intake.fields.length) {
+      await this.saveIntake(turn.userID, intake);
+      return { reply: this.question(intake, turn.language) };
+    }
+
+    const lead = await this.saveLead(turn, intake);
+    await this.cancelIntake(turn.userID);
+    return {
+      reply: translate(turn.language, 'intakeDone', {
+        summary: this.summarize(intake, turn.language),
+      }),
+      lead,
+    };
+  }
+
+  private async saveLead(
+    { userID, channel, language }: IntakeTurn,
+    { serviceID, serviceTitle, answers }: LeadIntake,
+  ) {
+    const given = Object.fromEntries(
+      Object.entries(answers).filter(([, value]) => value !== null),
+    );
+    const lead: Lead = {
+      id: randomUUID(),
+      serviceID,
+      serviceTitle,
+      channel,
+      user: this.userContextService.hashPhoneNumber(userID),
+      language,
+      ...given,
+      budget: given.budget ? parseBudget(given.budget) : undefined,
+      createdAt: Date.now(),
+    };
+
+    await this.redis.rpush('leads', JSON.stringify(lead));
+    this.logger.log(`Saved lead ${lead.id} for ${serviceID}`);
+
+    // So the assistant knows what was discussed when the chat carries on
+    await this.userContextService.saveToContext(
+      `[User sent an enquiry for ${serviceTitle}:\n${this.summarize(
+        { answers } as LeadIntake,
+        'en',
+      )}]`,
+      'user',
+      userID,
+    );
+    return lead;
+  }
+
+  private summarize({ answers }: LeadIntake, language: Language) {
+    return Object.entries(answers)
+      .filter(([, value]) => value !== null)
+      .map(
+        ([field, value]) =>
+          `• **${translate(language, LABEL_KEYS[field])}:** ${value}`,
+      )
+      .join('\n');
+  }
+
+  private askAgain(intake: LeadIntake, error: MessageKey, language: Language) {
+    return {
+      reply: `${translate(language, error)}\n\n${this.question(
+        intake,
+        language,
+      )}`,
+    };
+  }
+
+  private question(intake: LeadIntake, language: Language) {
+    const field = intake.fields[intake.step];
+    const position = `(${intake.step + 1}/${intake.fields.length})`;
+    return `${position} ${translate(language, QUESTION_KEYS[field])}`;
+  }
+
+  private async saveIntake(userID: string, intake: LeadIntake) {
+    await this.redis.set(
+      this.intakeKey(userID),
+      JSON.stringify(intake),
+      'EX',
+      this.configuration.intakeExpirationTime,
+    );
+  }
+
+  private intakeKey(userID: string) {
+    return `${this.userContextService.hashPhoneNumber(userID)}:intake`;
+  }
+}
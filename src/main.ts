@@ -1,13 +1,31 @@
 import { NestFactory } from '@nestjs/core';
 import { NestExpressApplication } from '@nestjs/platform-express';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { join } from 'path';
 import { AppModule } from './app.module';
+import { webchatCors } from './webchat/webchat-origins';
 
 async function bootstrap() {
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    // Keep the raw body around so webhook signatures can be verified
+    rawBody: true,
+  });
+  // Files attached to inbox replies come base64 encoded
+  app.useBodyParser('json', { limit: '25mb' });
+
+  // Only needed when media is sent by link (WHATSAPP_MEDIA_MODE=link, and
+  // always for Instagram)
+  app.useStaticAssets(join(process.cwd(), 'generatedImages'));
+  app.useStaticAssets(
+    join(process.cwd(), process.env.AUDIO_FILES_FOLDER || 'audioFiles'),
+  );
+  app.useStaticAssets(
+    join(process.cwd(), process.env.SENT_FILES_FOLDER || 'sentFiles'),
+  );
+  // The web chat widget runs on the Studio Libra website
+  app.useWebSocketAdapter(new WsAdapter(app));
+  app.use('/webchat', webchatCors);
 
-  app.useStaticAssets(join(__dirname, '..', 'generatedImages'));
-  app.useStaticAssets(join(__dirname, '..', 'audioFile'));
   await app.listen(3000);
 }
 bootstrap();
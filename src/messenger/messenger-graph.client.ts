@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { lastValueFrom, map } from 'rxjs';
+import {
+  MessengerAttachmentType,
+  MessengerDownloadResult,
+  MessengerPlatform,
+  MessengerSendRequest,
+  MessengerSendResult,
+} from './messenger.types';
+import { parseGraphError } from '../whatsapp/cloud-api/whatsapp-cloud-api.errors';
+
+@Injectable()
+export class MessengerGraphClient {
+  private readonly httpService = new HttpService();
+  private readonly logger = new Logger(MessengerGraphClient.name);
+
+  readonly configuration = {
+    // Overridable so the client can be pointed at a local stand-in server
+    baseUrl:
+      process.env.MESSENGER_GRAPH_API_BASE_URL || 'https://graph.facebook.com',
+    version: process.env.MESSENGER_GRAPH_API_VERSION || 'v20.0',
+    // Instagram DMs are sent through the Facebook Page the Instagram
+    // account is linked to, usually with the same Page token
+    accessTokens: {
+      messenger: process.env.MESSENGER_PAGE_ACCESS_TOKEN,
+      instagram:
+        process.env.INSTAGRAM_PAGE_ACCESS_TOKEN ||
+        process.env.MESSENGER_PAGE_ACCESS_TOKEN,
+    } as Record<MessengerPlatform, string | undefined>,
+  };
+
+  async send(
+    platform: MessengerPlatform,
+    request: MessengerSendRequest,
+  ): Promise<MessengerSendResult> {
+    return this.post(platform, request, request.sender_action ?? 'message');
+  }
+
+  // Messenger takes the file in the same request as the message, so the
+  // server doesn't need to be publicly reachable. Instagram only accepts
+  // attachments by URL.
+  async sendAttachment(
+    recipientID: string,
+    type: MessengerAttachmentType,
+    data: Buffer,
+    mimeType: string,
+    fileName: string,
+  ): Promise<MessengerSendResult> {
+    const form = new FormData();
+    form.append('recipient', JSON.stringify({ id: recipientID }));
+    form.append('messaging_type', 'RESPONSE');
+    form.append(
+      'message',
+      JSON.stringify({ attachment: { type, payload: { is_reusable: false } } }),
+    );
+    form.append('filedata', new Blob([data], { type: mimeType }), fileName);
+
+    return this.post('messenger', form, `${type} attachment`);
+  }
+
+  // Attachment URLs in webhooks are signed CDN links that need no token
+  async downloadAttachment(url: string): Promise<MessengerDownloadResult> {
+    try {
+      const response = await lastValueFrom(
+        this.httpService.get(url, { responseType: 'arraybuffer' }),
+      );
+      return {
+        status: 'success',
+        data: Buffer.from(response.data),
+        mimeType: response.headers['content-type'],
+      };
+    } catch (error) {
+      const { message } = parseGraphError(error);
+      this.logger.error(`Error downloading attachment: ${message}`);
+      return { status: 'error', error: message };
+    }
+  }
+
+  private async post(
+    platform: MessengerPlatform,
+    body: MessengerSendRequest | FormData,
+    description: string,
+  ): Promise<MessengerSendResult> {
+    try {
+      const response = await lastValueFrom(
+        this.httpService
+          .post(
+            `${this.configuration.baseUrl}/${this.configuration.version}/me/messages`,
+            body,
+            {
+              // Left to axios for forms so the multipart boundary gets filled in
+              headers:
+                body instanceof FormData
+                  ? {}
+                  : { 'Content-Type': 'application/json' },
+              params: {
+                access_token: this.configuration.accessTokens[platform],
+              },
+            },
+          )
+          .pipe(map((res) => res.data)),
+      );
+      if (response?.message_id) {
+        this.logger.log(
+          `Sent ${platform} ${description} ${response.message_id}`,
+        );
+      }
+      return { status: 'success', messageId: response?.message_id };
+    } catch (error) {
+      const { message, code } = parseGraphError(error);
+      this.logger.error(
+        `Error sending ${platform} ${description}: ${message} (${code})`,
+      );
+      return { status: 'error', error: message, code };
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { isValidMetaSignature } from '../whatsapp/whatsapp/whatsapp-signature.guard';
+
+// Messenger and Instagram webhooks are signed like WhatsApp's, with the
+// secret of the Meta app the Page is subscribed through
+@Injectable()
+export class MessengerSignatureGuard implements CanActivate {
+  private readonly logger = new Logger(MessengerSignatureGuard.name);
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<RawBodyRequest<Request>>();
+    const signature = request.headers['x-hub-signature-256'] as string;
+
+    if (
+      !isValidMetaSignature(
+        request.rawBody,
+        signature,
+        process.env.MESSENGER_APP_SECRET,
+      )
+    ) {
+      this.logger.warn(
+        `Rejected webhook request from ${request.ip}: ${
+          signature ? 'invalid' : 'missing'
+        } X-Hub-Signature-256`,
+      );
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    return true;
+  }
+}
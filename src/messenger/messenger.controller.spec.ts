@@ -0,0 +1,332 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import * as crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { MessengerController } from './messenger.controller';
+import { MessengerService } from './messenger.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { Job, QueueService } from '../queue/queue.service';
+import { ConversationService } from '../conversation/conversation.service';
+
+const APP_SECRET = 'test-app-secret';
+
+// Recorded deliveries, read as bytes so signatures cover what is posted
+const messengerDelivery = readFileSync(
+  join(__dirname, 'fixtures', 'messenger-webhook.json'),
+);
+const instagramDelivery = readFileSync(
+  join(__dirname, 'fixtures', 'instagram-webhook.json'),
+);
+
+const sign = (body: Buffer) =>
+  `sha256=${crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex')}`;
+
+describe('MessengerController', () => {
+  let app: INestApplication;
+  let controller: MessengerController;
+  let messengerService: Record<string, jest.Mock>;
+  let dedupeService: { claimEvent: jest.Mock; releaseEvent: jest.Mock };
+  let queueService: { enqueue: jest.Mock; registerHandler: jest.Mock };
+  let conversationService: { handleMessage: jest.Mock };
+
+  const queuedEventIDs = () =>
+    queueService.enqueue.mock.calls.map(
+      ([, , { event }]) =>
+        event.message?.mid ?? event.postback?.mid ?? event.reaction?.mid,
+    );
+
+  // Runs every queued event through the controller, returning what the
+  // conversation engine was handed
+  const processQueued = async () => {
+    for (const [type, userID, payload] of queueService.enqueue.mock.calls) {
+      await controller.processQueuedEvent({
+        id: 'job-1',
+        type,
+        userID,
+        payload,
+        attempts: 1,
+        createdAt: Date.now(),
+      } as Job);
+    }
+    return conversationService.handleMessage.mock.calls.map(([inbound]) => ({
+      ...inbound,
+      content:
+        'media' in inbound.content
+          ? { ...inbound.content, media: expect.any(Object) }
+          : inbound.content,
+    }));
+  };
+
+  const deliver = (body: Buffer, signature = sign(body)) =>
+    request(app.getHttpServer())
+      .post('/messenger/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Hub-Signature-256', signature)
+      .send(body.toString());
+
+  beforeEach(async () => {
+    process.env.MESSENGER_APP_SECRET = APP_SECRET;
+    process.env.MESSENGER_WEBHOOK_VERIFICATION_TOKEN = 'verify-me';
+
+    messengerService = {
+      markSeen: jest.fn(),
+      downloadAttachment: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', data: '/tmp/file' }),
+    };
+    dedupeService = {
+      claimEvent: jest.fn().mockResolvedValue(true),
+      releaseEvent: jest.fn(),
+    };
+    queueService = { enqueue: jest.fn(), registerHandler: jest.fn() };
+    conversationService = {
+      handleMessage: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', message: 'Message processed' }),
+    };
+
+    const module = await Test.createTestingModule({
+      controllers: [MessengerController],
+      providers: [
+        { provide: MessengerService, useValue: messengerService },
+        { provide: DedupeService, useValue: dedupeService },
+        { provide: QueueService, useValue: queueService },
+        { provide: ConversationService, useValue: conversationService },
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ rawBody: true, logger: false });
+    await app.init();
+    controller = module.get(MessengerController);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('webhook verification', () => {
+    it('answers the challenge for the configured token', async () => {
+      await request(app.getHttpServer())
+        .get('/messenger/webhook')
+        .query({
+          'hub.mode': 'subscribe',
+          'hub.verify_token': 'verify-me',
+          'hub.challenge': '1158201444',
+        })
+        .expect(200, '1158201444');
+
+      await request(app.getHttpServer())
+        .get('/messenger/webhook')
+        .query({
+          'hub.mode': 'subscribe',
+          'hub.verify_token': 'guess',
+          'hub.challenge': '1158201444',
+        })
+        .expect(200, 'Error: Token Mismatch');
+    });
+
+    it('rejects deliveries without a valid signature', async () => {
+      await deliver(messengerDelivery, 'sha256=deadbeef').expect(401);
+
+      expect(queueService.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Messenger deliveries', () => {
+    beforeEach(async () => {
+      await deliver(messengerDelivery).expect(200, {
+        status: 'success',
+        message: 'Queued 6 event(s)',
+      });
+    });
+
+    it('queues messages, postbacks and reactions but not echoes or receipts', () => {
+      expect(queuedEventIDs()).toEqual([
+        'm_text',
+        'm_quick_reply',
+        'm_postback',
+        'm_file',
+        'm_sticker',
+        'm_reply_1',
+      ]);
+      expect(dedupeService.claimEvent).toHaveBeenCalledWith(
+        'messenger',
+        'm_text',
+      );
+    });
+
+    it('hands every event to the conversation engine', async () => {
+      expect(await processQueued()).toEqual([
+        {
+          channel: 'messenger',
+          userID: 'PSID_1',
+          messageID: 'm_text',
+          eventID: 'm_text',
+          content: { type: 'text', text: 'Hi, do you design logos?' },
+        },
+        {
+          channel: 'messenger',
+          userID: 'PSID_1',
+          messageID: 'm_quick_reply',
+          eventID: 'm_quick_reply',
+          content: {
+            type: 'selection',
+            id: 'branding_service',
+            title: '🎨 Branding',
+          },
+        },
+        {
+          channel: 'messenger',
+          userID: 'PSID_2',
+          messageID: 'm_postback',
+          eventID: 'm_postback',
+          content: {
+            type: 'selection',
+            id: 'more_options',
+            title: 'Get Started',
+          },
+        },
+        {
+          channel: 'messenger',
+          userID: 'PSID_2',
+          messageID: 'm_file',
+          eventID: 'm_file',
+          content: { type: 'document', media: expect.any(Object) },
+        },
+        {
+          channel: 'messenger',
+          userID: 'PSID_2',
+          messageID: 'm_sticker',
+          eventID: 'm_sticker',
+          content: { type: 'unsupported', kind: 'sticker' },
+        },
+        {
+          channel: 'messenger',
+          userID: 'PSID_2',
+          eventID: 'm_reply_1:react:1718000001300',
+          content: { type: 'reaction', messageID: 'm_reply_1', emoji: '❤️' },
+        },
+      ]);
+      expect(messengerService.markSeen).toHaveBeenCalledWith(
+        'messenger',
+        'PSID_1',
+      );
+    });
+
+    it('downloads files under their own name only when needed', async () => {
+      await processQueued();
+      const { media } =
+        conversationService.handleMessage.mock.calls[3][0].content;
+
+      expect(media.fileName).toBe('Project Brief.pdf');
+      expect(messengerService.downloadAttachment).not.toHaveBeenCalled();
+
+      await media.download('receivedDocuments');
+      expect(messengerService.downloadAttachment).toHaveBeenCalledWith(
+        expect.stringContaining('Project%20Brief.pdf'),
+        'receivedDocuments',
+      );
+    });
+  });
+
+  describe('Instagram deliveries', () => {
+    it('routes them to the Instagram channel', async () => {
+      await deliver(instagramDelivery).expect(200);
+
+      expect(await processQueued()).toEqual([
+        {
+          channel: 'instagram',
+          userID: 'IGSID_1',
+          messageID: 'ig_image',
+          eventID: 'ig_image',
+          content: { type: 'image', media: expect.any(Object) },
+        },
+        {
+          channel: 'instagram',
+          userID: 'IGSID_1',
+          messageID: 'ig_quick_reply',
+          eventID: 'ig_quick_reply',
+          content: {
+            type: 'selection',
+            id: 'models_service',
+            title: '🧠 3D Models & AI',
+          },
+        },
+        {
+          channel: 'instagram',
+          userID: 'IGSID_1',
+          messageID: 'ig_story_mention',
+          eventID: 'ig_story_mention',
+          content: { type: 'unsupported', kind: 'story_mention' },
+        },
+      ]);
+    });
+  });
+
+  it('skips events that were already delivered', async () => {
+    dedupeService.claimEvent.mockResolvedValue(false);
+
+    const result = await controller.handleWebhook(
+      JSON.parse(messengerDelivery.toString()),
+    );
+
+    expect(queueService.enqueue).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      status: 'success',
+      message: 'Nothing to process',
+    });
+  });
+
+  it('releases events that could not be queued so redeliveries get in', async () => {
+    queueService.enqueue.mockRejectedValueOnce(new Error('boom'));
+
+    await controller.handleWebhook(JSON.parse(messengerDelivery.toString()));
+
+    expect(queueService.enqueue).toHaveBeenCalledTimes(6);
+    expect(dedupeService.releaseEvent).toHaveBeenCalledTimes(1);
+    expect(dedupeService.releaseEvent).toHaveBeenCalledWith(
+      'messenger',
+      'm_text',
+    );
+  });
+
+  it('keeps postbacks without a message ID apart on retries', async () => {
+    const postback = {
+      sender: { id: 'PSID_2' },
+      timestamp: 1718000002000,
+      postback: { title: 'Get Started', payload: 'more_options' },
+    };
+    await controller.handleWebhook({
+      object: 'page',
+      entry: [{ messaging: [postback] }],
+    });
+
+    const [inbound] = await processQueued();
+    expect(inbound.messageID).toBeUndefined();
+    expect(inbound.eventID).toBe('PSID_2:1718000002000');
+  });
+
+  it('ignores webhooks for other objects', async () => {
+    const result = await controller.handleWebhook({
+      object: 'user',
+      entry: [],
+    });
+
+    expect(result).toEqual({
+      status: 'success',
+      message: 'Nothing to process',
+    });
+  });
+
+  it('throws so the queue retries events that failed', async () => {
+    conversationService.handleMessage.mockResolvedValue({
+      status: 'error',
+      message: 'Failed',
+    });
+    await controller.handleWebhook(JSON.parse(messengerDelivery.toString()));
+
+    await expect(processQueued()).rejects.toThrow('Failed');
+  });
+});
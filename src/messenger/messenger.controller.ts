@@ -0,0 +1,234 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Logger,
+  OnModuleInit,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { MessengerService } from './messenger.service';
+import { MessengerSignatureGuard } from './messenger-signature.guard';
+import { MessengerPlatform } from './messenger.types';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { Job, QueueService } from '../queue/queue.service';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  InboundContent,
+  InboundMessage,
+} from '../conversation/conversation.types';
+
+interface QueuedMessengerEvent {
+  platform: MessengerPlatform;
+  event: any;
+}
+
+// Which platform a delivery is for, from the webhook's object field
+const WEBHOOK_OBJECTS: Record<string, MessengerPlatform> = {
+  page: 'messenger',
+  instagram: 'instagram',
+};
+
+@Controller('messenger')
+export class MessengerController implements OnModuleInit {
+  private readonly logger = new Logger(MessengerController.name);
+
+  constructor(
+    private readonly messengerService: MessengerService,
+    private readonly dedupeService: DedupeService,
+    private readonly queueService: QueueService,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  onModuleInit() {
+    this.queueService.registerHandler<QueuedMessengerEvent>(
+      'messenger.event',
+      (job) => this.processQueuedEvent(job),
+    );
+  }
+
+  @Get('webhook')
+  messengerVerificationChallenge(
+    @Query('hub.mode') mode: string,
+    @Query('hub.challenge') challenge: string,
+    @Query('hub.verify_token') token: string,
+  ) {
+    if (!mode || !token) {
+      this.logger.error('Missing mode or token in verification request');
+      return 'Error: Missing Parameters';
+    }
+
+    if (
+      mode === 'subscribe' &&
+      token === process.env.MESSENGER_WEBHOOK_VERIFICATION_TOKEN
+    ) {
+      this.logger.log('Webhook verified successfully');
+      return challenge;
+    }
+
+    this.logger.error(
+      `Webhook verification failed - Token mismatch or invalid mode`,
+    );
+    return 'Error: Token Mismatch';
+  }
+
+  // Pages and Instagram accounts deliver to the same webhook
+  @Post('webhook')
+  @HttpCode(200)
+  @UseGuards(MessengerSignatureGuard)
+  async handleWebhook(@Body() request: any) {
+    const platform = WEBHOOK_OBJECTS[request?.object];
+    if (!platform) {
+      this.logger.log(`Ignoring webhook for ${request?.object}`);
+      return { status: 'success', message: 'Nothing to process' };
+    }
+
+    let queuedEvents = 0;
+
+    for (const entry of request.entry ?? []) {
+      for (const event of entry?.messaging ?? []) {
+        const eventID = this.eventID(event);
+        // Echoes of our own replies, reads and deliveries need no answer
+        if (!eventID) {
+          continue;
+        }
+
+        try {
+          if (!(await this.dedupeService.claimEvent(platform, eventID))) {
+            this.logger.log(`Skipping duplicate event ${eventID}`);
+            continue;
+          }
+
+          await this.queueService.enqueue<QueuedMessengerEvent>(
+            'messenger.event',
+            event.sender.id,
+            { platform, event },
+          );
+          queuedEvents++;
+        } catch (error) {
+          // A failure in one event must not abort the rest of the batch
+          this.logger.error(`Error queueing event ${eventID}`, error);
+          await this.dedupeService.releaseEvent(platform, eventID);
+        }
+      }
+    }
+
+    return {
+      status: 'success',
+      message: queuedEvents
+        ? `Queued ${queuedEvents} event(s)`
+        : 'Nothing to process',
+    };
+  }
+
+  async processQueuedEvent(job: Job<QueuedMessengerEvent>) {
+    const { platform, event } = job.payload;
+    await this.messengerService.markSeen(platform, event.sender.id);
+
+    const result = await this.conversationService.handleMessage(
+      this.toInboundMessage(platform, event),
+    );
+
+    // Throwing hands the job back to the queue for a retry
+    if (result.status === 'error') {
+      throw new Error(result.message);
+    }
+  }
+
+  private eventID(event: any): string | null {
+    if (event?.message && !event.message.is_echo) {
+      return event.message.mid;
+    }
+    if (event?.postback) {
+      return event.postback.mid ?? `${event.sender.id}:${event.timestamp}`;
+    }
+    if (event?.reaction) {
+      return `${event.reaction.mid}:${event.reaction.action}:${event.timestamp}`;
+    }
+    return null;
+  }
+
+  // Translates a Messenger Platform event into the conversation engine's
+  // format. Messenger and Instagram send the same shapes.
+  private toInboundMessage(
+    platform: MessengerPlatform,
+    event: any,
+  ): InboundMessage {
+    return {
+      channel: platform,
+      userID: event.sender.id,
+      messageID: event.message?.mid ?? event.postback?.mid,
+      eventID: this.eventID(event),
+      content: this.toInboundContent(event),
+    };
+  }
+
+  private toInboundContent(event: any): InboundContent {
+    if (event.postback) {
+      return {
+        type: 'selection',
+        id: event.postback.payload,
+        title: event.postback.title,
+      };
+    }
+    if (event.reaction) {
+      const { mid, action, emoji } = event.reaction;
+      return {
+        type: 'reaction',
+        messageID: mid,
+        emoji: action === 'react' ? emoji : undefined,
+      };
+    }
+
+    const { text, quick_reply, attachments } = event.message;
+    // A quick reply tap arrives as text with the service ID as payload
+    if (quick_reply) {
+      return { type: 'selection', id: quick_reply.payload, title: text };
+    }
+    if (text) {
+      return { type: 'text', text };
+    }
+
+    const attachment = attachments?.[0];
+    const media = () => ({
+      download: (folderName: string) =>
+        this.messengerService.downloadAttachment(
+          attachment.payload.url,
+          folderName,
+        ),
+    });
+
+    switch (attachment?.type) {
+      case 'image':
+        // Stickers, including the like button, are images with a sticker ID
+        return attachment.payload.sticker_id
+          ? { type: 'unsupported', kind: 'sticker' }
+          : { type: 'image', media: media() };
+      case 'audio':
+        return { type: 'audio', media: media() };
+      case 'file':
+        return {
+          type: 'document',
+          media: {
+            ...media(),
+            fileName: decodeURIComponent(
+              new URL(attachment.payload.url).pathname.split('/').pop(),
+            ),
+          },
+        };
+      case 'location': {
+        const { lat, long } = attachment.payload.coordinates;
+        return {
+          type: 'location',
+          latitude: lat,
+          longitude: long,
+          name: attachment.title,
+        };
+      }
+      default:
+        return { type: 'unsupported', kind: attachment?.type ?? 'unknown' };
+    }
+  }
+}
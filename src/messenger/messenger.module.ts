@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { MessengerController } from './messenger.controller';
+import { MessengerService } from './messenger.service';
+import { MessengerGraphClient } from './messenger-graph.client';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueModule } from '../queue/queue.module';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  imports: [QueueModule, ConversationModule],
+  controllers: [MessengerController],
+  providers: [MessengerService, MessengerGraphClient, DedupeService],
+})
+export class MessengerModule {}
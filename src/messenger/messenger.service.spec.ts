@@ -0,0 +1,287 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { MessengerService } from './messenger.service';
+import { MessengerGraphClient } from './messenger-graph.client';
+import { ConversationService } from '../conversation/conversation.service';
+import { loadCatalogFile } from '../catalog/studio-services';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+const sketchPath = join(__dirname, '..', 'openai', 'fixtures', 'sketch.png');
+
+// A local stand-in for graph.facebook.com and Meta's attachment CDN
+const startGraphServer = async (requests: RecordedRequest[]) => {
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = req.headers['content-type']?.startsWith('application/json')
+        ? JSON.parse(raw)
+        : raw;
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      });
+
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url.startsWith('/v20.0/me/messages') && raw.includes('BLOCKED')) {
+        res.statusCode = 400;
+        res.end(
+          JSON.stringify({
+            error: {
+              message: "This person isn't available right now.",
+              code: 551,
+            },
+          }),
+        );
+      } else if (req.url.startsWith('/v20.0/me/messages')) {
+        res.end(
+          JSON.stringify({
+            recipient_id: body?.recipient?.id,
+            message_id: `m_${requests.length}`,
+          }),
+        );
+      } else if (req.url === '/cdn/voice-note') {
+        res.setHeader('Content-Type', 'audio/mp4');
+        res.end(Buffer.from('voice-note-bytes'));
+      } else {
+        res.statusCode = 404;
+        res.end(
+          JSON.stringify({ error: { message: 'Unknown path', code: 100 } }),
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('MessengerService', () => {
+  let service: MessengerService;
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let conversationService: { registerChannel: jest.Mock };
+
+  const sentMessages = () =>
+    requests.map(({ url, body }) => ({
+      token: new URL(url, baseUrl).searchParams.get('access_token'),
+      ...body,
+    }));
+
+  beforeAll(async () => {
+    requests = [];
+    server = await startGraphServer(requests);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests.length = 0;
+    process.env.SERVER_URL = 'https://bot.studiolibra.example';
+    conversationService = { registerChannel: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessengerService,
+        MessengerGraphClient,
+        { provide: ConversationService, useValue: conversationService },
+      ],
+    }).compile();
+
+    service = module.get<MessengerService>(MessengerService);
+    const client = module.get<MessengerGraphClient>(MessengerGraphClient);
+    client.configuration.baseUrl = baseUrl;
+    client.configuration.accessTokens = {
+      messenger: 'PAGE_TOKEN',
+      instagram: 'INSTAGRAM_TOKEN',
+    };
+  });
+
+  it('registers a channel for Messenger and one for Instagram', () => {
+    service.onModuleInit();
+
+    expect(
+      conversationService.registerChannel.mock.calls.map(
+        ([channel]) => channel.channel,
+      ),
+    ).toEqual(['messenger', 'instagram']);
+  });
+
+  it('formats text for each platform', async () => {
+    const markdown = 'Our **Branding** packages start at *KES 15,000*.';
+
+    await service.send('messenger', 'PSID_1', { type: 'text', text: markdown });
+    await service.send('instagram', 'IGSID_1', {
+      type: 'text',
+      text: markdown,
+    });
+
+    expect(sentMessages()).toEqual([
+      {
+        token: 'PAGE_TOKEN',
+        recipient: { id: 'PSID_1' },
+        messaging_type: 'RESPONSE',
+        message: {
+          text: 'Our *Branding* packages start at _KES 15,000_.',
+        },
+      },
+      {
+        token: 'INSTAGRAM_TOKEN',
+        recipient: { id: 'IGSID_1' },
+        messaging_type: 'RESPONSE',
+        message: { text: 'Our Branding packages start at KES 15,000.' },
+      },
+    ]);
+  });
+
+  it('splits long replies under the Instagram limit', async () => {
+    const paragraph = 'We can help with that. '.repeat(30).trim();
+
+    await service.send('instagram', 'IGSID_1', {
+      type: 'text',
+      text: `${paragraph}\n\n${paragraph}`,
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests.every(({ body }) => body.message.text.length <= 1000)).toBe(
+      true,
+    );
+  });
+
+  it('turns the service menu into quick replies', async () => {
+    await service.send('messenger', 'PSID_1', {
+      type: 'menu',
+      text: 'How can we help?',
+      services: loadCatalogFile(),
+    });
+
+    const { message } = requests[0].body;
+    expect(message.text).toBe('How can we help?');
+    expect(message.quick_replies).toEqual(
+      loadCatalogFile().map(({ id }) => ({
+        content_type: 'text',
+        title: expect.any(String),
+        payload: id,
+      })),
+    );
+    expect(message.quick_replies.map(({ title }) => title)).toContain(
+      '🎨 Branding',
+    );
+    expect(
+      message.quick_replies.every(
+        ({ title }) => Array.from(title as string).length <= 20,
+      ),
+    ).toBe(true);
+  });
+
+  it('offers choices as quick replies', async () => {
+    await service.send('instagram', 'IGSID_1', {
+      type: 'choices',
+      text: 'Shall I book it?',
+      choices: [
+        { id: 'booking:confirm:1', title: '✅ Confirm' },
+        { id: 'booking:slots', title: '🔁 Other times' },
+      ],
+    });
+
+    expect(requests[0].body.message.quick_replies).toEqual([
+      {
+        content_type: 'text',
+        title: '✅ Confirm',
+        payload: 'booking:confirm:1',
+      },
+      {
+        content_type: 'text',
+        title: '🔁 Other times',
+        payload: 'booking:slots',
+      },
+    ]);
+  });
+
+  it('uploads images to Messenger and captions them afterwards', async () => {
+    const result = await service.send('messenger', 'PSID_1', {
+      type: 'image',
+      filePath: sketchPath,
+      caption: '🎨 "A fox"',
+    });
+
+    expect(result).toEqual({ status: 'success' });
+    expect(requests[0].headers['content-type']).toMatch(
+      /^multipart\/form-data/,
+    );
+    expect(requests[0].body).toContain(
+      'name="filedata"; filename="sketch.png"',
+    );
+    expect(requests[0].body).toContain('{"id":"PSID_1"}');
+    expect(requests[1].body.message).toEqual({ text: '🎨 "A fox"' });
+  });
+
+  it('sends Instagram media by link', async () => {
+    await service.send('instagram', 'IGSID_1', {
+      type: 'audio',
+      filePath: '/srv/audioFiles/reply.mp3',
+    });
+
+    expect(requests[0].body.message).toEqual({
+      attachment: {
+        type: 'audio',
+        payload: { url: 'https://bot.studiolibra.example/reply.mp3' },
+      },
+    });
+  });
+
+  it('shows a typing indicator', async () => {
+    await service.send('messenger', 'PSID_1', { type: 'typing' });
+
+    expect(requests[0].body).toEqual({
+      recipient: { id: 'PSID_1' },
+      sender_action: 'typing_on',
+    });
+  });
+
+  it('reports errors from the Graph API', async () => {
+    const result = await service.send('messenger', 'BLOCKED', {
+      type: 'text',
+      text: 'Hi!',
+    });
+
+    expect(result).toEqual({
+      status: 'error',
+      error: "This person isn't available right now.",
+    });
+  });
+
+  it('downloads attachments from the CDN', async () => {
+    const folderName = 'messengerTestDownloads';
+
+    const result = await service.downloadAttachment(
+      `${baseUrl}/cdn/voice-note`,
+      folderName,
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.data).toMatch(/\.mp4$/);
+    expect(readFileSync(result.data, 'utf8')).toBe('voice-note-bytes');
+
+    rmSync(join(process.cwd(), folderName), { recursive: true });
+    expect(
+      await service.downloadAttachment(`${baseUrl}/cdn/expired`, folderName),
+    ).toEqual({ status: 'error', data: 'Error fetching attachment' });
+    expect(existsSync(join(process.cwd(), folderName))).toBe(false);
+  });
+});
@@ -0,0 +1,268 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MessengerGraphClient } from './messenger-graph.client';
+import {
+  MessengerAttachmentType,
+  MessengerPlatform,
+  MessengerQuickReply,
+  MessengerSendResult,
+} from './messenger.types';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  ChannelSendResult,
+  Choice,
+  ConversationChannel,
+  MediaDownloadResult,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+import { formatForChannel } from '../formatting/message-formatting';
+
+export const MESSENGER_PLATFORMS: MessengerPlatform[] = [
+  'messenger',
+  'instagram',
+];
+
+// Meta shows at most 13 quick replies and cuts titles off at 20 characters
+const MAX_QUICK_REPLIES = 13;
+const QUICK_REPLY_TITLE_LIMIT = 20;
+
+const MEDIA_MIME_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.pdf': 'application/pdf',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+  '.ics': 'text/calendar',
+};
+
+// Facebook Messenger and Instagram DMs share the Messenger Platform, so
+// one service delivers for both. Each platform is registered with the
+// conversation engine as its own channel.
+@Injectable()
+export class MessengerService implements OnModuleInit {
+  private readonly logger = new Logger(MessengerService.name);
+
+  readonly channels: ConversationChannel[] = MESSENGER_PLATFORMS.map(
+    (platform) => ({
+      channel: platform,
+      send: (recipientID: string, message: OutboundMessage) =>
+        this.send(platform, recipientID, message),
+    }),
+  );
+
+  constructor(
+    private readonly graphClient: MessengerGraphClient,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  onModuleInit() {
+    for (const channel of this.channels) {
+      this.conversationService.registerChannel(channel);
+    }
+  }
+
+  // Delivers what the conversation engine wants sent
+  async send(
+    platform: MessengerPlatform,
+    recipientID: string,
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    let result: MessengerSendResult;
+
+    switch (message.type) {
+      case 'text':
+        result = await this.sendText(platform, recipientID, message.text);
+        break;
+      case 'menu':
+        result = await this.sendText(
+          platform,
+          recipientID,
+          message.text,
+          this.buildQuickReplies(
+            message.services.map(({ id, emoji, title }) => ({
+              id,
+              title: `${emoji} ${title}`,
+            })),
+          ),
+        );
+        break;
+      case 'choices':
+        result = await this.sendText(
+          platform,
+          recipientID,
+          message.text,
+          this.buildQuickReplies(message.choices),
+        );
+        break;
+      case 'image':
+        result = await this.sendAttachment(
+          platform,
+          recipientID,
+          'image',
+          message.filePath,
+        );
+        // Attachments can't carry a caption, so it follows as text
+        if (result.status === 'success' && message.caption) {
+          result = await this.sendText(platform, recipientID, message.caption);
+        }
+        break;
+      case 'audio':
+        result = await this.sendAttachment(
+          platform,
+          recipientID,
+          'audio',
+          message.filePath,
+        );
+        break;
+      case 'document':
+        result = await this.sendAttachment(
+          platform,
+          recipientID,
+          'file',
+          message.filePath,
+        );
+        if (result.status === 'success' && message.caption) {
+          result = await this.sendText(platform, recipientID, message.caption);
+        }
+        break;
+      case 'typing':
+        result = await this.graphClient.send(platform, {
+          recipient: { id: recipientID },
+          sender_action: 'typing_on',
+        });
+        break;
+    }
+
+    return result.status === 'success'
+      ? { status: 'success' }
+      : { status: 'error', error: result.error };
+  }
+
+  async markSeen(platform: MessengerPlatform, recipientID: string) {
+    return this.graphClient.send(platform, {
+      recipient: { id: recipientID },
+      sender_action: 'mark_seen',
+    });
+  }
+
+  async downloadAttachment(
+    url: string,
+    folderName: string,
+  ): Promise<MediaDownloadResult> {
+    const attachment = await this.graphClient.downloadAttachment(url);
+    if (attachment.status === 'error') {
+      return { status: 'error', data: 'Error fetching attachment' };
+    }
+
+    try {
+      // Instagram URLs carry no file name, so files get a unique one
+      const extension =
+        path.extname(new URL(url).pathname) ||
+        `.${attachment.mimeType?.split('/')[1]?.split(';')[0]}`;
+
+      const folderPath = path.join(process.cwd(), folderName);
+      const filePath = path.join(folderPath, `${randomUUID()}${extension}`);
+
+      if (!existsSync(folderPath)) {
+        mkdirSync(folderPath);
+      }
+
+      writeFileSync(filePath, attachment.data);
+      return { status: 'success', data: filePath };
+    } catch (error) {
+      this.logger.error('Error saving attachment', error);
+      return { status: 'error', data: 'Error saving attachment' };
+    }
+  }
+
+  // Model output is Markdown, split under the platform's length limit and
+  // sent in order. Quick replies go on the last message so they stay
+  // under everything they refer to.
+  private async sendText(
+    platform: MessengerPlatform,
+    recipientID: string,
+    markdown: string,
+    quickReplies?: MessengerQuickReply[],
+  ): Promise<MessengerSendResult> {
+    const messages = formatForChannel(markdown, platform);
+    let result: MessengerSendResult = { status: 'success' };
+
+    for (const [index, text] of messages.entries()) {
+      const isLast = index === messages.length - 1;
+      result = await this.graphClient.send(platform, {
+        recipient: { id: recipientID },
+        messaging_type: 'RESPONSE',
+        message: {
+          text,
+          ...(isLast && quickReplies ? { quick_replies: quickReplies } : {}),
+        },
+      });
+      if (result.status === 'error') {
+        return result;
+      }
+    }
+    return result;
+  }
+
+  private async sendAttachment(
+    platform: MessengerPlatform,
+    recipientID: string,
+    type: MessengerAttachmentType,
+    filePath: string,
+  ): Promise<MessengerSendResult> {
+    const fileName = path.basename(filePath);
+
+    if (platform === 'instagram') {
+      // Served from the media folders in main.ts
+      return this.graphClient.send(platform, {
+        recipient: { id: recipientID },
+        messaging_type: 'RESPONSE',
+        message: {
+          attachment: {
+            type,
+            payload: { url: `${process.env.SERVER_URL}/${fileName}` },
+          },
+        },
+      });
+    }
+
+    try {
+      return await this.graphClient.sendAttachment(
+        recipientID,
+        type,
+        readFileSync(filePath),
+        MEDIA_MIME_TYPES[path.extname(fileName).toLowerCase()] ??
+          'application/octet-stream',
+        fileName,
+      );
+    } catch (error) {
+      this.logger.error(`Error reading media ${filePath}`, error);
+      return { status: 'error', error: error.message };
+    }
+  }
+
+  // Quick replies carry the service or choice ID back as their payload,
+  // the same IDs the WhatsApp list rows and Telegram buttons use
+  private buildQuickReplies(choices: Choice[]): MessengerQuickReply[] {
+    return choices.slice(0, MAX_QUICK_REPLIES).map(({ id, title }) => ({
+      content_type: 'text',
+      title: this.truncate(title, QUICK_REPLY_TITLE_LIMIT),
+      payload: id,
+    }));
+  }
+
+  // Counted in characters rather than UTF-16 units so emoji aren't split
+  private truncate(text: string, limit: number) {
+    const characters = Array.from(text);
+    return characters.length > limit
+      ? `${characters.slice(0, limit - 1).join('')}…`
+      : text;
+  }
+}
@@ -0,0 +1,36 @@
+// Payloads for the Messenger Platform Send API, which Instagram DMs share.
+// See https://developers.facebook.com/docs/messenger-platform/reference/send-api
+
+export type MessengerPlatform = 'messenger' | 'instagram';
+
+export interface MessengerQuickReply {
+  content_type: 'text';
+  title: string;
+  payload: string;
+}
+
+export type MessengerAttachmentType = 'image' | 'audio' | 'video' | 'file';
+
+export interface MessengerMessage {
+  text?: string;
+  quick_replies?: MessengerQuickReply[];
+  attachment?: {
+    type: MessengerAttachmentType;
+    payload: { url?: string; is_reusable?: boolean };
+  };
+}
+
+export interface MessengerSendRequest {
+  recipient: { id: string };
+  messaging_type?: 'RESPONSE';
+  message?: MessengerMessage;
+  sender_action?: 'typing_on' | 'typing_off' | 'mark_seen';
+}
+
+export type MessengerSendResult =
+  | { status: 'success'; messageId?: string }
+  | { status: 'error'; error: string; code?: number };
+
+export type MessengerDownloadResult =
+  | { status: 'success'; data: Buffer; mimeType?: string }
+  | { status: 'error'; error: string };
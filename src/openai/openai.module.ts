@@ -1,8 +1,15 @@
 import { Module } from '@nestjs/common';
 import { OpenaiService } from './openai.service';
 import { UserContextService } from '../user-context/user-context.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { CatalogService } from '../catalog/catalog.service';
 
 @Module({
-  providers: [OpenaiService, UserContextService],
+  providers: [
+    OpenaiService,
+    UserContextService,
+    PromptsService,
+    CatalogService,
+  ],
 })
 export class OpenaiModule {}
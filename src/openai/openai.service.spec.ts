@@ -1,18 +1,292 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
 import { OpenaiService } from './openai.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { PromptsService } from '../prompts/prompts.service';
 
 describe('OpenaiService', () => {
   let service: OpenaiService;
+  let context: Record<string, jest.Mock>;
+  let promptsService: Record<string, jest.Mock>;
+  let createCompletion: jest.Mock;
+
+  const completion = (content: string) => ({
+    choices: [{ message: { content } }],
+  });
 
   beforeEach(async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    context = {
+      saveToContext: jest.fn(),
+      saveAndFetchContext: jest.fn().mockResolvedValue([]),
+      getDocuments: jest.fn().mockResolvedValue([]),
+    };
+    promptsService = {
+      buildSystemPrompt: jest.fn().mockResolvedValue({
+        ref: 'artistaa@2',
+        model: 'gpt-4o',
+        text: 'You are Artistaa.',
+      }),
+      recordTurn: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [OpenaiService],
+      providers: [
+        OpenaiService,
+        { provide: UserContextService, useValue: context },
+        { provide: PromptsService, useValue: promptsService },
+      ],
     }).compile();
 
     service = module.get<OpenaiService>(OpenaiService);
+    createCompletion = jest.fn();
+    service['openai'].chat.completions.create = createCompletion;
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('generateImageResponse', () => {
+    const imagePath = join(__dirname, 'fixtures', 'sketch.png');
+
+    it('sends the image to the vision model as a data URL', async () => {
+      createCompletion.mockResolvedValue(completion('A pencil sketch'));
+
+      await service.describeImage(imagePath, 'My logo idea');
+
+      const [{ messages }] = createCompletion.mock.calls[0];
+      const [text, image] = messages[1].content;
+      expect(text.text).toContain('My logo idea');
+      expect(image.image_url.url).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('saves the description in the context before replying', async () => {
+      createCompletion
+        .mockResolvedValueOnce(
+          completion('A red bakery logo with a wheat icon'),
+        )
+        .mockResolvedValueOnce(completion('Love the wheat icon! 🌾'));
+
+      const reply = await service.generateImageResponse(
+        '254700000001',
+        imagePath,
+        'Can you modernise this?',
+        {},
+        'wamid.image',
+      );
+
+      expect(reply).toBe('Love the wheat icon! 🌾');
+      expect(context.saveToContext).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('A red bakery logo with a wheat icon'),
+        'user',
+        '254700000001',
+        { messageID: 'wamid.image' },
+      );
+      expect(context.saveAndFetchContext).toHaveBeenCalledWith(
+        'Can you modernise this?',
+        'user',
+        '254700000001',
+        { messageID: 'wamid.image' },
+      );
+    });
+
+    it('fails gracefully when the vision model is unavailable', async () => {
+      createCompletion.mockRejectedValue(new Error('model unavailable'));
+
+      const reply = await service.generateImageResponse(
+        '254700000001',
+        imagePath,
+      );
+
+      expect(reply).toBe(
+        'Sorry, I am unable to look at that image at the moment.',
+      );
+      expect(context.saveToContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateAIResponse', () => {
+    it('answers from the documents the user shared', async () => {
+      context.getDocuments.mockResolvedValue([
+        { fileName: 'brief.pdf', text: 'Budget: KES 150,000' },
+      ]);
+      createCompletion.mockResolvedValue(completion('Your budget is 150k'));
+
+      await service.generateAIResponse('254700000001', 'What is my budget?');
+
+      const [{ messages }] = createCompletion.mock.calls[0];
+      expect(messages[1]).toEqual({
+        role: 'system',
+        content: expect.stringContaining('--- brief.pdf ---\nBudget: KES'),
+      });
+    });
+
+    it('uses the active prompt and records its version', async () => {
+      context.saveAndFetchContext.mockResolvedValue([
+        { role: 'assistant', content: 'Karibu!', promptVersion: 'artistaa@1' },
+        { role: 'user', content: 'Habari yako' },
+      ]);
+      createCompletion.mockResolvedValue(completion('Nzuri sana!'));
+
+      await service.generateAIResponse('254700000001', 'Habari yako', {
+        channel: 'telegram',
+        userName: 'Amina',
+        language: 'sw',
+      });
+
+      expect(promptsService.buildSystemPrompt).toHaveBeenCalledWith({
+        channel: 'telegram',
+        userName: 'Amina',
+        language: 'sw',
+      });
+      expect(createCompletion).toHaveBeenCalledWith({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'You are Artistaa.' },
+          { role: 'assistant', content: 'Karibu!' },
+          { role: 'user', content: 'Habari yako' },
+        ],
+      });
+      expect(context.saveToContext).toHaveBeenCalledWith(
+        'Nzuri sana!',
+        'assistant',
+        '254700000001',
+        { promptVersion: 'artistaa@2' },
+      );
+      expect(promptsService.recordTurn).toHaveBeenCalledWith('artistaa@2');
+    });
+
+    it('apologises in the user language when the model fails', async () => {
+      createCompletion.mockRejectedValue(new Error('Rate limited'));
+
+      expect(
+        await service.generateAIResponse('254700000001', 'Bonjour', {
+          language: 'fr',
+        }),
+      ).toBe('Désolée, je ne peux pas traiter votre demande pour le moment.');
+    });
+  });
+
+  describe('generateAssistantReply', () => {
+    it('offers the booking tool to the model', async () => {
+      createCompletion.mockResolvedValue(completion('Sure!'));
+
+      expect(
+        await service.generateAssistantReply('254700000001', 'Hello'),
+      ).toEqual({ text: 'Sure!', action: undefined });
+      const [{ tools }] = createCompletion.mock.calls[0];
+      expect(tools.map(({ function: { name } }) => name)).toEqual([
+        'book_consultation',
+      ]);
+    });
+
+    it('returns the action the model calls', async () => {
+      createCompletion.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'book_consultation', arguments: '{}' },
+                },
+              ],
+            },
+          },
+        ],
+      });
+
+      expect(
+        await service.generateAssistantReply(
+          '254700000001',
+          'Can we meet next week?',
+        ),
+      ).toEqual({ text: '', action: 'book_consultation' });
+      expect(context.saveToContext).toHaveBeenCalledTimes(1);
+      expect(context.saveToContext).toHaveBeenCalledWith(
+        '[Offered times for a consultation call]',
+        'assistant',
+        '254700000001',
+        { promptVersion: 'artistaa@2', action: 'book_consultation' },
+      );
+      expect(promptsService.recordTurn).toHaveBeenCalledWith('artistaa@2');
+    });
+
+    it('gives a retried message the reply it already had', async () => {
+      context.saveAndFetchContext.mockResolvedValue([
+        { role: 'user', content: 'Can we meet?', messageID: 'wamid.1' },
+        {
+          role: 'assistant',
+          content: 'Happy to!',
+          promptVersion: 'artistaa@2',
+          messageID: 'wamid.1',
+        },
+        {
+          role: 'assistant',
+          content: '[Offered times for a consultation call]',
+          promptVersion: 'artistaa@2',
+          messageID: 'wamid.1',
+          action: 'book_consultation',
+        },
+      ]);
+
+      expect(
+        await service.generateAssistantReply(
+          '254700000001',
+          'Can we meet?',
+          {},
+          'wamid.1',
+        ),
+      ).toEqual({ text: 'Happy to!', action: 'book_consultation' });
+      expect(createCompletion).not.toHaveBeenCalled();
+      expect(context.saveToContext).not.toHaveBeenCalled();
+    });
+
+    it('saves the reply under the message it answers', async () => {
+      createCompletion.mockResolvedValue(completion('Sure!'));
+
+      await service.generateAssistantReply('254700000001', 'Hi', {}, 'wamid.2');
+
+      expect(context.saveToContext).toHaveBeenCalledWith(
+        'Sure!',
+        'assistant',
+        '254700000001',
+        { promptVersion: 'artistaa@2', messageID: 'wamid.2' },
+      );
+    });
+  });
+
+  describe('summarizeDocument', () => {
+    it('summarizes as the assistant of the conversation', async () => {
+      createCompletion.mockResolvedValue(completion('• Bakery rebrand'));
+
+      const summary = await service.summarizeDocument(
+        'brief.pdf',
+        'Budget: KES 150,000',
+        'Our brief',
+        { channel: 'telegram', userName: 'Amina', language: 'sw' },
+      );
+
+      expect(summary).toEqual({ status: 'success', data: '• Bakery rebrand' });
+      expect(promptsService.buildSystemPrompt).toHaveBeenCalledWith({
+        channel: 'telegram',
+        userName: 'Amina',
+        language: 'sw',
+      });
+      const [{ model, messages }] = createCompletion.mock.calls[0];
+      expect(model).toBe('gpt-4o');
+      expect(messages[0]).toEqual({
+        role: 'system',
+        content: 'You are Artistaa.',
+      });
+      expect(messages[1].content).not.toMatch(/WhatsApp/);
+      expect(messages[2].content).toBe(
+        'The client wrote: "Our brief"\n\nDocument "brief.pdf":\n\nBudget: KES 150,000',
+      );
+    });
+  });
 });
@@ -1,63 +1,355 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OpenAI } from 'openai';
-import { UserContextService } from '../user-context/user-context.service';
+import {
+  SharedDocument,
+  TurnDetails,
+  UserContextService,
+} from '../user-context/user-context.service';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { PromptsService } from '../prompts/prompts.service';
+import { DEFAULT_MODEL, PromptContext } from '../prompts/prompt-templates';
+import { LEAD_FIELDS, LeadField } from '../leads/lead-intake';
+import { translate } from '../i18n/i18n';
+
+const IMAGE_MIME_TYPES = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// What the assistant can do besides answering. The conversation carries
+// it out once the model asks for it.
+export type AssistantAction = 'book_consultation';
+
+export interface AssistantReply {
+  // Empty when the model went straight for the action
+  text: string;
+  action?: AssistantAction;
+}
+
+// Kept in the context in place of a reply when the model takes an action
+const ACTION_NOTES: Record<AssistantAction, string> = {
+  book_consultation: '[Offered times for a consultation call]',
+};
+
+const ASSISTANT_TOOLS: Record<
+  AssistantAction,
+  OpenAI.Chat.Completions.ChatCompletionTool
+> = {
+  book_consultation: {
+    type: 'function',
+    function: {
+      name: 'book_consultation',
+      description:
+        'Shows the user the free times for a call with the Studio Libra team and lets them book, move or cancel one. Use it when the user wants to meet or talk to the team about a project.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+};
 
 @Injectable()
 export class OpenaiService {
-  constructor(private readonly context: UserContextService) {}
+  constructor(
+    private readonly context: UserContextService,
+    private readonly promptsService: PromptsService,
+  ) {}
 
   private readonly openai = new OpenAI({
     apiKey: process.env.OPENAI_API_KEY,
   });
   private readonly logger = new Logger(OpenaiService.name);
 
-  async generateAIResponse(userID: string, userInput: string) {
+  // The message ID keeps a retried message from being saved twice
+  async generateAIResponse(
+    userID: string,
+    userInput: string,
+    promptContext: PromptContext = {},
+    messageID?: string,
+  ) {
+    const reply = await this.complete(
+      userID,
+      userInput,
+      promptContext,
+      [],
+      messageID,
+    );
+    return reply.text;
+  }
+
+  // Answers a chat message, letting the model pick an action instead
+  async generateAssistantReply(
+    userID: string,
+    userInput: string,
+    promptContext: PromptContext = {},
+    messageID?: string,
+  ): Promise<AssistantReply> {
+    return this.complete(
+      userID,
+      userInput,
+      promptContext,
+      ['book_consultation'],
+      messageID,
+    );
+  }
+
+  private async complete(
+    userID: string,
+    userInput: string,
+    promptContext: PromptContext,
+    actions: AssistantAction[],
+    messageID?: string,
+  ): Promise<AssistantReply> {
     try {
-      const systemPrompt = `You are Artistaa, a creative and friendly assistant communicating via WhatsApp.
-      Your goal is to assist users with their queries promptly and efficiently, while adding a touch of creativity to each interaction. Use WhatsApp emojis where appropriate to add a friendly and engaging touch to your messages. Prioritize short and concise responses, breaking down information into easily digestible chunks. Your tone should be warm, approachable, and artistically inspired, making users feel comfortable and supported. Here are some guidelines to follow:
-            
-      1. Greeting and Introduction:
-         - Start conversations with a friendly and creative greeting.
-         - Introduce yourself briefly if it's the first interaction.
-      
-      2. Use of Emojis:
-         - Integrate emojis naturally to enhance your messages.
-         - Use positive and creative emojis to create a friendly atmosphere.
-      
-      3. Concise Responses:
-         - Provide clear and concise answers.
-         - Use bullet points or numbered lists for clarity when necessary.
-      
-      4. Offering Assistance:
-         - Always ask if there's anything else the user needs help with.
-      
-      5. Closing Messages:
-         - End conversations on a positive note.
-         - Thank the user for reaching out.
-      
-      Remember to keep the interactions human-like, personable, and infused with creativity while maintaining a professional demeanor. Your primary objective is to assist the user effectively while making the conversation enjoyable.`;
+      const systemPrompt =
+        await this.promptsService.buildSystemPrompt(promptContext);
 
       const userContext = await this.context.saveAndFetchContext(
         userInput,
         'user',
         userID,
+        { messageID },
       );
       this.logger.log(userContext);
 
+      // A retried message gets the reply it already had
+      const savedReply = this.findSavedReply(userContext, messageID);
+      if (savedReply) {
+        return savedReply;
+      }
+
+      const documents = await this.context.getDocuments(userID);
+
       const response = await this.openai.chat.completions.create({
-        messages: [{ role: 'system', content: systemPrompt }, ...userContext],
-        model: process.env.OPENAI_MODEL || 'gpt-4o-2024-05-13',
+        messages: [
+          { role: 'system', content: systemPrompt.text },
+          ...this.documentMessages(documents),
+          // Entries carry details like the prompt version the API won't take
+          ...userContext.map(({ role, content }) => ({ role, content })),
+        ],
+        model: systemPrompt.model,
+        ...(actions.length
+          ? { tools: actions.map((action) => ASSISTANT_TOOLS[action]) }
+          : {}),
       });
 
-      const aiResponse = response.choices[0].message.content;
+      const { content, tool_calls } = response.choices[0].message;
+      const action = tool_calls
+        ?.map((call) => call.function.name as AssistantAction)
+        .find((name) => actions.includes(name));
 
-      await this.context.saveToContext(aiResponse, 'assistant', userID);
+      const details = { promptVersion: systemPrompt.ref, messageID };
+      if (content || !action) {
+        await this.context.saveToContext(content, 'assistant', userID, details);
+      }
+      if (action) {
+        await this.context.saveToContext(
+          ACTION_NOTES[action],
+          'assistant',
+          userID,
+          { ...details, action },
+        );
+      }
+      await this.promptsService.recordTurn(systemPrompt.ref);
 
-      return aiResponse;
+      return { text: content ?? '', action };
     } catch (error) {
       this.logger.error('Error generating AI response', error);
       // Fail gracefully!!
-      return 'Sorry, I am unable to process your request at the moment.';
+      return { text: translate(promptContext.language, 'aiUnavailable') };
     }
   }
+
+  // The reply and action saved for the message, null when it hasn't been
+  // answered yet
+  private findSavedReply(
+    context: (TurnDetails & { role: string; content: string })[],
+    messageID?: string,
+  ): AssistantReply | null {
+    const turns = messageID
+      ? context.filter(
+          (turn) => turn.role === 'assistant' && turn.messageID === messageID,
+        )
+      : [];
+    if (!turns.length) {
+      return null;
+    }
+    return {
+      text: turns.find(({ action }) => !action)?.content ?? '',
+      action: turns.find(({ action }) => action)?.action as AssistantAction,
+    };
+  }
+
+  // Describes an inbound image (logo, packaging, sketch...) with a
+  // vision-capable model and keeps the description in the user's context
+  async generateImageResponse(
+    userID: string,
+    imagePath: string,
+    caption?: string,
+    promptContext: PromptContext = {},
+    messageID?: string,
+  ) {
+    const description = await this.describeImage(imagePath, caption);
+    if (description.status === 'error') {
+      return translate(promptContext.language, 'imageUnavailable');
+    }
+
+    await this.context.saveToContext(
+      `[User shared an image${
+        caption ? ` with the caption "${caption}"` : ''
+      }. Image description: ${description.data}]`,
+      'user',
+      userID,
+      { messageID },
+    );
+
+    return this.generateAIResponse(
+      userID,
+      caption || 'What do you think of the image I just shared?',
+      promptContext,
+      messageID,
+    );
+  }
+
+  // Summarizes a document the user sent, as the assistant of their
+  // conversation
+  async summarizeDocument(
+    fileName: string,
+    text: string,
+    caption?: string,
+    promptContext: PromptContext = {},
+  ): Promise<{ status: 'error' | 'success'; data: string }> {
+    try {
+      const systemPrompt =
+        await this.promptsService.buildSystemPrompt(promptContext);
+      const response = await this.openai.chat.completions.create({
+        model: systemPrompt.model,
+        messages: [
+          { role: 'system', content: systemPrompt.text },
+          {
+            role: 'system',
+            content:
+              'The client sent a document, usually a project brief. Summarize it in a few short bullet points: the goal, deliverables, audience, budget, timeline and anything that is missing. Then ask one follow-up question. Only use what is in the document.',
+          },
+          {
+            role: 'user',
+            content: `${
+              caption ? `The client wrote: "${caption}"\n\n` : ''
+            }Document "${fileName}":\n\n${text}`,
+          },
+        ],
+      });
+
+      return { status: 'success', data: response.choices[0].message.content };
+    } catch (error) {
+      this.logger.error('Error summarizing document', error);
+      return { status: 'error', data: 'Document summary failed' };
+    }
+  }
+
+  // Pulls enquiry details out of a free-text reply like "I'm Amina from
+  // Duka Bora, we need a logo by March for about 80k"
+  async extractLeadFields(
+    text: string,
+    askedFor: LeadField,
+  ): Promise<
+    | { status: 'success'; data: Partial<Record<LeadField, string>> }
+    | { status: 'error'; data: string }
+  > {
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: `You extract project enquiry details for Studio Libra, a creative studio. The client was asked for their ${askedFor} and replied with the message below. Return a JSON object with only the fields the message gives, out of: ${LEAD_FIELDS.join(
+              ', ',
+            )}. Keep the client's wording for budget and timeline. Never guess or invent values.`,
+          },
+          { role: 'user', content: text },
+        ],
+      });
+
+      const fields = JSON.parse(response.choices[0].message.content);
+      return {
+        status: 'success',
+        data: Object.fromEntries(
+          Object.entries(fields).filter(
+            ([field, value]) =>
+              (LEAD_FIELDS as readonly string[]).includes(field) &&
+              typeof value === 'string' &&
+              value.trim(),
+          ),
+        ),
+      };
+    } catch (error) {
+      this.logger.error('Error extracting lead fields', error);
+      return { status: 'error', data: 'Lead field extraction failed' };
+    }
+  }
+
+  async describeImage(
+    imagePath: string,
+    caption?: string,
+  ): Promise<{ status: 'error' | 'success'; data: string }> {
+    try {
+      const mimeType =
+        IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()] ?? 'image/jpeg';
+      const image = readFileSync(imagePath).toString('base64');
+
+      const response = await this.openai.chat.completions.create({
+        model:
+          process.env.OPENAI_VISION_MODEL ||
+          process.env.OPENAI_MODEL ||
+          DEFAULT_MODEL,
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You describe images sent to a creative studio (branding, illustration, software, 3D). Describe what is shown factually and concisely: subject, text, colors, style, layout and anything a designer would need to know. Do not give advice.',
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: caption
+                  ? `The client wrote: "${caption}". Describe the image.`
+                  : 'Describe the image.',
+              },
+              {
+                type: 'image_url',
+                image_url: { url: `data:${mimeType};base64,${image}` },
+              },
+            ],
+          },
+        ],
+      });
+
+      return { status: 'success', data: response.choices[0].message.content };
+    } catch (error) {
+      this.logger.error('Error describing image', error);
+      return { status: 'error', data: 'Image description failed' };
+    }
+  }
+
+  // Shared documents go in as a system message rather than a context entry
+  // so that they are not repeated in the Redis conversation list
+  private documentMessages(documents: SharedDocument[]) {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        role: 'system' as const,
+        content: `The user shared the following documents. Use them to answer questions about their project.\n\n${documents
+          .map(({ fileName, text }) => `--- ${fileName} ---\n${text}`)
+          .join('\n\n')}`,
+      },
+    ];
+  }
 }
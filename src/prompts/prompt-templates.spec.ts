@@ -0,0 +1,32 @@
+import {
+  findUnknownVariables,
+  loadPromptsFile,
+  renderPrompt,
+  templateRef,
+} from './prompt-templates';
+
+describe('prompt templates', () => {
+  it('ships templates that only use known variables', () => {
+    const { templates, active } = loadPromptsFile();
+
+    for (const template of templates) {
+      expect([
+        templateRef(template),
+        findUnknownVariables(template.text),
+      ]).toEqual([templateRef(template), []]);
+    }
+    expect(templates.map(templateRef)).toContain(active.default);
+  });
+
+  it('fills in variables and leaves unknown ones', () => {
+    expect(
+      renderPrompt('Hi {{ userName }} on {{channel}}, {{email}}', {
+        userName: 'Amina',
+        channel: 'WhatsApp',
+        language: 'English',
+        businessHours: '',
+        catalogSummary: '',
+      }),
+    ).toBe('Hi Amina on WhatsApp, {{email}}');
+  });
+});
@@ -0,0 +1,111 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ChannelName } from '../conversation/conversation.types';
+import { Language } from '../i18n/i18n';
+import { StudioService } from '../catalog/studio-services';
+
+// Used when neither the template nor OPENAI_MODEL names a model
+export const DEFAULT_MODEL = 'gpt-4o';
+
+// A version of the assistant's system prompt. Versions are never edited,
+// a change is a new version, so conversations can be compared by version.
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  description?: string;
+  // Overrides OPENAI_MODEL for conversations using this version
+  model?: string;
+  // {{variable}} placeholders are filled in for every conversation
+  text: string;
+  createdAt?: number;
+}
+
+// Which template version each channel uses, as "name@version"
+export type PromptChannel = ChannelName | 'default';
+export type PromptSelection = { default: string } & Partial<
+  Record<ChannelName, string>
+>;
+
+export interface PromptsFile {
+  templates: PromptTemplate[];
+  active: PromptSelection;
+}
+
+// Who the prompt is rendered for
+export interface PromptContext {
+  channel?: ChannelName;
+  userName?: string;
+  language?: Language;
+}
+
+export interface RenderedPrompt {
+  // "name@version", recorded with the assistant turns it produced
+  ref: string;
+  model: string;
+  text: string;
+}
+
+export const PROMPT_VARIABLES = [
+  'userName',
+  'channel',
+  'language',
+  'businessHours',
+  'catalogSummary',
+] as const;
+
+export type PromptVariables = Record<(typeof PROMPT_VARIABLES)[number], string>;
+
+export const PROMPT_CHANNELS: PromptChannel[] = [
+  'default',
+  'whatsapp',
+  'telegram',
+  'webchat',
+  'messenger',
+  'instagram',
+  'simulator',
+];
+
+// How channels are named to the model
+export const CHANNEL_DISPLAY_NAMES: Record<ChannelName, string> = {
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+  webchat: 'the chat on the Studio Libra website',
+  messenger: 'Facebook Messenger',
+  instagram: 'Instagram',
+  simulator: 'a test chat',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function loadPromptsFile(
+  filePath = process.env.PROMPTS_PATH ||
+    join(process.cwd(), 'config', 'prompts.json'),
+): PromptsFile {
+  return JSON.parse(readFileSync(filePath, 'utf8'));
+}
+
+export function templateRef({ name, version }: PromptTemplate) {
+  return `${name}@${version}`;
+}
+
+export function renderPrompt(text: string, variables: PromptVariables) {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name) =>
+    name in variables ? variables[name] : placeholder,
+  );
+}
+
+// Placeholders a template uses that would never be filled in
+export function findUnknownVariables(text: string) {
+  return [...text.matchAll(VARIABLE_PATTERN)]
+    .map(([, name]) => name)
+    .filter((name) => !(PROMPT_VARIABLES as readonly string[]).includes(name));
+}
+
+// One line per service, for the model to know what the studio offers
+export function summarizeCatalog(services: StudioService[]) {
+  return services
+    .map(
+      ({ emoji, title, description }) => `- ${emoji} ${title}: ${description}`,
+    )
+    .join('\n');
+}
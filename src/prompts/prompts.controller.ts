@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { PromptsService } from './prompts.service';
+import { PromptContext, PromptTemplate } from './prompt-templates';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('prompts')
+@UseGuards(AdminTokenGuard)
+export class PromptsController {
+  constructor(private readonly promptsService: PromptsService) {}
+
+  @Get('templates')
+  getTemplates() {
+    return this.promptsService.getTemplates();
+  }
+
+  // Adds a new version, versions themselves can't be edited
+  @Post('templates')
+  createTemplate(
+    @Body()
+    template: Pick<PromptTemplate, 'name' | 'text' | 'description' | 'model'>,
+  ) {
+    return this.promptsService.createTemplate(template);
+  }
+
+  @Get('active')
+  getActive() {
+    return this.promptsService.getActive();
+  }
+
+  @Put('active/:channel')
+  activate(@Param('channel') channel: string, @Body('ref') ref: string) {
+    return this.promptsService.activate(channel, ref);
+  }
+
+  @Post('preview')
+  @HttpCode(200)
+  preview(@Body() { ref, ...context }: PromptContext & { ref?: string }) {
+    return this.promptsService.preview(context, ref);
+  }
+
+  @Get('usage')
+  getUsage() {
+    return this.promptsService.getUsage();
+  }
+}
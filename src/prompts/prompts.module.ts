@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PromptsController } from './prompts.controller';
+import { PromptsService } from './prompts.service';
+import { CatalogService } from '../catalog/catalog.service';
+
+@Module({
+  controllers: [PromptsController],
+  providers: [PromptsService, CatalogService],
+  exports: [PromptsService],
+})
+export class PromptsModule {}
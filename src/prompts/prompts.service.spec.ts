@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PromptsService } from './prompts.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { loadCatalogFile } from '../catalog/studio-services';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('PromptsService', () => {
+  let service: PromptsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromptsService,
+        {
+          provide: CatalogService,
+          useValue: {
+            getServices: jest.fn().mockResolvedValue(loadCatalogFile()),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PromptsService>(PromptsService);
+    await service['redis'].flushall();
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_MODEL;
+  });
+
+  it('renders the active prompt for a conversation', async () => {
+    const prompt = await service.buildSystemPrompt({
+      channel: 'telegram',
+      userName: 'Amina',
+      language: 'sw',
+    });
+
+    expect(prompt.ref).toBe('artistaa@2');
+    expect(prompt.model).toBe('gpt-4o');
+    expect(prompt.text).toContain('chatting with Amina on Telegram');
+    expect(prompt.text).toContain('- 🎨 Branding: Logos, visual identity');
+    expect(prompt.text).toContain(
+      'available Monday to Friday 08:00-17:00, Saturday 09:00-13:00',
+    );
+    expect(prompt.text).toContain('Answer in Swahili');
+    expect(prompt.text).not.toMatch(/\{\{/);
+  });
+
+  it('adds versions and switches channels to them', async () => {
+    const created = await service.createTemplate({
+      name: 'artistaa',
+      text: 'You are Artistaa on {{channel}}. Be brief.',
+      model: 'gpt-4o-mini',
+    });
+    expect(created).toEqual({
+      status: 'success',
+      data: expect.objectContaining({ name: 'artistaa', version: 3 }),
+    });
+
+    await service.activate('webchat', 'artistaa@3');
+
+    const webchat = await service.buildSystemPrompt({ channel: 'webchat' });
+    expect(webchat).toMatchObject({
+      ref: 'artistaa@3',
+      model: 'gpt-4o-mini',
+      text: expect.stringMatching(
+        /^You are Artistaa on the chat on the Studio Libra website\. Be brief\./,
+      ),
+    });
+    expect((await service.buildSystemPrompt({ channel: 'whatsapp' })).ref).toBe(
+      'artistaa@2',
+    );
+  });
+
+  it('turns down unknown variables, versions and channels', async () => {
+    expect(
+      await service.createTemplate({ name: 'artistaa', text: 'Hi {{email}}' }),
+    ).toEqual({ status: 'error', message: 'Unknown variables: email' });
+    expect(await service.activate('default', 'artistaa@9')).toEqual({
+      status: 'error',
+      message: 'Prompt artistaa@9 not found',
+    });
+    expect(await service.activate('sms', 'artistaa@1')).toEqual({
+      status: 'error',
+      message: 'Unknown channel sms',
+    });
+  });
+
+  it('previews any version without activating it', async () => {
+    const preview = await service.preview(
+      { channel: 'whatsapp' },
+      'artistaa@1',
+    );
+
+    expect(preview).toEqual({
+      status: 'success',
+      data: expect.objectContaining({
+        ref: 'artistaa@1',
+        text: expect.stringContaining('communicating via WhatsApp'),
+      }),
+    });
+    expect((await service.getActive()).default).toBe('artistaa@2');
+  });
+
+  it('falls back to OPENAI_MODEL and counts turns per version', async () => {
+    process.env.OPENAI_MODEL = 'gpt-4.1';
+    expect((await service.buildSystemPrompt({})).model).toBe('gpt-4.1');
+
+    await service.recordTurn('artistaa@2');
+    await service.recordTurn('artistaa@2');
+    expect(await service.getUsage()).toEqual({ 'artistaa@2': 2 });
+  });
+});
@@ -0,0 +1,236 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { statSync } from 'fs';
+import { join } from 'path';
+import { CatalogService } from '../catalog/catalog.service';
+import { DEFAULT_LANGUAGE, languageInstruction, LANGUAGES } from '../i18n/i18n';
+import {
+  describeBusinessHours,
+  loadBusinessHours,
+} from '../business-hours/business-hours';
+import {
+  CHANNEL_DISPLAY_NAMES,
+  DEFAULT_MODEL,
+  findUnknownVariables,
+  loadPromptsFile,
+  PROMPT_CHANNELS,
+  PromptChannel,
+  PromptContext,
+  PromptsFile,
+  PromptSelection,
+  PromptTemplate,
+  PromptVariables,
+  RenderedPrompt,
+  renderPrompt,
+  summarizeCatalog,
+  templateRef,
+} from './prompt-templates';
+
+// Versions added and activated through the admin API, on top of the file
+const TEMPLATES_KEY = 'prompts:templates';
+const ACTIVE_KEY = 'prompts:active';
+// Assistant turns per version
+const USAGE_KEY = 'prompts:usage';
+
+export type PromptsResult<T> =
+  | { status: 'success'; data: T }
+  | { status: 'error'; message: string };
+
+// Serves the assistant's system prompt. Templates start out in
+// config/prompts.json; new versions and the version each channel uses can
+// be changed through the admin API and apply to the next message.
+@Injectable()
+export class PromptsService {
+  constructor(private readonly catalogService: CatalogService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(PromptsService.name);
+
+  readonly configuration = {
+    filePath:
+      process.env.PROMPTS_PATH || join(process.cwd(), 'config', 'prompts.json'),
+  };
+
+  // Re-read when the file changes on disk
+  private file: { modifiedAt: number; prompts: PromptsFile } | null = null;
+
+  async getTemplates(): Promise<PromptTemplate[]> {
+    const stored = await this.getStored(() => this.redis.hvals(TEMPLATES_KEY));
+    return [
+      ...this.getFile().templates,
+      ...(stored ?? []).map((template) => JSON.parse(template)),
+    ].sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+  }
+
+  async getTemplate(ref: string) {
+    const templates = await this.getTemplates();
+    return templates.find((template) => templateRef(template) === ref) ?? null;
+  }
+
+  async getActive(): Promise<PromptSelection> {
+    const stored = await this.getStored(() => this.redis.hgetall(ACTIVE_KEY));
+    return { ...this.getFile().active, ...stored };
+  }
+
+  // Adds the next version of a template, or its first one
+  async createTemplate(
+    template: Pick<PromptTemplate, 'name' | 'text' | 'description' | 'model'>,
+  ): Promise<PromptsResult<PromptTemplate>> {
+    if (!/^[a-z0-9_-]{1,64}$/.test(template?.name ?? '')) {
+      return {
+        status: 'error',
+        message: 'name must be 1-64 lowercase letters, digits, - or _',
+      };
+    }
+    if (!template.text?.trim()) {
+      return { status: 'error', message: 'text is required' };
+    }
+    const unknown = findUnknownVariables(template.text);
+    if (unknown.length) {
+      return {
+        status: 'error',
+        message: `Unknown variables: ${unknown.join(', ')}`,
+      };
+    }
+
+    const versions = (await this.getTemplates()).filter(
+      ({ name }) => name === template.name,
+    );
+    const created: PromptTemplate = {
+      name: template.name,
+      version: Math.max(0, ...versions.map(({ version }) => version)) + 1,
+      description: template.description,
+      model: template.model,
+      text: template.text,
+      createdAt: Date.now(),
+    };
+
+    await this.redis.hset(
+      TEMPLATES_KEY,
+      templateRef(created),
+      JSON.stringify(created),
+    );
+    this.logger.log(`Created prompt ${templateRef(created)}`);
+    return { status: 'success', data: created };
+  }
+
+  // Switches the version a channel (or every channel, with "default") uses
+  async activate(
+    channel: string,
+    ref: string,
+  ): Promise<PromptsResult<PromptSelection>> {
+    if (!PROMPT_CHANNELS.includes(channel as PromptChannel)) {
+      return { status: 'error', message: `Unknown channel ${channel}` };
+    }
+    if (!(await this.getTemplate(ref))) {
+      return { status: 'error', message: `Prompt ${ref} not found` };
+    }
+
+    await this.redis.hset(ACTIVE_KEY, channel, ref);
+    this.logger.log(`Activated prompt ${ref} for ${channel}`);
+    return { status: 'success', data: await this.getActive() };
+  }
+
+  // Renders the prompt a conversation would get, or the given version
+  async preview(
+    context: PromptContext,
+    ref?: string,
+  ): Promise<PromptsResult<RenderedPrompt>> {
+    const template = ref
+      ? await this.getTemplate(ref)
+      : await this.getActiveTemplate(context.channel);
+    if (!template) {
+      return { status: 'error', message: `Prompt ${ref} not found` };
+    }
+    return { status: 'success', data: await this.render(template, context) };
+  }
+
+  async buildSystemPrompt(context: PromptContext): Promise<RenderedPrompt> {
+    return this.render(await this.getActiveTemplate(context.channel), context);
+  }
+
+  async recordTurn(ref: string) {
+    try {
+      await this.redis.hincrby(USAGE_KEY, ref, 1);
+    } catch (error) {
+      this.logger.error('Error Recording Prompt Usage', error);
+    }
+  }
+
+  async getUsage(): Promise<Record<string, number>> {
+    const usage = await this.getStored(() => this.redis.hgetall(USAGE_KEY));
+    return Object.fromEntries(
+      Object.entries(usage ?? {}).map(([ref, turns]) => [ref, Number(turns)]),
+    );
+  }
+
+  private async getActiveTemplate(channel?: PromptChannel) {
+    const active = await this.getActive();
+    const ref = (channel && active[channel]) || active.default;
+    const template = await this.getTemplate(ref);
+    if (template) {
+      return template;
+    }
+
+    // A missing version must not take the assistant down
+    this.logger.error(`Active prompt ${ref} not found, using the latest`);
+    const templates = this.getFile().templates;
+    return templates[templates.length - 1];
+  }
+
+  private async render(
+    template: PromptTemplate,
+    { channel, userName, language = DEFAULT_LANGUAGE }: PromptContext,
+  ): Promise<RenderedPrompt> {
+    const variables: PromptVariables = {
+      userName: userName || 'the user',
+      channel: CHANNEL_DISPLAY_NAMES[channel] ?? 'chat',
+      language: LANGUAGES[language]?.name ?? LANGUAGES.en.name,
+      businessHours: this.getBusinessHours(),
+      catalogSummary: summarizeCatalog(await this.catalogService.getServices()),
+    };
+
+    return {
+      ref: templateRef(template),
+      model: template.model || process.env.OPENAI_MODEL || DEFAULT_MODEL,
+      // Every version answers in the user's language, whether or not it
+      // mentions {{language}}
+      text: `${renderPrompt(template.text, variables)}\n\n${languageInstruction(
+        language,
+      )}`,
+    };
+  }
+
+  private getBusinessHours() {
+    try {
+      return describeBusinessHours(loadBusinessHours());
+    } catch (error) {
+      this.logger.error('Invalid BUSINESS_HOURS', error);
+      return 'during business hours';
+    }
+  }
+
+  // Redis only adds to the file, so the file is enough when it is down
+  private async getStored<T>(read: () => Promise<T>): Promise<T | null> {
+    try {
+      return await read();
+    } catch (error) {
+      this.logger.error('Error Loading Prompts', error);
+      return null;
+    }
+  }
+
+  private getFile(): PromptsFile {
+    try {
+      const { filePath } = this.configuration;
+      const modifiedAt = statSync(filePath).mtimeMs;
+      if (this.file?.modifiedAt !== modifiedAt) {
+        this.file = { modifiedAt, prompts: loadPromptsFile(filePath) };
+      }
+    } catch (error) {
+      // Keep serving the last prompts that could be read
+      this.logger.error('Error Reading Prompts File', error);
+    }
+    return this.file?.prompts ?? { templates: [], active: { default: '' } };
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { QueueService } from './queue.service';
+import { AdminTokenGuard } from '../admin/admin-token.guard';
+
+@Controller('queue')
+@UseGuards(AdminTokenGuard)
+export class QueueController {
+  constructor(private readonly queueService: QueueService) {}
+
+  @Get('failed')
+  getFailedJobs() {
+    return this.queueService.getFailedJobs();
+  }
+
+  @Post('failed/:id/retry')
+  @HttpCode(200)
+  retryFailedJob(@Param('id') jobID: string) {
+    return this.queueService.retryFailedJob(jobID);
+  }
+}
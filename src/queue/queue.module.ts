@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { QueueController } from './queue.controller';
+import { QueueService } from './queue.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+@Module({
+  controllers: [QueueController],
+  providers: [QueueService, UserContextService],
+  exports: [QueueService],
+})
+export class QueueModule {}
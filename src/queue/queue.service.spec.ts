@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FailedJob, QueueService } from './queue.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+process.env.HASHING_SALT = 'test-salt';
+process.env.ENCRYPTION_KEY = 'test-key';
+
+describe('QueueService', () => {
+  let service: QueueService;
+
+  const drain = async () => {
+    while (await service.processNext()) {
+      // keep going until every user queue is empty
+    }
+  };
+
+  beforeEach(async () => {
+    process.env.QUEUE_BACKOFF_MS = '0';
+    process.env.QUEUE_MAX_ATTEMPTS = '3';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QueueService, UserContextService],
+    }).compile();
+
+    service = module.get<QueueService>(QueueService);
+    await service['redis'].flushall();
+  });
+
+  afterAll(() => {
+    delete process.env.QUEUE_BACKOFF_MS;
+    delete process.env.QUEUE_MAX_ATTEMPTS;
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('runs jobs in arrival order per user', async () => {
+    const handled: string[] = [];
+    service.registerHandler<string>('test', async (job) => {
+      handled.push(`${job.userID}:${job.payload}`);
+    });
+
+    await service.enqueue('test', 'alice', 'one');
+    await service.enqueue('test', 'bob', 'one');
+    await service.enqueue('test', 'alice', 'two');
+    await service.enqueue('test', 'alice', 'three');
+    await drain();
+
+    expect(handled.filter((item) => item.startsWith('alice'))).toEqual([
+      'alice:one',
+      'alice:two',
+      'alice:three',
+    ]);
+    expect(handled).toContain('bob:one');
+  });
+
+  it('never hands the same user to two workers at once', async () => {
+    await service.enqueue('test', 'alice', 'one');
+    await service.enqueue('test', 'alice', 'two');
+
+    expect(await service['redis'].lrange('queue:ready', 0, -1)).toHaveLength(1);
+  });
+
+  it('retries failing jobs before succeeding', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(undefined);
+    service.registerHandler('test', handler);
+
+    await service.enqueue('test', 'alice', 'one');
+    await drain();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await service.getFailedJobs()).toEqual([]);
+  });
+
+  it('moves jobs to the dead letter list after the last attempt', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('GPT is down'));
+    service.registerHandler('test', handler);
+
+    const jobID = await service.enqueue('test', 'alice', 'one');
+    await drain();
+
+    const [failed] = await service.getFailedJobs();
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(failed).toEqual(
+      expect.objectContaining<Partial<FailedJob>>({
+        id: jobID,
+        attempts: 3,
+        lastError: 'GPT is down',
+      }),
+    );
+  });
+
+  it('requeues dead letters on retry', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('1'))
+      .mockRejectedValueOnce(new Error('2'))
+      .mockRejectedValueOnce(new Error('3'))
+      .mockResolvedValueOnce(undefined);
+    service.registerHandler('test', handler);
+
+    const jobID = await service.enqueue('test', 'alice', 'one');
+    await drain();
+
+    expect(await service.retryFailedJob(jobID)).toEqual({
+      status: 'success',
+      message: 'Job requeued',
+    });
+    await drain();
+
+    expect(handler).toHaveBeenCalledTimes(4);
+    expect(await service.getFailedJobs()).toEqual([]);
+  });
+
+  it('keeps user IDs and payloads encrypted and out of failed jobs', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('GPT is down'));
+    service.registerHandler('test', handler);
+
+    await service.enqueue('test', '254700000001', {
+      message: { from: '254700000001', text: 'Hi' },
+    });
+    const queued = await service['redis'].keys('queue:user:*');
+    expect(
+      JSON.stringify(await service['redis'].lrange(queued[0], 0, -1)),
+    ).not.toContain('254700000001');
+
+    await drain();
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userID: '254700000001',
+        payload: { message: { from: '254700000001', text: 'Hi' } },
+      }),
+    );
+    const stored = await service['redis'].lrange('queue:dead', 0, -1);
+    expect(JSON.stringify(stored)).not.toContain('254700000001');
+
+    const [failed] = await service.getFailedJobs();
+    expect(failed).not.toHaveProperty('payload');
+    expect(failed).not.toHaveProperty('userID');
+    expect(failed.conversationID).toMatch(/^[a-f0-9]{64}$/);
+    expect(JSON.stringify(failed)).not.toContain('254700000001');
+  });
+
+  it('dead-letters jobs without a handler', async () => {
+    await service.enqueue('unknown', 'alice', 'one');
+    await drain();
+
+    const [failed] = await service.getFailedJobs();
+    expect(failed.lastError).toBe('No handler registered for unknown');
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Redis } from 'ioredis';
+import * as crypto from 'crypto';
+import { UserContextService } from '../user-context/user-context.service';
+
+export interface Job<T = any> {
+  id: string;
+  type: string;
+  userID: string;
+  payload: T;
+  attempts: number;
+  createdAt: number;
+  lastError?: string;
+  failedAt?: number;
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+// How a job is kept in Redis. The user ID and the payload carry phone
+// numbers and messages, so they are only stored encrypted.
+type StoredJob = Omit<Job, 'userID' | 'payload'> & { encrypted: string };
+
+// What the API shows of a job that failed. The conversation ID is the
+// hashed user ID, the same as in the inbox.
+export type FailedJob = Omit<Job, 'userID' | 'payload'> & {
+  conversationID: string;
+};
+
+// Jobs are kept in one Redis list per user so that a user's messages are
+// handled in the order they arrived, while different users are handled in
+// parallel. `queue:ready` holds the users that have work and no worker on
+// them, `queue:active` every user that is queued or being worked on.
+const READY_KEY = 'queue:ready';
+const ACTIVE_KEY = 'queue:active';
+const DEAD_LETTER_KEY = 'queue:dead';
+
+const ENQUEUE_SCRIPT = `
+redis.call('RPUSH', KEYS[1], ARGV[2])
+if redis.call('SADD', KEYS[2], ARGV[1]) == 1 then
+  redis.call('RPUSH', KEYS[3], ARGV[1])
+end
+return 1`;
+
+// Hands the user back to the ready list if more jobs arrived meanwhile,
+// otherwise releases it. Runs atomically so no job is ever stranded.
+const RELEASE_SCRIPT = `
+if redis.call('LLEN', KEYS[1]) == 0 then
+  redis.call('SREM', KEYS[2], ARGV[1])
+  return 0
+end
+redis.call('RPUSH', KEYS[3], ARGV[1])
+return 1`;
+
+@Injectable()
+export class QueueService implements OnApplicationBootstrap, OnModuleDestroy {
+  constructor(private readonly userContextService: UserContextService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger: Logger = new Logger(QueueService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly workers: Promise<void>[] = [];
+  private running = false;
+
+  readonly configuration = {
+    concurrency: Number(process.env.QUEUE_CONCURRENCY) || 2,
+    maxAttempts: Number(process.env.QUEUE_MAX_ATTEMPTS) || 5,
+    backoffMs: Number(process.env.QUEUE_BACKOFF_MS ?? 1000),
+    pollIntervalMs: Number(process.env.QUEUE_POLL_INTERVAL_MS) || 500,
+  };
+
+  registerHandler<T>(type: string, handler: JobHandler<T>) {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue<T>(type: string, userID: string, payload: T) {
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      type,
+      userID,
+      payload,
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+    await this.pushJob(job);
+    return job.id;
+  }
+
+  async onApplicationBootstrap() {
+    await this.recoverStalledUsers();
+    this.start();
+  }
+
+  async onModuleDestroy() {
+    await this.stop();
+    this.redis.disconnect();
+  }
+
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    for (let i = 0; i < this.configuration.concurrency; i++) {
+      this.workers.push(this.work());
+    }
+    this.logger.log(
+      `Started ${this.configuration.concurrency} queue worker(s)`,
+    );
+  }
+
+  async stop() {
+    this.running = false;
+    await Promise.all(this.workers.splice(0));
+  }
+
+  // Takes the next user off the ready list and runs their oldest job.
+  // Returns false when there was nothing to do.
+  async processNext() {
+    const queueKey = await this.redis.lpop(READY_KEY);
+    if (!queueKey) {
+      return false;
+    }
+
+    const rawJob = await this.redis.lindex(this.userQueueKey(queueKey), 0);
+    if (rawJob) {
+      await this.runJob(this.parseJob(rawJob));
+      await this.redis.lpop(this.userQueueKey(queueKey));
+    }
+
+    await this.redis.eval(
+      RELEASE_SCRIPT,
+      3,
+      this.userQueueKey(queueKey),
+      ACTIVE_KEY,
+      READY_KEY,
+      queueKey,
+    );
+    return true;
+  }
+
+  async getFailedJobs(): Promise<FailedJob[]> {
+    const jobs = await this.redis.lrange(DEAD_LETTER_KEY, 0, -1);
+    return jobs.map((item) => {
+      const { id, type, userID, attempts, createdAt, lastError, failedAt } =
+        this.parseJob(item);
+      return {
+        id,
+        type,
+        conversationID: this.userContextService.hashPhoneNumber(userID),
+        attempts,
+        createdAt,
+        lastError,
+        failedAt,
+      };
+    });
+  }
+
+  async retryFailedJob(jobID: string) {
+    const jobs = await this.redis.lrange(DEAD_LETTER_KEY, 0, -1);
+    const rawJob = jobs.find((item) => JSON.parse(item).id === jobID);
+    if (!rawJob) {
+      return { status: 'error', message: 'Job not found' };
+    }
+
+    await this.redis.lrem(DEAD_LETTER_KEY, 1, rawJob);
+    const job = this.parseJob(rawJob);
+    await this.pushJob({
+      ...job,
+      attempts: 0,
+      lastError: undefined,
+      failedAt: undefined,
+    });
+    return { status: 'success', message: 'Job requeued' };
+  }
+
+  private async work() {
+    while (this.running) {
+      try {
+        const processed = await this.processNext();
+        if (!processed) {
+          await this.sleep(this.configuration.pollIntervalMs);
+        }
+      } catch (error) {
+        this.logger.error('Queue worker error', error);
+        await this.sleep(this.configuration.pollIntervalMs);
+      }
+    }
+  }
+
+  private async runJob(job: Job) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.deadLetter(job, `No handler registered for ${job.type}`);
+      return;
+    }
+
+    while (job.attempts < this.configuration.maxAttempts) {
+      job.attempts++;
+      try {
+        await handler(job);
+        return;
+      } catch (error) {
+        job.lastError = error?.message ?? String(error);
+        this.logger.warn(
+          `Job ${job.id} (${job.type}) failed attempt ${job.attempts}: ${job.lastError}`,
+        );
+        if (job.attempts < this.configuration.maxAttempts) {
+          await this.sleep(this.backoffDelay(job.attempts));
+        }
+      }
+    }
+
+    await this.deadLetter(job, job.lastError);
+  }
+
+  private async deadLetter(job: Job, reason: string) {
+    this.logger.error(`Job ${job.id} (${job.type}) moved to dead letters`);
+    await this.redis.lpush(
+      DEAD_LETTER_KEY,
+      this.serializeJob({ ...job, lastError: reason, failedAt: Date.now() }),
+    );
+  }
+
+  private async pushJob(job: Job) {
+    const queueKey = this.orderingKey(job.userID);
+    await this.redis.eval(
+      ENQUEUE_SCRIPT,
+      3,
+      this.userQueueKey(queueKey),
+      ACTIVE_KEY,
+      READY_KEY,
+      queueKey,
+      this.serializeJob(job),
+    );
+  }
+
+  private serializeJob({ userID, payload, ...details }: Job) {
+    const stored: StoredJob = {
+      ...details,
+      encrypted: this.userContextService.encrypt(
+        JSON.stringify({ userID, payload }),
+      ),
+    };
+    return JSON.stringify(stored);
+  }
+
+  private parseJob(rawJob: string): Job {
+    const { encrypted, ...details }: StoredJob = JSON.parse(rawJob);
+    // Jobs queued before payloads were encrypted
+    if (!encrypted) {
+      return JSON.parse(rawJob);
+    }
+    return {
+      ...details,
+      ...JSON.parse(this.userContextService.decrypt(encrypted)),
+    };
+  }
+
+  // Users whose worker died mid-job are still marked active but are no
+  // longer on the ready list. Assumes a single worker process.
+  private async recoverStalledUsers() {
+    const [active, ready] = await Promise.all([
+      this.redis.smembers(ACTIVE_KEY),
+      this.redis.lrange(READY_KEY, 0, -1),
+    ]);
+    const stalled = active.filter((queueKey) => !ready.includes(queueKey));
+    if (stalled.length) {
+      this.logger.warn(`Recovering ${stalled.length} stalled user queue(s)`);
+      await this.redis.rpush(READY_KEY, ...stalled);
+    }
+  }
+
+  private backoffDelay(attempt: number) {
+    return this.configuration.backoffMs * 2 ** (attempt - 1);
+  }
+
+  // Phone numbers shouldn't appear in key names
+  private orderingKey(userID: string) {
+    return crypto.createHash('sha256').update(userID).digest('hex');
+  }
+
+  private userQueueKey(queueKey: string) {
+    return `queue:user:${queueKey}`;
+  }
+
+  private sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,180 @@
+import * as path from 'path';
+import { WhatsappCloudApiClient } from '../whatsapp/cloud-api/whatsapp-cloud-api.client';
+import {
+  WhatsappMediaDownloadResult,
+  WhatsappMediaUploadResult,
+  WhatsappOutboundMessage,
+  WhatsappSendResult,
+} from '../whatsapp/cloud-api/whatsapp-cloud-api.types';
+import { MessengerGraphClient } from '../messenger/messenger-graph.client';
+import {
+  MessengerAttachmentType,
+  MessengerDownloadResult,
+  MessengerPlatform,
+  MessengerSendRequest,
+  MessengerSendResult,
+} from '../messenger/messenger.types';
+
+// Stand-ins for the platform clients. The real channel adapters run on top
+// of them, so the payloads are exactly what would have been sent, but
+// nothing leaves the machine.
+
+export type SimulatedPlatform =
+  | 'whatsapp'
+  | 'telegram'
+  | 'messenger'
+  | 'instagram';
+
+export type RecordPayload = (
+  platform: SimulatedPlatform,
+  recipientID: string,
+  payload: unknown,
+) => void;
+
+// Uploaded media would be sent by ID, named after the file to stay readable
+const simulatedMediaID = (fileName: string) => `simulated:${fileName}`;
+
+const describeFile = (fileName: string, data: Buffer) =>
+  `<${fileName}, ${data.length} bytes>`;
+
+export class SimulatedWhatsappCloudApiClient extends WhatsappCloudApiClient {
+  constructor(private readonly record: RecordPayload) {
+    super();
+  }
+
+  async send(message: WhatsappOutboundMessage): Promise<WhatsappSendResult> {
+    this.record('whatsapp', message.to, message);
+    return { status: 'success', messageId: 'wamid.simulated', to: message.to };
+  }
+
+  async markAsRead() {
+    return { status: 'success' as const };
+  }
+
+  async uploadMedia(
+    data: Buffer,
+    mimeType: string,
+    fileName: string,
+  ): Promise<WhatsappMediaUploadResult> {
+    return { status: 'success', id: simulatedMediaID(fileName) };
+  }
+
+  async downloadMedia(mediaId: string): Promise<WhatsappMediaDownloadResult> {
+    return {
+      status: 'error',
+      error: `Media ${mediaId} can't be downloaded in the simulator`,
+      category: 'media',
+    };
+  }
+}
+
+export class SimulatedMessengerGraphClient extends MessengerGraphClient {
+  constructor(private readonly record: RecordPayload) {
+    super();
+  }
+
+  async send(
+    platform: MessengerPlatform,
+    request: MessengerSendRequest,
+  ): Promise<MessengerSendResult> {
+    this.record(platform, request.recipient.id, request);
+    return { status: 'success', messageId: 'm_simulated' };
+  }
+
+  async sendAttachment(
+    recipientID: string,
+    type: MessengerAttachmentType,
+    data: Buffer,
+    mimeType: string,
+    fileName: string,
+  ): Promise<MessengerSendResult> {
+    this.record('messenger', recipientID, {
+      recipient: { id: recipientID },
+      messaging_type: 'RESPONSE',
+      message: { attachment: { type, payload: { is_reusable: false } } },
+      filedata: describeFile(fileName, data),
+    });
+    return { status: 'success', messageId: 'm_simulated' };
+  }
+
+  async downloadAttachment(url: string): Promise<MessengerDownloadResult> {
+    return {
+      status: 'error',
+      error: `${url} can't be downloaded in the simulator`,
+    };
+  }
+}
+
+// Records the node-telegram-bot-api methods the Telegram adapter calls,
+// as the Bot API method name and its parameters
+export class SimulatedTelegramBot {
+  constructor(private readonly record: RecordPayload) {}
+
+  async sendMessage(chatId: string, text: string, options = {}) {
+    this.record('telegram', chatId, {
+      method: 'sendMessage',
+      chat_id: chatId,
+      text,
+      ...options,
+    });
+    return { message_id: 0 };
+  }
+
+  async sendPhoto(
+    chatId: string,
+    photo: Buffer,
+    options = {},
+    fileOptions: { filename?: string } = {},
+  ) {
+    this.record('telegram', chatId, {
+      method: 'sendPhoto',
+      chat_id: chatId,
+      photo: describeFile(path.basename(fileOptions.filename ?? ''), photo),
+      ...options,
+    });
+    return { message_id: 0 };
+  }
+
+  async sendVoice(
+    chatId: string,
+    voice: Buffer,
+    options = {},
+    fileOptions: { filename?: string } = {},
+  ) {
+    this.record('telegram', chatId, {
+      method: 'sendVoice',
+      chat_id: chatId,
+      voice: describeFile(path.basename(fileOptions.filename ?? ''), voice),
+      ...options,
+    });
+    return { message_id: 0 };
+  }
+
+  async sendDocument(
+    chatId: string,
+    document: Buffer,
+    options = {},
+    fileOptions: { filename?: string } = {},
+  ) {
+    this.record('telegram', chatId, {
+      method: 'sendDocument',
+      chat_id: chatId,
+      document: describeFile(fileOptions.filename ?? '', document),
+      ...options,
+    });
+    return { message_id: 0 };
+  }
+
+  async sendChatAction(chatId: string, action: string) {
+    this.record('telegram', chatId, {
+      method: 'sendChatAction',
+      chat_id: chatId,
+      action,
+    });
+    return true;
+  }
+
+  async answerCallbackQuery() {
+    return true;
+  }
+}
@@ -0,0 +1,128 @@
+// Chat with the bot from a terminal: npm run simulate
+//
+// Talks to the /simulate endpoint of a server started with
+// SIMULATOR_ENABLED=true and prints what each platform would have been sent.
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import type { SimulationResult, SimulatorInput } from './simulator.service';
+
+const HELP = `Type a message to send it as the user, or:
+  /tap <id>           tap a menu option or button, e.g. /tap branding_service
+  /audio <file>       send a voice note
+  /user <id>          talk as another user
+  /name <name>        set the user's display name
+  /only <platforms>   only print some platforms, e.g. /only whatsapp,telegram
+  /only all           print every platform again
+  /help               show this help
+  /quit               leave
+Anything else starting with a slash (/start, /imagine ...) goes to the bot.`;
+
+const server = process.env.SIMULATOR_URL || 'http://localhost:3000';
+const user: SimulatorInput = { userID: 'simulator', userName: 'Simulator' };
+let platforms: string[] | null = null;
+
+async function simulate(input: SimulatorInput) {
+  const response = await fetch(`${server}/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...user, ...input }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404
+        ? 'The simulator is off, start the server with SIMULATOR_ENABLED=true'
+        : `${response.status} ${await response.text()}`,
+    );
+  }
+  return (await response.json()) as SimulationResult;
+}
+
+function print(result: SimulationResult) {
+  for (const reply of result.replies) {
+    const { type, ...rest } = reply;
+    console.log(`\n── bot: ${type}`, Object.keys(rest).length ? rest : '');
+  }
+
+  for (const [platform, payloads] of Object.entries(result.payloads)) {
+    if ((platforms && !platforms.includes(platform)) || !payloads.length) {
+      continue;
+    }
+    console.log(`\n[${platform}]`);
+    for (const payload of payloads) {
+      console.log(JSON.stringify(payload, null, 2));
+    }
+  }
+
+  if (result.status === 'error') {
+    console.log(`\n!! ${result.message}`);
+  }
+}
+
+// Returns the message to simulate, or null for commands handled here
+function parse(line: string): SimulatorInput | null {
+  const [command, ...rest] = line.split(' ');
+  const argument = rest.join(' ').trim();
+
+  switch (command) {
+    case '/tap':
+      return { selection: argument };
+    case '/audio':
+      return {
+        audio: {
+          fileName: path.basename(argument),
+          data: readFileSync(argument).toString('base64'),
+        },
+      };
+    case '/user':
+      user.userID = argument;
+      console.log(`Now talking as ${argument}`);
+      return null;
+    case '/name':
+      user.userName = argument;
+      return null;
+    case '/only':
+      platforms = argument === 'all' ? null : argument.split(',');
+      return null;
+    case '/help':
+      console.log(HELP);
+      return null;
+    default:
+      return { text: line };
+  }
+}
+
+function main() {
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: '\nyou> ',
+  });
+
+  console.log(`Simulating against ${server}\n${HELP}`);
+  prompt.prompt();
+
+  prompt.on('line', async (line) => {
+    const text = line.trim();
+    if (text === '/quit') {
+      prompt.close();
+      return;
+    }
+
+    if (text) {
+      prompt.pause();
+      try {
+        const input = parse(text);
+        if (input) {
+          print(await simulate(input));
+        }
+      } catch (error) {
+        console.log(`!! ${error.message}`);
+      }
+      prompt.resume();
+    }
+    prompt.prompt();
+  });
+}
+
+main();
@@ -0,0 +1,14 @@
+import { Body, Controller, HttpCode, Post } from '@nestjs/common';
+import { SimulatorInput, SimulatorService } from './simulator.service';
+
+// Only mounted when SIMULATOR_ENABLED=true, see AppModule
+@Controller('simulate')
+export class SimulatorController {
+  constructor(private readonly simulatorService: SimulatorService) {}
+
+  @Post()
+  @HttpCode(200)
+  simulate(@Body() input: SimulatorInput) {
+    return this.simulatorService.simulate(input ?? {});
+  }
+}
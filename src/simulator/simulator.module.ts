@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { SimulatorController } from './simulator.controller';
+import { SimulatorService } from './simulator.service';
+import { CustomerServiceWindowService } from '../whatsapp/whatsapp/customer-service-window.service';
+import { UserContextService } from '../user-context/user-context.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueModule } from '../queue/queue.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { I18nModule } from '../i18n/i18n.module';
+
+@Module({
+  imports: [QueueModule, ConversationModule, I18nModule],
+  controllers: [SimulatorController],
+  providers: [
+    SimulatorService,
+    CustomerServiceWindowService,
+    UserContextService,
+    DedupeService,
+  ],
+})
+export class SimulatorModule {}
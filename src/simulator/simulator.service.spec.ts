@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { SimulatorService } from './simulator.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { InboundMessage } from '../conversation/conversation.types';
+import { CustomerServiceWindowService } from '../whatsapp/whatsapp/customer-service-window.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueService } from '../queue/queue.service';
+import { LanguageService } from '../i18n/language.service';
+import { loadCatalogFile } from '../catalog/studio-services';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+const sketchPath = join(__dirname, '..', 'openai', 'fixtures', 'sketch.png');
+
+describe('SimulatorService', () => {
+  let service: SimulatorService;
+  let conversationService: {
+    registerChannel: jest.Mock;
+    handleMessage: jest.Mock;
+  };
+  let queueService: { registerHandler: jest.Mock };
+  let customerServiceWindow: {
+    recordInbound: jest.Mock;
+    isWindowOpen: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    conversationService = {
+      registerChannel: jest.fn(),
+      handleMessage: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', message: 'Message processed' }),
+    };
+    queueService = { registerHandler: jest.fn() };
+    customerServiceWindow = {
+      recordInbound: jest.fn(),
+      isWindowOpen: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SimulatorService,
+        DedupeService,
+        {
+          provide: CustomerServiceWindowService,
+          useValue: customerServiceWindow,
+        },
+        { provide: ConversationService, useValue: conversationService },
+        { provide: QueueService, useValue: queueService },
+        { provide: LanguageService, useValue: { getLanguage: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SimulatorService>(SimulatorService);
+  });
+
+  // Makes the engine answer with the given messages
+  const replyWith = (...messages: any[]) =>
+    conversationService.handleMessage.mockImplementation(
+      async ({ userID }: InboundMessage) => {
+        for (const message of messages) {
+          await service.send(userID, message);
+        }
+        return { status: 'success', message: 'Message processed' };
+      },
+    );
+
+  it('registers only itself with the conversation engine and queue', () => {
+    service.onModuleInit();
+
+    expect(conversationService.registerChannel).toHaveBeenCalledTimes(1);
+    expect(conversationService.registerChannel).toHaveBeenCalledWith(service);
+    expect(queueService.registerHandler).not.toHaveBeenCalled();
+  });
+
+  it('sends messages and taps through the conversation engine', async () => {
+    await service.simulate({ userID: 'dev', userName: 'Wanjiru', text: 'Hi' });
+    await service.simulate({ userID: 'dev', selection: 'branding_service' });
+
+    expect(
+      conversationService.handleMessage.mock.calls.map(([inbound]) => inbound),
+    ).toEqual([
+      {
+        channel: 'simulator',
+        userID: 'dev',
+        userName: 'Wanjiru',
+        messageID: expect.stringMatching(/^\d+$/),
+        eventID: expect.any(String),
+        content: { type: 'text', text: 'Hi' },
+      },
+      {
+        channel: 'simulator',
+        userID: 'dev',
+        messageID: expect.stringMatching(/^\d+$/),
+        eventID: expect.any(String),
+        content: { type: 'selection', id: 'branding_service' },
+      },
+    ]);
+    // Opens the WhatsApp window like the webhook does
+    expect(customerServiceWindow.recordInbound).toHaveBeenCalledWith('dev');
+  });
+
+  it('shows the payload every platform would get for a reply', async () => {
+    replyWith({ type: 'text', text: 'We do **logos**.' });
+
+    const result = await service.simulate({ text: 'Hi' });
+
+    expect(result.replies).toEqual([
+      { type: 'text', text: 'We do **logos**.' },
+    ]);
+    expect(result.payloads).toEqual({
+      whatsapp: [
+        expect.objectContaining({
+          to: 'simulator',
+          type: 'text',
+          text: expect.objectContaining({ body: 'We do *logos*.' }),
+        }),
+      ],
+      telegram: [
+        {
+          method: 'sendMessage',
+          chat_id: 'simulator',
+          text: 'We do <b>logos</b>.',
+          parse_mode: 'HTML',
+        },
+      ],
+      messenger: [
+        {
+          recipient: { id: 'simulator' },
+          messaging_type: 'RESPONSE',
+          message: { text: 'We do *logos*.' },
+        },
+      ],
+      instagram: [
+        {
+          recipient: { id: 'simulator' },
+          messaging_type: 'RESPONSE',
+          message: { text: 'We do logos.' },
+        },
+      ],
+    });
+  });
+
+  it('quotes the message being answered on every platform', async () => {
+    conversationService.handleMessage.mockImplementation(
+      async ({ userID, messageID }: InboundMessage) => {
+        await service.send(userID, {
+          type: 'text',
+          text: 'Hi!',
+          replyTo: messageID,
+        });
+        return { status: 'success', message: 'Message processed' };
+      },
+    );
+
+    const { payloads } = await service.simulate({ text: 'Hi' });
+    const [{ messageID }] = conversationService.handleMessage.mock.calls[0];
+
+    expect(payloads.whatsapp[0]).toMatchObject({
+      context: { message_id: messageID },
+    });
+    expect(payloads.telegram[0]).toMatchObject({
+      reply_to_message_id: Number(messageID),
+    });
+  });
+
+  it('renders menus as each platform interactive payload', async () => {
+    replyWith({
+      type: 'menu',
+      text: 'How can we help?',
+      services: loadCatalogFile().slice(0, 2),
+    });
+
+    const { payloads } = await service.simulate({ text: '/start' });
+
+    expect(payloads.whatsapp[0]).toMatchObject({
+      type: 'interactive',
+      interactive: { type: 'list' },
+    });
+    expect(payloads.telegram[0]).toMatchObject({
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: '🎨 Branding', callback_data: 'branding_service' },
+            expect.objectContaining({ callback_data: 'illustrations_comics' }),
+          ],
+        ],
+      },
+    });
+    expect(payloads.messenger[0]).toMatchObject({
+      message: {
+        quick_replies: [
+          expect.objectContaining({ payload: 'branding_service' }),
+          expect.objectContaining({ payload: 'illustrations_comics' }),
+        ],
+      },
+    });
+  });
+
+  it('describes media instead of uploading it', async () => {
+    replyWith({ type: 'image', filePath: sketchPath, caption: 'A fox' });
+
+    const { payloads } = await service.simulate({ text: '/imagine a fox' });
+
+    expect(payloads.whatsapp[0]).toMatchObject({
+      type: 'image',
+      image: { id: 'simulated:sketch.png', caption: 'A fox' },
+    });
+    expect(payloads.telegram[0]).toMatchObject({
+      method: 'sendPhoto',
+      photo: expect.stringMatching(/^<sketch\.png, \d+ bytes>$/),
+      caption: 'A fox',
+    });
+    expect(payloads.messenger[0]).toMatchObject({
+      filedata: expect.stringMatching(/^<sketch\.png/),
+    });
+  });
+
+  it('saves voice notes for the engine to transcribe', async () => {
+    const folderName = 'simulatorTestAudio';
+    const audio = Buffer.from('OggS-voice-note');
+
+    await service.simulate({
+      audio: { fileName: 'note.ogg', data: audio.toString('base64') },
+    });
+
+    const { content } = conversationService.handleMessage.mock.calls[0][0];
+    expect(content.type).toBe('audio');
+    const download = await content.media.download(folderName);
+    expect(download.data).toMatch(/\.ogg$/);
+    expect(readFileSync(download.data)).toEqual(audio);
+
+    rmSync(join(process.cwd(), folderName), { recursive: true });
+  });
+
+  it('turns down empty messages', async () => {
+    const result = await service.simulate({ text: '  ' });
+
+    expect(result.status).toBe('error');
+    expect(conversationService.handleMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,225 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  ChannelSendResult,
+  ConversationChannel,
+  ConversationResult,
+  InboundContent,
+  MediaDownloadResult,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+import { WhatsappService } from '../whatsapp/whatsapp/whatsapp.service';
+import { CustomerServiceWindowService } from '../whatsapp/whatsapp/customer-service-window.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { MessengerService } from '../messenger/messenger.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueService } from '../queue/queue.service';
+import { LanguageService } from '../i18n/language.service';
+import {
+  SimulatedMessengerGraphClient,
+  SimulatedPlatform,
+  SimulatedTelegramBot,
+  SimulatedWhatsappCloudApiClient,
+} from './simulated-transports';
+
+export const SIMULATED_PLATFORMS: SimulatedPlatform[] = [
+  'whatsapp',
+  'telegram',
+  'messenger',
+  'instagram',
+];
+
+export interface SimulatorInput {
+  userID?: string;
+  userName?: string;
+  text?: string;
+  // ID of the menu option or button the user tapped
+  selection?: string;
+  // A voice note, base64 encoded
+  audio?: { fileName: string; data: string };
+}
+
+export interface SimulationResult extends ConversationResult {
+  // What the conversation engine sent, before any platform formatting
+  replies: OutboundMessage[];
+  // The API payloads each platform would have received for those replies
+  payloads: Record<SimulatedPlatform, unknown[]>;
+}
+
+type Transcript = Pick<SimulationResult, 'replies' | 'payloads'>;
+
+// A development channel that runs messages through the conversation engine
+// and shows what every platform would have been sent. Replies go through
+// the real channel adapters on top of recording transports, so menus and
+// other interactive payloads come out exactly as they would in production.
+@Injectable()
+export class SimulatorService implements ConversationChannel, OnModuleInit {
+  private readonly logger = new Logger(SimulatorService.name);
+  readonly channel = 'simulator';
+
+  // Simulations in progress, by user
+  private readonly transcripts = new Map<string, Transcript>();
+  private readonly adapters: Record<
+    SimulatedPlatform,
+    (userID: string, message: OutboundMessage) => Promise<ChannelSendResult>
+  >;
+
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly customerServiceWindow: CustomerServiceWindowService,
+    dedupeService: DedupeService,
+    queueService: QueueService,
+    languageService: LanguageService,
+  ) {
+    const record = (
+      platform: SimulatedPlatform,
+      recipientID: string,
+      payload: unknown,
+    ) => this.transcripts.get(recipientID)?.payloads[platform].push(payload);
+
+    // Built by hand rather than injected so they never register with the
+    // conversation engine or the queue in place of the real adapters
+    const whatsapp = new WhatsappService(
+      new SimulatedWhatsappCloudApiClient(record),
+      customerServiceWindow,
+      conversationService,
+    );
+    const telegram = new TelegramService(
+      dedupeService,
+      queueService,
+      conversationService,
+      languageService,
+      new SimulatedTelegramBot(record) as unknown as TelegramBot,
+    );
+    const messenger = new MessengerService(
+      new SimulatedMessengerGraphClient(record),
+      conversationService,
+    );
+
+    this.adapters = {
+      whatsapp: (userID, message) => whatsapp.send(userID, message),
+      telegram: (userID, message) => telegram.send(userID, message),
+      messenger: (userID, message) =>
+        messenger.send('messenger', userID, message),
+      instagram: (userID, message) =>
+        messenger.send('instagram', userID, message),
+    };
+  }
+
+  onModuleInit() {
+    this.conversationService.registerChannel(this);
+  }
+
+  async simulate(input: SimulatorInput): Promise<SimulationResult> {
+    const userID = input.userID || 'simulator';
+    const transcript: Transcript = {
+      replies: [],
+      payloads: {
+        whatsapp: [],
+        telegram: [],
+        messenger: [],
+        instagram: [],
+      },
+    };
+
+    const content = this.toInboundContent(input);
+    if (!content) {
+      return {
+        status: 'error',
+        message: 'Send text, a selection or an audio file',
+        ...transcript,
+      };
+    }
+
+    this.transcripts.set(userID, transcript);
+    try {
+      // As the WhatsApp webhook does, so free-form text is allowed
+      await this.customerServiceWindow.recordInbound(userID);
+
+      const result = await this.conversationService.handleMessage({
+        channel: 'simulator',
+        userID,
+        // Numeric like Telegram's, so every platform shows the reply quote.
+        // Two messages can arrive in the same millisecond, the event ID
+        // keeps them apart.
+        messageID: Date.now().toString(),
+        eventID: randomUUID(),
+        userName: input.userName,
+        content,
+      });
+      return { ...result, ...transcript };
+    } finally {
+      this.transcripts.delete(userID);
+    }
+  }
+
+  // Renders what the conversation engine sends for every platform
+  async send(
+    userID: string,
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    const transcript = this.transcripts.get(userID);
+    if (!transcript) {
+      this.logger.log(
+        `Dropping ${message.type} message for ${userID}, no simulation is running`,
+      );
+      return { status: 'success' };
+    }
+
+    transcript.replies.push(message);
+    for (const platform of SIMULATED_PLATFORMS) {
+      const result = await this.adapters[platform](userID, message);
+      if (result.status === 'error') {
+        transcript.payloads[platform].push({ error: result.error });
+      }
+    }
+    return { status: 'success' };
+  }
+
+  private toInboundContent(input: SimulatorInput): InboundContent | null {
+    if (input.selection) {
+      return { type: 'selection', id: input.selection };
+    }
+    if (input.audio?.data) {
+      const { fileName, data } = input.audio;
+      return {
+        type: 'audio',
+        media: {
+          download: async (folderName) =>
+            this.saveAudio(folderName, fileName, data),
+        },
+      };
+    }
+    if (input.text?.trim()) {
+      return { type: 'text', text: input.text };
+    }
+    return null;
+  }
+
+  private saveAudio(
+    folderName: string,
+    fileName: string,
+    data: string,
+  ): MediaDownloadResult {
+    try {
+      const folderPath = path.join(process.cwd(), folderName);
+      if (!existsSync(folderPath)) {
+        mkdirSync(folderPath);
+      }
+
+      const filePath = path.join(
+        folderPath,
+        `${randomUUID()}${path.extname(fileName ?? '') || '.ogg'}`,
+      );
+      writeFileSync(filePath, Buffer.from(data, 'base64'));
+      return { status: 'success', data: filePath };
+    } catch (error) {
+      this.logger.error('Error saving simulated audio', error);
+      return { status: 'error', data: 'Error saving audio' };
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { parseImageCommand } from './image-commands';
+
+describe('parseImageCommand', () => {
+  it('parses /imagine with the rest of the text as prompt', () => {
+    expect(parseImageCommand('/imagine make this a watercolor')).toEqual({
+      command: 'imagine',
+      prompt: 'make this a watercolor',
+    });
+    expect(parseImageCommand('Please /IMAGINE a red fox')).toEqual({
+      command: 'imagine',
+      prompt: 'Please  a red fox',
+    });
+  });
+
+  it('parses upscale and variation commands', () => {
+    expect(parseImageCommand('/upscale')).toEqual({
+      command: 'upscale',
+      prompt: '',
+    });
+    expect(parseImageCommand('/more')).toEqual({
+      command: 'variations',
+      prompt: '',
+    });
+    expect(parseImageCommand('/variations brighter colors')).toEqual({
+      command: 'variations',
+      prompt: 'brighter colors',
+    });
+  });
+
+  it('ignores text without a command', () => {
+    expect(parseImageCommand('Tell me more about branding')).toBeNull();
+    expect(parseImageCommand(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+export type ImageCommand = 'imagine' | 'upscale' | 'variations';
+
+export interface ParsedImageCommand {
+  command: ImageCommand;
+  prompt: string;
+}
+
+const IMAGE_COMMANDS: [ImageCommand, RegExp][] = [
+  ['imagine', /\/imagine/gi],
+  ['upscale', /\/upscale/gi],
+  ['variations', /\/(variations|more)\b/gi],
+];
+
+// Finds an image command anywhere in a message or an image caption and
+// returns the rest of the text as the prompt
+export function parseImageCommand(text?: string): ParsedImageCommand | null {
+  if (!text) {
+    return null;
+  }
+
+  for (const [command, pattern] of IMAGE_COMMANDS) {
+    if (text.match(pattern)) {
+      return { command, prompt: text.replace(pattern, '').trim() };
+    }
+  }
+
+  return null;
+}
@@ -1,8 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { of } from 'rxjs';
 import { StabilityaiService } from './stabilityai.service';
 
 describe('StabilityaiService', () => {
   let service: StabilityaiService;
+  let post: jest.Mock;
+  let workingDirectory: string;
+  const sketchPath = join(__dirname, '..', 'openai', 'fixtures', 'sketch.png');
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -10,9 +17,70 @@ describe('StabilityaiService', () => {
     }).compile();
 
     service = module.get<StabilityaiService>(StabilityaiService);
+    post = jest.fn().mockReturnValue(
+      of({
+        data: {
+          artifacts: [{ base64: Buffer.from('png-bytes').toString('base64') }],
+        },
+      }),
+    );
+    service['httpService'].post = post;
+
+    workingDirectory = mkdtempSync(join(tmpdir(), 'stabilityai-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(workingDirectory);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(workingDirectory, { recursive: true, force: true });
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('sends the input image, prompt and strength to image-to-image', async () => {
+    const response = await service.imageToImage(
+      'make this a watercolor',
+      sketchPath,
+      0.4,
+    );
+
+    const [url, data] = post.mock.calls[0];
+    expect(url).toMatch(/stable-diffusion-xl-1024-v1-0\/image-to-image$/);
+    expect(data.get('text_prompts[0][text]')).toBe('make this a watercolor');
+    expect(data.get('image_strength')).toBe('0.4');
+    expect(data.get('init_image_mode')).toBe('IMAGE_STRENGTH');
+    expect(data.get('init_image').size).toBe(readFileSync(sketchPath).length);
+
+    expect(response).toHaveLength(1);
+    const savedImage = service.getGeneratedImagePath(response[0]);
+    expect(existsSync(savedImage)).toBe(true);
+    expect(readFileSync(savedImage).toString()).toBe('png-bytes');
+  });
+
+  it('creates variations with the variation strength', async () => {
+    await service.createVariations(sketchPath, 'a red fox', 3);
+
+    const [, data] = post.mock.calls[0];
+    expect(data.get('image_strength')).toBe(
+      service.configuration.variationStrength.toString(),
+    );
+    expect(data.get('samples')).toBe('3');
+  });
+
+  it('upscales through the upscale engine', async () => {
+    await service.upscaleImage(sketchPath);
+
+    const [url, data] = post.mock.calls[0];
+    expect(url).toMatch(/esrgan-v1-x2plus\/image-to-image\/upscale$/);
+    expect(data.get('image')).toBeDefined();
+  });
+
+  it('fails gracefully when the input image is missing', async () => {
+    expect(await service.imageToImage('prompt', '/no/such/image.png')).toBe(
+      'Image generation failed, try later.',
+    );
+    expect(post).not.toHaveBeenCalled();
+  });
 });
@@ -2,7 +2,7 @@ import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { catchError, lastValueFrom, map } from 'rxjs';
 import * as fs from 'fs';
-import { join } from 'path';
+import { basename, join } from 'path';
 
 @Injectable()
 export class StabilityaiService {
@@ -13,6 +13,11 @@ export class StabilityaiService {
     apiHost: process.env.STABILITYAI_API_HOST || '',
     token: process.env.STABILITYAI_TOKEN || '',
     engineId: 'stable-diffusion-xl-1024-v1-0',
+    upscaleEngineId: 'esrgan-v1-x2plus',
+    // How much of the input image survives image-to-image, from 0 to 1
+    imageStrength: Number(process.env.STABILITYAI_IMAGE_STRENGTH) || 0.35,
+    variationStrength:
+      Number(process.env.STABILITYAI_VARIATION_STRENGTH) || 0.65,
   };
 
   async textToImage(prompt: string) {
@@ -34,43 +39,131 @@ export class StabilityaiService {
 
     try {
       const url = `${this.configuration.apiHost}/v1/generation/${this.configuration.engineId}/text-to-image`;
-      const response = this.httpService
-        .post(url, data, config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException('Error Generating Image');
-          }),
-        );
-
-      const imageGenerationResponse = await lastValueFrom(response);
-      const fileNames: string[] = [];
-      const rootPath = process.cwd();
-      const folderPath = join(rootPath, 'generatedImages');
-
-      // Check if the folder exists, if not create it
-      if (!fs.existsSync(folderPath)) {
-        fs.mkdirSync(folderPath);
-      }
-
-      imageGenerationResponse.artifacts.forEach((image, index) => {
-        const now = new Date();
-        const fileName = `v1_txt2img_${now.getTime()}_${index}.png`;
-        fs.writeFileSync(
-          `${folderPath}/${fileName}`,
-          Buffer.from(image.base64, 'base64'),
-        );
-        fileNames.push(fileName);
-      });
-
-      return fileNames;
+      const imageGenerationResponse = await this.post(url, data, config);
+
+      return this.saveArtifacts(imageGenerationResponse, 'txt2img');
+    } catch (e) {
+      return 'Image generation failed, try later.';
+    }
+  }
+
+  // Turns a sketch or an existing asset into a new image guided by the prompt
+  async imageToImage(
+    prompt: string,
+    imagePath: string,
+    strength = this.configuration.imageStrength,
+    samples = 1,
+  ) {
+    try {
+      const data = this.imageFormData(imagePath, 'init_image');
+      data.append('init_image_mode', 'IMAGE_STRENGTH');
+      data.append('image_strength', strength.toString());
+      data.append('text_prompts[0][text]', prompt);
+      data.append('samples', samples.toString());
+      data.append('steps', '40');
+
+      const url = `${this.configuration.apiHost}/v1/generation/${this.configuration.engineId}/image-to-image`;
+      const imageGenerationResponse = await this.post(
+        url,
+        data,
+        this.multipartConfig(),
+      );
+
+      return this.saveArtifacts(imageGenerationResponse, 'img2img');
     } catch (e) {
       return 'Image generation failed, try later.';
     }
   }
+
+  // "More like this": keeps most of the image and re-runs the prompt
+  async createVariations(imagePath: string, prompt: string, samples = 2) {
+    return this.imageToImage(
+      prompt,
+      imagePath,
+      this.configuration.variationStrength,
+      samples,
+    );
+  }
+
+  async upscaleImage(imagePath: string) {
+    try {
+      const data = this.imageFormData(imagePath, 'image');
+      const url = `${this.configuration.apiHost}/v1/generation/${this.configuration.upscaleEngineId}/image-to-image/upscale`;
+      const upscaleResponse = await this.post(
+        url,
+        data,
+        this.multipartConfig(),
+      );
+
+      return this.saveArtifacts(upscaleResponse, 'upscale');
+    } catch (e) {
+      return 'Image upscaling failed, try later.';
+    }
+  }
+
+  // Generated images are saved to generatedImages/, which is served statically
+  getGeneratedImagePath(fileName: string) {
+    return join(process.cwd(), 'generatedImages', basename(fileName));
+  }
+
+  private async post(url: string, data: unknown, config: object) {
+    const response = this.httpService
+      .post(url, data, config)
+      .pipe(
+        map((res) => {
+          return res.data;
+        }),
+      )
+      .pipe(
+        catchError((error) => {
+          this.logger.error(error);
+          throw new BadRequestException('Error Generating Image');
+        }),
+      );
+
+    return lastValueFrom(response);
+  }
+
+  private imageFormData(imagePath: string, fieldName: string) {
+    const data = new FormData();
+    data.append(
+      fieldName,
+      new Blob([fs.readFileSync(imagePath)]),
+      basename(imagePath),
+    );
+    return data;
+  }
+
+  private multipartConfig() {
+    // Content-Type is left out so the multipart boundary gets filled in
+    return {
+      headers: {
+        Accept: 'application/json',
+        Authorization: this.configuration.token,
+      },
+    };
+  }
+
+  private saveArtifacts(imageGenerationResponse: any, prefix: string) {
+    const fileNames: string[] = [];
+    const rootPath = process.cwd();
+    const folderPath = join(rootPath, 'generatedImages');
+
+    // Check if the folder exists, if not create it
+    if (!fs.existsSync(folderPath)) {
+      fs.mkdirSync(folderPath);
+    }
+
+    imageGenerationResponse.artifacts.forEach((image, index) => {
+      const now = new Date();
+      const fileName = `v1_${prefix}_${now.getTime()}_${index}.png`;
+      fs.writeFileSync(
+        `${folderPath}/${fileName}`,
+        Buffer.from(image.base64, 'base64'),
+      );
+      fileNames.push(fileName);
+    });
+
+    return fileNames;
+  }
 }
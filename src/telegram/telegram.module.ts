@@ -1,19 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TelegramController } from './telegram.controller';
 import { TelegramService } from './telegram.service';
-import { OpenaiService } from '../openai/openai.service';
-import { UserContextService } from '../user-context/user-context.service';
-import { StabilityaiService } from '../stabilityai/stabilityai.service';
-import { AudioService } from '../audio/audio.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueModule } from '../queue/queue.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { I18nModule } from '../i18n/i18n.module';
 
 @Module({
+  imports: [QueueModule, ConversationModule, I18nModule],
   controllers: [TelegramController],
-  providers: [
-    TelegramService,
-    OpenaiService,
-    UserContextService,
-    StabilityaiService,
-    AudioService,
-  ],
+  providers: [TelegramService, DedupeService],
 })
-export class TelegramModule {}
\ No newline at end of file
+export class TelegramModule {}
@@ -1,29 +1,64 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
 import TelegramBot from 'node-telegram-bot-api';
-import { OpenaiService } from '../openai/openai.service';
-import { StabilityaiService } from '../stabilityai/stabilityai.service';
-import { AudioService } from '../audio/audio.service';
-import { UserContextService } from '../user-context/user-context.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { Job, QueueService } from '../queue/queue.service';
+import { StudioService } from '../catalog/studio-services';
+import {
+  splitForChannel,
+  toTelegramHtml,
+} from '../formatting/message-formatting';
+import { ConversationService } from '../conversation/conversation.service';
+import { LanguageService } from '../i18n/language.service';
+import { translate } from '../i18n/i18n';
+import {
+  ChannelSendResult,
+  ConversationChannel,
+  InboundContent,
+  InboundMedia,
+  InboundMessage,
+  MediaDownloadResult,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+import { createWriteStream, existsSync, mkdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+
+// Lets the simulator hand in a bot that records calls instead of making them
+export const TELEGRAM_BOT = 'TELEGRAM_BOT';
 
 @Injectable()
-export class TelegramService {
+export class TelegramService implements ConversationChannel, OnModuleInit {
   private bot: TelegramBot;
   private readonly logger = new Logger(TelegramService.name);
+  readonly channel = 'telegram';
 
   constructor(
-    private readonly openaiService: OpenaiService,
-    private readonly stabilityaiService: StabilityaiService,
-    private readonly audioService: AudioService,
-    private readonly userContextService: UserContextService,
+    private readonly dedupeService: DedupeService,
+    private readonly queueService: QueueService,
+    private readonly conversationService: ConversationService,
+    private readonly languageService: LanguageService,
+    @Optional() @Inject(TELEGRAM_BOT) bot?: TelegramBot,
   ) {
+    if (bot) {
+      this.bot = bot;
+      return;
+    }
+
+    // Without a token the rest of the app still runs, e.g. for the simulator
     const token = process.env.TELEGRAM_BOT_TOKEN;
     if (!token) {
-      throw new Error('TELEGRAM_BOT_TOKEN is not defined');
+      this.logger.warn('TELEGRAM_BOT_TOKEN is not defined, Telegram is off');
+      return;
     }
-    
+
     // Initialize bot (webhook mode for production)
     this.bot = new TelegramBot(token);
-    
+
     // Set up webhook if in production
     if (process.env.NODE_ENV === 'production') {
       this.setupWebhook();
@@ -34,6 +69,17 @@ export class TelegramService {
     }
   }
 
+  onModuleInit() {
+    if (!this.bot) {
+      return;
+    }
+
+    this.conversationService.registerChannel(this);
+    this.queueService.registerHandler('telegram.update', (job) =>
+      this.processQueuedUpdate(job),
+    );
+  }
+
   private async setupWebhook() {
     const webhookUrl = process.env.TELEGRAM_WEBHOOK_URL;
     if (webhookUrl) {
@@ -42,323 +88,358 @@ export class TelegramService {
     }
   }
 
+  // Polled updates take the same route as webhook ones, so they are
+  // queued in order per user and retried like every other channel
   private setupHandlers() {
-    // Handle /start command
-    this.bot.onText(/\/start/, (msg) => {
-      this.handleStartCommand(msg);
-    });
-
-    // Handle text messages
     this.bot.on('message', (msg) => {
-      if (msg.text && !msg.text.startsWith('/')) {
-        this.handleTextMessage(msg);
-      }
-    });
-
-    // Handle voice messages
-    this.bot.on('voice', (msg) => {
-      this.handleVoiceMessage(msg);
+      this.processWebhookUpdate({ message: msg });
     });
 
     // Handle callback queries (inline buttons)
     this.bot.on('callback_query', (query) => {
-      this.handleCallbackQuery(query);
+      this.processWebhookUpdate({ callback_query: query });
     });
   }
 
   async processWebhookUpdate(update: any) {
+    if (!this.bot) {
+      this.logger.warn('Ignoring update, Telegram is off');
+      return;
+    }
+
     try {
-      if (update.message) {
-        const msg = update.message;
-        
-        if (msg.text?.startsWith('/start')) {
-          await this.handleStartCommand(msg);
-        } else if (msg.text && !msg.text.startsWith('/')) {
-          await this.handleTextMessage(msg);
-        } else if (msg.voice) {
-          await this.handleVoiceMessage(msg);
-        }
-      } else if (update.callback_query) {
-        await this.handleCallbackQuery(update.callback_query);
+      // Telegram retries webhooks it considers failed; skip redeliveries
+      if (
+        update.update_id !== undefined &&
+        !(await this.dedupeService.claimEvent('telegram', update.update_id))
+      ) {
+        this.logger.log(`Skipping duplicate update ${update.update_id}`);
+        return;
+      }
+
+      // Queue the update so the webhook is acknowledged right away
+      const userId = (
+        update.message?.from?.id ?? update.callback_query?.from?.id
+      )?.toString();
+      if (!userId) {
+        this.logger.log('No message or callback query in the update');
+        return;
       }
+
+      await this.queueService.enqueue('telegram.update', userId, update);
     } catch (error) {
       this.logger.error('Error processing webhook update:', error);
+      if (update.update_id !== undefined) {
+        await this.dedupeService.releaseEvent('telegram', update.update_id);
+      }
     }
   }
 
-  private async handleStartCommand(msg: any) {
-    const chatId = msg.chat.id;
-    const userId = msg.from.id.toString();
-    
-    // Save initial context
-    await this.userContextService.saveToContext(
-      'User started conversation with Studio Libra via Telegram',
-      'assistant',
-      userId
-    );
+  async processQueuedUpdate(job: Job) {
+    const update = job.payload;
+    const inbound = this.toInboundMessage(update);
+    if (!inbound) {
+      return;
+    }
 
-    const welcomeMessage = `
-🎨 *Welcome to Studio Libra!*
-
-Hi ${msg.from.first_name || 'there'}! I'm your creative assistant. 
-
-What would you like to explore today?
-    `;
-
-    const options = {
-      parse_mode: 'Markdown' as const,
-      reply_markup: {
-        inline_keyboard: [
-          [
-            { text: '🎨 Branding', callback_data: 'branding_service' },
-            { text: '💻 Software Dev', callback_data: 'software_dev_service' }
-          ],
-          [
-            { text: '🧠 3D Models & AI', callback_data: 'models_service' },
-            { text: '✏️ Illustrations', callback_data: 'illustrations_comics' }
-          ],
-          [
-            { text: '👋 Talk to Human', callback_data: 'talk_to_human' }
-          ]
-        ]
+    // Answer callback query to stop loading, only once across retries
+    if (update.callback_query && job.attempts === 1) {
+      try {
+        await this.bot.answerCallbackQuery(update.callback_query.id);
+      } catch (error) {
+        this.logger.warn(`Could not answer callback query: ${error.message}`);
       }
-    };
+    }
 
-    await this.bot.sendMessage(chatId, welcomeMessage, options);
+    try {
+      const result = await this.conversationService.handleMessage(inbound);
+      if (result.status === 'error') {
+        throw new Error(result.message);
+      }
+    } catch (error) {
+      this.logger.error('Error handling update:', error);
+      // The user only hears about it once the queue has given up
+      if (job.attempts >= this.queueService.configuration.maxAttempts) {
+        await this.sendFailureNotice(inbound.userID);
+      }
+      // Throwing hands the job back to the queue for a retry
+      throw error;
+    }
   }
 
-  private async handleTextMessage(msg: any) {
-    const chatId = msg.chat.id;
-    const userId = msg.from.id.toString();
-    const text = msg.text;
+  private async sendFailureNotice(chatId: string) {
+    try {
+      const language = await this.languageService.getLanguage(chatId);
+      await this.bot.sendMessage(
+        chatId,
+        `❌ ${translate(language, 'processingFailed')}`,
+      );
+    } catch (error) {
+      this.logger.error('Error sending failure notice', error);
+    }
+  }
 
-    // Handle image generation command
-    if (text.toLowerCase().includes('/imagine')) {
-      await this.handleImageGeneration(chatId, userId, text);
-      return;
+  // Translates a Telegram update into the conversation engine's format.
+  // The bot only talks in private chats, where the chat ID is the user ID.
+  private toInboundMessage(update: any): InboundMessage | null {
+    const query = update.callback_query;
+    if (query) {
+      const buttons = query.message?.reply_markup?.inline_keyboard ?? [];
+      const button = buttons.flat().find((b) => b.callback_data === query.data);
+
+      return {
+        channel: 'telegram',
+        userID: query.from.id.toString(),
+        eventID: query.id,
+        userName: query.from.first_name,
+        content: { type: 'selection', id: query.data, title: button?.text },
+      };
     }
 
-    // Send typing indicator
-    await this.bot.sendChatAction(chatId, 'typing');
+    const msg = update.message;
+    if (!msg?.from) {
+      return null;
+    }
 
-    // Generate AI response
-    const aiResponse = await this.openaiService.generateAIResponse(userId, text);
+    return {
+      channel: 'telegram',
+      userID: msg.from.id.toString(),
+      messageID: msg.message_id?.toString(),
+      userName: msg.from.first_name,
+      content: this.toInboundContent(msg),
+    };
+  }
 
-    // Send response
-    await this.bot.sendMessage(chatId, aiResponse, {
-      parse_mode: 'Markdown',
-      reply_to_message_id: msg.message_id
+  private toInboundContent(msg: any): InboundContent {
+    const media = (
+      fileId: string,
+      extension: string,
+      details: Partial<InboundMedia> = {},
+    ) => ({
+      download: (folderName: string) =>
+        this.downloadFile(fileId, folderName, extension),
+      caption: msg.caption,
+      ...details,
     });
-  }
 
-  private async handleImageGeneration(chatId: number, userId: string, text: string) {
-    const prompt = text.replace(/\/imagine/gi, '').trim();
-    
-    if (!prompt) {
-      await this.bot.sendMessage(chatId, '🎨 Please provide a description for the image you want to generate.\n\nExample: `/imagine a beautiful sunset over mountains`');
-      return;
+    if (msg.text) {
+      return { type: 'text', text: msg.text };
+    }
+    if (msg.voice) {
+      return { type: 'audio', media: media(msg.voice.file_id, '.ogg') };
+    }
+    if (msg.photo) {
+      // Telegram sends several sizes of the same photo, the last is the largest
+      const photo = msg.photo[msg.photo.length - 1];
+      return { type: 'image', media: media(photo.file_id, '') };
+    }
+    if (msg.document) {
+      const { file_id, file_name, mime_type, file_size } = msg.document;
+      return {
+        type: 'document',
+        media: media(file_id, path.extname(file_name ?? ''), {
+          fileName: file_name,
+          mimeType: mime_type,
+          // Telegram reports the size up front, so it's checked before downloading
+          size: file_size,
+        }),
+      };
+    }
+    if (msg.location) {
+      const { latitude, longitude } = msg.location;
+      return {
+        type: 'location',
+        latitude,
+        longitude,
+        name: msg.venue?.title,
+        address: msg.venue?.address,
+      };
+    }
+    if (msg.contact) {
+      const { first_name, last_name, phone_number } = msg.contact;
+      return {
+        type: 'contacts',
+        contacts: [
+          {
+            name:
+              [first_name, last_name].filter(Boolean).join(' ') || 'Unknown',
+            phones: [phone_number].filter(Boolean),
+            emails: [],
+          },
+        ],
+      };
     }
 
-    // Send generating message
-    const loadingMsg = await this.bot.sendMessage(chatId, '🎨 Generating your image... This may take a moment!');
+    const kind = ['sticker', 'video', 'video_note', 'animation', 'audio'].find(
+      (key) => msg[key],
+    );
+    return { type: 'unsupported', kind: kind ?? 'unknown' };
+  }
+
+  // Delivers what the conversation engine wants sent
+  async send(
+    chatId: string,
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    const replyTo = 'replyTo' in message ? Number(message.replyTo) : undefined;
+    const replyOptions = replyTo ? { reply_to_message_id: replyTo } : {};
 
     try {
-      const response = await this.stabilityaiService.textToImage(prompt);
-
-      if (Array.isArray(response) && response.length > 0) {
-        const imageUrl = `${process.env.SERVER_URL}/${response[0]}`;
-        
-        // Delete loading message
-        await this.bot.deleteMessage(chatId, loadingMsg.message_id);
-        
-        // Send image
-        await this.bot.sendPhoto(chatId, imageUrl, {
-          caption: `🎨 Generated: "${prompt}"`
-        });
-      } else {
-        await this.bot.editMessageText('❌ Failed to generate image. Please try again later.', {
-          chat_id: chatId,
-          message_id: loadingMsg.message_id
-        });
+      switch (message.type) {
+        case 'text':
+          await this.sendFormattedMessage(chatId, message.text, replyTo);
+          break;
+        case 'menu':
+          await this.bot.sendMessage(chatId, toTelegramHtml(message.text), {
+            ...replyOptions,
+            parse_mode: 'HTML',
+            reply_markup: {
+              inline_keyboard: this.buildServiceKeyboard(message.services),
+            },
+          });
+          break;
+        case 'choices':
+          await this.bot.sendMessage(chatId, toTelegramHtml(message.text), {
+            ...replyOptions,
+            parse_mode: 'HTML',
+            reply_markup: {
+              inline_keyboard: message.choices.map(({ id, title }) => [
+                { text: title, callback_data: id },
+              ]),
+            },
+          });
+          break;
+        case 'image':
+          // Uploaded directly so no public URL is needed
+          await this.bot.sendPhoto(
+            chatId,
+            readFileSync(message.filePath),
+            { ...replyOptions, caption: message.caption },
+            {
+              filename: path.basename(message.filePath),
+              contentType: 'image/png',
+            },
+          );
+          break;
+        case 'audio':
+          await this.bot.sendVoice(
+            chatId,
+            readFileSync(message.filePath),
+            replyOptions,
+            {
+              filename: path.basename(message.filePath),
+              contentType: 'audio/mpeg',
+            },
+          );
+          break;
+        case 'document':
+          await this.bot.sendDocument(
+            chatId,
+            readFileSync(message.filePath),
+            { ...replyOptions, caption: message.caption },
+            {
+              filename: message.fileName ?? path.basename(message.filePath),
+              contentType: 'application/octet-stream',
+            },
+          );
+          break;
+        case 'typing':
+          await this.bot.sendChatAction(chatId, 'typing');
+          break;
       }
+      return { status: 'success' };
     } catch (error) {
-      this.logger.error('Image generation error:', error);
-      await this.bot.editMessageText('❌ Failed to generate image. Please try again later.', {
-        chat_id: chatId,
-        message_id: loadingMsg.message_id
-      });
+      this.logger.error(`Error sending ${message.type} message`, error);
+      return { status: 'error', error: error.message };
     }
   }
 
-  private async handleVoiceMessage(msg: any) {
-    const chatId = msg.chat.id;
-    const userId = msg.from.id.toString();
-    const voiceFileId = msg.voice.file_id;
-
-    try {
-      // Send processing message
-      const processingMsg = await this.bot.sendMessage(chatId, '🎤 Processing your voice message...');
-
-      // Get file info and download
-      const file = await this.bot.getFile(voiceFileId);
-      const fileStream = this.bot.getFileStream(file.file_id);
-      
-      // Save file temporarily (you'll need to implement file saving)
-      const filePath = await this.saveVoiceFile(fileStream, file.file_id);
-      
-      // Transcribe audio
-      const transcription = await this.audioService.convertAudioToText(filePath);
-      
-      if (transcription.status === 'error') {
-        await this.bot.editMessageText('❌ Failed to transcribe audio. Please try again.', {
-          chat_id: chatId,
-          message_id: processingMsg.message_id
-        });
-        return;
-      }
-
-      // Generate AI response
-      const aiResponse = await this.openaiService.generateAIResponse(userId, transcription.data);
-
-      // Convert response to speech
-      const textToSpeech = await this.audioService.convertTextToSpeech(aiResponse);
-
-      // Delete processing message
-      await this.bot.deleteMessage(chatId, processingMsg.message_id);
+  // Two services per row, in the same order as the WhatsApp menu
+  private buildServiceKeyboard(services: StudioService[]) {
+    const buttons = services.map(({ id, emoji, title }) => ({
+      text: `${emoji} ${title}`,
+      callback_data: id,
+    }));
+    const rows = [];
+    for (let i = 0; i < buttons.length; i += 2) {
+      rows.push(buttons.slice(i, i + 2));
+    }
+    return rows;
+  }
 
-      if (textToSpeech.status === 'success') {
-        const audioUrl = `${process.env.SERVER_URL}/${textToSpeech.data}`;
-        await this.bot.sendVoice(chatId, audioUrl, {
-          reply_to_message_id: msg.message_id
-        });
-      } else {
-        // Send text response if TTS fails
-        await this.bot.sendMessage(chatId, aiResponse, {
-          reply_to_message_id: msg.message_id
+  // Model output is Markdown. It goes out as Telegram HTML, split into as
+  // many messages as needed and sent in order. A message Telegram can't
+  // parse is sent again as plain text rather than lost.
+  private async sendFormattedMessage(
+    chatId: string,
+    markdown: string,
+    replyToMessageId?: number,
+  ) {
+    const messages = splitForChannel(markdown, 'telegram');
+
+    for (const [index, message] of messages.entries()) {
+      const options =
+        index === 0 && replyToMessageId
+          ? { reply_to_message_id: replyToMessageId }
+          : {};
+
+      try {
+        await this.bot.sendMessage(chatId, toTelegramHtml(message), {
+          ...options,
+          parse_mode: 'HTML',
         });
+      } catch (error) {
+        this.logger.warn(
+          `Sending reply as plain text, Telegram rejected the HTML: ${error.message}`,
+        );
+        await this.bot.sendMessage(chatId, message, options);
       }
-
-    } catch (error) {
-      this.logger.error('Voice message processing error:', error);
-      await this.bot.sendMessage(chatId, '❌ Failed to process voice message. Please try again.');
     }
   }
 
-  private async handleCallbackQuery(query: any) {
-    const chatId = query.message.chat.id;
-    const userId = query.from.id.toString();
-    const data = query.data;
-
-    // Answer callback query to stop loading
-    await this.bot.answerCallbackQuery(query.id);
-
-    // Save user selection to context
-    await this.userContextService.saveToContext(
-      `User selected: ${data}`,
-      'user',
-      userId
-    );
-
-    // Get service information
-    const serviceInfo = this.getServiceInfo(data);
-    
-    // Save response to context
-    await this.userContextService.saveToContext(
-      serviceInfo,
-      'assistant',
-      userId
-    );
-
-    // Send service information
-    await this.bot.sendMessage(chatId, serviceInfo, {
-      parse_mode: 'Markdown'
-    });
+  private async downloadFile(
+    fileId: string,
+    folderName: string,
+    extension: string,
+  ): Promise<MediaDownloadResult> {
+    try {
+      const file = await this.bot.getFile(fileId);
+      const filePath = await this.saveFile(
+        this.bot.getFileStream(file.file_id),
+        folderName,
+        `${file.file_id}${extension || path.extname(file.file_path ?? '') || '.jpg'}`,
+      );
+      return { status: 'success', data: filePath };
+    } catch (error) {
+      this.logger.error(`Error downloading file ${fileId}`, error);
+      return { status: 'error', data: 'Error downloading file' };
+    }
   }
 
-  private getServiceInfo(serviceId: string): string {
-  const serviceInfo = {
-    branding_service: `🎨 *Studio Libra Branding Services*
-
-We deliver end-to-end branding solutions that make your business stand out:
-
-• *Logo Design* – Unique, memorable logos that capture your brand's essence.
-• *Visual Identity* – Cohesive color schemes, typography, and visuals for recognition.
-• *Digital Printing* – High-quality prints: cards, brochures, banners, and more.
-• *Brand Strategy* – Clear brand messaging, positioning, and identity guidelines.
-• *Packaging Design* – Eye-catching packaging that boosts shelf appeal.
-• *Stationery Design* – Branded stationery that strengthens your professional image.
-• *Embroidery Branding* – Durable embroidery for uniforms, polos, overalls, and more.
-• *Sublimation Branding* – Vivid, long-lasting sublimation prints that won’t peel or fade.
-
-📩 *Contact us today at* info@studiolibracreatives.com`,
-
-    software_dev_service: `💻 *Studio Libra Software Development*
-
-We build high-performance software tailored to your business:
-
-• *Web Development* – Modern websites, web apps, and e-commerce solutions.
-• *Mobile Apps* – Native and cross-platform apps for iOS & Android.
-• *Custom Software* – Solutions that automate and optimize your operations.
-• *Backend Development* – Powerful APIs, databases, and cloud integration.
-• *UI/UX Development* – Engaging and intuitive user interfaces and experiences.
-• *Maintenance & Support* – Reliable updates, bug fixes, and improvements.
-
-📩 *Contact us today at* info@studiolibracreatives.com`,
-
-    models_service: `🧠 *Studio Libra 3D Models & AI Services*
-
-We create cutting-edge 3D models and AI solutions:
-• 3D character modeling
-• Product visualization
-• Architectural models
-• AI model customization
-• Digital twins
-
-What kind of model are you looking for?`,
-
-    illustrations_comics: `✏️ *Studio Libra Illustrations & Comics*
-
-Our talented artists create:
-• Custom illustrations
-• Comic books & strips
-• Character design
-• Storyboards
-• Editorial illustrations
-• Children's book art
-
-Let's bring your story to life!`,
-
-    talk_to_human: `👋 *Talk to a Human*
-
-Thanks for reaching out! A member of our team will get back to you shortly during our business hours.
-
-If you have a specific question or project in mind, feel free to share some details while you wait.`
-  };
-
-  return serviceInfo[serviceId] || 'Thank you for your interest! Please tell us more about what you are looking for.';
-}
+  private async saveFile(
+    fileStream: NodeJS.ReadableStream,
+    folderName: string,
+    fileName: string,
+  ): Promise<string> {
+    const folderPath = path.join(process.cwd(), folderName);
+    const filePath = path.join(folderPath, fileName);
+
+    //check if the folder exists, if not create
+    if (!existsSync(folderPath)) {
+      mkdirSync(folderPath);
+    }
 
-  private async saveVoiceFile(fileStream: NodeJS.ReadableStream, fileId: string): Promise<string> {
-    // Implementation to save voice file temporarily
-    // You'll need to implement this based on your audio handling setup
-    const fs = require('fs');
-    const path = require('path');
-    
-    const audioFolder = process.env.AUDIO_FILES_FOLDER || 'audioFiles';
-    const fileName = `${fileId}.ogg`;
-    const filePath = path.join(process.cwd(), audioFolder, fileName);
-    
     return new Promise((resolve, reject) => {
-      const writeStream = fs.createWriteStream(filePath);
+      const writeStream = createWriteStream(filePath);
       fileStream.pipe(writeStream);
-      
+
       writeStream.on('finish', () => {
         resolve(filePath);
       });
-      
+
       writeStream.on('error', (error) => {
         reject(error);
       });
     });
   }
-}
\ No newline at end of file
+}
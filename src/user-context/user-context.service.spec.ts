@@ -1,6 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UserContextService } from './user-context.service';
 
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+process.env.HASHING_SALT = 'test-salt';
+process.env.ENCRYPTION_KEY = 'test-key';
+
 describe('UserContextService', () => {
   let service: UserContextService;
 
@@ -10,9 +15,75 @@ describe('UserContextService', () => {
     }).compile();
 
     service = module.get<UserContextService>(UserContextService);
+    await service['redis'].flushall();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('encrypts phone numbers so only this app can read them', () => {
+    const encrypted = service.encryptPhoneNumber('254700000001');
+
+    expect(encrypted).not.toContain('254700000001');
+    expect(service.encryptPhoneNumber('254700000001')).not.toBe(encrypted);
+    expect(service.decryptPhoneNumber(encrypted)).toBe('254700000001');
+  });
+
+  it('rejects encrypted numbers that were tampered with', () => {
+    const [iv, authTag] = service.encryptPhoneNumber('254700000001').split('.');
+    const forged = [
+      iv,
+      authTag,
+      Buffer.from('254799999999').toString('base64url'),
+    ];
+
+    expect(() => service.decryptPhoneNumber(forged.join('.'))).toThrow();
+  });
+
+  it('saves the turns of a retried message once', async () => {
+    await service.saveToContext('[User referred: Baraka]', 'user', '2547', {
+      messageID: 'wamid.1',
+    });
+    await service.saveToContext('[User referred: Baraka]', 'user', '2547', {
+      messageID: 'wamid.1',
+    });
+    const context = await service.saveAndFetchContext('Hello', 'user', '2547', {
+      messageID: 'wamid.1',
+    });
+    await service.saveAndFetchContext('Hello', 'user', '2547', {
+      messageID: 'wamid.1',
+    });
+
+    expect(context.map(({ content }) => content)).toEqual([
+      '[User referred: Baraka]',
+      'Hello',
+    ]);
+    expect(await service.getConversationHistory('2547')).toHaveLength(2);
+  });
+
+  it('saves the documents of a retried message once', async () => {
+    const brief = { fileName: 'brief.pdf', text: 'Budget: KES 150,000' };
+    for (const messageID of ['wamid.1', 'wamid.1', 'wamid.2']) {
+      await service.saveDocument('2547', brief, messageID);
+    }
+
+    expect(await service.getDocuments('2547')).toEqual([
+      { ...brief, messageID: 'wamid.1' },
+      { ...brief, messageID: 'wamid.2' },
+    ]);
+  });
+
+  it('keeps the same text sent in separate messages', async () => {
+    await service.saveToContext('Thanks', 'user', '2547', {
+      messageID: 'wamid.1',
+    });
+    await service.saveToContext('Thanks', 'user', '2547', {
+      messageID: 'wamid.2',
+    });
+    await service.saveToContext('Thanks', 'user', '2547');
+    await service.saveToContext('Thanks', 'user', '2547');
+
+    expect(await service.getConversationHistory('2547')).toHaveLength(4);
+  });
 });
@@ -2,12 +2,32 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Redis } from 'ioredis';
 import * as crypto from 'crypto';
 
+// Recorded next to an assistant turn, e.g. the prompt version it came from
+export interface TurnDetails {
+  promptVersion?: string;
+  // Set on replies written by the team instead of the assistant
+  agent?: string;
+  // The message a turn came from, so it is saved only once when the
+  // queue retries the message
+  messageID?: string;
+  // Set on the note left when the assistant took an action instead of
+  // answering, e.g. offered booking times
+  action?: string;
+}
+
+export interface SharedDocument {
+  fileName: string;
+  text: string;
+}
+
 @Injectable()
 export class UserContextService {
   private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
   private readonly logger: Logger = new Logger(UserContextService.name);
   private readonly salt = process.env.HASHING_SALT;
+  private readonly encryptionKey = process.env.ENCRYPTION_KEY;
   private readonly contextExpirationTime = 10800; // Expiration Time In Seconds
+  private readonly maxSharedDocuments = 3;
 
   // Phone Numbers shouldn't be said as plain text values
   // in the DB
@@ -19,18 +39,61 @@ export class UserContextService {
     return hashedPhoneNumber;
   }
 
+  // For the few records that have to reach the user again, e.g. to send
+  // the team's replies. The number is only ever kept encrypted.
+  encryptPhoneNumber(phoneNumber: string) {
+    return this.encrypt(phoneNumber);
+  }
+
+  decryptPhoneNumber(encryptedPhoneNumber: string) {
+    return this.decrypt(encryptedPhoneNumber);
+  }
+
+  // For anything else that carries phone numbers, e.g. queued webhooks
+  encrypt(text: string) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.cipherKey(), iv);
+    const encrypted = Buffer.concat([
+      cipher.update(text, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  decrypt(encryptedText: string) {
+    const [iv, authTag, encrypted] = encryptedText
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.cipherKey(),
+      iv,
+    );
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
   async saveToContext(
     context: string,
     contextType: 'user' | 'assistant',
     userID: string,
+    details?: TurnDetails,
   ) {
     try {
       const value = JSON.stringify({
         role: contextType,
         content: context,
+        ...details,
       });
       const hashedUserID = this.hashPhoneNumber(userID);
-      await this.redis.rpush(hashedUserID, value);
+      if (!(await this.isSaved(hashedUserID, value, details?.messageID))) {
+        await this.redis.rpush(hashedUserID, value);
+      }
       await this.redis.expire(hashedUserID, this.contextExpirationTime);
 
       return 'Context Saved!';
@@ -44,17 +107,21 @@ export class UserContextService {
     context: string,
     contextType: 'user' | 'assistant',
     userID: string,
+    details?: TurnDetails,
   ) {
     try {
       const pipeline = this.redis.pipeline();
       const value = JSON.stringify({
         role: contextType,
         content: context,
+        ...details,
       });
       const hashedUserID = this.hashPhoneNumber(userID);
 
       // Add context saving to pipeline
-      pipeline.rpush(hashedUserID, value);
+      if (!(await this.isSaved(hashedUserID, value, details?.messageID))) {
+        pipeline.rpush(hashedUserID, value);
+      }
 
       pipeline.lrange(hashedUserID, 0, -1);
 
@@ -63,7 +130,7 @@ export class UserContextService {
       // Execute both operations in a single round-trip
 
       const results = await pipeline.exec();
-      const conversationContext = results[1][1] as string[];
+      const conversationContext = results[results.length - 2][1] as string[];
 
       return conversationContext.map((item) => JSON.parse(item));
     } catch (error) {
@@ -85,4 +152,85 @@ export class UserContextService {
       return [];
     }
   }
+
+  // Remembers the last image generated for a user so it can be upscaled
+  // or varied later ("more like this")
+  async saveLastGeneratedImage(
+    userID: string,
+    image: { fileName: string; prompt: string },
+  ) {
+    try {
+      const key = `${this.hashPhoneNumber(userID)}:last-image`;
+      await this.redis.set(
+        key,
+        JSON.stringify(image),
+        'EX',
+        this.contextExpirationTime,
+      );
+      return 'Image Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Last Image', error);
+      return 'Error Saving Last Image';
+    }
+  }
+
+  async getLastGeneratedImage(
+    userID: string,
+  ): Promise<{ fileName: string; prompt: string } | null> {
+    try {
+      const key = `${this.hashPhoneNumber(userID)}:last-image`;
+      const image = await this.redis.get(key);
+      return image ? JSON.parse(image) : null;
+    } catch (error) {
+      this.logger.error(error);
+      return null;
+    }
+  }
+
+  // Text extracted from documents the user shared (project briefs...),
+  // kept next to the conversation so later questions can be answered
+  async saveDocument(
+    userID: string,
+    document: SharedDocument,
+    messageID?: string,
+  ) {
+    try {
+      const key = `${this.hashPhoneNumber(userID)}:documents`;
+      const value = JSON.stringify({ ...document, messageID });
+      if (!(await this.isSaved(key, value, messageID))) {
+        await this.redis.rpush(key, value);
+        await this.redis.ltrim(key, -this.maxSharedDocuments, -1);
+      }
+      await this.redis.expire(key, this.contextExpirationTime);
+      return 'Document Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Document', error);
+      return 'Error Saving Document';
+    }
+  }
+
+  async getDocuments(userID: string): Promise<SharedDocument[]> {
+    try {
+      const key = `${this.hashPhoneNumber(userID)}:documents`;
+      const documents = await this.redis.lrange(key, 0, -1);
+      return documents.map((item) => JSON.parse(item));
+    } catch (error) {
+      this.logger.error(error);
+      return [];
+    }
+  }
+
+  // Whether a turn or document from a message the queue is retrying is
+  // already saved
+  private async isSaved(key: string, value: string, messageID?: string) {
+    if (!messageID) {
+      return false;
+    }
+    const context = await this.redis.lrange(key, 0, -1);
+    return context.includes(value);
+  }
+
+  private cipherKey() {
+    return crypto.createHash('sha256').update(this.encryptionKey).digest();
+  }
 }
@@ -0,0 +1,38 @@
+import { checkDeliveryArea, distanceInKm } from './delivery-area';
+
+describe('delivery area', () => {
+  it('measures distances between coordinates', () => {
+    // Nairobi CBD to Mombasa is roughly 440 km as the crow flies
+    const distance = distanceInKm(
+      { latitude: -1.2864, longitude: 36.8172 },
+      { latitude: -4.0435, longitude: 39.6682 },
+    );
+
+    expect(distance).toBeGreaterThan(420);
+    expect(distance).toBeLessThan(460);
+  });
+
+  it('accepts locations within the radius', () => {
+    // Westlands
+    expect(
+      checkDeliveryArea({ latitude: -1.2676, longitude: 36.8108 }),
+    ).toEqual(expect.objectContaining({ inArea: true, radiusKm: 30 }));
+  });
+
+  it('rejects locations outside the radius', () => {
+    // Nakuru
+    expect(
+      checkDeliveryArea({ latitude: -0.3031, longitude: 36.08 }).inArea,
+    ).toBe(false);
+  });
+
+  it('reads the area from the environment', () => {
+    process.env.DELIVERY_AREA_RADIUS_KM = '200';
+
+    expect(checkDeliveryArea({ latitude: -0.3031, longitude: 36.08 })).toEqual(
+      expect.objectContaining({ inArea: true, radiusKm: 200 }),
+    );
+
+    delete process.env.DELIVERY_AREA_RADIUS_KM;
+  });
+});
@@ -0,0 +1,37 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Printed goods are delivered within a radius of the studio, Nairobi CBD
+// unless configured otherwise
+export const deliveryArea = () => ({
+  center: {
+    latitude: Number(process.env.DELIVERY_AREA_LATITUDE) || -1.2864,
+    longitude: Number(process.env.DELIVERY_AREA_LONGITUDE) || 36.8172,
+  },
+  radiusKm: Number(process.env.DELIVERY_AREA_RADIUS_KM) || 30,
+});
+
+// Great-circle distance with the haversine formula
+export function distanceInKm(from: GeoPoint, to: GeoPoint) {
+  const earthRadiusKm = 6371;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLongitude / 2) ** 2;
+
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(a));
+}
+
+export function checkDeliveryArea(location: GeoPoint) {
+  const { center, radiusKm } = deliveryArea();
+  const distanceKm = distanceInKm(center, location);
+
+  return { inArea: distanceKm <= radiusKm, distanceKm, radiusKm };
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { UserProfileService } from './user-profile.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+@Module({
+  providers: [UserProfileService, UserContextService],
+})
+export class UserProfileModule {}
@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserProfileService } from './user-profile.service';
+import { UserContextService } from '../user-context/user-context.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('UserProfileService', () => {
+  let service: UserProfileService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserProfileService,
+        {
+          provide: UserContextService,
+          useValue: {
+            hashPhoneNumber: (phoneNumber) => `hashed-${phoneNumber}`,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserProfileService>(UserProfileService);
+    await service['redis'].flushall();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('stores the location on the profile without expiring it', async () => {
+    await service.saveLocation('254700000001', {
+      latitude: -1.2676,
+      longitude: 36.8108,
+      name: 'Westlands',
+    });
+
+    expect(await service.getProfile('254700000001')).toEqual({
+      location: expect.objectContaining({
+        latitude: -1.2676,
+        longitude: 36.8108,
+        name: 'Westlands',
+        updatedAt: expect.any(Number),
+      }),
+    });
+    expect(await service['redis'].ttl('hashed-254700000001:profile')).toBe(-1);
+  });
+
+  it('captures shared contacts as referrals', async () => {
+    await service.saveReferrals('254700000001', [
+      { name: 'Wanjiru', phones: ['+254711111111'], emails: [] },
+    ]);
+
+    expect(await service.getReferrals()).toEqual([
+      expect.objectContaining({
+        name: 'Wanjiru',
+        phones: ['+254711111111'],
+        referredBy: 'hashed-254700000001',
+      }),
+    ]);
+  });
+
+  it('records reactions as feedback and forgets removed ones', async () => {
+    await service.saveFeedback('254700000001', 'wamid.out', '👍');
+    await service.saveFeedback('254700000001', 'wamid.out', '❤️');
+
+    expect(await service.getFeedback('wamid.out')).toEqual(
+      expect.objectContaining({ emoji: '❤️', from: 'hashed-254700000001' }),
+    );
+
+    await service.saveFeedback('254700000001', 'wamid.out', '');
+
+    expect(await service.getFeedback('wamid.out')).toBeNull();
+  });
+});
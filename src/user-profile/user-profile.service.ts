@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { UserContextService } from '../user-context/user-context.service';
+import { GeoPoint } from './delivery-area';
+import { Language } from '../i18n/i18n';
+
+export interface UserLocation extends GeoPoint {
+  name?: string;
+  address?: string;
+  updatedAt: number;
+}
+
+export interface UserLanguage {
+  code: Language;
+  // Detected languages keep being refined from the first few messages,
+  // chosen ones (/lang) are kept
+  source: 'detected' | 'chosen';
+  // Messages the language was detected from
+  detections: number;
+  updatedAt: number;
+}
+
+export interface UserProfile {
+  location?: UserLocation;
+  language?: UserLanguage;
+}
+
+export interface Referral {
+  // Hashed ID of the user who shared the contact card
+  referredBy: string;
+  name: string;
+  phones: string[];
+  emails: string[];
+  createdAt: number;
+}
+
+export interface MessageFeedback {
+  messageId: string;
+  // Hashed ID of the user who reacted
+  from: string;
+  emoji: string;
+  reactedAt: number;
+}
+
+@Injectable()
+export class UserProfileService {
+  constructor(private readonly userContextService: UserContextService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger: Logger = new Logger(UserProfileService.name);
+
+  // Unlike the conversation context, profiles don't expire
+  async saveLocation(
+    userID: string,
+    location: Omit<UserLocation, 'updatedAt'>,
+  ) {
+    try {
+      await this.redis.hset(
+        this.profileKey(userID),
+        'location',
+        JSON.stringify({ ...location, updatedAt: Date.now() }),
+      );
+      return 'Location Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Location', error);
+      return 'Error Saving Location';
+    }
+  }
+
+  async saveLanguage(
+    userID: string,
+    language: Omit<UserLanguage, 'updatedAt'>,
+  ) {
+    try {
+      await this.redis.hset(
+        this.profileKey(userID),
+        'language',
+        JSON.stringify({ ...language, updatedAt: Date.now() }),
+      );
+      return 'Language Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Language', error);
+      return 'Error Saving Language';
+    }
+  }
+
+  async getProfile(userID: string): Promise<UserProfile> {
+    try {
+      const fields = await this.redis.hgetall(this.profileKey(userID));
+      return Object.fromEntries(
+        Object.entries(fields).map(([key, value]) => [key, JSON.parse(value)]),
+      );
+    } catch (error) {
+      this.logger.error(error);
+      return {};
+    }
+  }
+
+  async saveReferrals(
+    userID: string,
+    contacts: Omit<Referral, 'referredBy' | 'createdAt'>[],
+  ) {
+    try {
+      const referredBy = this.userContextService.hashPhoneNumber(userID);
+      const referrals = contacts.map((contact) =>
+        JSON.stringify({ ...contact, referredBy, createdAt: Date.now() }),
+      );
+      await this.redis.rpush('referrals', ...referrals);
+      return 'Referrals Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Referrals', error);
+      return 'Error Saving Referrals';
+    }
+  }
+
+  async getReferrals(): Promise<Referral[]> {
+    try {
+      const referrals = await this.redis.lrange('referrals', 0, -1);
+      return referrals.map((item) => JSON.parse(item));
+    } catch (error) {
+      this.logger.error(error);
+      return [];
+    }
+  }
+
+  // A reaction replaces the previous one on the same message and an empty
+  // emoji means the reaction was removed
+  async saveFeedback(userID: string, messageId: string, emoji?: string) {
+    try {
+      if (!emoji) {
+        await this.redis.hdel('feedback', messageId);
+        return 'Feedback Removed!';
+      }
+
+      const feedback: MessageFeedback = {
+        messageId,
+        from: this.userContextService.hashPhoneNumber(userID),
+        emoji,
+        reactedAt: Date.now(),
+      };
+      await this.redis.hset('feedback', messageId, JSON.stringify(feedback));
+      return 'Feedback Saved!';
+    } catch (error) {
+      this.logger.error('Error Saving Feedback', error);
+      return 'Error Saving Feedback';
+    }
+  }
+
+  async getFeedback(messageId: string): Promise<MessageFeedback | null> {
+    try {
+      const feedback = await this.redis.hget('feedback', messageId);
+      return feedback ? JSON.parse(feedback) : null;
+    } catch (error) {
+      this.logger.error(error);
+      return null;
+    }
+  }
+
+  private profileKey(userID: string) {
+    return `${this.userContextService.hashPhoneNumber(userID)}:profile`;
+  }
+}
@@ -0,0 +1,64 @@
+import { isAllowedOrigin, webchatCors } from './webchat-origins';
+
+describe('webchat origins', () => {
+  const request = (method: string, origin?: string) =>
+    ({ method, headers: origin ? { origin } : {} }) as any;
+  const response = () => {
+    const headers: Record<string, string> = {};
+    return {
+      headers,
+      setHeader: jest.fn((name, value) => (headers[name] = value)),
+      sendStatus: jest.fn(),
+    };
+  };
+
+  afterEach(() => {
+    delete process.env.WEBCHAT_ALLOWED_ORIGINS;
+  });
+
+  it('allows only the listed sites', () => {
+    process.env.WEBCHAT_ALLOWED_ORIGINS =
+      'https://studiolibra.example/, https://shop.example';
+
+    expect(isAllowedOrigin('https://studiolibra.example')).toBe(true);
+    expect(isAllowedOrigin('https://shop.example')).toBe(true);
+    expect(isAllowedOrigin('https://elsewhere.example')).toBe(false);
+  });
+
+  it('allows no site when none are listed', () => {
+    expect(isAllowedOrigin('https://studiolibra.example')).toBe(false);
+    // Not a browser page
+    expect(isAllowedOrigin(undefined)).toBe(true);
+  });
+
+  it('answers preflights from allowed sites', () => {
+    process.env.WEBCHAT_ALLOWED_ORIGINS = 'https://studiolibra.example';
+    const res = response();
+    const next = jest.fn();
+
+    webchatCors(
+      request('OPTIONS', 'https://studiolibra.example'),
+      res as any,
+      next,
+    );
+
+    expect(res.headers['Access-Control-Allow-Origin']).toBe(
+      'https://studiolibra.example',
+    );
+    expect(res.headers['Access-Control-Allow-Headers']).toContain(
+      'X-Webchat-Token',
+    );
+    expect(res.sendStatus).toHaveBeenCalledWith(204);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('sends no CORS headers to other sites', () => {
+    const res = response();
+    const next = jest.fn();
+
+    webchatCors(request('POST', 'https://elsewhere.example'), res as any, next);
+
+    expect(res.setHeader).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalled();
+  });
+});
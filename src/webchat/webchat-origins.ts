@@ -0,0 +1,40 @@
+import { NextFunction, Request, Response } from 'express';
+
+// Sites allowed to embed the widget, comma-separated. No site is allowed
+// when WEBCHAT_ALLOWED_ORIGINS is not set.
+export function allowedOrigins() {
+  return (process.env.WEBCHAT_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+// Requests without an Origin header don't come from a browser page
+export function isAllowedOrigin(origin?: string) {
+  return !origin || allowedOrigins().includes(origin);
+}
+
+// CORS for the widget's HTTP calls, mounted on the web chat routes only.
+// Other sites get no CORS headers, so browsers keep them out.
+export function webchatCors(req: Request, res: Response, next: NextFunction) {
+  const { origin } = req.headers;
+  if (!origin || !isAllowedOrigin(origin)) {
+    next();
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  if (req.method !== 'OPTIONS') {
+    next();
+    return;
+  }
+
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, X-Webchat-Token',
+  );
+  res.setHeader('Access-Control-Max-Age', '600');
+  res.sendStatus(204);
+}
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  MessageEvent,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Res,
+  Sse,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { Observable } from 'rxjs';
+import { WebchatInput, WebchatService } from './webchat.service';
+
+const TOKEN_HEADER = 'x-webchat-token';
+
+// The HTTP side of the web chat: the widget script, sessions, media, and
+// Server-Sent Events with POSTed messages for browsers or proxies where
+// the WebSocket can't connect
+@Controller('webchat')
+export class WebchatController {
+  constructor(private readonly webchatService: WebchatService) {}
+
+  @Get('widget.js')
+  @Header('Content-Type', 'application/javascript; charset=utf-8')
+  @Header('Cache-Control', 'public, max-age=300')
+  getWidget() {
+    return readFileSync(
+      process.env.WEBCHAT_WIDGET_PATH ||
+        path.join(process.cwd(), 'public', 'webchat', 'widget.js'),
+      'utf8',
+    );
+  }
+
+  // Starts a session, or confirms the one the widget has stored
+  @Post('session')
+  @HttpCode(200)
+  async createSession(@Body() body: { token?: string }) {
+    const { token } = await this.webchatService.resolveSession(body?.token);
+    return { token };
+  }
+
+  @Post('session/phone-number')
+  @HttpCode(200)
+  async linkPhoneNumber(
+    @Headers(TOKEN_HEADER) token: string,
+    @Body() body: { phoneNumber?: string },
+  ) {
+    if (!/^\+?[\d\s-]{7,20}$/.test(body?.phoneNumber ?? '')) {
+      return { status: 'error', message: 'Invalid phone number' };
+    }
+
+    const session = await this.webchatService.linkPhoneNumber(
+      token ?? '',
+      body.phoneNumber,
+    );
+    if (!session) {
+      throw new UnauthorizedException('Unknown web chat session');
+    }
+    return { status: 'success' };
+  }
+
+  @Sse('events')
+  async events(
+    @Query('token') token: string,
+  ): Promise<Observable<MessageEvent>> {
+    const session = await this.webchatService.getSession(token ?? '');
+    if (!session) {
+      throw new UnauthorizedException('Unknown web chat session');
+    }
+
+    return new Observable<MessageEvent>((subscriber) => {
+      const connection = this.webchatService.connect(
+        session.visitorID,
+        (event) => subscriber.next({ data: event }),
+      );
+      return () => {
+        connection.then((disconnect) => disconnect());
+      };
+    });
+  }
+
+  @Post('messages')
+  @HttpCode(202)
+  async postMessage(
+    @Headers(TOKEN_HEADER) token: string,
+    @Body() input: WebchatInput,
+  ) {
+    const session = await this.webchatService.getSession(token ?? '');
+    if (!session) {
+      throw new UnauthorizedException('Unknown web chat session');
+    }
+
+    const queued = await this.webchatService.receive(session, input);
+    return queued
+      ? { status: 'success', message: 'Message queued' }
+      : { status: 'error', message: 'Empty message' };
+  }
+
+  @Get('images/:fileName')
+  getImage(@Param('fileName') fileName: string, @Res() response: Response) {
+    this.sendMedia('generatedImages', fileName, response);
+  }
+
+  @Get('audio/:fileName')
+  getAudio(@Param('fileName') fileName: string, @Res() response: Response) {
+    this.sendMedia(
+      process.env.AUDIO_FILES_FOLDER || 'audioFiles',
+      fileName,
+      response,
+    );
+  }
+
+  @Get('files/:fileName')
+  getFile(@Param('fileName') fileName: string, @Res() response: Response) {
+    this.sendMedia(
+      process.env.SENT_FILES_FOLDER || 'sentFiles',
+      fileName,
+      response,
+    );
+  }
+
+  private sendMedia(folderName: string, fileName: string, response: Response) {
+    // basename keeps requests inside the media folder
+    const filePath = path.join(
+      process.cwd(),
+      folderName,
+      path.basename(fileName),
+    );
+    if (!existsSync(filePath)) {
+      throw new NotFoundException();
+    }
+    response.sendFile(filePath);
+  }
+}
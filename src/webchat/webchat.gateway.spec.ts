@@ -0,0 +1,134 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { WebchatGateway } from './webchat.gateway';
+import { WebchatService } from './webchat.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { QueueService } from '../queue/queue.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('WebchatGateway', () => {
+  let app: INestApplication;
+  let url: string;
+  let webchatService: WebchatService;
+  let conversationService: Record<string, jest.Mock>;
+
+  // Collects the JSON events a socket receives
+  const open = (query = '', origin?: string) => {
+    const socket = new WebSocket(`${url}${query}`, { origin });
+    const events: any[] = [];
+    const next = () =>
+      new Promise<any>((resolve) => {
+        const poll = () =>
+          events.length ? resolve(events.shift()) : setTimeout(poll, 10);
+        poll();
+      });
+    socket.on('message', (data) => events.push(JSON.parse(data.toString())));
+    return { socket, next };
+  };
+
+  beforeAll(async () => {
+    conversationService = {
+      registerChannel: jest.fn(),
+      // Echoes the visitor's text back through the web chat channel
+      handleMessage: jest.fn(async ({ userID, content }) => {
+        await webchatService.send(userID, {
+          type: 'text',
+          text: `You said: ${content.text}`,
+        });
+        return { status: 'success', message: 'Message processed' };
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WebchatGateway,
+        WebchatService,
+        { provide: ConversationService, useValue: conversationService },
+        {
+          provide: QueueService,
+          useValue: {
+            registerHandler: jest.fn(),
+            // Runs jobs right away instead of through Redis
+            enqueue: jest.fn((type, userID, payload) =>
+              webchatService.processQueuedMessage({
+                id: 'job-1',
+                type,
+                userID,
+                payload,
+                attempts: 1,
+                createdAt: Date.now(),
+              }),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.listen(0);
+
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    url = `ws://127.0.0.1:${port}/webchat/ws`;
+    webchatService = app.get(WebchatService);
+  });
+
+  afterAll(async () => {
+    delete process.env.WEBCHAT_ALLOWED_ORIGINS;
+    await app.close();
+  });
+
+  it('starts a session and answers messages over the socket', async () => {
+    const { socket, next } = open();
+
+    const session = await next();
+    expect(session).toEqual({ type: 'session', token: expect.any(String) });
+
+    socket.send(JSON.stringify({ event: 'message', data: { text: 'Hello' } }));
+
+    expect(await next()).toEqual({ type: 'text', text: 'You said: Hello' });
+    expect(conversationService.handleMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'webchat',
+        content: { type: 'text', text: 'Hello' },
+      }),
+    );
+    socket.close();
+  });
+
+  it('resumes the session of a returning visitor', async () => {
+    const first = open();
+    const { token } = await first.next();
+    first.socket.close();
+
+    const second = open(`?token=${token}`);
+    expect(await second.next()).toEqual({ type: 'session', token });
+    second.socket.close();
+  });
+
+  it('refuses sites that are not allowed to embed the widget', async () => {
+    process.env.WEBCHAT_ALLOWED_ORIGINS = 'https://studiolibra.example';
+
+    const { socket } = open('', 'https://elsewhere.example');
+    const code = await new Promise((resolve) =>
+      socket.on('close', (closeCode) => resolve(closeCode)),
+    );
+
+    expect(code).toBe(1008);
+  });
+
+  it('refuses every site when none are allowed', async () => {
+    delete process.env.WEBCHAT_ALLOWED_ORIGINS;
+
+    const { socket } = open('', 'https://studiolibra.example');
+    const code = await new Promise((resolve) =>
+      socket.on('close', (closeCode) => resolve(closeCode)),
+    );
+
+    expect(code).toBe(1008);
+  });
+});
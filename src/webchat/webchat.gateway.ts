@@ -0,0 +1,71 @@
+import { Logger } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+import {
+  WebchatInput,
+  WebchatService,
+  WebchatSession,
+} from './webchat.service';
+import { isAllowedOrigin } from './webchat-origins';
+
+interface WebchatSocket extends WebSocket {
+  session?: WebchatSession;
+  disconnect?: () => void;
+}
+
+// Clients connect to /webchat/ws?token=<visitor token> and send
+// {"event": "message", "data": {"text": "..."}} frames. Replies come back
+// as JSON WebchatEvents.
+@WebSocketGateway({ path: '/webchat/ws' })
+export class WebchatGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(WebchatGateway.name);
+
+  constructor(private readonly webchatService: WebchatService) {}
+
+  async handleConnection(client: WebchatSocket, request: IncomingMessage) {
+    if (!isAllowedOrigin(request.headers.origin)) {
+      this.logger.warn(`Refused web chat from ${request.headers.origin}`);
+      client.close(1008, 'Origin not allowed');
+      return;
+    }
+
+    const url = new URL(request.url ?? '', 'http://localhost');
+    const { token, session } = await this.webchatService.resolveSession(
+      url.searchParams.get('token') ?? undefined,
+    );
+
+    client.session = session;
+    client.send(JSON.stringify({ type: 'session', token }));
+    client.disconnect = await this.webchatService.connect(
+      session.visitorID,
+      (event) => client.send(JSON.stringify(event)),
+    );
+  }
+
+  handleDisconnect(client: WebchatSocket) {
+    client.disconnect?.();
+  }
+
+  @SubscribeMessage('message')
+  async handleMessage(
+    @ConnectedSocket() client: WebchatSocket,
+    @MessageBody() input: WebchatInput,
+  ) {
+    // Frames sent before the session is set up are dropped
+    if (!client.session) {
+      return;
+    }
+
+    await this.webchatService.receive(client.session, input);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WebchatController } from './webchat.controller';
+import { WebchatGateway } from './webchat.gateway';
+import { WebchatService } from './webchat.service';
+import { QueueModule } from '../queue/queue.module';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  imports: [QueueModule, ConversationModule],
+  controllers: [WebchatController],
+  providers: [WebchatService, WebchatGateway],
+})
+export class WebchatModule {}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebchatEvent, WebchatService } from './webchat.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { Job, QueueService } from '../queue/queue.service';
+import { loadCatalogFile } from '../catalog/studio-services';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+describe('WebchatService', () => {
+  let service: WebchatService;
+  let conversationService: {
+    registerChannel: jest.Mock;
+    handleMessage: jest.Mock;
+  };
+  let queueService: { registerHandler: jest.Mock; enqueue: jest.Mock };
+
+  const job = (payload: any): Job => ({
+    id: 'job-1',
+    type: 'webchat.message',
+    userID: payload.visitorID,
+    payload,
+    attempts: 1,
+    createdAt: Date.now(),
+  });
+
+  beforeEach(async () => {
+    conversationService = {
+      registerChannel: jest.fn(),
+      handleMessage: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', message: 'Message processed' }),
+    };
+    queueService = { registerHandler: jest.fn(), enqueue: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebchatService,
+        { provide: ConversationService, useValue: conversationService },
+        { provide: QueueService, useValue: queueService },
+      ],
+    }).compile();
+
+    service = module.get<WebchatService>(WebchatService);
+    await service['redis'].flushall();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('registers itself as a channel and a queue handler', () => {
+    service.onModuleInit();
+
+    expect(conversationService.registerChannel).toHaveBeenCalledWith(service);
+    expect(queueService.registerHandler).toHaveBeenCalledWith(
+      'webchat.message',
+      expect.any(Function),
+    );
+  });
+
+  describe('sessions', () => {
+    it('starts anonymous sessions and resumes them by token', async () => {
+      const { token, session } = await service.resolveSession();
+
+      expect(session.visitorID).toMatch(/^web_/);
+      expect(await service.resolveSession(token)).toEqual({ token, session });
+    });
+
+    it('starts a new session for unknown tokens', async () => {
+      const { token, session } = await service.resolveSession('forged');
+
+      expect(token).not.toBe('forged');
+      expect(await service.getSession(token)).toEqual(session);
+    });
+
+    it('only stores a hash of the token', async () => {
+      const { token } = await service.resolveSession();
+
+      const keys = await service['redis'].keys('*');
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).not.toContain(token);
+    });
+
+    it('links a phone number to the visitor', async () => {
+      const { token, session } = await service.resolveSession();
+
+      await service.linkPhoneNumber(token, '+254 700 000001');
+
+      expect(await service.getSession(token)).toEqual({
+        ...session,
+        phoneNumber: '254700000001',
+        linkedAt: expect.any(Number),
+      });
+      expect(await service.linkPhoneNumber('unknown', '254700000001')).toBe(
+        null,
+      );
+    });
+  });
+
+  describe('inbound', () => {
+    it('queues messages per visitor', async () => {
+      const { session } = await service.resolveSession();
+
+      expect(await service.receive(session, { text: ' Hello ' })).toBe(true);
+      expect(await service.receive(session, { text: '  ' })).toBe(false);
+
+      expect(queueService.enqueue).toHaveBeenCalledTimes(1);
+      expect(queueService.enqueue).toHaveBeenCalledWith(
+        'webchat.message',
+        session.visitorID,
+        { visitorID: session.visitorID, input: { text: ' Hello ' } },
+      );
+    });
+
+    it('hands queued messages to the conversation engine', async () => {
+      await service.processQueuedMessage(
+        job({ visitorID: 'web_1', input: { selection: 'branding_service' } }),
+      );
+
+      expect(conversationService.handleMessage).toHaveBeenCalledWith({
+        channel: 'webchat',
+        userID: 'web_1',
+        messageID: 'job-1',
+        content: { type: 'selection', id: 'branding_service' },
+      });
+    });
+
+    it('throws so the queue retries failed messages', async () => {
+      conversationService.handleMessage.mockResolvedValue({
+        status: 'error',
+        message: 'Failed',
+      });
+
+      await expect(
+        service.processQueuedMessage(
+          job({ visitorID: 'web_1', input: { text: 'Hi' } }),
+        ),
+      ).rejects.toThrow('Failed');
+    });
+  });
+
+  describe('outbound', () => {
+    it('delivers replies to every open connection of the visitor', async () => {
+      const first: WebchatEvent[] = [];
+      const second: WebchatEvent[] = [];
+      await service.connect('web_1', (event) => first.push(event));
+      const disconnect = await service.connect('web_1', (event) =>
+        second.push(event),
+      );
+
+      await service.send('web_1', { type: 'text', text: 'Hi!' });
+      disconnect();
+      await service.send('web_1', { type: 'typing' });
+
+      expect(first).toEqual([
+        { type: 'text', text: 'Hi!' },
+        { type: 'typing' },
+      ]);
+      expect(second).toEqual([{ type: 'text', text: 'Hi!' }]);
+    });
+
+    it('keeps replies for visitors who are offline', async () => {
+      await service.send('web_1', { type: 'typing' });
+      await service.send('web_1', { type: 'text', text: 'Still there?' });
+
+      const received: WebchatEvent[] = [];
+      await service.connect('web_1', (event) => received.push(event));
+      await service.connect('web_1', () => undefined);
+
+      expect(received).toEqual([{ type: 'text', text: 'Still there?' }]);
+    });
+
+    it('turns menus and media into widget events', async () => {
+      const received: WebchatEvent[] = [];
+      await service.connect('web_1', (event) => received.push(event));
+
+      await service.send('web_1', {
+        type: 'menu',
+        text: 'Welcome!',
+        services: loadCatalogFile().slice(0, 1),
+      });
+      await service.send('web_1', {
+        type: 'choices',
+        text: 'Shall I book it?',
+        choices: [{ id: 'booking:slots', title: '🔁 Other times' }],
+      });
+      await service.send('web_1', {
+        type: 'image',
+        filePath: '/srv/generatedImages/v1_txt2img_1_0.png',
+        caption: 'A fox',
+      });
+      await service.send('web_1', {
+        type: 'document',
+        filePath: '/srv/sentFiles/2f1c.pdf',
+        fileName: 'Quote.pdf',
+      });
+
+      expect(received).toEqual([
+        {
+          type: 'menu',
+          text: 'Welcome!',
+          options: [
+            {
+              id: 'branding_service',
+              title: '🎨 Branding',
+              description: expect.any(String),
+            },
+          ],
+        },
+        {
+          type: 'menu',
+          text: 'Shall I book it?',
+          options: [{ id: 'booking:slots', title: '🔁 Other times' }],
+        },
+        {
+          type: 'image',
+          url: '/webchat/images/v1_txt2img_1_0.png',
+          caption: 'A fox',
+        },
+        {
+          type: 'document',
+          url: '/webchat/files/2f1c.pdf',
+          fileName: 'Quote.pdf',
+          caption: undefined,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as path from 'path';
+import { ConversationService } from '../conversation/conversation.service';
+import { Job, QueueService } from '../queue/queue.service';
+import {
+  ChannelSendResult,
+  ConversationChannel,
+  InboundContent,
+  OutboundMessage,
+} from '../conversation/conversation.types';
+
+export interface WebchatSession {
+  visitorID: string;
+  createdAt: number;
+  // Set once the visitor gives us their number, e.g. to continue on WhatsApp
+  phoneNumber?: string;
+  linkedAt?: number;
+}
+
+// What the widget receives. Text is Markdown, media is fetched by URL.
+export type WebchatEvent =
+  | { type: 'session'; token: string }
+  | { type: 'text'; text: string }
+  | {
+      type: 'menu';
+      text: string;
+      options: { id: string; title: string; description?: string }[];
+    }
+  | { type: 'image'; url: string; caption?: string }
+  | { type: 'audio'; url: string }
+  | { type: 'document'; url: string; fileName: string; caption?: string }
+  | { type: 'typing' };
+
+// What the widget sends
+export interface WebchatInput {
+  text?: string;
+  // ID of a menu option the visitor picked
+  selection?: string;
+}
+
+export type WebchatListener = (event: WebchatEvent) => void;
+
+interface QueuedWebchatMessage {
+  visitorID: string;
+  input: WebchatInput;
+}
+
+@Injectable()
+export class WebchatService implements ConversationChannel, OnModuleInit {
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger = new Logger(WebchatService.name);
+  // Open WebSocket and SSE connections per visitor. A visitor can have
+  // several tabs open, each gets every reply.
+  private readonly listeners = new Map<string, Set<WebchatListener>>();
+
+  readonly channel = 'webchat';
+
+  readonly configuration = {
+    sessionTTL:
+      (Number(process.env.WEBCHAT_SESSION_TTL_DAYS) || 30) * 24 * 60 * 60,
+    // Replies for visitors who closed the page wait this long for them
+    outboxTTL: 24 * 60 * 60,
+    maxTextLength: 4096,
+  };
+
+  onModuleInit() {
+    this.conversationService.registerChannel(this);
+    this.queueService.registerHandler<QueuedWebchatMessage>(
+      'webchat.message',
+      (job) => this.processQueuedMessage(job),
+    );
+  }
+
+  // Returns the session for a token, or starts a new anonymous one when
+  // the token is missing or unknown
+  async resolveSession(
+    token?: string,
+  ): Promise<{ token: string; session: WebchatSession }> {
+    const existing = token && (await this.getSession(token));
+    if (existing) {
+      await this.redis.expire(
+        this.sessionKey(token),
+        this.configuration.sessionTTL,
+      );
+      return { token, session: existing };
+    }
+
+    const newToken = randomBytes(32).toString('base64url');
+    const session: WebchatSession = {
+      visitorID: `web_${randomUUID()}`,
+      createdAt: Date.now(),
+    };
+    await this.saveSession(newToken, session);
+    this.logger.log(`Started web chat session ${session.visitorID}`);
+    return { token: newToken, session };
+  }
+
+  async getSession(token: string): Promise<WebchatSession | null> {
+    try {
+      const session = await this.redis.get(this.sessionKey(token));
+      return session ? JSON.parse(session) : null;
+    } catch (error) {
+      this.logger.error('Error Fetching Session', error);
+      return null;
+    }
+  }
+
+  // Linking only records the number for the team. It doesn't merge the
+  // visitor with that number's WhatsApp conversation, since nothing
+  // proves the visitor owns it.
+  async linkPhoneNumber(token: string, phoneNumber: string) {
+    const session = await this.getSession(token);
+    if (!session) {
+      return null;
+    }
+
+    const linked = {
+      ...session,
+      phoneNumber: phoneNumber.replace(/[^\d]/g, ''),
+      linkedAt: Date.now(),
+    };
+    await this.saveSession(token, linked);
+    return linked;
+  }
+
+  // Messages from the WebSocket and the HTTP fallback are queued like
+  // the other channels, so the socket or request isn't held up while
+  // the assistant answers
+  async receive(session: WebchatSession, input: WebchatInput) {
+    if (!this.toInboundContent(input)) {
+      return false;
+    }
+
+    await this.queueService.enqueue<QueuedWebchatMessage>(
+      'webchat.message',
+      session.visitorID,
+      { visitorID: session.visitorID, input },
+    );
+    return true;
+  }
+
+  async processQueuedMessage(job: Job<QueuedWebchatMessage>) {
+    const { visitorID, input } = job.payload;
+
+    const result = await this.conversationService.handleMessage({
+      channel: 'webchat',
+      userID: visitorID,
+      messageID: job.id,
+      content: this.toInboundContent(input),
+    });
+
+    // Throwing hands the job back to the queue for a retry
+    if (result.status === 'error') {
+      throw new Error(result.message);
+    }
+  }
+
+  // Registers a connection and hands it the replies it missed. Returns
+  // the function that unregisters it.
+  async connect(visitorID: string, listener: WebchatListener) {
+    const listeners = this.listeners.get(visitorID) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(visitorID, listeners);
+
+    const outboxKey = this.outboxKey(visitorID);
+    const [[, missed]] = await this.redis
+      .multi()
+      .lrange(outboxKey, 0, -1)
+      .del(outboxKey)
+      .exec();
+    for (const event of missed as string[]) {
+      listener(JSON.parse(event));
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(visitorID);
+      }
+    };
+  }
+
+  async send(
+    visitorID: string,
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    const event = this.toWebchatEvent(message);
+    const listeners = this.listeners.get(visitorID);
+
+    if (listeners?.size) {
+      listeners.forEach((listener) => listener(event));
+      return { status: 'success' };
+    }
+
+    // Nobody to show a typing indicator to
+    if (event.type === 'typing') {
+      return { status: 'success' };
+    }
+
+    try {
+      const outboxKey = this.outboxKey(visitorID);
+      await this.redis.rpush(outboxKey, JSON.stringify(event));
+      await this.redis.expire(outboxKey, this.configuration.outboxTTL);
+      return { status: 'success' };
+    } catch (error) {
+      this.logger.error('Error Saving Reply', error);
+      return { status: 'error', error: error.message };
+    }
+  }
+
+  private toInboundContent(input: WebchatInput): InboundContent | null {
+    if (input?.selection) {
+      return { type: 'selection', id: String(input.selection) };
+    }
+
+    const text = String(input?.text ?? '')
+      .trim()
+      .slice(0, this.configuration.maxTextLength);
+    return text ? { type: 'text', text } : null;
+  }
+
+  private toWebchatEvent(message: OutboundMessage): WebchatEvent {
+    switch (message.type) {
+      case 'text':
+        return { type: 'text', text: message.text };
+      case 'menu':
+        return {
+          type: 'menu',
+          text: message.text,
+          options: message.services.map(
+            ({ id, emoji, title, description }) => ({
+              id,
+              title: `${emoji} ${title}`,
+              description,
+            }),
+          ),
+        };
+      // The widget shows choices the same way as the menu
+      case 'choices':
+        return { type: 'menu', text: message.text, options: message.choices };
+      case 'image':
+        return {
+          type: 'image',
+          url: this.mediaUrl(
+            this.isSentFile(message.filePath) ? 'files' : 'images',
+            message.filePath,
+          ),
+          caption: message.caption,
+        };
+      case 'audio':
+        return { type: 'audio', url: this.mediaUrl('audio', message.filePath) };
+      case 'document':
+        return {
+          type: 'document',
+          url: this.mediaUrl('files', message.filePath),
+          fileName: message.fileName ?? path.basename(message.filePath),
+          caption: message.caption,
+        };
+      case 'typing':
+        return { type: 'typing' };
+    }
+  }
+
+  // Served by WebchatController, relative so it works behind any host
+  private mediaUrl(kind: 'images' | 'audio' | 'files', filePath: string) {
+    return `/webchat/${kind}/${encodeURIComponent(path.basename(filePath))}`;
+  }
+
+  // Files the team sends are kept apart from generated media
+  private isSentFile(filePath: string) {
+    return (
+      path.basename(path.dirname(filePath)) ===
+      (process.env.SENT_FILES_FOLDER || 'sentFiles')
+    );
+  }
+
+  private async saveSession(token: string, session: WebchatSession) {
+    await this.redis.set(
+      this.sessionKey(token),
+      JSON.stringify(session),
+      'EX',
+      this.configuration.sessionTTL,
+    );
+  }
+
+  // Only a hash of the token is stored, like phone numbers
+  private sessionKey(token: string) {
+    return `webchat:session:${createHash('sha256').update(token).digest('hex')}`;
+  }
+
+  private outboxKey(visitorID: string) {
+    return `webchat:outbox:${visitorID}`;
+  }
+}
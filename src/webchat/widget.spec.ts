@@ -0,0 +1,119 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { runInNewContext } from 'vm';
+import { WebchatEvent } from './webchat.service';
+
+// Just enough of the DOM for the widget to build its panel and render
+class FakeElement {
+  children: any[] = [];
+  listeners: Record<string, (event?: any) => void> = {};
+  attributes: Record<string, string> = {};
+  className = '';
+  textContent = '';
+  innerHTML = '';
+  scrollTop = 0;
+  scrollHeight = 0;
+  private selected: Record<string, FakeElement> = {};
+  private classes = new Set<string>();
+  classList = {
+    toggle: (name: string) =>
+      this.classes.delete(name) || !!this.classes.add(name),
+    contains: (name: string) => this.classes.has(name),
+  };
+
+  constructor(readonly tagName: string) {}
+
+  appendChild(child: any) {
+    this.children.push(child);
+    return child;
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributes[name] = value;
+  }
+
+  addEventListener(type: string, listener: (event?: any) => void) {
+    this.listeners[type] = listener;
+  }
+
+  // Elements from innerHTML, one per selector
+  querySelector(selector: string) {
+    this.selected[selector] ??= new FakeElement(selector);
+    return this.selected[selector];
+  }
+
+  focus() {}
+}
+
+describe('web chat widget', () => {
+  let sockets: { onmessage: (message: { data: string }) => void }[];
+  let body: FakeElement;
+
+  beforeEach(() => {
+    sockets = [];
+    body = new FakeElement('body');
+    class FakeWebSocket {
+      static OPEN = 1;
+      constructor() {
+        sockets.push(this as any);
+      }
+    }
+
+    runInNewContext(
+      readFileSync(
+        path.join(__dirname, '..', '..', 'public', 'webchat', 'widget.js'),
+        'utf8',
+      ),
+      {
+        document: {
+          currentScript: { src: 'https://bot.example/webchat/widget.js' },
+          head: new FakeElement('head'),
+          body,
+          createElement: (tagName: string) => new FakeElement(tagName),
+          createTextNode: (text: string) => ({ textContent: text }),
+        },
+        location: { origin: 'https://studiolibra.example' },
+        localStorage: { getItem: () => null, setItem: () => undefined },
+        WebSocket: FakeWebSocket,
+        URL,
+        setTimeout,
+        clearTimeout,
+      },
+    );
+  });
+
+  // Opens the panel, which connects, and renders the event
+  const render = (event: WebchatEvent) => {
+    const [panel, button] = body.children;
+    button.listeners.click();
+    sockets[0].onmessage({ data: JSON.stringify(event) });
+    return panel.querySelector('.slc-log').children;
+  };
+
+  it('renders text replies', () => {
+    const [bubble] = render({ type: 'text', text: 'Hi **there**' });
+
+    expect(bubble.className).toBe('slc-msg slc-bot');
+    expect(bubble.innerHTML).toBe('Hi <strong>there</strong>');
+  });
+
+  it('renders documents as a download link with the caption', () => {
+    const [bubble] = render({
+      type: 'document',
+      url: '/webchat/files/studio-libra-consultation-1.ics',
+      fileName: 'studio-libra-consultation.ics',
+      caption: '📅 Consultation with Studio Libra',
+    });
+
+    const [link, caption] = bubble.children;
+    expect(link).toEqual(
+      expect.objectContaining({
+        tagName: 'a',
+        href: 'https://bot.example/webchat/files/studio-libra-consultation-1.ics',
+        download: 'studio-libra-consultation.ics',
+        textContent: '📄 studio-libra-consultation.ics',
+      }),
+    );
+    expect(caption.textContent).toBe('\n📅 Consultation with Studio Libra');
+  });
+});
@@ -0,0 +1,327 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { WhatsappCloudApiClient } from './whatsapp-cloud-api.client';
+import {
+  buildContactsMessage,
+  buildDocumentMessage,
+  buildListMessage,
+  buildReactionMessage,
+  buildReplyButtonsMessage,
+  buildTemplateMessage,
+  buildTextMessage,
+} from './whatsapp-message.builders';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+// A local stand-in for graph.facebook.com
+// Recipients the stand-in fails for, with the errors returned before the
+// send goes through
+const FAILURES: Record<string, { status: number; code: number }[]> = {
+  flaky: [
+    { status: 500, code: 131000 },
+    { status: 503, code: 133004 },
+  ],
+  throttled: [{ status: 400, code: 130429 }],
+  busy: [{ status: 400, code: 131056 }],
+  overloaded: Array(10).fill({ status: 500, code: 131000 }),
+};
+
+const startGraphServer = async (requests: RecordedRequest[]) => {
+  const attempts: Record<string, number> = {};
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body =
+        raw && req.headers['content-type']?.startsWith('application/json')
+          ? JSON.parse(raw)
+          : raw;
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      });
+      const { port } = server.address() as AddressInfo;
+
+      res.setHeader('Content-Type', 'application/json');
+      const attempt = attempts[body?.to] ?? 0;
+      attempts[body?.to] = attempt + 1;
+      const failure = FAILURES[body?.to]?.[attempt];
+      if (req.url === '/v20.0/PHONE_ID/messages' && failure) {
+        res.statusCode = failure.status;
+        res.end(
+          JSON.stringify({
+            error: { message: `Error ${failure.code}`, code: failure.code },
+          }),
+        );
+      } else if (
+        req.url === '/v20.0/PHONE_ID/messages' &&
+        body?.to === 'invalid'
+      ) {
+        res.statusCode = 400;
+        res.end(
+          JSON.stringify({
+            error: {
+              message: '(#131030) Recipient phone number not in allowed list',
+              type: 'OAuthException',
+              code: 131030,
+            },
+          }),
+        );
+      } else if (req.url === '/v20.0/PHONE_ID/messages') {
+        res.end(
+          JSON.stringify({
+            messaging_product: 'whatsapp',
+            contacts: [{ input: body.to, wa_id: body.to }],
+            messages: [{ id: `wamid.${requests.length}` }],
+          }),
+        );
+      } else if (req.url === '/v20.0/PHONE_ID/media') {
+        res.end(JSON.stringify({ id: 'UPLOADED_ID' }));
+      } else if (req.url === '/v20.0/MEDIA_ID') {
+        res.end(
+          JSON.stringify({
+            url: `http://127.0.0.1:${port}/files/MEDIA_ID`,
+            mime_type: 'audio/ogg',
+            id: 'MEDIA_ID',
+          }),
+        );
+      } else if (req.url === '/files/MEDIA_ID') {
+        res.setHeader('Content-Type', 'audio/ogg');
+        res.end(Buffer.from('OggS-audio-bytes'));
+      } else {
+        res.statusCode = 404;
+        res.end(
+          JSON.stringify({ error: { message: 'Unknown path', code: 100 } }),
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('WhatsappCloudApiClient', () => {
+  let client: WhatsappCloudApiClient;
+  let server: Server;
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    requests = [];
+    server = await startGraphServer(requests);
+    const { port } = server.address() as AddressInfo;
+
+    process.env.WHATSAPP_CLOUD_API_BASE_URL = `http://127.0.0.1:${port}`;
+    process.env.WHATSAPP_CLOUD_API_VERSION = 'v20.0';
+    process.env.WHATSAPP_CLOUD_API_PHONE_NUMBER_ID = 'PHONE_ID';
+    process.env.WHATSAPP_CLOUD_API_ACCESS_TOKEN = 'ACCESS_TOKEN';
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.WHATSAPP_CLOUD_API_BASE_URL;
+  });
+
+  beforeEach(async () => {
+    requests.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [WhatsappCloudApiClient],
+    }).compile();
+
+    client = module.get<WhatsappCloudApiClient>(WhatsappCloudApiClient);
+  });
+
+  it('should be defined', () => {
+    expect(client).toBeDefined();
+  });
+
+  it('sends messages and returns the WhatsApp message ID', async () => {
+    const result = await client.send(
+      buildTextMessage('254700000001', 'Hello', { replyTo: 'wamid.in' }),
+    );
+
+    expect(result).toEqual({
+      status: 'success',
+      messageId: 'wamid.1',
+      to: '254700000001',
+    });
+    expect(requests[0]).toEqual(
+      expect.objectContaining({
+        method: 'POST',
+        url: '/v20.0/PHONE_ID/messages',
+        body: {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: '254700000001',
+          context: { message_id: 'wamid.in' },
+          type: 'text',
+          text: { preview_url: false, body: 'Hello' },
+        },
+      }),
+    );
+    expect(requests[0].headers.authorization).toBe('Bearer ACCESS_TOKEN');
+  });
+
+  it('returns Graph API errors with their code', async () => {
+    const result = await client.send(buildTextMessage('invalid', 'Hello'));
+
+    expect(result).toEqual({
+      status: 'error',
+      error: '(#131030) Recipient phone number not in allowed list',
+      code: 131030,
+      category: 'recipient',
+    });
+  });
+
+  describe('retries', () => {
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = [];
+      client['sleep'] = jest.fn(async (ms: number) => {
+        delays.push(ms);
+      });
+    });
+
+    it('retries temporary server errors with growing delays', async () => {
+      const result = await client.send(buildTextMessage('flaky', 'Hello'));
+
+      expect(result.status).toBe('success');
+      expect(requests).toHaveLength(3);
+      expect(delays).toHaveLength(2);
+      expect(delays[0]).toBeGreaterThanOrEqual(250);
+      expect(delays[0]).toBeLessThanOrEqual(500);
+      expect(delays[1]).toBeGreaterThanOrEqual(500);
+      expect(delays[1]).toBeLessThanOrEqual(1000);
+    });
+
+    it('retries rate limit errors', async () => {
+      const result = await client.send(buildTextMessage('throttled', 'Hi'));
+
+      expect(result.status).toBe('success');
+      expect(requests).toHaveLength(2);
+    });
+
+    it('waits out the pair rate limit before sending again', async () => {
+      await client.send(buildTextMessage('busy', 'Hello'));
+
+      // The backoff delay followed by the rest of the pair pause
+      expect(delays).toHaveLength(2);
+      expect(delays[0] + delays[1]).toBeGreaterThan(5000);
+      expect(requests).toHaveLength(2);
+    });
+
+    it('gives up after the configured number of attempts', async () => {
+      const result = await client.send(buildTextMessage('overloaded', 'Hi'));
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'Error 131000',
+        code: 131000,
+        category: 'temporary',
+      });
+      expect(requests).toHaveLength(client.configuration.maxSendAttempts);
+    });
+
+    it('does not retry permanent errors', async () => {
+      await client.send(buildTextMessage('invalid', 'Hello'));
+
+      expect(requests).toHaveLength(1);
+      expect(delays).toHaveLength(0);
+    });
+  });
+
+  it('marks messages as read', async () => {
+    expect(await client.markAsRead('wamid.in')).toEqual({ status: 'success' });
+    expect(requests[0].body).toEqual({
+      messaging_product: 'whatsapp',
+      status: 'read',
+      message_id: 'wamid.in',
+    });
+  });
+
+  it('downloads media through the media URL', async () => {
+    const result = await client.downloadMedia('MEDIA_ID');
+
+    expect(result).toEqual({
+      status: 'success',
+      data: Buffer.from('OggS-audio-bytes'),
+      mimeType: 'audio/ogg',
+    });
+    expect(requests.map((request) => request.url)).toEqual([
+      '/v20.0/MEDIA_ID',
+      '/files/MEDIA_ID',
+    ]);
+  });
+
+  it('uploads media as multipart form data', async () => {
+    const result = await client.uploadMedia(
+      Buffer.from('PNG-bytes'),
+      'image/png',
+      'v1_txt2img_1_0.png',
+    );
+
+    expect(result).toEqual({ status: 'success', id: 'UPLOADED_ID' });
+    expect(requests[0].headers['content-type']).toMatch(
+      /^multipart\/form-data; boundary=/,
+    );
+    expect(requests[0].headers.authorization).toBe('Bearer ACCESS_TOKEN');
+    expect(requests[0].body).toContain('name="messaging_product"');
+    expect(requests[0].body).toContain('filename="v1_txt2img_1_0.png"');
+    expect(requests[0].body).toContain('PNG-bytes');
+  });
+
+  describe('builders', () => {
+    it('builds reply buttons', () => {
+      expect(
+        buildReplyButtonsMessage('1', 'Pick one', [{ id: 'a', title: 'A' }], {
+          footer: 'Studio Libra',
+        }).interactive,
+      ).toEqual({
+        type: 'button',
+        body: { text: 'Pick one' },
+        footer: { text: 'Studio Libra' },
+        action: {
+          buttons: [{ type: 'reply', reply: { id: 'a', title: 'A' } }],
+        },
+      });
+    });
+
+    it('builds list messages', () => {
+      const message = buildListMessage('1', 'Our services', 'View services', [
+        { title: 'Design', rows: [{ id: 'branding', title: 'Branding' }] },
+      ]);
+
+      expect(message.interactive.type).toBe('list');
+      expect(message.interactive.action.button).toBe('View services');
+    });
+
+    it('builds documents, contacts, reactions and templates', () => {
+      expect(
+        buildDocumentMessage('1', { id: 'doc' }, { filename: 'brief.pdf' })
+          .document,
+      ).toEqual({ id: 'doc', filename: 'brief.pdf' });
+      expect(
+        buildContactsMessage('1', [{ name: { formatted_name: 'Studio' } }])
+          .contacts,
+      ).toHaveLength(1);
+      expect(buildReactionMessage('1', 'wamid.in', '👍').reaction).toEqual({
+        message_id: 'wamid.in',
+        emoji: '👍',
+      });
+      expect(buildTemplateMessage('1', 'follow_up', 'en').template).toEqual({
+        name: 'follow_up',
+        language: { code: 'en' },
+      });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AxiosRequestConfig } from 'axios';
+import { lastValueFrom, map } from 'rxjs';
+import {
+  WhatsappMediaDownloadResult,
+  WhatsappMediaUploadResult,
+  WhatsappOutboundMessage,
+  WhatsappSendResult,
+} from './whatsapp-cloud-api.types';
+import { parseGraphError } from './whatsapp-cloud-api.errors';
+
+@Injectable()
+export class WhatsappCloudApiClient {
+  private readonly httpService = new HttpService();
+  private readonly logger = new Logger(WhatsappCloudApiClient.name);
+
+  readonly configuration = {
+    // Overridable so the client can be pointed at a local stand-in server
+    baseUrl:
+      process.env.WHATSAPP_CLOUD_API_BASE_URL || 'https://graph.facebook.com',
+    version: process.env.WHATSAPP_CLOUD_API_VERSION,
+    phoneNumberId: process.env.WHATSAPP_CLOUD_API_PHONE_NUMBER_ID,
+    accessToken: process.env.WHATSAPP_CLOUD_API_ACCESS_TOKEN,
+    // Temporary errors and rate limits are retried with exponential backoff
+    maxSendAttempts: Number(process.env.WHATSAPP_SEND_MAX_ATTEMPTS) || 4,
+    backoffMs: Number(process.env.WHATSAPP_SEND_BACKOFF_MS) || 500,
+    maxBackoffMs: 30000,
+    // Meta allows roughly one message every 6 seconds to the same user once
+    // the pair rate limit (131056) has been hit
+    pairRateLimitMs: Number(process.env.WHATSAPP_PAIR_RATE_LIMIT_MS) || 6000,
+  };
+
+  // Recipients we hit the pair rate limit for, and when we may send again
+  private readonly pairPausedUntil = new Map<string, number>();
+
+  // The single path every outbound message goes through
+  async send(message: WhatsappOutboundMessage): Promise<WhatsappSendResult> {
+    const { maxSendAttempts } = this.configuration;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForPairRateLimit(message.to);
+
+      try {
+        const response = await this.post(
+          `${this.configuration.phoneNumberId}/messages`,
+          message,
+        );
+        const messageId = response?.messages?.[0]?.id;
+        this.logger.log(`Sent ${message.type} message ${messageId}`);
+
+        return {
+          status: 'success',
+          messageId,
+          to: response?.contacts?.[0]?.wa_id ?? message.to,
+        };
+      } catch (error) {
+        const {
+          message: errorMessage,
+          code,
+          category,
+          retryable,
+        } = parseGraphError(error);
+
+        if (category === 'pair_rate_limited') {
+          this.pairPausedUntil.set(
+            message.to,
+            Date.now() + this.configuration.pairRateLimitMs,
+          );
+        }
+
+        if (!retryable || attempt >= maxSendAttempts) {
+          this.logger.error(
+            `Error sending ${message.type} message: ${errorMessage} (${code}, ${category}) after ${attempt} attempt(s)`,
+          );
+          return { status: 'error', error: errorMessage, code, category };
+        }
+
+        const delay = this.backoffDelay(attempt);
+        this.logger.warn(
+          `Retrying ${message.type} message in ${delay}ms after ${category} error: ${errorMessage} (attempt ${attempt}/${maxSendAttempts})`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  async markAsRead(messageId: string) {
+    try {
+      await this.post(`${this.configuration.phoneNumberId}/messages`, {
+        messaging_product: 'whatsapp',
+        status: 'read',
+        message_id: messageId,
+      });
+      return { status: 'success' as const };
+    } catch (error) {
+      const { message, code, category } = parseGraphError(error);
+      this.logger.error(`Error marking message as read: ${message}`);
+      return { status: 'error' as const, error: message, code, category };
+    }
+  }
+
+  async downloadMedia(mediaId: string): Promise<WhatsappMediaDownloadResult> {
+    try {
+      const media = await lastValueFrom(
+        this.httpService
+          .get(this.endpoint(mediaId), this.requestConfig())
+          .pipe(map((res) => res.data)),
+      );
+      const response = await lastValueFrom(
+        this.httpService.get(
+          media.url,
+          this.requestConfig({ responseType: 'arraybuffer' }),
+        ),
+      );
+
+      return {
+        status: 'success',
+        data: Buffer.from(response.data),
+        mimeType: media.mime_type ?? response.headers['content-type'],
+      };
+    } catch (error) {
+      const { message, code, category } = parseGraphError(error);
+      this.logger.error(`Error downloading media ${mediaId}: ${message}`);
+      return { status: 'error', error: message, code, category };
+    }
+  }
+
+  // Uploaded media can be sent by ID for 30 days, so the server doesn't
+  // need to be publicly reachable for WhatsApp to fetch it
+  async uploadMedia(
+    data: Buffer,
+    mimeType: string,
+    fileName: string,
+  ): Promise<WhatsappMediaUploadResult> {
+    try {
+      const form = new FormData();
+      form.append('messaging_product', 'whatsapp');
+      form.append('type', mimeType);
+      form.append('file', new Blob([data], { type: mimeType }), fileName);
+
+      const response = await lastValueFrom(
+        this.httpService
+          .post(
+            this.endpoint(`${this.configuration.phoneNumberId}/media`),
+            form,
+            // Left to axios so the multipart boundary gets filled in
+            this.requestConfig({ headers: { 'Content-Type': undefined } }),
+          )
+          .pipe(map((res) => res.data)),
+      );
+      this.logger.log(`Uploaded ${mimeType} media ${response.id}`);
+
+      return { status: 'success', id: response.id };
+    } catch (error) {
+      const { message, code, category } = parseGraphError(error);
+      this.logger.error(`Error uploading media ${fileName}: ${message}`);
+      return { status: 'error', error: message, code, category };
+    }
+  }
+
+  private post(path: string, body: unknown) {
+    return lastValueFrom(
+      this.httpService
+        .post(this.endpoint(path), body, this.requestConfig())
+        .pipe(map((res) => res.data)),
+    );
+  }
+
+  private endpoint(path: string) {
+    return `${this.configuration.baseUrl}/${this.configuration.version}/${path}`;
+  }
+
+  private requestConfig(config: AxiosRequestConfig = {}): AxiosRequestConfig {
+    return {
+      ...config,
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+        Authorization: `Bearer ${this.configuration.accessToken}`,
+      },
+    };
+  }
+
+  // Exponential backoff with equal jitter, so retries from concurrent
+  // workers don't hit the API at the same moment
+  private backoffDelay(attempt: number) {
+    const delay = Math.min(
+      this.configuration.maxBackoffMs,
+      this.configuration.backoffMs * 2 ** (attempt - 1),
+    );
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private async waitForPairRateLimit(recipient: string) {
+    const pausedUntil = this.pairPausedUntil.get(recipient);
+    if (!pausedUntil) {
+      return;
+    }
+
+    const remaining = pausedUntil - Date.now();
+    if (remaining > 0) {
+      this.logger.log(`Waiting ${remaining}ms for the pair rate limit`);
+      await this.sleep(remaining);
+    }
+    this.pairPausedUntil.delete(recipient);
+  }
+
+  private sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
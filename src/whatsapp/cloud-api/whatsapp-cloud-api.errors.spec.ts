@@ -0,0 +1,50 @@
+import { categorizeError, parseGraphError } from './whatsapp-cloud-api.errors';
+
+const axiosError = (status: number, code?: number) => ({
+  message: `Request failed with status code ${status}`,
+  response: {
+    status,
+    data: code ? { error: { message: `(#${code}) Error`, code } } : {},
+  },
+});
+
+describe('Graph API errors', () => {
+  it('sorts error codes into categories', () => {
+    expect(categorizeError(130429, 400)).toBe('rate_limited');
+    expect(categorizeError(131056, 400)).toBe('pair_rate_limited');
+    expect(categorizeError(131048, 400)).toBe('spam_limited');
+    expect(categorizeError(131047, 400)).toBe('re_engagement');
+    expect(categorizeError(190, 401)).toBe('authentication');
+    expect(categorizeError(132001, 400)).toBe('template');
+  });
+
+  it('falls back on the HTTP status for unknown codes', () => {
+    expect(categorizeError(999999, 502)).toBe('temporary');
+    expect(categorizeError(undefined, 429)).toBe('rate_limited');
+    expect(categorizeError(999999, 400)).toBe('invalid_request');
+  });
+
+  it('marks only transient errors as retryable', () => {
+    expect(parseGraphError(axiosError(500)).retryable).toBe(true);
+    expect(parseGraphError(axiosError(400, 131056)).retryable).toBe(true);
+    expect(parseGraphError(axiosError(400, 131048)).retryable).toBe(false);
+    expect(parseGraphError(axiosError(400, 131047)).retryable).toBe(false);
+    expect(parseGraphError(axiosError(400, 131030))).toEqual({
+      message: '(#131030) Error',
+      code: 131030,
+      httpStatus: 400,
+      category: 'recipient',
+      retryable: false,
+    });
+  });
+
+  it('treats network errors as temporary', () => {
+    expect(parseGraphError(new Error('socket hang up'))).toEqual(
+      expect.objectContaining({
+        message: 'socket hang up',
+        category: 'temporary',
+        retryable: true,
+      }),
+    );
+  });
+});
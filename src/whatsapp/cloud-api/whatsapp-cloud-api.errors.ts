@@ -0,0 +1,101 @@
+export type WhatsappErrorCategory =
+  // Throughput limits of the app or the phone number
+  | 'rate_limited'
+  // Too many messages to the same recipient in a short time
+  | 'pair_rate_limited'
+  // Meta limits the number for sending what looks like spam, retrying only
+  // adds to it
+  | 'spam_limited'
+  // 5xx responses, timeouts and errors Meta documents as transient
+  | 'temporary'
+  | 'authentication'
+  // The recipient can't be messaged (not on WhatsApp, not allowed...)
+  | 'recipient'
+  // The 24-hour customer service window has closed
+  | 're_engagement'
+  | 'template'
+  | 'media'
+  | 'invalid_request';
+
+export interface WhatsappApiError {
+  message: string;
+  code?: number;
+  httpStatus?: number;
+  category: WhatsappErrorCategory;
+  retryable: boolean;
+}
+
+// https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const ERROR_CODE_CATEGORIES: Record<number, WhatsappErrorCategory> = {
+  0: 'authentication',
+  190: 'authentication',
+  3: 'authentication',
+  10: 'authentication',
+  200: 'authentication',
+  4: 'rate_limited',
+  80007: 'rate_limited',
+  130429: 'rate_limited',
+  131048: 'spam_limited',
+  131056: 'pair_rate_limited',
+  1: 'temporary',
+  2: 'temporary',
+  131000: 'temporary',
+  131016: 'temporary',
+  133004: 'temporary',
+  131026: 'recipient',
+  131030: 'recipient',
+  131045: 'recipient',
+  131047: 're_engagement',
+  131051: 'invalid_request',
+  131052: 'media',
+  131053: 'media',
+  132000: 'template',
+  132001: 'template',
+  132005: 'template',
+  132007: 'template',
+  132012: 'template',
+  132015: 'template',
+  132016: 'template',
+};
+
+const RETRYABLE_CATEGORIES: WhatsappErrorCategory[] = [
+  'rate_limited',
+  'pair_rate_limited',
+  'temporary',
+];
+
+export function categorizeError(
+  code?: number,
+  httpStatus?: number,
+): WhatsappErrorCategory {
+  if (code !== undefined && ERROR_CODE_CATEGORIES[code]) {
+    return ERROR_CODE_CATEGORIES[code];
+  }
+  // No response at all means the request never reached Meta
+  if (httpStatus === undefined || httpStatus >= 500) {
+    return 'temporary';
+  }
+  if (httpStatus === 429) {
+    return 'rate_limited';
+  }
+  if (httpStatus === 401 || httpStatus === 403) {
+    return 'authentication';
+  }
+  return 'invalid_request';
+}
+
+// Turns an axios error into a typed Graph API error
+export function parseGraphError(error: any): WhatsappApiError {
+  const httpStatus: number | undefined = error?.response?.status;
+  const graphError = error?.response?.data?.error;
+  const code: number | undefined = graphError?.code;
+  const category = categorizeError(code, httpStatus);
+
+  return {
+    message: graphError?.message ?? error?.message ?? 'Unknown error',
+    code,
+    httpStatus,
+    category,
+    retryable: RETRYABLE_CATEGORIES.includes(category),
+  };
+}
@@ -0,0 +1,208 @@
+import { WhatsappErrorCategory } from './whatsapp-cloud-api.errors';
+
+// Outbound message payloads for the WhatsApp Cloud API /messages endpoint.
+// See https://developers.facebook.com/docs/whatsapp/cloud-api/reference/messages
+
+interface WhatsappMessageBase {
+  messaging_product: 'whatsapp';
+  recipient_type: 'individual';
+  to: string;
+  context?: {
+    message_id: string;
+  };
+}
+
+// Media is either uploaded to the /media endpoint (id) or publicly hosted (link)
+export type WhatsappMediaSource = { id: string } | { link: string };
+
+export type WhatsappMediaObject = WhatsappMediaSource & {
+  caption?: string;
+  filename?: string;
+};
+
+export interface WhatsappReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface WhatsappListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface WhatsappListSection {
+  title?: string;
+  rows: WhatsappListRow[];
+}
+
+export interface WhatsappInteractiveText {
+  header?: { type: 'text'; text: string };
+  body: { text: string };
+  footer?: { text: string };
+}
+
+export interface WhatsappTextMessage extends WhatsappMessageBase {
+  type: 'text';
+  text: {
+    body: string;
+    preview_url?: boolean;
+  };
+}
+
+export interface WhatsappReplyButtonsMessage extends WhatsappMessageBase {
+  type: 'interactive';
+  interactive: WhatsappInteractiveText & {
+    type: 'button';
+    action: {
+      buttons: { type: 'reply'; reply: WhatsappReplyButton }[];
+    };
+  };
+}
+
+export interface WhatsappListMessage extends WhatsappMessageBase {
+  type: 'interactive';
+  interactive: WhatsappInteractiveText & {
+    type: 'list';
+    action: {
+      button: string;
+      sections: WhatsappListSection[];
+    };
+  };
+}
+
+export interface WhatsappImageMessage extends WhatsappMessageBase {
+  type: 'image';
+  image: WhatsappMediaObject;
+}
+
+export interface WhatsappAudioMessage extends WhatsappMessageBase {
+  type: 'audio';
+  audio: WhatsappMediaSource;
+}
+
+export interface WhatsappDocumentMessage extends WhatsappMessageBase {
+  type: 'document';
+  document: WhatsappMediaObject;
+}
+
+export interface WhatsappVideoMessage extends WhatsappMessageBase {
+  type: 'video';
+  video: WhatsappMediaObject;
+}
+
+export interface WhatsappStickerMessage extends WhatsappMessageBase {
+  type: 'sticker';
+  sticker: WhatsappMediaSource;
+}
+
+export interface WhatsappLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface WhatsappLocationMessage extends WhatsappMessageBase {
+  type: 'location';
+  location: WhatsappLocation;
+}
+
+export interface WhatsappContact {
+  name: {
+    formatted_name: string;
+    first_name?: string;
+    last_name?: string;
+  };
+  phones?: { phone: string; type?: string; wa_id?: string }[];
+  emails?: { email: string; type?: string }[];
+  org?: { company?: string; title?: string };
+  urls?: { url: string; type?: string }[];
+}
+
+export interface WhatsappContactsMessage extends WhatsappMessageBase {
+  type: 'contacts';
+  contacts: WhatsappContact[];
+}
+
+export interface WhatsappReactionMessage extends WhatsappMessageBase {
+  type: 'reaction';
+  reaction: {
+    message_id: string;
+    emoji: string;
+  };
+}
+
+export interface WhatsappTemplateParameter {
+  type: 'text';
+  text: string;
+}
+
+export interface WhatsappTemplateComponent {
+  type: 'header' | 'body' | 'button';
+  sub_type?: 'quick_reply' | 'url';
+  index?: string;
+  parameters: WhatsappTemplateParameter[];
+}
+
+export interface WhatsappTemplateMessage extends WhatsappMessageBase {
+  type: 'template';
+  template: {
+    name: string;
+    language: { code: string };
+    components?: WhatsappTemplateComponent[];
+  };
+}
+
+export type WhatsappOutboundMessage =
+  | WhatsappTextMessage
+  | WhatsappReplyButtonsMessage
+  | WhatsappListMessage
+  | WhatsappImageMessage
+  | WhatsappAudioMessage
+  | WhatsappDocumentMessage
+  | WhatsappVideoMessage
+  | WhatsappStickerMessage
+  | WhatsappLocationMessage
+  | WhatsappContactsMessage
+  | WhatsappReactionMessage
+  | WhatsappTemplateMessage;
+
+export type WhatsappSendResult =
+  | {
+      status: 'success';
+      messageId: string;
+      to: string;
+    }
+  | {
+      status: 'error';
+      error: string;
+      code?: number;
+      category: WhatsappErrorCategory;
+    };
+
+// Outside the 24-hour customer service window only templates are delivered
+export type WhatsappDeliveryMode = 'free_form' | 'template';
+
+export type WhatsappTextSendResult = WhatsappSendResult & {
+  mode: WhatsappDeliveryMode;
+  template?: string;
+};
+
+export type WhatsappMediaDownloadResult =
+  | { status: 'success'; data: Buffer; mimeType: string }
+  | {
+      status: 'error';
+      error: string;
+      code?: number;
+      category: WhatsappErrorCategory;
+    };
+
+export type WhatsappMediaUploadResult =
+  | { status: 'success'; id: string }
+  | {
+      status: 'error';
+      error: string;
+      code?: number;
+      category: WhatsappErrorCategory;
+    };
@@ -0,0 +1,199 @@
+import {
+  WhatsappAudioMessage,
+  WhatsappContact,
+  WhatsappContactsMessage,
+  WhatsappDocumentMessage,
+  WhatsappImageMessage,
+  WhatsappListMessage,
+  WhatsappListSection,
+  WhatsappLocation,
+  WhatsappLocationMessage,
+  WhatsappMediaSource,
+  WhatsappReactionMessage,
+  WhatsappReplyButton,
+  WhatsappReplyButtonsMessage,
+  WhatsappStickerMessage,
+  WhatsappTemplateComponent,
+  WhatsappTemplateMessage,
+  WhatsappTextMessage,
+  WhatsappVideoMessage,
+} from './whatsapp-cloud-api.types';
+
+export interface MessageOptions {
+  // ID of the inbound message this one replies to
+  replyTo?: string;
+}
+
+export interface InteractiveOptions extends MessageOptions {
+  header?: string;
+  footer?: string;
+}
+
+export interface MediaOptions extends MessageOptions {
+  caption?: string;
+}
+
+const base = (to: string, options: MessageOptions = {}) => ({
+  messaging_product: 'whatsapp' as const,
+  recipient_type: 'individual' as const,
+  to,
+  ...(options.replyTo && { context: { message_id: options.replyTo } }),
+});
+
+const interactiveText = (body: string, options: InteractiveOptions) => ({
+  ...(options.header && {
+    header: { type: 'text' as const, text: options.header },
+  }),
+  body: { text: body },
+  ...(options.footer && { footer: { text: options.footer } }),
+});
+
+export function buildTextMessage(
+  to: string,
+  body: string,
+  options: MessageOptions & { previewUrl?: boolean } = {},
+): WhatsappTextMessage {
+  return {
+    ...base(to, options),
+    type: 'text',
+    text: { preview_url: options.previewUrl ?? false, body },
+  };
+}
+
+export function buildReplyButtonsMessage(
+  to: string,
+  body: string,
+  buttons: WhatsappReplyButton[],
+  options: InteractiveOptions = {},
+): WhatsappReplyButtonsMessage {
+  return {
+    ...base(to, options),
+    type: 'interactive',
+    interactive: {
+      type: 'button',
+      ...interactiveText(body, options),
+      action: {
+        buttons: buttons.map((reply) => ({ type: 'reply', reply })),
+      },
+    },
+  };
+}
+
+export function buildListMessage(
+  to: string,
+  body: string,
+  buttonText: string,
+  sections: WhatsappListSection[],
+  options: InteractiveOptions = {},
+): WhatsappListMessage {
+  return {
+    ...base(to, options),
+    type: 'interactive',
+    interactive: {
+      type: 'list',
+      ...interactiveText(body, options),
+      action: { button: buttonText, sections },
+    },
+  };
+}
+
+export function buildImageMessage(
+  to: string,
+  media: WhatsappMediaSource,
+  options: MediaOptions = {},
+): WhatsappImageMessage {
+  return {
+    ...base(to, options),
+    type: 'image',
+    image: { ...media, ...(options.caption && { caption: options.caption }) },
+  };
+}
+
+export function buildAudioMessage(
+  to: string,
+  media: WhatsappMediaSource,
+  options: MessageOptions = {},
+): WhatsappAudioMessage {
+  return { ...base(to, options), type: 'audio', audio: media };
+}
+
+export function buildDocumentMessage(
+  to: string,
+  media: WhatsappMediaSource,
+  options: MediaOptions & { filename?: string } = {},
+): WhatsappDocumentMessage {
+  return {
+    ...base(to, options),
+    type: 'document',
+    document: {
+      ...media,
+      ...(options.caption && { caption: options.caption }),
+      ...(options.filename && { filename: options.filename }),
+    },
+  };
+}
+
+export function buildVideoMessage(
+  to: string,
+  media: WhatsappMediaSource,
+  options: MediaOptions = {},
+): WhatsappVideoMessage {
+  return {
+    ...base(to, options),
+    type: 'video',
+    video: { ...media, ...(options.caption && { caption: options.caption }) },
+  };
+}
+
+export function buildStickerMessage(
+  to: string,
+  media: WhatsappMediaSource,
+  options: MessageOptions = {},
+): WhatsappStickerMessage {
+  return { ...base(to, options), type: 'sticker', sticker: media };
+}
+
+export function buildLocationMessage(
+  to: string,
+  location: WhatsappLocation,
+  options: MessageOptions = {},
+): WhatsappLocationMessage {
+  return { ...base(to, options), type: 'location', location };
+}
+
+export function buildContactsMessage(
+  to: string,
+  contacts: WhatsappContact[],
+  options: MessageOptions = {},
+): WhatsappContactsMessage {
+  return { ...base(to, options), type: 'contacts', contacts };
+}
+
+export function buildReactionMessage(
+  to: string,
+  messageId: string,
+  emoji: string,
+): WhatsappReactionMessage {
+  return {
+    ...base(to),
+    type: 'reaction',
+    reaction: { message_id: messageId, emoji },
+  };
+}
+
+export function buildTemplateMessage(
+  to: string,
+  name: string,
+  languageCode: string,
+  components: WhatsappTemplateComponent[] = [],
+): WhatsappTemplateMessage {
+  return {
+    ...base(to),
+    type: 'template',
+    template: {
+      name,
+      language: { code: languageCode },
+      ...(components.length > 0 && { components }),
+    },
+  };
+}
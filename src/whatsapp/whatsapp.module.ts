@@ -1,19 +1,22 @@
 import { Module } from '@nestjs/common';
 import { WhatsappController } from './whatsapp/whatsapp.controller';
 import { WhatsappService } from './whatsapp/whatsapp.service';
-import { OpenaiService } from '../openai/openai.service';
 import { UserContextService } from '../user-context/user-context.service';
-import { StabilityaiService } from '../stabilityai/stabilityai.service';
-import { AudioService } from '../audio/audio.service';
+import { DedupeService } from '../dedupe/dedupe.service';
+import { QueueModule } from '../queue/queue.module';
+import { WhatsappCloudApiClient } from './cloud-api/whatsapp-cloud-api.client';
+import { CustomerServiceWindowService } from './whatsapp/customer-service-window.service';
+import { ConversationModule } from '../conversation/conversation.module';
 
 @Module({
+  imports: [QueueModule, ConversationModule],
   controllers: [WhatsappController],
   providers: [
-    OpenaiService,
     WhatsappService,
     UserContextService,
-    StabilityaiService,
-    AudioService,
+    DedupeService,
+    WhatsappCloudApiClient,
+    CustomerServiceWindowService,
   ],
 })
-export class WhatsappModule {}
\ No newline at end of file
+export class WhatsappModule {}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CustomerServiceWindowService } from './customer-service-window.service';
+import { UserContextService } from '../../user-context/user-context.service';
+
+jest.mock('ioredis', () => ({ Redis: require('ioredis-mock') }));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('CustomerServiceWindowService', () => {
+  let service: CustomerServiceWindowService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomerServiceWindowService,
+        {
+          provide: UserContextService,
+          useValue: {
+            hashPhoneNumber: (phoneNumber) => `hashed-${phoneNumber}`,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CustomerServiceWindowService>(
+      CustomerServiceWindowService,
+    );
+    await service['redis'].flushall();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('is closed for users who never wrote', async () => {
+    expect(await service.isWindowOpen('254700000001')).toBe(false);
+  });
+
+  it('stays open for 24 hours after the last inbound message', async () => {
+    const receivedAt = Date.now() - HOUR;
+    await service.recordInbound('254700000001', receivedAt);
+
+    expect(await service.getLastInbound('254700000001')).toBe(receivedAt);
+    expect(await service.isWindowOpen('254700000001')).toBe(true);
+    expect(
+      await service.isWindowOpen('254700000001', receivedAt + 24 * HOUR),
+    ).toBe(false);
+    expect(
+      await service['redis'].ttl('hashed-254700000001:last-inbound'),
+    ).toBeLessThanOrEqual(23 * 60 * 60);
+  });
+
+  it('keeps the latest time when messages arrive out of order', async () => {
+    const latest = Date.now() - HOUR;
+    await service.recordInbound('254700000001', latest);
+    await service.recordInbound('254700000001', latest - HOUR);
+
+    expect(await service.getLastInbound('254700000001')).toBe(latest);
+  });
+
+  it('ignores messages older than the window', async () => {
+    await service.recordInbound('254700000001', Date.now() - 25 * HOUR);
+
+    expect(await service.isWindowOpen('254700000001')).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { UserContextService } from '../../user-context/user-context.service';
+
+// WhatsApp only accepts free-form messages for 24 hours after the user's
+// last message, after that only approved templates get through
+const WINDOW_SECONDS = 24 * 60 * 60;
+
+@Injectable()
+export class CustomerServiceWindowService {
+  constructor(private readonly userContextService: UserContextService) {}
+
+  private readonly redis: Redis = new Redis(process.env.REDIS_URL || '');
+  private readonly logger: Logger = new Logger(
+    CustomerServiceWindowService.name,
+  );
+
+  // The key expires when the window closes, so a missing key means the
+  // window is closed
+  async recordInbound(userID: string, receivedAt = Date.now()) {
+    try {
+      const key = this.windowKey(userID);
+      const lastInbound = Number(await this.redis.get(key));
+      // Queued or redelivered messages can arrive out of order
+      if (lastInbound >= receivedAt) {
+        return;
+      }
+
+      const remainingSeconds = Math.ceil(
+        WINDOW_SECONDS - (Date.now() - receivedAt) / 1000,
+      );
+      if (remainingSeconds > 0) {
+        await this.redis.set(key, receivedAt, 'EX', remainingSeconds);
+      }
+    } catch (error) {
+      this.logger.error('Error Recording Inbound Message', error);
+    }
+  }
+
+  async getLastInbound(userID: string): Promise<number | null> {
+    const lastInbound = await this.redis.get(this.windowKey(userID));
+    return lastInbound ? Number(lastInbound) : null;
+  }
+
+  async isWindowOpen(userID: string, now = Date.now()) {
+    try {
+      const lastInbound = await this.getLastInbound(userID);
+      return lastInbound !== null && now - lastInbound < WINDOW_SECONDS * 1000;
+    } catch (error) {
+      // Without Redis we can't tell, so keep replying free-form as before
+      this.logger.error('Error Checking Customer Service Window', error);
+      return true;
+    }
+  }
+
+  private windowKey(userID: string) {
+    return `${this.userContextService.hashPhoneNumber(userID)}:last-inbound`;
+  }
+}
@@ -0,0 +1,54 @@
+import { join } from 'path';
+import {
+  buildTemplateComponents,
+  loadMessageTemplates,
+  toTemplateParameter,
+} from './message-templates';
+
+describe('message templates', () => {
+  const definition = {
+    name: 'studio_libra_consultation_reminder',
+    language: 'en',
+    bodyParameters: ['customer_name', 'date'],
+  };
+
+  it('loads the template definitions from config', () => {
+    const config = loadMessageTemplates(
+      join(__dirname, '..', '..', '..', 'config', 'whatsapp-templates.json'),
+    );
+
+    expect(config.templates[config.defaultTemplate]).toEqual(
+      expect.objectContaining({ bodyParameters: ['message'] }),
+    );
+  });
+
+  it('fills body parameters in placeholder order', () => {
+    expect(
+      buildTemplateComponents(definition, {
+        date: 'Friday 14 June',
+        customer_name: 'Amina',
+      }),
+    ).toEqual([
+      {
+        type: 'body',
+        parameters: [
+          { type: 'text', text: 'Amina' },
+          { type: 'text', text: 'Friday 14 June' },
+        ],
+      },
+    ]);
+  });
+
+  it('refuses to send a template with missing parameters', () => {
+    expect(() =>
+      buildTemplateComponents(definition, { customer_name: 'Amina' }),
+    ).toThrow('Missing parameters for template');
+  });
+
+  it('strips what WhatsApp rejects from parameters', () => {
+    expect(toTemplateParameter('Hi!\n\n• Logo\tdesign     done')).toBe(
+      'Hi! • Logo design   done',
+    );
+    expect(toTemplateParameter('a'.repeat(2000))).toHaveLength(1024);
+  });
+});
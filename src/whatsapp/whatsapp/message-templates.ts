@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { WhatsappTemplateComponent } from '../cloud-api/whatsapp-cloud-api.types';
+
+// A template approved in WhatsApp Manager. Body parameters are listed in
+// the order of their {{1}}, {{2}}... placeholders.
+export interface MessageTemplateDefinition {
+  name: string;
+  language: string;
+  bodyParameters: string[];
+}
+
+export interface MessageTemplatesConfig {
+  // Used when a free-form message can't be delivered anymore
+  defaultTemplate: string;
+  templates: Record<string, MessageTemplateDefinition>;
+}
+
+// Meta rejects longer body parameters, so long AI replies are cut short
+const MAX_PARAMETER_LENGTH = 1024;
+
+export function loadMessageTemplates(
+  filePath = process.env.WHATSAPP_TEMPLATES_PATH ||
+    join(process.cwd(), 'config', 'whatsapp-templates.json'),
+): MessageTemplatesConfig {
+  return JSON.parse(readFileSync(filePath, 'utf8'));
+}
+
+// Template parameters can't contain new lines, tabs or more than four
+// consecutive spaces
+export function toTemplateParameter(text: string) {
+  const parameter = text
+    .replace(/\s*[\n\t]+\s*/g, ' ')
+    .replace(/ {4,}/g, '   ')
+    .trim();
+
+  return parameter.length > MAX_PARAMETER_LENGTH
+    ? `${parameter.slice(0, MAX_PARAMETER_LENGTH - 1)}…`
+    : parameter;
+}
+
+export function buildTemplateComponents(
+  definition: MessageTemplateDefinition,
+  parameters: Record<string, string>,
+): WhatsappTemplateComponent[] {
+  const missing = definition.bodyParameters.filter(
+    (key) => !parameters[key]?.trim(),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing parameters for template ${definition.name}: ${missing.join(', ')}`,
+    );
+  }
+
+  if (definition.bodyParameters.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      type: 'body',
+      parameters: definition.bodyParameters.map((key) => ({
+        type: 'text',
+        text: toTemplateParameter(parameters[key]),
+      })),
+    },
+  ];
+}
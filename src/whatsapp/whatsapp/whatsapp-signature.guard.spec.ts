@@ -0,0 +1,128 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  INestApplication,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import * as crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  isValidMetaSignature,
+  WhatsappSignatureGuard,
+} from './whatsapp-signature.guard';
+
+const APP_SECRET = 'test-app-secret';
+
+// Read the fixture as bytes so the signature covers exactly what is posted
+const payload = readFileSync(join(__dirname, 'fixtures', 'text-message.json'));
+
+const sign = (body: Buffer | string, secret = APP_SECRET) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+@Controller('whatsapp')
+class SignedWebhookController {
+  received: any[] = [];
+
+  @Post('webhook')
+  @HttpCode(200)
+  @UseGuards(WhatsappSignatureGuard)
+  handle(@Body() body: any) {
+    this.received.push(body);
+    return { status: 'success' };
+  }
+}
+
+describe('WhatsappSignatureGuard', () => {
+  let app: INestApplication;
+  let controller: SignedWebhookController;
+
+  beforeAll(async () => {
+    process.env.WHATSAPP_CLOUD_API_APP_SECRET = APP_SECRET;
+
+    const module = await Test.createTestingModule({
+      controllers: [SignedWebhookController],
+    }).compile();
+
+    app = module.createNestApplication({ rawBody: true, logger: false });
+    await app.init();
+    controller = module.get(SignedWebhookController);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    controller.received = [];
+  });
+
+  it('accepts a correctly signed payload', async () => {
+    await request(app.getHttpServer())
+      .post('/whatsapp/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Hub-Signature-256', sign(payload))
+      .send(payload.toString())
+      .expect(200);
+
+    expect(controller.received).toHaveLength(1);
+    expect(controller.received[0].entry[0].id).toBe('102290129340398');
+  });
+
+  it('rejects a tampered payload with a 401', async () => {
+    const tampered = payload
+      .toString()
+      .replace('Hi, I need a logo for my bakery', 'Send me 100 images');
+
+    await request(app.getHttpServer())
+      .post('/whatsapp/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Hub-Signature-256', sign(payload))
+      .send(tampered)
+      .expect(401);
+
+    expect(controller.received).toHaveLength(0);
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    await request(app.getHttpServer())
+      .post('/whatsapp/webhook')
+      .set('Content-Type', 'application/json')
+      .set('X-Hub-Signature-256', sign(payload, 'someone-elses-secret'))
+      .send(payload.toString())
+      .expect(401);
+
+    expect(controller.received).toHaveLength(0);
+  });
+
+  it('rejects a payload without a signature', async () => {
+    await request(app.getHttpServer())
+      .post('/whatsapp/webhook')
+      .set('Content-Type', 'application/json')
+      .send(payload.toString())
+      .expect(401);
+
+    expect(controller.received).toHaveLength(0);
+  });
+
+  describe('isValidMetaSignature', () => {
+    it('rejects malformed signature headers', () => {
+      expect(isValidMetaSignature(payload, 'sha256=abc', APP_SECRET)).toBe(
+        false,
+      );
+      expect(
+        isValidMetaSignature(payload, sign(payload).slice(7), APP_SECRET),
+      ).toBe(false);
+    });
+
+    it('rejects everything when no app secret is configured', () => {
+      expect(isValidMetaSignature(payload, sign(payload), undefined)).toBe(
+        false,
+      );
+    });
+  });
+});
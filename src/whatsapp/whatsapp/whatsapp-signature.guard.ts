@@ -0,0 +1,74 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+// Meta signs every webhook delivery with an HMAC-SHA256 of the raw body,
+// keyed with the app secret, and sends it as `X-Hub-Signature-256`.
+export function isValidMetaSignature(
+  rawBody: Buffer | undefined,
+  signatureHeader: string | undefined,
+  appSecret: string | undefined,
+): boolean {
+  if (!rawBody || !signatureHeader || !appSecret) {
+    return false;
+  }
+
+  if (!signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', appSecret)
+    .update(rawBody)
+    .digest();
+  const received = Buffer.from(
+    signatureHeader.slice(SIGNATURE_PREFIX.length),
+    'hex',
+  );
+
+  // timingSafeEqual throws on length mismatch, so check that first
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(received, expected);
+}
+
+@Injectable()
+export class WhatsappSignatureGuard implements CanActivate {
+  private readonly logger = new Logger(WhatsappSignatureGuard.name);
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<RawBodyRequest<Request>>();
+    const signature = request.headers['x-hub-signature-256'] as string;
+
+    if (
+      !isValidMetaSignature(
+        request.rawBody,
+        signature,
+        process.env.WHATSAPP_CLOUD_API_APP_SECRET,
+      )
+    ) {
+      // Never log the payload of an unverified request
+      this.logger.warn(
+        `Rejected webhook request from ${request.ip}: ${
+          signature ? 'invalid' : 'missing'
+        } X-Hub-Signature-256`,
+      );
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    return true;
+  }
+}
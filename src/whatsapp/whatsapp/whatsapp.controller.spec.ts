@@ -1,12 +1,58 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { WhatsappController } from './whatsapp.controller';
+import { WhatsappService } from './whatsapp.service';
+import { DedupeService } from '../../dedupe/dedupe.service';
+import { Job, QueueService } from '../../queue/queue.service';
+import { CustomerServiceWindowService } from './customer-service-window.service';
+import { ConversationService } from '../../conversation/conversation.service';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const batchDelivery = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'batch-delivery.json'), 'utf8'),
+);
 
 describe('WhatsappController', () => {
   let controller: WhatsappController;
+  let whatsAppService: Record<string, jest.Mock>;
+  let dedupeService: { claimEvent: jest.Mock; releaseEvent: jest.Mock };
+  let queueService: { enqueue: jest.Mock; registerHandler: jest.Mock };
+  let customerServiceWindow: { recordInbound: jest.Mock };
+  let conversationService: { handleMessage: jest.Mock };
+
+  const queuedMessageIDs = () =>
+    queueService.enqueue.mock.calls.map(([, , payload]) => payload.message.id);
+  const inboundContent = () =>
+    conversationService.handleMessage.mock.calls[0][0].content;
 
   beforeEach(async () => {
+    whatsAppService = {
+      markMessageAsRead: jest.fn(),
+    };
+    dedupeService = {
+      claimEvent: jest.fn().mockResolvedValue(true),
+      releaseEvent: jest.fn(),
+    };
+    queueService = { enqueue: jest.fn(), registerHandler: jest.fn() };
+    customerServiceWindow = { recordInbound: jest.fn() };
+    conversationService = {
+      handleMessage: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', message: 'Message processed' }),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [WhatsappController],
+      providers: [
+        { provide: WhatsappService, useValue: whatsAppService },
+        { provide: DedupeService, useValue: dedupeService },
+        { provide: QueueService, useValue: queueService },
+        {
+          provide: CustomerServiceWindowService,
+          useValue: customerServiceWindow,
+        },
+        { provide: ConversationService, useValue: conversationService },
+      ],
     }).compile();
 
     controller = module.get<WhatsappController>(WhatsappController);
@@ -15,4 +61,312 @@ describe('WhatsappController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('handleIncomingWhatsappMessage', () => {
+    it('queues every message across entries and changes', async () => {
+      const result =
+        await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(
+        queueService.enqueue.mock.calls.map(([type, userID]) => [type, userID]),
+      ).toEqual([
+        ['whatsapp.message', '254700000001'],
+        ['whatsapp.message', '254700000002'],
+        ['whatsapp.message', '254700000004'],
+      ]);
+      expect(queuedMessageIDs()).toEqual([
+        'wamid.batch-1',
+        'wamid.batch-2',
+        'wamid.batch-3',
+      ]);
+      expect(conversationService.handleMessage).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        status: 'success',
+        message: 'Queued 3 message(s) and processed 2 status update(s)',
+      });
+    });
+
+    it('records when each user last wrote', async () => {
+      await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(customerServiceWindow.recordInbound).toHaveBeenCalledWith(
+        '254700000001',
+        1718000000000,
+      );
+      expect(customerServiceWindow.recordInbound).toHaveBeenCalledTimes(3);
+    });
+
+    it('keeps queueing the batch when one message fails', async () => {
+      queueService.enqueue.mockRejectedValueOnce(new Error('boom'));
+
+      const result =
+        await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(queueService.enqueue).toHaveBeenCalledTimes(3);
+      expect(result.message).toBe(
+        'Queued 2 message(s) and processed 2 status update(s)',
+      );
+    });
+
+    it('releases messages that could not be queued so redeliveries get in', async () => {
+      queueService.enqueue.mockRejectedValueOnce(new Error('boom'));
+
+      await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(dedupeService.releaseEvent).toHaveBeenCalledTimes(1);
+      expect(dedupeService.releaseEvent).toHaveBeenCalledWith(
+        'whatsapp',
+        'wamid.batch-1',
+      );
+    });
+
+    it('hands status updates to the status handler', async () => {
+      const handleStatusUpdate = jest.spyOn(controller, 'handleStatusUpdate');
+
+      await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(
+        handleStatusUpdate.mock.calls.map(([status]) => status.id),
+      ).toEqual(['wamid.outbound-1', 'wamid.outbound-2']);
+    });
+
+    it('skips messages that were already delivered', async () => {
+      dedupeService.claimEvent.mockImplementation(
+        async (source, id) => id !== 'wamid.batch-2',
+      );
+
+      const result =
+        await controller.handleIncomingWhatsappMessage(batchDelivery);
+
+      expect(queuedMessageIDs()).toEqual(['wamid.batch-1', 'wamid.batch-3']);
+      expect(result.status).toBe('success');
+    });
+
+    it('acknowledges deliveries with nothing to process', async () => {
+      const result = await controller.handleIncomingWhatsappMessage({
+        entry: [{ changes: [{ value: {} }] }],
+      });
+
+      expect(result).toEqual({
+        status: 'success',
+        message: 'Nothing to process',
+      });
+      expect(whatsAppService.markMessageAsRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processQueuedMessage', () => {
+    const job = (message: any): Job => ({
+      id: 'job-1',
+      type: 'whatsapp.message',
+      userID: message.from,
+      payload: { message, contacts: [] },
+      attempts: 1,
+      createdAt: Date.now(),
+    });
+
+    it('registers itself as the whatsapp.message handler', () => {
+      controller.onModuleInit();
+
+      expect(queueService.registerHandler).toHaveBeenCalledWith(
+        'whatsapp.message',
+        expect.any(Function),
+      );
+    });
+
+    it('hands the queued message to the conversation engine', async () => {
+      const [message] = batchDelivery.entry[0].changes[0].value.messages;
+
+      await controller.processQueuedMessage({
+        ...job(message),
+        payload: {
+          message,
+          contacts: batchDelivery.entry[0].changes[0].value.contacts,
+        },
+      });
+
+      expect(whatsAppService.markMessageAsRead).toHaveBeenCalledWith(
+        'wamid.batch-1',
+      );
+      expect(conversationService.handleMessage).toHaveBeenCalledWith({
+        channel: 'whatsapp',
+        userID: '254700000001',
+        messageID: 'wamid.batch-1',
+        userName: expect.any(String),
+        content: { type: 'text', text: 'Hello' },
+      });
+    });
+
+    it.each(['list_reply', 'button_reply'])(
+      'translates %s taps to selections',
+      async (type) => {
+        await controller.processQueuedMessage(
+          job({
+            from: '254700000001',
+            id: 'wamid.list',
+            type: 'interactive',
+            interactive: {
+              type,
+              [type]: { id: 'branding_service', title: 'Branding' },
+            },
+          }),
+        );
+
+        expect(inboundContent()).toEqual({
+          type: 'selection',
+          id: 'branding_service',
+          title: 'Branding',
+        });
+      },
+    );
+
+    it('downloads images only when the engine asks for them', async () => {
+      whatsAppService.downloadMedia = jest.fn().mockResolvedValue({
+        status: 'success',
+        data: '/tmp/receivedImages/media-2.jpeg',
+      });
+
+      await controller.processQueuedMessage(
+        job({
+          from: '254700000001',
+          id: 'wamid.image',
+          type: 'image',
+          image: { id: 'media-2', caption: ' Our current logo ' },
+        }),
+      );
+
+      const { media } = inboundContent();
+      expect(media.caption).toBe(' Our current logo ');
+      expect(whatsAppService.downloadMedia).not.toHaveBeenCalled();
+
+      expect(await media.download('receivedImages')).toEqual({
+        status: 'success',
+        data: '/tmp/receivedImages/media-2.jpeg',
+      });
+      expect(whatsAppService.downloadMedia).toHaveBeenCalledWith(
+        'media-2',
+        'receivedImages',
+      );
+    });
+
+    it('passes document details along', async () => {
+      await controller.processQueuedMessage(
+        job({
+          from: '254700000001',
+          id: 'wamid.document',
+          type: 'document',
+          document: {
+            id: 'media-4',
+            filename: 'brief.pdf',
+            mime_type: 'application/pdf',
+          },
+        }),
+      );
+
+      expect(inboundContent()).toEqual({
+        type: 'document',
+        media: expect.objectContaining({
+          fileName: 'brief.pdf',
+          mimeType: 'application/pdf',
+        }),
+      });
+    });
+
+    it('translates shared locations', async () => {
+      await controller.processQueuedMessage(
+        job({
+          from: '254700000001',
+          id: 'wamid.location',
+          type: 'location',
+          location: {
+            latitude: -1.2676,
+            longitude: 36.8108,
+            name: 'Sarit Centre',
+          },
+        }),
+      );
+
+      expect(inboundContent()).toEqual({
+        type: 'location',
+        latitude: -1.2676,
+        longitude: 36.8108,
+        name: 'Sarit Centre',
+        address: undefined,
+      });
+    });
+
+    it('translates shared contact cards', async () => {
+      await controller.processQueuedMessage(
+        job({
+          from: '254700000001',
+          id: 'wamid.contacts',
+          type: 'contacts',
+          contacts: [
+            {
+              name: { formatted_name: 'Wanjiru Kamau', first_name: 'Wanjiru' },
+              phones: [{ phone: '+254 711 111111', wa_id: '254711111111' }],
+              emails: [{ email: 'wanjiru@example.com', type: 'WORK' }],
+            },
+          ],
+        }),
+      );
+
+      expect(inboundContent()).toEqual({
+        type: 'contacts',
+        contacts: [
+          {
+            name: 'Wanjiru Kamau',
+            phones: ['254711111111'],
+            emails: ['wanjiru@example.com'],
+          },
+        ],
+      });
+    });
+
+    it('translates reactions', async () => {
+      await controller.processQueuedMessage(
+        job({
+          from: '254700000001',
+          id: 'wamid.reaction',
+          type: 'reaction',
+          reaction: { message_id: 'wamid.outbound-1', emoji: '👍' },
+        }),
+      );
+
+      expect(inboundContent()).toEqual({
+        type: 'reaction',
+        messageID: 'wamid.outbound-1',
+        emoji: '👍',
+      });
+    });
+
+    it.each(['sticker', 'unsupported'])(
+      'marks %s messages as unsupported',
+      async (type) => {
+        await controller.processQueuedMessage(
+          job({ from: '254700000001', id: 'wamid.other', type }),
+        );
+
+        expect(inboundContent()).toEqual({ type: 'unsupported', kind: type });
+      },
+    );
+
+    it('throws so the queue retries failed messages', async () => {
+      conversationService.handleMessage.mockResolvedValue({
+        status: 'error',
+        message: 'Failed to download audio',
+      });
+
+      await expect(
+        controller.processQueuedMessage(
+          job({
+            from: '254700000001',
+            id: 'wamid.audio',
+            type: 'audio',
+            audio: { id: 'media-1' },
+          }),
+        ),
+      ).rejects.toThrow('Failed to download audio');
+    });
+  });
 });
@@ -1,33 +1,61 @@
-import { Body, Controller, Get, HttpCode, Logger, Post, Query } from '@nestjs/common';
-import { map } from 'rxjs/operators';
-
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Logger,
+  OnModuleInit,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import * as process from 'node:process';
 import { WhatsappService } from './whatsapp.service';
-import { AudioService } from '../../audio/audio.service';
-import { StabilityaiService } from '../../stabilityai/stabilityai.service';
-import { OpenaiService } from '../../openai/openai.service';
-import { UserContextService } from '../../user-context/user-context.service';
+import { WhatsappSignatureGuard } from './whatsapp-signature.guard';
+import { DedupeService } from '../../dedupe/dedupe.service';
+import { Job, QueueService } from '../../queue/queue.service';
+import { CustomerServiceWindowService } from './customer-service-window.service';
+import { ConversationService } from '../../conversation/conversation.service';
+import {
+  InboundContent,
+  InboundMedia,
+  InboundMessage,
+} from '../../conversation/conversation.types';
+
+interface QueuedWhatsappMessage {
+  message: any;
+  contacts: any[];
+}
 
 @Controller('whatsapp')
-export class WhatsappController {
+export class WhatsappController implements OnModuleInit {
   private readonly logger = new Logger(WhatsappController.name);
 
   constructor(
     private readonly whatsAppService: WhatsappService,
-    private readonly stabilityaiService: StabilityaiService,
-    private readonly audioService: AudioService,
-    private readonly openaiService: OpenaiService,
-    private readonly userContextService: UserContextService,
+    private readonly dedupeService: DedupeService,
+    private readonly queueService: QueueService,
+    private readonly customerServiceWindow: CustomerServiceWindowService,
+    private readonly conversationService: ConversationService,
   ) {}
 
+  onModuleInit() {
+    this.queueService.registerHandler<QueuedWhatsappMessage>(
+      'whatsapp.message',
+      (job) => this.processQueuedMessage(job),
+    );
+  }
+
   @Get('webhook')
   whatsappVerificationChallenge(
     @Query('hub.mode') mode: string,
     @Query('hub.challenge') challenge: string,
     @Query('hub.verify_token') token: string,
   ) {
-    this.logger.log(`Received verification request - Mode: ${mode}, Token: ${token}`);
-    
+    this.logger.log(
+      `Received verification request - Mode: ${mode}, Token: ${token}`,
+    );
+
     const verificationToken =
       process.env.WHATSAPP_CLOUD_API_WEBHOOK_VERIFICATION_TOKEN;
 
@@ -40,163 +68,191 @@ export class WhatsappController {
       this.logger.log('Webhook verified successfully');
       return challenge;
     }
-    
-    this.logger.error(`Webhook verification failed - Token mismatch or invalid mode`);
+
+    this.logger.error(
+      `Webhook verification failed - Token mismatch or invalid mode`,
+    );
     return 'Error: Token Mismatch';
   }
 
   @Post('webhook')
   @HttpCode(200)
+  @UseGuards(WhatsappSignatureGuard)
   async handleIncomingWhatsappMessage(@Body() request: any) {
     this.logger.log(`Received webhook request: ${JSON.stringify(request)}`);
-    
-    const { messages, contacts } = request?.entry?.[0]?.changes?.[0].value ?? {};
-    if (!messages) {
-      this.logger.log('No messages in the request');
-      return { status: 'success', message: 'No messages to process' };
-    }
 
-    const message = messages[0];
-    const messageSender = message.from;
-    const messageID = message.id;
+    // Meta batches several entries, changes, messages and status updates
+    // into a single delivery, so every one of them has to be walked.
+    // Messages are only queued here so Meta gets its 200 right away.
+    let queuedMessages = 0;
+    let processedStatuses = 0;
 
-    const contactName = contacts?.[0]?.profile?.name || 'User';
-    this.logger.log(`Message from ${contactName} (${messageSender})`);
+    for (const entry of request?.entry ?? []) {
+      for (const change of entry?.changes ?? []) {
+        const { messages, statuses, contacts } = change?.value ?? {};
 
-    await this.whatsAppService.markMessageAsRead(messageID);
+        for (const message of messages ?? []) {
+          try {
+            // Meta redelivers when we answer slowly; acknowledge but skip
+            if (
+              !(await this.dedupeService.claimEvent('whatsapp', message.id))
+            ) {
+              this.logger.log(`Skipping duplicate message ${message.id}`);
+              continue;
+            }
 
-    switch (message.type) {
-      case 'text':
-        const text = message.text.body;
-        const imageGenerationCommand = '/imagine';
-        if (text.toLowerCase().includes(imageGenerationCommand)) {
-          const response = await this.stabilityaiService.textToImage(
-            text.replaceAll(imageGenerationCommand, ''),
-          );
-
-          if (Array.isArray(response)) {
-            await this.whatsAppService.sendImageByUrl(
-              messageSender,
-              response[0],
-              messageID,
+            // Recorded before queueing, the window runs from when the
+            // user wrote rather than from when we get to the message
+            await this.customerServiceWindow.recordInbound(
+              message.from,
+              Number(message.timestamp) * 1000 || Date.now(),
             );
-          }
-          return { status: 'success', message: 'Image generation processed' };
-        }
 
-        await this.whatsAppService.sendWhatsAppMessage(
-          messageSender,
-          text,
-          messageID,
-        );
-        break;
-      case 'interactive':
-        const interactiveType = message.interactive.type;
-        if (interactiveType === 'button_reply') {
-          const buttonId = message.interactive.button_reply.id;
-          const buttonText = message.interactive.button_reply.title;
-          
-          // Save the user's selection to context
-          await this.userContextService.saveToContext(
-            `User selected: ${buttonText}`,
-            'user',
-            messageSender
-          );
-          
-          // Handle specific button actions
-          if (buttonId === 'more_options') {
-            await this.whatsAppService.sendMoreOptionsMessage(messageSender);
-          } else {
-            // For other buttons, generate appropriate responses
-            const serviceInfo = this.getServiceInfo(buttonId);
-            
-            // Save the system response
-            await this.userContextService.saveToContext(
-              serviceInfo,
-              'assistant',
-              messageSender
+            await this.queueService.enqueue<QueuedWhatsappMessage>(
+              'whatsapp.message',
+              message.from,
+              { message, contacts: contacts ?? [] },
             );
-            
-            // Send service info as a regular message
-            const data = JSON.stringify({
-              messaging_product: 'whatsapp',
-              recipient_type: 'individual',
-              to: messageSender,
-              type: 'text',
-              text: {
-                preview_url: false,
-                body: serviceInfo,
-              },
-            });
-            
-            try {
-              const response = await this.whatsAppService['httpService']
-                .post(this.whatsAppService['url'], data, this.whatsAppService['config'])
-                .pipe(
-                  map((res) => {
-                    return res.data;
-                  }),
-                )
-                .toPromise();
-              
-              this.logger.log('Service info sent. Status:', response);
-            } catch (error) {
-              this.logger.error('Error sending service info', error);
-            }
+            queuedMessages++;
+          } catch (error) {
+            // A failure in one message must not abort the rest of the batch
+            this.logger.error(`Error queueing message ${message?.id}`, error);
+            await this.dedupeService.releaseEvent('whatsapp', message?.id);
           }
         }
-        break;
-      case 'audio':
-        const audioID = message.audio.id;
-        const response = await this.whatsAppService.downloadMedia(audioID);
-        if (response.status === 'error') {
-          return { status: 'error', message: 'Failed to download audio' };
+
+        for (const status of statuses ?? []) {
+          processedStatuses++;
+          try {
+            await this.handleStatusUpdate(status);
+          } catch (error) {
+            this.logger.error(`Error processing status ${status?.id}`, error);
+          }
         }
+      }
+    }
 
-        const transcribedSpeech = await this.audioService.convertAudioToText(
-          response.data,
-        );
+    if (!queuedMessages && !processedStatuses) {
+      this.logger.log('No messages or statuses to process in the request');
+      return { status: 'success', message: 'Nothing to process' };
+    }
 
-        if (transcribedSpeech.status === 'error') {
-          return { status: 'error', message: 'Failed to transcribe audio' };
-        }
+    return {
+      status: 'success',
+      message: `Queued ${queuedMessages} message(s) and processed ${processedStatuses} status update(s)`,
+    };
+  }
 
-        const aiResponse = await this.openaiService.generateAIResponse(
-          messageSender,
-          transcribedSpeech.data,
-        );
+  async processQueuedMessage(job: Job<QueuedWhatsappMessage>) {
+    const { message, contacts } = job.payload;
+    const result = await this.handleMessage(message, contacts);
 
-        const textToSpeech =
-          await this.audioService.convertTextToSpeech(aiResponse);
+    // Throwing hands the job back to the queue for a retry
+    if (result.status === 'error') {
+      throw new Error(result.message);
+    }
+  }
 
-        if (textToSpeech.status === 'error') {
-          return { status: 'error', message: 'Failed to convert text to speech' };
-        }
+  async handleStatusUpdate(status: any) {
+    const { id, status: deliveryStatus, recipient_id, errors } = status;
 
-        await this.whatsAppService.sendAudioByUrl(
-          messageSender,
-          textToSpeech.data,
-        );
-        break;
+    if (deliveryStatus === 'failed') {
+      this.logger.error(
+        `Message ${id} to ${recipient_id} failed: ${JSON.stringify(errors)}`,
+      );
+      return;
     }
 
-    return { status: 'success', message: 'Message processed' };
+    this.logger.log(`Message ${id} to ${recipient_id} is ${deliveryStatus}`);
+  }
+
+  async handleMessage(message: any, contacts: any[] = []) {
+    await this.whatsAppService.markMessageAsRead(message.id);
+
+    return this.conversationService.handleMessage(
+      this.toInboundMessage(message, contacts),
+    );
   }
-  
-  private getServiceInfo(serviceId: string): string {
-    // Return information about each service based on the button ID
-    const serviceInfo = {
-      branding_service: `🎨 *Studio Libra Branding Services*\n\nWe create memorable brand identities that resonate with your audience. Our branding services include:\n• Logo design\n• Brand strategy\n• Visual identity systems\n• Brand guidelines\n• Packaging design\n\nReady to elevate your brand? Let us know what you need!`,
-      
-      software_dev_service: `💻 *Studio Libra Software Development*\n\nWe build custom software solutions to power your business:\n• Web applications\n• Mobile apps\n• E-commerce platforms\n• AI integration\n• API development\n• Custom business software\n\nTell us about your project and we'll help bring it to life!`,
-      
-      models_service: `🧠 *Studio Libra 3D Models & AI Services*\n\nWe create cutting-edge 3D models and AI solutions:\n• 3D character modeling\n• Product visualization\n• Architectural models\n• AI model customization\n• Digital twins\n\nWhat kind of model are you looking for?`,
-      
-      illustrations_comics: `✏️ *Studio Libra Illustrations & Comics*\n\nOur talented artists create:\n• Custom illustrations\n• Comic books & strips\n• Character design\n• Storyboards\n• Editorial illustrations\n• Children's book art\n\nLet's bring your story to life!`,
-      
-      talk_to_human: `👋 *Talk to a Human*\n\nThanks for reaching out! A member of our team will get back to you shortly during our business hours.\n\nIf you have a specific question or project in mind, feel free to share some details while you wait.`
+
+  // Translates a Cloud API message into the conversation engine's format
+  private toInboundMessage(message: any, contacts: any[]): InboundMessage {
+    const contact =
+      contacts?.find((item) => item.wa_id === message.from) ?? contacts?.[0];
+
+    return {
+      channel: 'whatsapp',
+      userID: message.from,
+      messageID: message.id,
+      userName: contact?.profile?.name,
+      content: this.toInboundContent(message),
     };
-    
-    return serviceInfo[serviceId] || 'Thank you for your interest! Please tell us more about what you are looking for.';
   }
-}
\ No newline at end of file
+
+  private toInboundContent(message: any): InboundContent {
+    const media = (id: string, details: Partial<InboundMedia> = {}) => ({
+      download: (folderName: string) =>
+        this.whatsAppService.downloadMedia(id, folderName),
+      ...details,
+    });
+
+    switch (message.type) {
+      case 'text':
+        return { type: 'text', text: message.text.body };
+      case 'interactive': {
+        // Reply buttons and list rows carry the same id/title pair
+        const reply =
+          message.interactive.button_reply ?? message.interactive.list_reply;
+        return reply
+          ? { type: 'selection', id: reply.id, title: reply.title }
+          : { type: 'unsupported', kind: message.interactive.type };
+      }
+      case 'audio':
+        return { type: 'audio', media: media(message.audio.id) };
+      case 'image':
+        return {
+          type: 'image',
+          media: media(message.image.id, { caption: message.image.caption }),
+        };
+      case 'document': {
+        const { id, filename, mime_type, caption } = message.document;
+        return {
+          type: 'document',
+          media: media(id, {
+            fileName: filename,
+            mimeType: mime_type,
+            caption,
+          }),
+        };
+      }
+      case 'location': {
+        const { latitude, longitude, name, address } = message.location;
+        return { type: 'location', latitude, longitude, name, address };
+      }
+      case 'contacts':
+        return {
+          type: 'contacts',
+          contacts: (message.contacts ?? []).map((contact) => ({
+            name:
+              contact.name?.formatted_name ||
+              contact.name?.first_name ||
+              'Unknown',
+            phones: (contact.phones ?? [])
+              .map((phone) => phone.wa_id || phone.phone)
+              .filter(Boolean),
+            emails: (contact.emails ?? [])
+              .map((email) => email.email)
+              .filter(Boolean),
+          })),
+        };
+      case 'reaction':
+        return {
+          type: 'reaction',
+          messageID: message.reaction.message_id,
+          emoji: message.reaction.emoji,
+        };
+      default:
+        // Stickers, videos and types WhatsApp marks as unsupported
+        return { type: 'unsupported', kind: message.type };
+    }
+  }
+}
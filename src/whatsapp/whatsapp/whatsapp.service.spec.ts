@@ -1,12 +1,44 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { join } from 'path';
 import { WhatsappService } from './whatsapp.service';
+import { WhatsappCloudApiClient } from '../cloud-api/whatsapp-cloud-api.client';
+import { CustomerServiceWindowService } from './customer-service-window.service';
+import { ConversationService } from '../../conversation/conversation.service';
+import { loadCatalogFile } from '../../catalog/studio-services';
 
 describe('WhatsappService', () => {
   let service: WhatsappService;
+  let cloudApiClient: { send: jest.Mock; uploadMedia: jest.Mock };
+  let conversationService: { registerChannel: jest.Mock };
+  let customerServiceWindow: { isWindowOpen: jest.Mock };
 
   beforeEach(async () => {
+    cloudApiClient = {
+      send: jest.fn().mockResolvedValue({
+        status: 'success',
+        messageId: 'wamid.out',
+        to: '254700000001',
+      }),
+      uploadMedia: jest
+        .fn()
+        .mockResolvedValue({ status: 'success', id: 'MEDIA_ID' }),
+    };
+    conversationService = { registerChannel: jest.fn() };
+
+    customerServiceWindow = {
+      isWindowOpen: jest.fn().mockResolvedValue(true),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [WhatsappService],
+      providers: [
+        WhatsappService,
+        { provide: WhatsappCloudApiClient, useValue: cloudApiClient },
+        {
+          provide: CustomerServiceWindowService,
+          useValue: customerServiceWindow,
+        },
+        { provide: ConversationService, useValue: conversationService },
+      ],
     }).compile();
 
     service = module.get<WhatsappService>(WhatsappService);
@@ -15,4 +47,366 @@ describe('WhatsappService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('sends the service menu as a list message', async () => {
+    await service.sendServiceMenu('254700000001', loadCatalogFile());
+
+    const { interactive } = cloudApiClient.send.mock.calls[0][0];
+    expect(interactive.type).toBe('list');
+    expect(interactive.action.button).toBe('View services');
+    expect(
+      interactive.action.sections.flatMap((section) =>
+        section.rows.map((row) => row.id),
+      ),
+    ).toEqual([
+      'branding_service',
+      'illustrations_comics',
+      'software_dev_service',
+      'models_service',
+      'talk_to_human',
+      'book_consultation',
+    ]);
+  });
+
+  it('registers itself as the whatsapp channel', () => {
+    service.onModuleInit();
+
+    expect(conversationService.registerChannel).toHaveBeenCalledWith(service);
+  });
+
+  describe('send', () => {
+    it('sends replies as formatted text quoting the user', async () => {
+      await service.send('254700000001', {
+        type: 'text',
+        text: 'We do **logos**!',
+        replyTo: 'wamid.in',
+      });
+
+      expect(cloudApiClient.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: { message_id: 'wamid.in' },
+          text: { preview_url: false, body: 'We do *logos*!' },
+        }),
+      );
+    });
+
+    it('sends menus as list messages with the given services', async () => {
+      await service.send('254700000001', {
+        type: 'menu',
+        text: '**Welcome!**',
+        services: loadCatalogFile().slice(0, 2),
+      });
+
+      const { interactive } = cloudApiClient.send.mock.calls[0][0];
+      expect(interactive.body.text).toBe('*Welcome!*');
+      expect(interactive.action.sections).toEqual([
+        expect.objectContaining({
+          title: 'Design',
+          rows: [
+            expect.objectContaining({ id: 'branding_service' }),
+            expect.objectContaining({ id: 'illustrations_comics' }),
+          ],
+        }),
+      ]);
+    });
+
+    it('sends a few choices as reply buttons', async () => {
+      await service.send('254700000001', {
+        type: 'choices',
+        text: 'Book **Mon 19 Oct, 10:00**?',
+        choices: [
+          { id: 'booking:confirm:1', title: '✅ Confirm' },
+          { id: 'booking:slots', title: '🔁 Other times' },
+        ],
+      });
+
+      const { interactive } = cloudApiClient.send.mock.calls[0][0];
+      expect(interactive.type).toBe('button');
+      expect(interactive.body.text).toBe('Book *Mon 19 Oct, 10:00*?');
+      expect(interactive.action.buttons).toEqual([
+        {
+          type: 'reply',
+          reply: { id: 'booking:confirm:1', title: '✅ Confirm' },
+        },
+        {
+          type: 'reply',
+          reply: { id: 'booking:slots', title: '🔁 Other times' },
+        },
+      ]);
+    });
+
+    it('sends more choices as a list', async () => {
+      const choices = [1, 2, 3, 4].map((hour) => ({
+        id: `booking:slot:${hour}`,
+        title: `Mon 19 Oct, 0${hour}:00`,
+        description: '60 minute call',
+      }));
+
+      await service.send('254700000001', {
+        type: 'choices',
+        text: 'Pick a time',
+        choices,
+        button: 'See times',
+      });
+
+      const { interactive } = cloudApiClient.send.mock.calls[0][0];
+      expect(interactive.type).toBe('list');
+      expect(interactive.action).toEqual({
+        button: 'See times',
+        sections: [{ rows: choices }],
+      });
+    });
+
+    it('sends a template in place of menus once the window has closed', async () => {
+      customerServiceWindow.isWindowOpen.mockResolvedValue(false);
+
+      const result = await service.send('254700000001', {
+        type: 'choices',
+        text: 'Book **Mon 19 Oct, 10:00**?',
+        choices: [{ id: 'booking:confirm:1', title: '✅ Confirm' }],
+      });
+
+      expect(result).toEqual(expect.objectContaining({ mode: 'template' }));
+      expect(cloudApiClient.send).toHaveBeenCalledTimes(1);
+      expect(
+        cloudApiClient.send.mock.calls[0][0].template.components[0].parameters,
+      ).toEqual([
+        {
+          type: 'text',
+          text: 'Book *Mon 19 Oct, 10:00*? Reply to this message to continue.',
+        },
+      ]);
+    });
+
+    it('sends a template in place of media Meta refuses', async () => {
+      cloudApiClient.send.mockResolvedValueOnce({
+        status: 'error',
+        error: 'Re-engagement message',
+        code: 131047,
+        category: 're_engagement',
+      });
+
+      const result = await service.send('254700000001', {
+        type: 'image',
+        filePath: join(
+          __dirname,
+          '..',
+          '..',
+          'openai',
+          'fixtures',
+          'sketch.png',
+        ),
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ status: 'success', mode: 'template' }),
+      );
+      expect(cloudApiClient.send.mock.calls.map(([{ type }]) => type)).toEqual([
+        'image',
+        'template',
+      ]);
+    });
+
+    it('has nothing to send for typing indicators', async () => {
+      expect(await service.send('254700000001', { type: 'typing' })).toEqual({
+        status: 'success',
+      });
+      expect(cloudApiClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('media', () => {
+    const imagePath = join(
+      __dirname,
+      '..',
+      '..',
+      'openai',
+      'fixtures',
+      'sketch.png',
+    );
+
+    it('uploads generated images and sends them by media ID', async () => {
+      await service.sendImage('254700000001', imagePath, 'wamid.in');
+
+      expect(cloudApiClient.uploadMedia).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'image/png',
+        'sketch.png',
+      );
+      expect(cloudApiClient.send.mock.calls[0][0].image).toEqual({
+        id: 'MEDIA_ID',
+      });
+    });
+
+    it('can still send media by link', async () => {
+      process.env.SERVER_URL = 'https://bot.studiolibra.example';
+      service.configuration.mediaMode = 'link';
+
+      await service.sendAudio('254700000001', '/srv/audioFiles/reply.mp3');
+
+      expect(cloudApiClient.uploadMedia).not.toHaveBeenCalled();
+      expect(cloudApiClient.send.mock.calls[0][0].audio).toEqual({
+        link: 'https://bot.studiolibra.example/reply.mp3',
+      });
+    });
+
+    it('sends documents under their own file name', async () => {
+      await service.send('254700000001', {
+        type: 'document',
+        filePath: imagePath,
+        fileName: 'Moodboard.png',
+        caption: 'Here is the moodboard',
+      });
+
+      expect(cloudApiClient.uploadMedia).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'image/png',
+        'sketch.png',
+      );
+      expect(cloudApiClient.send.mock.calls[0][0].document).toEqual({
+        id: 'MEDIA_ID',
+        caption: 'Here is the moodboard',
+        filename: 'Moodboard.png',
+      });
+    });
+
+    it('returns upload failures without sending', async () => {
+      cloudApiClient.uploadMedia.mockResolvedValue({
+        status: 'error',
+        error: 'Media upload error',
+        code: 131053,
+        category: 'media',
+      });
+
+      const result = await service.sendImage('254700000001', imagePath);
+
+      expect(result).toEqual(expect.objectContaining({ category: 'media' }));
+      expect(cloudApiClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendFormattedText', () => {
+    it('converts Markdown and sends long replies in order', async () => {
+      const paragraph = (n: number) =>
+        `**Part ${n}** ${'lorem ipsum '.repeat(200)}`.trim();
+
+      await service.sendFormattedText(
+        '254700000001',
+        [1, 2, 3].map(paragraph).join('\n\n'),
+        'wamid.in',
+      );
+
+      const messages = cloudApiClient.send.mock.calls.map(
+        ([message]) => message,
+      );
+      expect(messages.map(({ text }) => text.body.slice(0, 8))).toEqual([
+        '*Part 1*',
+        '*Part 2*',
+        '*Part 3*',
+      ]);
+      expect(messages[0].context).toEqual({ message_id: 'wamid.in' });
+      expect(messages[1].context).toBeUndefined();
+    });
+
+    it('stops at the first message that fails', async () => {
+      cloudApiClient.send.mockResolvedValueOnce({
+        status: 'error',
+        error: 'Recipient not allowed',
+        category: 'recipient',
+      });
+
+      const result = await service.sendFormattedText(
+        '254700000001',
+        `${'a'.repeat(3000)}\n\n${'b'.repeat(3000)}`,
+      );
+
+      expect(result.status).toBe('error');
+      expect(cloudApiClient.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendTextOrTemplate', () => {
+    it('sends free-form text while the window is open', async () => {
+      const result = await service.sendText('254700000001', 'Hi!', 'wamid.in');
+
+      expect(result).toEqual(expect.objectContaining({ mode: 'free_form' }));
+      expect(cloudApiClient.send.mock.calls[0][0].type).toBe('text');
+    });
+
+    it('switches to the default template once the window has closed', async () => {
+      customerServiceWindow.isWindowOpen.mockResolvedValue(false);
+
+      const result = await service.sendText(
+        '254700000001',
+        'Your logo drafts are ready!\nTake a look.',
+      );
+
+      expect(result).toEqual({
+        status: 'success',
+        messageId: 'wamid.out',
+        to: '254700000001',
+        mode: 'template',
+        template: 'studio_libra_conversation_update',
+      });
+      expect(cloudApiClient.send.mock.calls[0][0].template).toEqual({
+        name: 'studio_libra_conversation_update',
+        language: { code: 'en' },
+        components: [
+          {
+            type: 'body',
+            parameters: [
+              {
+                type: 'text',
+                text: 'Your logo drafts are ready! Take a look.',
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('switches to a template when Meta refuses free-form text', async () => {
+      cloudApiClient.send.mockResolvedValueOnce({
+        status: 'error',
+        error: 'Re-engagement message',
+        code: 131047,
+        category: 're_engagement',
+      });
+
+      const result = await service.sendText('254700000001', 'Hi!');
+
+      expect(result.mode).toBe('template');
+      expect(cloudApiClient.send.mock.calls[1][0].type).toBe('template');
+    });
+
+    it('fills the parameters of a chosen template', async () => {
+      customerServiceWindow.isWindowOpen.mockResolvedValue(false);
+
+      await service.sendTextOrTemplate('254700000001', 'Reminder', {
+        template: 'consultation_reminder',
+        parameters: { customer_name: 'Amina', date: '14 June', time: '10:00' },
+      });
+
+      expect(
+        cloudApiClient.send.mock.calls[0][0].template.components[0].parameters,
+      ).toHaveLength(3);
+    });
+
+    it('reports templates that cannot be sent', async () => {
+      customerServiceWindow.isWindowOpen.mockResolvedValue(false);
+
+      const result = await service.sendTextOrTemplate('254700000001', 'Hi', {
+        template: 'consultation_reminder',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'error',
+          mode: 'template',
+          template: 'studio_libra_consultation_reminder',
+        }),
+      );
+      expect(cloudApiClient.send).not.toHaveBeenCalled();
+    });
+  });
 });
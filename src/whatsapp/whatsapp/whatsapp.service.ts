@@ -1,393 +1,468 @@
-import { BadRequestException, Injectable, Logger } from '@nestjs/common';
-import { catchError, lastValueFrom, map } from 'rxjs';
-import { HttpService } from '@nestjs/axios';
-import { OpenaiService } from '../../openai/openai.service';
-import axios, { AxiosRequestConfig } from 'axios';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import * as path from 'path';
-import { writeFileSync, existsSync, mkdirSync } from 'fs';
-import { UserContextService } from '../../user-context/user-context.service';
+import { writeFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { WhatsappCloudApiClient } from '../cloud-api/whatsapp-cloud-api.client';
+import {
+  buildAudioMessage,
+  buildDocumentMessage,
+  buildImageMessage,
+  buildListMessage,
+  buildReplyButtonsMessage,
+  buildTemplateMessage,
+  buildTextMessage,
+} from '../cloud-api/whatsapp-message.builders';
+import {
+  groupServicesBySection,
+  StudioService,
+} from '../../catalog/studio-services';
+import {
+  WhatsappMediaSource,
+  WhatsappMediaUploadResult,
+  WhatsappSendResult,
+  WhatsappTextSendResult,
+} from '../cloud-api/whatsapp-cloud-api.types';
+import { CustomerServiceWindowService } from './customer-service-window.service';
+import {
+  formatForChannel,
+  toWhatsappFormatting,
+} from '../../formatting/message-formatting';
+import {
+  buildTemplateComponents,
+  loadMessageTemplates,
+  MessageTemplatesConfig,
+} from './message-templates';
+import { ConversationService } from '../../conversation/conversation.service';
+import {
+  ChannelSendResult,
+  Choice,
+  ConversationChannel,
+  MediaDownloadResult,
+  OutboundMessage,
+} from '../../conversation/conversation.types';
+
+const MEDIA_MIME_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.pdf': 'application/pdf',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+  // Calendar files aren't a document type WhatsApp takes, they go as text
+  // and keep their .ics name
+  '.ics': 'text/plain',
+};
+
+const MAX_REPLY_BUTTONS = 3;
+
+// Everything but text needs the customer service window open
+type FreeFormMessage = Exclude<OutboundMessage, { type: 'text' | 'typing' }>;
+
+// What the template says in place of a menu or media once the window has
+// closed. Replying to it opens the window again.
+function templateText(message: FreeFormMessage) {
+  const reply = 'Reply to this message to continue.';
+  switch (message.type) {
+    case 'menu':
+    case 'choices':
+      return `${toWhatsappFormatting(message.text)}\n${reply}`;
+    case 'image':
+      return `${message.caption ?? 'We have an image for you.'}\n${reply}`;
+    case 'audio':
+      return `We have a voice note for you.\n${reply}`;
+    case 'document':
+      return `${message.caption ?? 'We have a document for you.'}\n${reply}`;
+  }
+}
+
+export interface TextOrTemplateOptions {
+  replyTo?: string;
+  // ID of the template in config/whatsapp-templates.json, defaults to the
+  // configured defaultTemplate
+  template?: string;
+  // Template parameters, the text itself is passed as "message"
+  parameters?: Record<string, string>;
+}
 
 @Injectable()
-export class WhatsappService {
+export class WhatsappService implements ConversationChannel, OnModuleInit {
   constructor(
-    private readonly openaiService: OpenaiService,
-    private readonly userContextService: UserContextService,
+    private readonly cloudApiClient: WhatsappCloudApiClient,
+    private readonly customerServiceWindow: CustomerServiceWindowService,
+    private readonly conversationService: ConversationService,
   ) {}
 
-  private readonly httpService = new HttpService();
+  readonly channel = 'whatsapp';
+
   private readonly logger = new Logger(WhatsappService.name);
-  private readonly url = `https://graph.facebook.com/${process.env.WHATSAPP_CLOUD_API_VERSION}/${process.env.WHATSAPP_CLOUD_API_PHONE_NUMBER_ID}/messages`;
-  private readonly config = {
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${process.env.WHATSAPP_CLOUD_API_ACCESS_TOKEN}`,
-    },
+  private messageTemplates: MessageTemplatesConfig;
+
+  readonly configuration = {
+    // 'upload' sends generated media by media ID. 'link' sends a URL under
+    // SERVER_URL instead, which only works if the server is publicly
+    // reachable and serves the media folders.
+    mediaMode: process.env.WHATSAPP_MEDIA_MODE === 'link' ? 'link' : 'upload',
   };
 
-  async sendWhatsAppMessage(
+  onModuleInit() {
+    this.conversationService.registerChannel(this);
+  }
+
+  // Delivers what the conversation engine wants sent
+  async send(
     messageSender: string,
-    userInput: string,
-    messageID: string,
-  ) {
-    // Check if this is a new conversation (no context exists)
-    const conversationHistory = await this.userContextService.getConversationHistory(messageSender);
-    
-    // If this is a new user or has no conversation history, send welcome message
-    if (conversationHistory.length === 0) {
-      await this.sendWelcomeMessage(messageSender, messageID);
-      return;
+    message: OutboundMessage,
+  ): Promise<ChannelSendResult> {
+    switch (message.type) {
+      case 'text':
+        return this.sendFormattedText(
+          messageSender,
+          message.text,
+          message.replyTo,
+        );
+      case 'typing':
+        // Marking the message as read is all the feedback WhatsApp gets
+        return { status: 'success' };
+      default:
+        return this.sendInWindow(
+          messageSender,
+          () => this.sendFreeForm(messageSender, message),
+          templateText(message),
+        );
     }
+  }
 
-    const aiResponse = await this.openaiService.generateAIResponse(
-      messageSender,
-      userInput,
-    );
+  // Menus and media only go out while the window is open
+  private async sendFreeForm(
+    messageSender: string,
+    message: FreeFormMessage,
+  ): Promise<WhatsappSendResult> {
+    switch (message.type) {
+      case 'menu':
+        return this.sendServiceMenu(
+          messageSender,
+          message.services,
+          toWhatsappFormatting(message.text),
+          message.replyTo,
+          message.button,
+        );
+      case 'choices':
+        return this.sendChoices(
+          messageSender,
+          message.choices,
+          toWhatsappFormatting(message.text),
+          message.replyTo,
+          message.button,
+        );
+      case 'image':
+        return this.sendImage(
+          messageSender,
+          message.filePath,
+          message.replyTo,
+          message.caption,
+        );
+      case 'audio':
+        return this.sendAudio(messageSender, message.filePath);
+      case 'document':
+        return this.sendDocument(messageSender, message.filePath, {
+          replyTo: message.replyTo,
+          caption: message.caption,
+          filename: message.fileName ?? path.basename(message.filePath),
+        });
+    }
+  }
 
-    const data = JSON.stringify({
-      messaging_product: 'whatsapp',
-      recipient_type: 'individual',
-      to: messageSender,
-      context: {
-        message_id: messageID,
-      },
-      type: 'text',
-      text: {
-        preview_url: false,
-        body: aiResponse,
-      },
-    });
+  async sendText(messageSender: string, body: string, messageID?: string) {
+    return this.sendTextOrTemplate(messageSender, body, { replyTo: messageID });
+  }
 
-    try {
-      const response = this.httpService
-        .post(this.url, data, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException(
-              'Error Posting To WhatsApp Cloud API',
-            );
-          }),
-        );
+  // For model output: converts its Markdown to WhatsApp formatting and
+  // splits it into as many messages as needed, sent one after the other
+  // so they arrive in order
+  async sendFormattedText(
+    messageSender: string,
+    markdown: string,
+    messageID?: string,
+  ): Promise<WhatsappTextSendResult> {
+    const messages = formatForChannel(markdown, 'whatsapp');
 
-      const messageSendingStatus = await lastValueFrom(response);
-      this.logger.log('Message Sent. Status:', messageSendingStatus);
-    } catch (error) {
-      this.logger.error(error);
-      return 'Axle broke!! Abort mission!!';
+    // A single template is enough once the window has closed
+    if (
+      messages.length > 1 &&
+      !(await this.customerServiceWindow.isWindowOpen(messageSender))
+    ) {
+      return this.sendTextOrTemplate(messageSender, messages.join('\n\n'));
+    }
+
+    let result: WhatsappTextSendResult;
+    for (const [index, message] of messages.entries()) {
+      // Only the first message quotes the one we are replying to
+      result = await this.sendText(
+        messageSender,
+        message,
+        index === 0 ? messageID : undefined,
+      );
+      if (result.status === 'error') {
+        break;
+      }
     }
+    return result;
   }
 
-  async sendWelcomeMessage(messageSender: string, messageID: string) {
-    try {
-      // First welcome message with initial buttons
-      const welcomeData = JSON.stringify({
-        messaging_product: 'whatsapp',
-        recipient_type: 'individual',
-        to: messageSender,
-        context: {
-          message_id: messageID,
-        },
-        type: 'interactive',
-        interactive: {
-          type: 'button',
-          body: {
-            text: 'Hi! Welcome to Studio Libra 👋\nWhat would you like to explore?'
-          },
-          action: {
-            buttons: [
-              {
-                type: 'reply',
-                reply: {
-                  id: 'branding_service',
-                  title: 'Branding'
-                }
-              },
-              {
-                type: 'reply',
-                reply: {
-                  id: 'software_dev_service',
-                  title: 'Software Dev'
-                }
-              },
-              {
-                type: 'reply',
-                reply: {
-                  id: 'more_options',
-                  title: 'More Options'
-                }
-              }
-            ]
-          }
-        }
+  // Free-form text while the 24-hour customer service window is open,
+  // the configured template once it has closed
+  async sendTextOrTemplate(
+    messageSender: string,
+    body: string,
+    options: TextOrTemplateOptions = {},
+  ): Promise<WhatsappTextSendResult> {
+    return this.sendInWindow(
+      messageSender,
+      () =>
+        this.cloudApiClient.send(
+          buildTextMessage(messageSender, body, { replyTo: options.replyTo }),
+        ),
+      body,
+      options,
+    );
+  }
+
+  // Sends a free-form message while the window is open and the template
+  // with the given text once it has closed, so nothing is sent only for
+  // Meta to refuse it
+  private async sendInWindow(
+    messageSender: string,
+    sendFreeForm: () => Promise<WhatsappSendResult>,
+    body: string,
+    options: Pick<TextOrTemplateOptions, 'template' | 'parameters'> = {},
+  ): Promise<WhatsappTextSendResult> {
+    const sendTemplate = () =>
+      this.sendTemplate(messageSender, options.template, {
+        message: body,
+        ...options.parameters,
       });
-      
-      const response = this.httpService
-        .post(this.url, welcomeData, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException(
-              'Error Posting Welcome Message To WhatsApp Cloud API',
-            );
-          }),
-        );
 
-      const welcomeMessageStatus = await lastValueFrom(response);
-      this.logger.log('Welcome Message Sent. Status:', welcomeMessageStatus);
-      
-      // Save initial system context
-      await this.userContextService.saveToContext(
-        'User started conversation with Studio Libra',
-        'assistant',
-        messageSender
+    if (!(await this.customerServiceWindow.isWindowOpen(messageSender))) {
+      this.logger.log(
+        `Customer service window closed for ${messageSender}, sending a template`,
       );
-      
-      return welcomeMessageStatus;
-    } catch (error) {
-      this.logger.error(error);
-      return 'Error sending welcome message';
+      return sendTemplate();
+    }
+
+    this.logger.log(
+      `Customer service window open for ${messageSender}, sending a free-form message`,
+    );
+    const result = await sendFreeForm();
+
+    // Meta knows better than our records when the window has closed
+    if (result.status === 'error' && result.category === 're_engagement') {
+      this.logger.log(
+        `Free-form message to ${messageSender} was refused, sending a template`,
+      );
+      return sendTemplate();
     }
+
+    return { ...result, mode: 'free_form' };
   }
 
-  async sendMoreOptionsMessage(messageSender: string) {
+  async sendTemplate(
+    messageSender: string,
+    templateID?: string,
+    parameters: Record<string, string> = {},
+  ): Promise<WhatsappTextSendResult> {
+    let templateName: string;
     try {
-      const moreOptionsData = JSON.stringify({
-        messaging_product: 'whatsapp',
-        recipient_type: 'individual',
-        to: messageSender,
-        type: 'interactive',
-        interactive: {
-          type: 'button',
-          body: {
-            text: 'Here are more options:'
-          },
-          action: {
-            buttons: [
-              {
-                type: 'reply',
-                reply: {
-                  id: 'models_service',
-                  title: 'Models'
-                }
-              },
-              {
-                type: 'reply',
-                reply: {
-                  id: 'illustrations_comics',
-                  title: 'Illustrations & Comics'
-                }
-              },
-              {
-                type: 'reply',
-                reply: {
-                  id: 'talk_to_human',
-                  title: 'Talk to a human'
-                }
-              }
-            ]
-          }
-        }
-      });
-      
-      const response = this.httpService
-        .post(this.url, moreOptionsData, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException(
-              'Error Posting More Options To WhatsApp Cloud API',
-            );
-          }),
-        );
+      this.messageTemplates ??= loadMessageTemplates();
+      const { defaultTemplate, templates } = this.messageTemplates;
+      const definition = templates[templateID ?? defaultTemplate];
+      if (!definition) {
+        throw new Error(`Unknown template ${templateID ?? defaultTemplate}`);
+      }
 
-      const moreOptionsStatus = await lastValueFrom(response);
-      this.logger.log('More Options Message Sent. Status:', moreOptionsStatus);
-      
-      return moreOptionsStatus;
+      templateName = definition.name;
+      const result = await this.cloudApiClient.send(
+        buildTemplateMessage(
+          messageSender,
+          definition.name,
+          definition.language,
+          buildTemplateComponents(definition, parameters),
+        ),
+      );
+      return { ...result, mode: 'template', template: templateName };
     } catch (error) {
-      this.logger.error(error);
-      return 'Error sending more options message';
+      this.logger.error(`Error sending template: ${error.message}`);
+      return {
+        status: 'error',
+        error: error.message,
+        category: 'template',
+        mode: 'template',
+        template: templateName,
+      };
     }
   }
 
-  async getMediaUrl(
-    mediaID: string,
-  ): Promise<{ status: 'error' | 'success'; data: string }> {
-    const url = `https://graph.facebook.com/${process.env.WHATSAPP_CLOUD_API_VERSION}/${mediaID}`;
-    try {
-      const response = await axios.get(url, this.config);
-      return { status: 'success', data: response.data.url };
-    } catch (e) {
-      this.logger.error('Error fetching url', e);
-      return { status: 'error', data: 'Error fetching Media Url' };
-    }
+  // Reply buttons are capped at three, so the menu is a list message
+  async sendServiceMenu(
+    messageSender: string,
+    services: StudioService[],
+    body = 'Here is what we can help you with:',
+    messageID?: string,
+    button = 'View services',
+  ) {
+    const sections = groupServicesBySection(services).map(
+      ({ title, items }) => ({
+        title,
+        rows: items.map(({ id, title, description }) => ({
+          id,
+          title,
+          description,
+        })),
+      }),
+    );
+
+    return this.cloudApiClient.send(
+      buildListMessage(messageSender, body, button, sections, {
+        replyTo: messageID,
+      }),
+    );
+  }
+
+  // A few choices fit in reply buttons, more need a list
+  async sendChoices(
+    messageSender: string,
+    choices: Choice[],
+    body: string,
+    messageID?: string,
+    button = 'Choose',
+  ) {
+    const options = { replyTo: messageID };
+    return this.cloudApiClient.send(
+      choices.length <= MAX_REPLY_BUTTONS
+        ? buildReplyButtonsMessage(
+            messageSender,
+            body,
+            choices.map(({ id, title }) => ({ id, title })),
+            options,
+          )
+        : buildListMessage(
+            messageSender,
+            body,
+            button,
+            [{ rows: choices }],
+            options,
+          ),
+    );
   }
 
-  async downloadMedia(fileID: string) {
-    const config: AxiosRequestConfig = {
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${process.env.WHATSAPP_CLOUD_API_ACCESS_TOKEN}`,
-      },
-      responseType: 'arraybuffer',
-    };
+  async downloadMedia(
+    fileID: string,
+    folderName = process.env.AUDIO_FILES_FOLDER,
+  ): Promise<MediaDownloadResult> {
+    const media = await this.cloudApiClient.downloadMedia(fileID);
+    if (media.status === 'error') {
+      return { status: 'error', data: 'Error fetching Media Url' };
+    }
 
     try {
-      const url = await this.getMediaUrl(fileID);
-      this.logger.log('Our url', url);
-      if (url.status === 'error') {
-        throw new Error('Failed to get media url');
-      }
-      const response = await axios.get(url.data, config);
-
-      const fileType = response?.headers['content-type'];
-      const fileExtension = fileType?.split('/')[1];
+      const fileExtension = media.mimeType?.split('/')[1]?.split(';')[0];
 
       const fileName = `${fileID}.${fileExtension}`;
 
-      const folderName = process.env.AUDIO_FILES_FOLDER;
-
       const folderPath = path.join(process.cwd(), folderName);
       const filePath = path.join(folderPath, fileName);
 
-      //check if the audio folder exists, if not create
+      //check if the media folder exists, if not create
       if (!existsSync(folderPath)) {
         mkdirSync(folderPath);
       }
 
-      writeFileSync(filePath, response.data);
+      writeFileSync(filePath, media.data);
       return { status: 'success', data: filePath };
     } catch (e) {
-      this.logger.error('Error fetching url', e);
-      return { status: 'error', data: 'Error fetching Media Url' };
+      this.logger.error('Error saving media', e);
+      return { status: 'error', data: 'Error saving Media' };
     }
   }
 
-  async sendImageByUrl(
+  async sendImage(
     messageSender: string,
-    fileName: string,
-    messageID: string,
+    filePath: string,
+    messageID?: string,
+    caption?: string,
   ) {
-    const imageUrl = `${process.env.SERVER_URL}/${fileName}`;
-    const data = JSON.stringify({
-      messaging_product: 'whatsapp',
-      recipient_type: 'individual',
-      to: messageSender,
-      context: {
-        message_id: messageID,
-      },
-      type: 'image',
-      image: {
-        link: imageUrl,
-      },
-    });
-
-    try {
-      const response = this.httpService
-        .post(this.url, data, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException(
-              'Error Posting To WhatsApp Cloud API',
-            );
-          }),
-        );
+    const media = await this.mediaSource(filePath);
+    if (media.status === 'error') {
+      return media;
+    }
 
-      const messageSendingStatus = await lastValueFrom(response);
+    return this.cloudApiClient.send(
+      buildImageMessage(messageSender, media.source, {
+        replyTo: messageID,
+        caption,
+      }),
+    );
+  }
 
-      return `Image sent successfully, response: ${messageSendingStatus}`;
-    } catch (error) {
-      this.logger.error(error);
-      return 'Axle broke!! Error Sending Image!!';
+  async sendAudio(messageSender: string, filePath: string) {
+    const media = await this.mediaSource(filePath);
+    if (media.status === 'error') {
+      return media;
     }
-  }
 
-  async sendAudioByUrl(messageSender: string, fileName: string) {
-    const audioUrl = `${process.env.SERVER_URL}/${fileName}`;
-    const data = JSON.stringify({
-      messaging_product: 'whatsapp',
-      recipient_type: 'individual',
-      to: messageSender,
-      type: 'audio',
-      audio: {
-        link: audioUrl,
-      },
-    });
+    return this.cloudApiClient.send(
+      buildAudioMessage(messageSender, media.source),
+    );
+  }
 
-    try {
-      const response = this.httpService
-        .post(this.url, data, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException(
-              'Error Posting To WhatsApp Cloud API',
-            );
-          }),
-        );
+  async sendDocument(
+    messageSender: string,
+    filePath: string,
+    options: { replyTo?: string; caption?: string; filename?: string } = {},
+  ) {
+    const media = await this.mediaSource(filePath);
+    if (media.status === 'error') {
+      return media;
+    }
 
-      const messageSendingStatus = await lastValueFrom(response);
+    return this.cloudApiClient.send(
+      buildDocumentMessage(messageSender, media.source, options),
+    );
+  }
 
-      return `Audio sent successfully, response: ${messageSendingStatus}`;
-    } catch (error) {
-      this.logger.error(error);
-      return 'Axle broke!! Error Sending Audio!!';
+  private async mediaSource(
+    filePath: string,
+  ): Promise<
+    | { status: 'success'; source: WhatsappMediaSource }
+    | Extract<WhatsappMediaUploadResult, { status: 'error' }>
+  > {
+    const fileName = path.basename(filePath);
+    if (this.configuration.mediaMode === 'link') {
+      return {
+        status: 'success',
+        source: { link: `${process.env.SERVER_URL}/${fileName}` },
+      };
     }
-  }
-  
-  async markMessageAsRead(messageID: string) {
-    const data = JSON.stringify({
-      messaging_product: 'whatsapp',
-      status: 'read',
-      message_id: messageID,
-    });
 
     try {
-      const response = this.httpService
-        .post(this.url, data, this.config)
-        .pipe(
-          map((res) => {
-            return res.data;
-          }),
-        )
-        .pipe(
-          catchError((error) => {
-            this.logger.error(error);
-            throw new BadRequestException('Error Marking Message As Read');
-          }),
-        );
-
-      const messageStatus = await lastValueFrom(response);
-      this.logger.log('Message Marked As Read. Status:', messageStatus);
+      const upload = await this.cloudApiClient.uploadMedia(
+        readFileSync(filePath),
+        MEDIA_MIME_TYPES[path.extname(fileName).toLowerCase()] ??
+          'application/octet-stream',
+        fileName,
+      );
+      return upload.status === 'success'
+        ? { status: 'success', source: { id: upload.id } }
+        : upload;
     } catch (error) {
-      this.logger.error(error);
-      return 'Axle broke!! Abort mission!!';
+      this.logger.error(`Error reading media ${filePath}`, error);
+      return { status: 'error', error: error.message, category: 'media' };
     }
   }
-}
\ No newline at end of file
+
+  async markMessageAsRead(messageID: string) {
+    return this.cloudApiClient.markAsRead(messageID);
+  }
+}